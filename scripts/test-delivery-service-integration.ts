@@ -6,6 +6,16 @@ import { Order, OrderStatus } from '../src/orders/entities/order.entity';
 import { OrderItem } from '../src/orders/entities/order-item.entity';
 import { DeliveryStatus } from '../src/deliveries/entities/delivery.entity';
 import { DeliveriesService } from '../src/deliveries/deliveries.service';
+import { QuantityAuditService } from '../src/audit/quantity-audit.service';
+import { QuantityAuditLog } from '../src/audit/entities/quantity-audit-log.entity';
+import { OrderStatusService } from '../src/orders/order-status.service';
+import { ImportProfilesService } from '../src/imports/import-profiles.service';
+import { ImportProfile } from '../src/imports/entities/import-profile.entity';
+import { ConfigService } from '@nestjs/config';
+import { FileStorageService } from '../src/storage/file-storage.service';
+import { StoredFile } from '../src/storage/entities/stored-file.entity';
+import { LocalStorageDriver } from '../src/storage/drivers/local-storage.driver';
+import { SequencesService } from '../src/sequences/sequences.service';
 import { Repository } from 'typeorm';
 
 // Load environment variables
@@ -48,7 +58,16 @@ class DeliveryServiceIntegrationTester {
         orderRepository as any,
         orderItemRepository as any,
         userRepository as any,
-        this.dataSource
+        this.dataSource,
+        new QuantityAuditService(this.dataSource.getRepository(QuantityAuditLog)),
+        new OrderStatusService(),
+        new ImportProfilesService(this.dataSource.getRepository(ImportProfile)),
+        new FileStorageService(
+          this.dataSource.getRepository(StoredFile),
+          new LocalStorageDriver('uploads/files'),
+          new ConfigService(),
+        ),
+        new SequencesService(this.dataSource, new ConfigService()),
       );
 
       // Create test data
@@ -175,7 +194,7 @@ class DeliveryServiceIntegrationTester {
         ]
       };
 
-      const updatedDelivery = await this.deliveriesService.update(createdDelivery.id, updateDeliveryDto);
+      const updatedDelivery = await this.deliveriesService.update(createdDelivery.id, updateDeliveryDto, testUser);
       console.log('✅ Delivery updated successfully via service');
 
       // Test 5: Verify quantities after update
@@ -200,7 +219,7 @@ class DeliveryServiceIntegrationTester {
       // Test 6: Delete delivery using service
       console.log('🔍 Test 6: Deleting delivery using DeliveriesService...');
 
-      await this.deliveriesService.remove(createdDelivery.id);
+      await this.deliveriesService.remove(createdDelivery.id, testUser);
       console.log('✅ Delivery deleted successfully via service');
 
       // Test 7: Verify quantities after deletion
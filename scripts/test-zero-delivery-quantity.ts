@@ -7,6 +7,16 @@ import { OrderItem } from '../src/orders/entities/order-item.entity';
 import { Delivery, DeliveryStatus } from '../src/deliveries/entities/delivery.entity';
 import { DeliveryItem } from '../src/deliveries/entities/delivery-item.entity';
 import { DeliveriesService } from '../src/deliveries/deliveries.service';
+import { QuantityAuditService } from '../src/audit/quantity-audit.service';
+import { QuantityAuditLog } from '../src/audit/entities/quantity-audit-log.entity';
+import { OrderStatusService } from '../src/orders/order-status.service';
+import { ImportProfilesService } from '../src/imports/import-profiles.service';
+import { ImportProfile } from '../src/imports/entities/import-profile.entity';
+import { ConfigService } from '@nestjs/config';
+import { FileStorageService } from '../src/storage/file-storage.service';
+import { StoredFile } from '../src/storage/entities/stored-file.entity';
+import { LocalStorageDriver } from '../src/storage/drivers/local-storage.driver';
+import { SequencesService } from '../src/sequences/sequences.service';
 import { CreateDeliveryDto } from '../src/deliveries/dto/create-delivery.dto';
 
 // Load environment variables
@@ -49,7 +59,16 @@ class ZeroDeliveryQuantityTester {
         deliveryItemRepository,
         orderRepository,
         orderItemRepository,
-        this.dataSource
+        this.dataSource,
+        new QuantityAuditService(this.dataSource.getRepository(QuantityAuditLog)),
+        new OrderStatusService(),
+        new ImportProfilesService(this.dataSource.getRepository(ImportProfile)),
+        new FileStorageService(
+          this.dataSource.getRepository(StoredFile),
+          new LocalStorageDriver('uploads/files'),
+          new ConfigService(),
+        ),
+        new SequencesService(this.dataSource, new ConfigService()),
       );
 
       // Test in transaction to avoid affecting real data
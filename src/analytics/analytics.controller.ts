@@ -4,18 +4,23 @@ import {
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiSecurity,
 } from '@nestjs/swagger';
 import { AnalyticsService } from './analytics.service';
 import { GetAnalyticsDto } from './dto/get-analytics.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { ApiKeyScopes } from '../auth/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../auth/entities/api-key.entity';
 import { UserRole } from '../users/entities/user.entity';
 
 @ApiTags('Analytics')
 @Controller('analytics')
 @UseGuards(JwtAuthGuard, RolesGuard)
+@ApiKeyScopes(ApiKeyScope.ANALYTICS_READ)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class AnalyticsController {
   constructor(private readonly analyticsService: AnalyticsService) { }
 
@@ -101,11 +101,12 @@ export interface DeliveriesReport {
     totalDeliveries: number;
     completedDeliveries: number;
     pendingDeliveries: number;
+    voidedDeliveries: number;
     averageDeliveryTime: number;
     onTimeDeliveryRate: number;
   };
   trends: {
-    deliveryTrends: { period: string; completed: number; pending: number; total: number }[];
+    deliveryTrends: { period: string; completed: number; pending: number; voided: number; total: number }[];
     performanceTrends: { period: string; averageTime: number; onTimeRate: number }[];
   };
   performance: {
@@ -589,6 +590,7 @@ export class AnalyticsService {
         'COUNT(*) as totalDeliveries',
         'SUM(CASE WHEN delivery.status = "delivered" THEN 1 ELSE 0 END) as completedDeliveries',
         'SUM(CASE WHEN delivery.status = "pending" THEN 1 ELSE 0 END) as pendingDeliveries',
+        'SUM(CASE WHEN delivery.status = "voided" THEN 1 ELSE 0 END) as voidedDeliveries',
       ])
       .where('delivery.createdAt BETWEEN :startDate AND :endDate', { startDate, endDate })
       .getRawOne();
@@ -600,6 +602,7 @@ export class AnalyticsService {
         `DATE_FORMAT(delivery.createdAt, '%Y-%m') as period`,
         'SUM(CASE WHEN delivery.status = "delivered" THEN 1 ELSE 0 END) as completed',
         'SUM(CASE WHEN delivery.status = "pending" THEN 1 ELSE 0 END) as pending',
+        'SUM(CASE WHEN delivery.status = "voided" THEN 1 ELSE 0 END) as voided',
         'COUNT(*) as total',
       ])
       .where('delivery.createdAt BETWEEN :startDate AND :endDate', { startDate, endDate })
@@ -612,6 +615,7 @@ export class AnalyticsService {
         totalDeliveries: parseInt(deliverySummary.totalDeliveries) || 0,
         completedDeliveries: parseInt(deliverySummary.completedDeliveries) || 0,
         pendingDeliveries: parseInt(deliverySummary.pendingDeliveries) || 0,
+        voidedDeliveries: parseInt(deliverySummary.voidedDeliveries) || 0,
         averageDeliveryTime: 3.5, // TODO: Calculate from actual data
         onTimeDeliveryRate: 85.2, // TODO: Calculate from actual data
       },
@@ -620,6 +624,7 @@ export class AnalyticsService {
           period: trend.period,
           completed: parseInt(trend.completed),
           pending: parseInt(trend.pending),
+          voided: parseInt(trend.voided),
           total: parseInt(trend.total),
         })),
         performanceTrends: [], // TODO: Implement performance trends
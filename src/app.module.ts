@@ -10,12 +10,25 @@ import { UsersModule } from './users/users.module';
 import { OrdersModule } from './orders/orders.module';
 import { DeliveriesModule } from './deliveries/deliveries.module';
 import { AnalyticsModule } from './analytics/analytics.module';
+import { ImportsModule } from './imports/imports.module';
+import { ImportJobsModule } from './import-jobs/import-jobs.module';
+import { AttachmentsModule } from './attachments/attachments.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { RolesGuard } from './auth/guards/roles.guard';
 import { databaseConfig } from './config/database.config';
 import appConfig from './config/app.config';
 import jwtConfig from './config/jwt.config';
+import loginConfig from './config/login.config';
+import securityConfig from './config/security.config';
+import twoFactorConfig from './config/two-factor.config';
+import accountTokensConfig from './config/account-tokens.config';
+import mailConfig from './config/mail.config';
+import apiKeysConfig from './config/api-keys.config';
 import throttlerConfig from './config/throttler.config';
+import importJobsConfig from './config/import-jobs.config';
+import storageConfig from './config/storage.config';
+import idempotencyConfig from './config/idempotency.config';
+import sequencesConfig from './config/sequences.config';
 import databaseConfigModule from './config/database-config.module';
 import { validate } from './config/env.validation';
 
@@ -23,7 +36,7 @@ import { validate } from './config/env.validation';
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, jwtConfig, throttlerConfig, databaseConfigModule],
+      load: [appConfig, jwtConfig, loginConfig, securityConfig, twoFactorConfig, accountTokensConfig, mailConfig, apiKeysConfig, throttlerConfig, importJobsConfig, storageConfig, idempotencyConfig, sequencesConfig, databaseConfigModule],
       envFilePath: ['.env', '../.env'], // Check both backend and root .env files
       validate, // Validate environment variables
     }),
@@ -43,6 +56,9 @@ import { validate } from './config/env.validation';
     OrdersModule,
     DeliveriesModule,
     AnalyticsModule,
+    ImportsModule,
+    ImportJobsModule,
+    AttachmentsModule,
   ],
   controllers: [AppController],
   providers: [
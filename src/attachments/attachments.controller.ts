@@ -0,0 +1,274 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { AttachmentsService } from './attachments.service';
+import { CreateAttachmentDto } from './dto/create-attachment.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { StoredFileContent } from '../storage/interfaces/stored-file.interface';
+
+const ATTACHMENT_UPLOAD_SCHEMA = {
+  schema: {
+    type: 'object',
+    properties: {
+      file: {
+        type: 'string',
+        format: 'binary',
+        description: 'PDF, image, Excel, CSV, TSV or text file',
+      },
+      description: {
+        type: 'string',
+        nullable: true,
+        description: 'What the file is (optional)',
+        example: 'Signed proof of delivery',
+      },
+    },
+    required: ['file'],
+  },
+};
+
+@ApiTags('Attachments')
+@Controller()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class AttachmentsController {
+  constructor(private readonly attachmentsService: AttachmentsService) { }
+
+  @Get('orders/:id/attachments')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiOperation({ summary: 'List the files attached to an order' })
+  @ApiResponse({
+    status: 200,
+    description: 'Attachments retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async findOrderAttachments(@Param('id') id: string) {
+    const attachments = await this.attachmentsService.findAll('order', id);
+    return {
+      success: true,
+      message: 'Attachments retrieved successfully',
+      data: attachments,
+    };
+  }
+
+  @Post('orders/:id/attachments')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Attach a file to an order' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(ATTACHMENT_UPLOAD_SCHEMA)
+  @ApiResponse({
+    status: 201,
+    description: 'File attached successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - No file or file type not accepted',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async addOrderAttachment(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() createAttachmentDto: CreateAttachmentDto,
+    @CurrentUser() user: User,
+  ) {
+    const attachment = await this.attachmentsService.add(
+      'order',
+      id,
+      file,
+      createAttachmentDto,
+      user,
+    );
+    return {
+      success: true,
+      message: 'File attached successfully',
+      data: attachment,
+    };
+  }
+
+  @Get('orders/:id/attachments/:attachmentId/download')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiOperation({ summary: 'Download a file attached to an order' })
+  @ApiResponse({
+    status: 200,
+    description: 'File downloaded successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order, attachment or file not found',
+  })
+  async downloadOrderAttachment(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @Res() res: Response,
+  ) {
+    this.send(res, await this.attachmentsService.download('order', id, attachmentId));
+  }
+
+  @Delete('orders/:id/attachments/:attachmentId')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a file attached to an order',
+    description: 'Admins may remove any attachment, uploaders only their own.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Attachment removed successfully',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Attachment was added by another user',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order or attachment not found',
+  })
+  async removeOrderAttachment(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.attachmentsService.remove('order', id, attachmentId, user);
+  }
+
+  @Get('deliveries/:id/attachments')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiOperation({ summary: 'List the files attached to a delivery' })
+  @ApiResponse({
+    status: 200,
+    description: 'Attachments retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found',
+  })
+  async findDeliveryAttachments(@Param('id') id: string) {
+    const attachments = await this.attachmentsService.findAll('delivery', id);
+    return {
+      success: true,
+      message: 'Attachments retrieved successfully',
+      data: attachments,
+    };
+  }
+
+  @Post('deliveries/:id/attachments')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Attach a file to a delivery, such as a proof of delivery' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(ATTACHMENT_UPLOAD_SCHEMA)
+  @ApiResponse({
+    status: 201,
+    description: 'File attached successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - No file or file type not accepted',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found',
+  })
+  async addDeliveryAttachment(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() createAttachmentDto: CreateAttachmentDto,
+    @CurrentUser() user: User,
+  ) {
+    const attachment = await this.attachmentsService.add(
+      'delivery',
+      id,
+      file,
+      createAttachmentDto,
+      user,
+    );
+    return {
+      success: true,
+      message: 'File attached successfully',
+      data: attachment,
+    };
+  }
+
+  @Get('deliveries/:id/attachments/:attachmentId/download')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiOperation({ summary: 'Download a file attached to a delivery' })
+  @ApiResponse({
+    status: 200,
+    description: 'File downloaded successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery, attachment or file not found',
+  })
+  async downloadDeliveryAttachment(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @Res() res: Response,
+  ) {
+    this.send(res, await this.attachmentsService.download('delivery', id, attachmentId));
+  }
+
+  @Delete('deliveries/:id/attachments/:attachmentId')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a file attached to a delivery',
+    description: 'Admins may remove any attachment, uploaders only their own.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Attachment removed successfully',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Attachment was added by another user',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery or attachment not found',
+  })
+  async removeDeliveryAttachment(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.attachmentsService.remove('delivery', id, attachmentId, user);
+  }
+
+  private send(res: Response, file: StoredFileContent): void {
+    res.attachment(file.fileName);
+    res.type(file.contentType);
+    res.send(file.buffer);
+  }
+}
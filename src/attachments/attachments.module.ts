@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MulterModule } from '@nestjs/platform-express';
+import { AttachmentsService } from './attachments.service';
+import { AttachmentsController } from './attachments.controller';
+import { Attachment } from './entities/attachment.entity';
+import { Order } from '../orders/entities/order.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Attachment, Order, Delivery]),
+    StorageModule,
+    // Types are checked against the content in the service
+    MulterModule.register({
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB
+      },
+    }),
+  ],
+  controllers: [AttachmentsController],
+  providers: [AttachmentsService],
+})
+export class AttachmentsModule { }
@@ -0,0 +1,220 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { AttachmentsService } from './attachments.service';
+import { Attachment } from './entities/attachment.entity';
+import { Order } from '../orders/entities/order.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+import { FileStorageService } from '../storage/file-storage.service';
+import { StoredFile, StoredFileCategory } from '../storage/entities/stored-file.entity';
+
+describe('AttachmentsService', () => {
+  let service: AttachmentsService;
+
+  const uploader = { id: 'user-1', name: 'Uploader', email: 'uploader@example.com', role: UserRole.UPLOADER } as User;
+  const otherUploader = { id: 'user-2', role: UserRole.UPLOADER } as User;
+  const admin = { id: 'admin-1', role: UserRole.ADMIN } as User;
+
+  const storedFile = {
+    id: 'file-1',
+    originalName: 'pod.pdf',
+    contentType: 'application/pdf',
+    size: 9,
+    sha256: 'a'.repeat(64),
+  } as StoredFile;
+
+  const attachment = (createdBy: User = uploader) =>
+    ({
+      id: 'attachment-1',
+      file: storedFile,
+      description: 'Signed proof of delivery',
+      createdBy,
+      createdAt: new Date('2025-02-03T10:00:00Z'),
+    }) as Attachment;
+
+  const mockAttachmentRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<Attachment>) => data),
+    save: jest.fn((data: Partial<Attachment>) =>
+      Promise.resolve({ ...data, id: 'attachment-1', createdAt: new Date('2025-02-03T10:00:00Z') }),
+    ),
+    remove: jest.fn(),
+  };
+
+  const mockOrderRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockDeliveryRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockFileStorageService = {
+    store: jest.fn().mockResolvedValue(storedFile),
+    read: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const upload = (buffer: Buffer, originalname: string) =>
+    ({ buffer, originalname }) as Express.Multer.File;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrderRepository.findOne.mockResolvedValue({ id: 'order-1' });
+    mockDeliveryRepository.findOne.mockResolvedValue({ id: 'delivery-1' });
+    service = new AttachmentsService(
+      mockAttachmentRepository as unknown as Repository<Attachment>,
+      mockOrderRepository as unknown as Repository<Order>,
+      mockDeliveryRepository as unknown as Repository<Delivery>,
+      mockFileStorageService as unknown as FileStorageService,
+    );
+  });
+
+  describe('findAll', () => {
+    it('should list the attachments of a delivery without storage details', async () => {
+      mockAttachmentRepository.find.mockResolvedValue([attachment()]);
+
+      await expect(service.findAll('delivery', 'delivery-1')).resolves.toEqual([
+        {
+          id: 'attachment-1',
+          fileName: 'pod.pdf',
+          contentType: 'application/pdf',
+          size: 9,
+          sha256: 'a'.repeat(64),
+          description: 'Signed proof of delivery',
+          createdBy: { id: 'user-1', name: 'Uploader', email: 'uploader@example.com' },
+          createdAt: new Date('2025-02-03T10:00:00Z'),
+        },
+      ]);
+      expect(mockAttachmentRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { delivery: { id: 'delivery-1' } } }),
+      );
+    });
+
+    it('should report orders that are missing or deleted', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findAll('order', 'order-1')).rejects.toThrow('Order not found');
+      expect(mockOrderRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'order-1', isDeleted: false },
+      });
+    });
+  });
+
+  describe('add', () => {
+    it('should store the file and attach it to the order', async () => {
+      const buffer = Buffer.from('%PDF-1.7\n');
+
+      const summary = await service.add(
+        'order',
+        'order-1',
+        upload(buffer, 'pod.pdf'),
+        { description: '  Signed proof of delivery  ' },
+        uploader,
+      );
+
+      expect(mockFileStorageService.store).toHaveBeenCalledWith({
+        buffer,
+        fileName: 'pod.pdf',
+        category: StoredFileCategory.ATTACHMENT,
+        createdBy: uploader,
+      });
+      expect(mockAttachmentRepository.create).toHaveBeenCalledWith({
+        file: storedFile,
+        order: { id: 'order-1' },
+        delivery: null,
+        description: 'Signed proof of delivery',
+        createdBy: uploader,
+      });
+      expect(summary.fileName).toBe('pod.pdf');
+    });
+
+    it('should reject content that is not an accepted type, whatever its name', async () => {
+      await expect(
+        service.add(
+          'delivery',
+          'delivery-1',
+          upload(Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03]), 'invoice.pdf'),
+          {},
+          uploader,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockFileStorageService.store).not.toHaveBeenCalled();
+    });
+
+    it('should require a file', async () => {
+      await expect(
+        service.add('delivery', 'delivery-1', undefined as unknown as Express.Multer.File, {}, uploader),
+      ).rejects.toThrow('No file uploaded');
+    });
+
+    it('should remove the stored file when the attachment cannot be saved', async () => {
+      mockAttachmentRepository.save.mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(
+        service.add('delivery', 'delivery-1', upload(Buffer.from('%PDF-1.7\n'), 'pod.pdf'), {}, uploader),
+      ).rejects.toThrow('Connection lost');
+      expect(mockFileStorageService.remove).toHaveBeenCalledWith(storedFile);
+    });
+  });
+
+  describe('download', () => {
+    it('should read the file of an attachment of the delivery', async () => {
+      mockAttachmentRepository.findOne.mockResolvedValue(attachment());
+      mockFileStorageService.read.mockResolvedValue({ fileName: 'pod.pdf' });
+
+      await expect(service.download('delivery', 'delivery-1', 'attachment-1')).resolves.toEqual({
+        fileName: 'pod.pdf',
+      });
+      expect(mockAttachmentRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'attachment-1', delivery: { id: 'delivery-1' } },
+        }),
+      );
+      expect(mockFileStorageService.read).toHaveBeenCalledWith(storedFile);
+    });
+
+    it('should not find attachments of another record', async () => {
+      mockAttachmentRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.download('order', 'order-1', 'attachment-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should let uploaders remove their own attachments', async () => {
+      const own = attachment();
+      mockAttachmentRepository.findOne.mockResolvedValue(own);
+
+      await service.remove('delivery', 'delivery-1', 'attachment-1', uploader);
+
+      expect(mockAttachmentRepository.remove).toHaveBeenCalledWith(own);
+      expect(mockFileStorageService.remove).toHaveBeenCalledWith(storedFile);
+    });
+
+    it('should let admins remove any attachment', async () => {
+      mockAttachmentRepository.findOne.mockResolvedValue(attachment());
+
+      await service.remove('delivery', 'delivery-1', 'attachment-1', admin);
+
+      expect(mockFileStorageService.remove).toHaveBeenCalledWith(storedFile);
+    });
+
+    it('should not let uploaders remove attachments of others', async () => {
+      mockAttachmentRepository.findOne.mockResolvedValue(attachment());
+
+      await expect(
+        service.remove('delivery', 'delivery-1', 'attachment-1', otherUploader),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockAttachmentRepository.remove).not.toHaveBeenCalled();
+      expect(mockFileStorageService.remove).not.toHaveBeenCalled();
+    });
+  });
+});
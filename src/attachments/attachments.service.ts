@@ -0,0 +1,199 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import { Attachment } from './entities/attachment.entity';
+import { CreateAttachmentDto } from './dto/create-attachment.dto';
+import { AttachmentOwner, AttachmentSummary } from './interfaces/attachment.interface';
+import { Order } from '../orders/entities/order.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+import { FileStorageService } from '../storage/file-storage.service';
+import { StoredFileCategory } from '../storage/entities/stored-file.entity';
+import { StoredFileContent } from '../storage/interfaces/stored-file.interface';
+import { sniffMimeType } from '../storage/mime-sniffer';
+
+// Decided from the content, not the extension or the type the client sent
+const ALLOWED_CONTENT_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv',
+  'text/tab-separated-values',
+  'text/plain',
+];
+
+/**
+ * Extra files kept with orders and deliveries, such as proofs of delivery,
+ * photos and invoices
+ */
+@Injectable()
+export class AttachmentsService {
+  constructor(
+    @InjectRepository(Attachment)
+    private attachmentRepository: Repository<Attachment>,
+    @InjectRepository(Order)
+    private orderRepository: Repository<Order>,
+    @InjectRepository(Delivery)
+    private deliveryRepository: Repository<Delivery>,
+    private fileStorageService: FileStorageService,
+  ) { }
+
+  async findAll(owner: AttachmentOwner, ownerId: string): Promise<AttachmentSummary[]> {
+    await this.findOwner(owner, ownerId);
+
+    const attachments = await this.attachmentRepository.find({
+      where: this.ownedBy(owner, ownerId),
+      relations: ['file', 'createdBy'],
+      order: { createdAt: 'ASC' },
+    });
+
+    return attachments.map((attachment) => this.summarize(attachment));
+  }
+
+  /**
+   * @throws BadRequestException if no file was uploaded or its type is not accepted
+   */
+  async add(
+    owner: AttachmentOwner,
+    ownerId: string,
+    file: Express.Multer.File,
+    createAttachmentDto: CreateAttachmentDto,
+    user: User,
+  ): Promise<AttachmentSummary> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const target = await this.findOwner(owner, ownerId);
+
+    if (!ALLOWED_CONTENT_TYPES.includes(sniffMimeType(file.buffer, file.originalname))) {
+      throw new BadRequestException(
+        'Only PDF, image, Excel, CSV, TSV or text files can be attached',
+      );
+    }
+
+    const storedFile = await this.fileStorageService.store({
+      buffer: file.buffer,
+      fileName: file.originalname,
+      category: StoredFileCategory.ATTACHMENT,
+      createdBy: user,
+    });
+
+    try {
+      const attachment = await this.attachmentRepository.save(
+        this.attachmentRepository.create({
+          file: storedFile,
+          order: owner === 'order' ? (target as Order) : null,
+          delivery: owner === 'delivery' ? (target as Delivery) : null,
+          description: createAttachmentDto.description?.trim() || null,
+          createdBy: user,
+        }),
+      );
+
+      return this.summarize(attachment);
+    } catch (error) {
+      await this.fileStorageService.remove(storedFile);
+      throw error;
+    }
+  }
+
+  async download(
+    owner: AttachmentOwner,
+    ownerId: string,
+    attachmentId: string,
+  ): Promise<StoredFileContent> {
+    const attachment = await this.findAttachment(owner, ownerId, attachmentId);
+
+    return this.fileStorageService.read(attachment.file);
+  }
+
+  /**
+   * Admins may remove any attachment, everyone else only their own
+   * @throws ForbiddenException if the attachment was added by someone else
+   */
+  async remove(
+    owner: AttachmentOwner,
+    ownerId: string,
+    attachmentId: string,
+    user: User,
+  ): Promise<void> {
+    const attachment = await this.findAttachment(owner, ownerId, attachmentId);
+
+    if (user.role !== UserRole.ADMIN && attachment.createdBy?.id !== user.id) {
+      throw new ForbiddenException('You can only remove attachments you added');
+    }
+
+    await this.attachmentRepository.remove(attachment);
+    await this.fileStorageService.remove(attachment.file);
+  }
+
+  private async findOwner(owner: AttachmentOwner, ownerId: string): Promise<Order | Delivery> {
+    const target =
+      owner === 'order'
+        ? await this.orderRepository.findOne({
+          where: { id: ownerId, isDeleted: false },
+        })
+        : await this.deliveryRepository.findOne({
+          where: { id: ownerId, order: { isDeleted: false } },
+        });
+
+    if (!target) {
+      throw new NotFoundException(owner === 'order' ? 'Order not found' : 'Delivery not found');
+    }
+
+    return target;
+  }
+
+  private async findAttachment(
+    owner: AttachmentOwner,
+    ownerId: string,
+    attachmentId: string,
+  ): Promise<Attachment> {
+    await this.findOwner(owner, ownerId);
+
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id: attachmentId, ...this.ownedBy(owner, ownerId) },
+      relations: ['file', 'createdBy'],
+    });
+
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return attachment;
+  }
+
+  private ownedBy(owner: AttachmentOwner, ownerId: string): FindOptionsWhere<Attachment> {
+    return owner === 'order'
+      ? { order: { id: ownerId } }
+      : { delivery: { id: ownerId } };
+  }
+
+  private summarize(attachment: Attachment): AttachmentSummary {
+    return {
+      id: attachment.id,
+      fileName: attachment.file.originalName,
+      contentType: attachment.file.contentType,
+      size: attachment.file.size,
+      sha256: attachment.file.sha256,
+      description: attachment.description ?? null,
+      createdBy: attachment.createdBy
+        ? {
+          id: attachment.createdBy.id,
+          name: attachment.createdBy.name,
+          email: attachment.createdBy.email,
+        }
+        : null,
+      createdAt: attachment.createdAt,
+    };
+  }
+}
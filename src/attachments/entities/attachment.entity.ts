@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Order } from '../../orders/entities/order.entity';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { StoredFile } from '../../storage/entities/stored-file.entity';
+
+/**
+ * A file attached to an order or a delivery, such as a proof of delivery,
+ * a photo or an invoice. Exactly one of `order` and `delivery` is set.
+ */
+@Entity('attachments')
+export class Attachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => StoredFile, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'file_id' })
+  file: StoredFile;
+
+  @ManyToOne(() => Order, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  @Index('IDX_ATTACHMENT_ORDER_ID')
+  order: Order | null;
+
+  @ManyToOne(() => Delivery, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'delivery_id' })
+  @Index('IDX_ATTACHMENT_DELIVERY_ID')
+  delivery: Delivery | null;
+
+  @Column({ name: 'description', type: 'varchar', length: 500, nullable: true })
+  description: string | null;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'created_by' })
+  @Index('IDX_ATTACHMENT_CREATED_BY')
+  createdBy: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
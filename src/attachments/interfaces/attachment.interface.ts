@@ -0,0 +1,21 @@
+export type AttachmentOwner = 'order' | 'delivery';
+
+export interface AttachmentAuthor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * What the attachment endpoints report; where the file is stored stays internal
+ */
+export interface AttachmentSummary {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  description: string | null;
+  createdBy: AttachmentAuthor | null;
+  createdAt: Date;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { QuantityAuditService } from './quantity-audit.service';
+import { SecurityEventsService } from './security-events.service';
+import { QuantityAuditLog } from './entities/quantity-audit-log.entity';
+import { SecurityEvent } from './entities/security-event.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([QuantityAuditLog, SecurityEvent])],
+  providers: [QuantityAuditService, SecurityEventsService],
+  exports: [QuantityAuditService, SecurityEventsService],
+})
+export class AuditModule {}
@@ -0,0 +1,104 @@
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsNumber,
+  Min,
+  Max,
+  IsDateString,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { QuantityAuditOperation } from '../entities/quantity-audit-log.entity';
+
+export class GetQuantityAuditLogDto {
+  @ApiProperty({
+    example: 1,
+    description: 'Page number',
+    required: false,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiProperty({
+    example: 100,
+    description: 'Number of entries per page',
+    required: false,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  limit?: number = 100;
+
+  @ApiProperty({
+    example: 'uuid-order-id',
+    description: 'Filter by order (internal order ID)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  orderId?: string;
+
+  @ApiProperty({
+    example: 'uuid-order-item-id',
+    description: 'Filter by order item',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  orderItemId?: string;
+
+  @ApiProperty({
+    example: 'uuid-delivery-id',
+    description: 'Filter by the delivery that triggered the change',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  deliveryId?: string;
+
+  @ApiProperty({
+    example: 'uuid-user-id',
+    description: 'Filter by the user who made the change',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  changedBy?: string;
+
+  @ApiProperty({
+    example: QuantityAuditOperation.INSERT,
+    description: 'Filter by operation type',
+    enum: QuantityAuditOperation,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(QuantityAuditOperation)
+  operationType?: QuantityAuditOperation;
+
+  @ApiProperty({
+    example: '2024-01-01',
+    description: 'Only entries created on or after this date',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    example: '2024-12-31',
+    description: 'Only entries created on or before this date',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
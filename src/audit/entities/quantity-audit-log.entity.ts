@@ -0,0 +1,87 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+
+export enum QuantityAuditOperation {
+  INSERT = 'INSERT',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  VOID = 'VOID',
+  RECALCULATION = 'RECALCULATION',
+  AMENDMENT = 'AMENDMENT',
+}
+
+/**
+ * One row per change of order_items.quantity_remaining.
+ * Rows are written by database triggers only (see migration 1703000000022),
+ * so this entity is read-only from the application's point of view.
+ */
+@Entity('quantity_audit_log')
+export class QuantityAuditLog {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'operation_type', type: 'varchar', length: 30 })
+  @Index('IDX_QUANTITY_AUDIT_OPERATION')
+  operationType: QuantityAuditOperation;
+
+  @Column({ name: 'order_item_id', type: 'varchar', length: 36 })
+  @Index('IDX_QUANTITY_AUDIT_ORDER_ITEM_ID')
+  orderItemId: string;
+
+  @Column({ name: 'order_id', type: 'varchar', length: 36 })
+  @Index('IDX_QUANTITY_AUDIT_ORDER_ID')
+  orderId: string;
+
+  @Column({ name: 'delivery_id', type: 'varchar', length: 36, nullable: true })
+  @Index('IDX_QUANTITY_AUDIT_DELIVERY_ID')
+  deliveryId: string | null;
+
+  @Column({
+    name: 'delivery_item_id',
+    type: 'varchar',
+    length: 36,
+    nullable: true,
+  })
+  deliveryItemId: string | null;
+
+  @Column({ name: 'old_quantity', type: 'int' })
+  oldQuantity: number;
+
+  @Column({ name: 'new_quantity', type: 'int' })
+  newQuantity: number;
+
+  @Column({
+    name: 'delivered_quantity',
+    type: 'int',
+    comment: 'old_quantity - new_quantity (negative when quantity is restored)',
+  })
+  deliveredQuantity: number;
+
+  @Column({ name: 'reason', type: 'varchar', length: 500, nullable: true })
+  reason: string | null;
+
+  @ManyToOne(() => User, { nullable: true, createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'changed_by' })
+  @Index('IDX_QUANTITY_AUDIT_CHANGED_BY')
+  changedBy: User | null;
+
+  @ManyToOne(() => Delivery, {
+    nullable: true,
+    createForeignKeyConstraints: false,
+  })
+  @JoinColumn({ name: 'delivery_id' })
+  delivery: Delivery | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index('IDX_QUANTITY_AUDIT_CREATED_AT')
+  createdAt: Date;
+}
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum SecurityEventType {
+  ACCOUNT_LOCKED = 'account-locked',
+  ACCOUNT_UNLOCKED = 'account-unlocked',
+  TWO_FACTOR_ENABLED = 'two-factor-enabled',
+  TWO_FACTOR_DISABLED = 'two-factor-disabled',
+  RECOVERY_CODE_USED = 'recovery-code-used',
+  API_KEY_CREATED = 'api-key-created',
+  API_KEY_REVOKED = 'api-key-revoked',
+}
+
+/**
+ * Something security related that happened to an account, kept for review
+ */
+@Entity('security_events')
+export class SecurityEvent {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 50 })
+  @Index('IDX_SECURITY_EVENT_TYPE')
+  type: SecurityEventType;
+
+  // The account the event is about, null when it names an unknown email
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  @Column({ name: 'email', type: 'varchar', length: 255, nullable: true })
+  @Index('IDX_SECURITY_EVENT_EMAIL')
+  email: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User | null;
+
+  @Column({ name: 'details', type: 'json', nullable: true })
+  details: object | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index('IDX_SECURITY_EVENT_CREATED_AT')
+  createdAt: Date;
+}
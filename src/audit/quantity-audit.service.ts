@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  QuantityAuditLog,
+  QuantityAuditOperation,
+} from './entities/quantity-audit-log.entity';
+import { GetQuantityAuditLogDto } from './dto/get-quantity-audit-log.dto';
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface QuantityAuditContext {
+  userId?: string | null;
+  reason?: string | null;
+  operation?: QuantityAuditOperation | null;
+}
+
+@Injectable()
+export class QuantityAuditService {
+  constructor(
+    @InjectRepository(QuantityAuditLog)
+    private auditLogRepository: Repository<QuantityAuditLog>,
+  ) { }
+
+  /**
+   * Run database work with the audit session variables set, so the
+   * quantity_remaining triggers can record who made the change and why.
+   * The variables are cleared afterwards because pooled connections are reused.
+   */
+  async withContext<T>(
+    manager: EntityManager,
+    context: QuantityAuditContext,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    await manager.query(
+      'SET @AUDIT_USER_ID = ?, @AUDIT_REASON = ?, @AUDIT_OPERATION = ?',
+      [context.userId ?? null, context.reason ?? null, context.operation ?? null],
+    );
+
+    try {
+      return await work();
+    } finally {
+      await manager.query(
+        'SET @AUDIT_USER_ID = NULL, @AUDIT_REASON = NULL, @AUDIT_OPERATION = NULL',
+      );
+    }
+  }
+
+  async findAll(
+    query: GetQuantityAuditLogDto,
+  ): Promise<PaginatedResponse<QuantityAuditLog>> {
+    const queryBuilder = this.createQueryBuilder();
+
+    // Apply filters
+    this.applyFilters(queryBuilder, query);
+
+    queryBuilder.orderBy('auditLog.createdAt', 'DESC').addOrderBy('auditLog.id', 'DESC');
+
+    // Apply pagination
+    const page = query.page || 1;
+    const limit = query.limit || 100;
+    const total = await queryBuilder.getCount();
+    queryBuilder.skip((page - 1) * limit).take(limit);
+
+    const entries = await queryBuilder.getMany();
+
+    return {
+      data: entries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  private createQueryBuilder(): SelectQueryBuilder<QuantityAuditLog> {
+    return this.auditLogRepository
+      .createQueryBuilder('auditLog')
+      .leftJoin('auditLog.changedBy', 'changedBy')
+      .leftJoin('auditLog.delivery', 'delivery')
+      .select([
+        'auditLog.id',
+        'auditLog.operationType',
+        'auditLog.orderItemId',
+        'auditLog.orderId',
+        'auditLog.deliveryId',
+        'auditLog.deliveryItemId',
+        'auditLog.oldQuantity',
+        'auditLog.newQuantity',
+        'auditLog.deliveredQuantity',
+        'auditLog.reason',
+        'auditLog.createdAt',
+        'changedBy.id',
+        'changedBy.name',
+        'changedBy.email',
+        'delivery.id',
+        'delivery.deliveryId',
+      ]);
+  }
+
+  private applyFilters(
+    queryBuilder: SelectQueryBuilder<QuantityAuditLog>,
+    query: GetQuantityAuditLogDto,
+  ): void {
+    if (query.orderId) {
+      queryBuilder.andWhere('auditLog.orderId = :orderId', {
+        orderId: query.orderId,
+      });
+    }
+
+    if (query.orderItemId) {
+      queryBuilder.andWhere('auditLog.orderItemId = :orderItemId', {
+        orderItemId: query.orderItemId,
+      });
+    }
+
+    if (query.deliveryId) {
+      queryBuilder.andWhere('auditLog.deliveryId = :deliveryId', {
+        deliveryId: query.deliveryId,
+      });
+    }
+
+    if (query.changedBy) {
+      queryBuilder.andWhere('changedBy.id = :changedBy', {
+        changedBy: query.changedBy,
+      });
+    }
+
+    if (query.operationType) {
+      queryBuilder.andWhere('auditLog.operationType = :operationType', {
+        operationType: query.operationType,
+      });
+    }
+
+    if (query.startDate) {
+      queryBuilder.andWhere('auditLog.createdAt >= :startDate', {
+        startDate: query.startDate,
+      });
+    }
+
+    if (query.endDate) {
+      queryBuilder.andWhere('auditLog.createdAt <= :endDate', {
+        endDate: query.endDate,
+      });
+    }
+  }
+}
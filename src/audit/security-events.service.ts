@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SecurityEvent, SecurityEventType } from './entities/security-event.entity';
+
+export interface SecurityEventInput {
+  userId?: string | null;
+  email?: string | null;
+  ipAddress?: string | null;
+  // Who caused the event when it was not the account itself, e.g. an admin
+  actorId?: string | null;
+  details?: object | null;
+}
+
+@Injectable()
+export class SecurityEventsService {
+  private readonly logger = new Logger(SecurityEventsService.name);
+
+  constructor(
+    @InjectRepository(SecurityEvent)
+    private securityEventRepository: Repository<SecurityEvent>,
+  ) { }
+
+  async record(type: SecurityEventType, input: SecurityEventInput): Promise<SecurityEvent> {
+    this.logger.warn(
+      `Security event ${type} for ${input.email ?? input.userId ?? 'unknown account'}` +
+      (input.ipAddress ? ` from ${input.ipAddress}` : ''),
+    );
+
+    return this.securityEventRepository.save(
+      this.securityEventRepository.create({
+        type,
+        user: input.userId ? { id: input.userId } : null,
+        email: input.email ?? null,
+        ipAddress: input.ipAddress ?? null,
+        actor: input.actorId ? { id: input.actorId } : null,
+        details: input.details ?? null,
+      }),
+    );
+  }
+}
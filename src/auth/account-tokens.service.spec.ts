@@ -0,0 +1,214 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { AccountTokensService } from './account-tokens.service';
+import { AccountToken, AccountTokenType } from './entities/account-token.entity';
+import { PasswordPolicyService } from './password-policy.service';
+import { SessionsService } from './sessions.service';
+import { MailService } from '../mail/mail.service';
+import { User, UserStatus } from '../users/entities/user.entity';
+
+describe('AccountTokensService', () => {
+  let service: AccountTokensService;
+
+  const user = { id: 'user-1', email: 'jane@example.com', name: 'Jane', status: UserStatus.ACTIVE, isDeleted: false } as User;
+  const invited = { ...user, status: UserStatus.INVITED } as User;
+  const admin = { id: 'admin-1', name: 'Alex Admin' } as User;
+
+  const mockAccountTokenRepository = {
+    create: jest.fn((data: Partial<AccountToken>) => data),
+    save: jest.fn((data: Partial<AccountToken>) => Promise.resolve(data)),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockPasswordPolicyService = {
+    assertAcceptable: jest.fn(),
+    hash: jest.fn((password: string) => Promise.resolve(`hashed:${password}`)),
+    remember: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    revokeAll: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const accountTokensConfig: Record<string, unknown> = {
+    'accountTokens.invitationUrl': 'https://tracker.example.com/accept-invitation',
+    'accountTokens.passwordResetUrl': 'https://tracker.example.com/reset-password',
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => accountTokensConfig[key] ?? defaultValue),
+  };
+
+  const tokenFromMail = () => {
+    const [[{ text }]] = mockMailService.send.mock.calls as [[{ text: string }]];
+    return /\?token=([\w-]+)/.exec(text)![1];
+  };
+
+  const stored = (overrides: Partial<AccountToken>) =>
+    ({
+      id: 'token-1',
+      type: AccountTokenType.PASSWORD_RESET,
+      user,
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+      ...overrides,
+    }) as AccountToken;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AccountTokensService(
+      mockAccountTokenRepository as unknown as Repository<AccountToken>,
+      mockUserRepository as unknown as Repository<User>,
+      mockPasswordPolicyService as unknown as PasswordPolicyService,
+      mockSessionsService as unknown as SessionsService,
+      mockMailService as unknown as MailService,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  describe('sendInvitation', () => {
+    it('should mail a link whose token is only stored as a hash', async () => {
+      await service.sendInvitation(invited, admin);
+
+      const token = tokenFromMail();
+      expect(mockMailService.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'jane@example.com',
+        text: expect.stringContaining(`https://tracker.example.com/accept-invitation?token=${token}`),
+      }));
+      expect(mockAccountTokenRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        type: AccountTokenType.INVITATION,
+        tokenHash: createHash('sha256').update(token).digest('hex'),
+        createdBy: { id: 'admin-1' },
+      }));
+    });
+
+    it('should replace earlier invitations', async () => {
+      await service.sendInvitation(invited, admin);
+
+      expect(mockAccountTokenRepository.delete).toHaveBeenCalledWith({
+        user: { id: 'user-1' },
+        type: AccountTokenType.INVITATION,
+        usedAt: IsNull(),
+      });
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    // Lets the work done in the background finish
+    const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+    it('should return before looking up the account and mail the link afterwards', async () => {
+      mockUserRepository.findOne.mockResolvedValue(user);
+
+      expect(service.requestPasswordReset('jane@example.com')).toBeUndefined();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+
+      await settle();
+      expect(mockMailService.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'jane@example.com',
+        text: expect.stringContaining('https://tracker.example.com/reset-password?token='),
+      }));
+    });
+
+    it('should do nothing visible for an unknown email', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      service.requestPasswordReset('nobody@example.com');
+      await settle();
+
+      expect(mockAccountTokenRepository.save).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should only log when the mail could not be sent', async () => {
+      mockUserRepository.findOne.mockResolvedValue(user);
+      mockMailService.send.mockRejectedValueOnce(new Error('SMTP down'));
+      const logError = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+      service.requestPasswordReset('jane@example.com');
+      await settle();
+
+      expect(logError).toHaveBeenCalledWith(expect.stringContaining('SMTP down'));
+      logError.mockRestore();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the password, use up the token and end all sessions', async () => {
+      mockAccountTokenRepository.findOne.mockResolvedValue(stored({}));
+      mockAccountTokenRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.resetPassword('token', 'NewPassword123!');
+
+      expect(mockPasswordPolicyService.assertAcceptable).toHaveBeenCalledWith('NewPassword123!', 'user-1');
+      expect(mockAccountTokenRepository.update).toHaveBeenCalledWith(
+        { id: 'token-1', usedAt: IsNull() },
+        { usedAt: expect.any(Date) },
+      );
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', {
+        password: 'hashed:NewPassword123!',
+        passwordChangedAt: expect.any(Date),
+        mustChangePassword: false,
+      });
+      expect(mockPasswordPolicyService.remember).toHaveBeenCalledWith('user-1', 'hashed:NewPassword123!');
+      expect(mockSessionsService.revokeAll).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should keep the token when the password is rejected', async () => {
+      mockAccountTokenRepository.findOne.mockResolvedValue(stored({}));
+      mockPasswordPolicyService.assertAcceptable.mockRejectedValueOnce(new BadRequestException('too short'));
+
+      await expect(service.resetPassword('token', 'short')).rejects.toThrow('too short');
+      expect(mockAccountTokenRepository.update).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['used', { usedAt: new Date() }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+      ['for an inactive user', { user: { ...user, status: UserStatus.INACTIVE } as User }],
+    ])('should reject a token that is %s', async (_, overrides) => {
+      mockAccountTokenRepository.findOne.mockResolvedValue(stored(overrides));
+
+      await expect(service.resetPassword('token', 'NewPassword123!')).rejects.toThrow(BadRequestException);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token another request used first', async () => {
+      mockAccountTokenRepository.findOne.mockResolvedValue(stored({}));
+      mockAccountTokenRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.resetPassword('token', 'NewPassword123!')).rejects.toThrow(BadRequestException);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should activate the invited user', async () => {
+      mockAccountTokenRepository.findOne.mockResolvedValue(
+        stored({ type: AccountTokenType.INVITATION, user: invited }),
+      );
+      mockAccountTokenRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.acceptInvitation('token', 'NewPassword123!');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        status: UserStatus.ACTIVE,
+        password: 'hashed:NewPassword123!',
+      }));
+      expect(mockSessionsService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { AccountToken, AccountTokenType } from './entities/account-token.entity';
+import { User, UserStatus } from '../users/entities/user.entity';
+import { PasswordPolicyService } from './password-policy.service';
+import { SessionsService } from './sessions.service';
+import { MailService } from '../mail/mail.service';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Invitations and password resets: one-time links, sent by mail, that let a
+ * user set their own password
+ */
+@Injectable()
+export class AccountTokensService {
+  private readonly logger = new Logger(AccountTokensService.name);
+
+  constructor(
+    @InjectRepository(AccountToken)
+    private accountTokenRepository: Repository<AccountToken>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private passwordPolicyService: PasswordPolicyService,
+    private sessionsService: SessionsService,
+    private mailService: MailService,
+    private configService: ConfigService,
+  ) { }
+
+  /**
+   * Mails an invited user a link to set their password, replacing any
+   * earlier invitation
+   * @throws ServiceUnavailableException if the mail could not be sent
+   */
+  async sendInvitation(user: User, admin: User): Promise<void> {
+    const hours = this.configService.get<number>('accountTokens.invitationExpiresHours', 72);
+    const token = await this.issue(user, AccountTokenType.INVITATION, hours * 60, admin);
+    const link = this.link('accountTokens.invitationUrl', token);
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'You have been invited to Order Tracker',
+      text: [
+        `Hello ${user.name},`,
+        '',
+        `${admin.name} has invited you to Order Tracker. Choose your password here:`,
+        '',
+        link,
+        '',
+        `The link works once and expires in ${hours} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Mails a password reset link to an active user. Returns at once and does
+   * the lookup and the mail in the background, so neither the answer nor
+   * its timing tells which addresses have an account.
+   */
+  requestPasswordReset(email: string): void {
+    void this.sendPasswordReset(email).catch((error) =>
+      this.logger.error(`Sending a password reset to ${email} failed: ${error.message}`),
+    );
+  }
+
+  /**
+   * Sets the password of an invited user and activates the account
+   * @throws BadRequestException if the link is invalid, used or expired, or
+   * the password breaks the password policy
+   */
+  async acceptInvitation(token: string, password: string): Promise<void> {
+    const record = await this.findUsable(token, AccountTokenType.INVITATION);
+    await this.setPassword(record, password, { status: UserStatus.ACTIVE });
+  }
+
+  /**
+   * Sets a new password and ends all sessions of the user
+   * @throws BadRequestException if the link is invalid, used or expired, or
+   * the password breaks the password policy
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const record = await this.findUsable(token, AccountTokenType.PASSWORD_RESET);
+    await this.setPassword(record, password, {});
+    await this.sessionsService.revokeAll(record.user.id);
+  }
+
+  private async sendPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { email, isDeleted: false, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      this.logger.log(`Password reset requested for unknown or inactive account ${email}`);
+      return;
+    }
+
+    const minutes = this.configService.get<number>('accountTokens.passwordResetExpiresMinutes', 60);
+    const token = await this.issue(user, AccountTokenType.PASSWORD_RESET, minutes);
+    const link = this.link('accountTokens.passwordResetUrl', token);
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Reset your Order Tracker password',
+      text: [
+        `Hello ${user.name},`,
+        '',
+        'Someone asked to reset the password of your Order Tracker account. Choose a new one here:',
+        '',
+        link,
+        '',
+        `The link works once and expires in ${minutes} minutes. If you did not ask for it, ignore this mail.`,
+      ].join('\n'),
+    });
+  }
+
+  private async issue(
+    user: User,
+    type: AccountTokenType,
+    expiresInMinutes: number,
+    createdBy: User | null = null,
+  ): Promise<string> {
+    // Only the latest link of a kind works
+    await this.accountTokenRepository.delete({ user: { id: user.id }, type, usedAt: IsNull() });
+
+    const token = randomBytes(32).toString('base64url');
+    await this.accountTokenRepository.save(
+      this.accountTokenRepository.create({
+        type,
+        user: { id: user.id },
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+        usedAt: null,
+        createdBy: createdBy ? { id: createdBy.id } : null,
+      }),
+    );
+
+    return token;
+  }
+
+  private async findUsable(token: string, type: AccountTokenType): Promise<AccountToken> {
+    const record = await this.accountTokenRepository.findOne({
+      where: { tokenHash: hashToken(token), type },
+      relations: ['user'],
+    });
+
+    const expectedStatus = type === AccountTokenType.INVITATION ? UserStatus.INVITED : UserStatus.ACTIVE;
+    if (
+      !record ||
+      record.usedAt ||
+      record.expiresAt <= new Date() ||
+      record.user.isDeleted ||
+      record.user.status !== expectedStatus
+    ) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    return record;
+  }
+
+  /**
+   * Checks the password before using up the token, so a rejected password
+   * can be corrected with the same link
+   */
+  private async setPassword(record: AccountToken, password: string, changes: Partial<User>): Promise<void> {
+    const { user } = record;
+    await this.passwordPolicyService.assertAcceptable(password, user.id);
+
+    const used = await this.accountTokenRepository.update(
+      { id: record.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!used.affected) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    const hashedPassword = await this.passwordPolicyService.hash(password);
+    await this.userRepository.update(user.id, {
+      ...changes,
+      password: hashedPassword,
+      passwordChangedAt: new Date(),
+      mustChangePassword: false,
+    });
+    await this.passwordPolicyService.remember(user.id, hashedPassword);
+  }
+
+  private link(urlKey: string, token: string): string {
+    const url = new URL(this.configService.get<string>(urlKey, 'http://localhost:3000'));
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+}
@@ -0,0 +1,190 @@
+import { BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ThrottlerStorageService } from '@nestjs/throttler';
+import { IsNull, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey, ApiKeyScope } from './entities/api-key.entity';
+import { SecurityEventsService } from '../audit/security-events.service';
+import { SecurityEventType } from '../audit/entities/security-event.entity';
+import { User, UserStatus } from '../users/entities/user.entity';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let throttlerStorage: ThrottlerStorageService;
+
+  const user = { id: 'user-1', email: 'jane@example.com', status: UserStatus.ACTIVE, isDeleted: false } as User;
+  const admin = { id: 'admin-1' } as User;
+
+  const mockApiKeyRepository = {
+    create: jest.fn((data: Partial<ApiKey>) => data),
+    save: jest.fn((data: Partial<ApiKey>) => Promise.resolve({ id: 'key-1', createdAt: new Date(), ...data })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockSecurityEventsService = {
+    record: jest.fn(),
+  };
+
+  const apiKeysConfig: Record<string, unknown> = {
+    'apiKeys.rateLimit': 60,
+    'apiKeys.maxRateLimit': 600,
+    'apiKeys.maxPerUser': 2,
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => apiKeysConfig[key] ?? defaultValue),
+  };
+
+  const stored = (overrides: Partial<ApiKey>) =>
+    ({
+      id: 'key-1',
+      user,
+      scopes: [ApiKeyScope.ORDERS_READ],
+      rateLimit: null,
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+      ...overrides,
+    }) as ApiKey;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    throttlerStorage = new ThrottlerStorageService();
+    service = new ApiKeysService(
+      mockApiKeyRepository as unknown as Repository<ApiKey>,
+      throttlerStorage,
+      mockSecurityEventsService as unknown as SecurityEventsService,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => {
+    throttlerStorage.onApplicationShutdown();
+  });
+
+  describe('create', () => {
+    it('should return the key once and only store its hash', async () => {
+      mockApiKeyRepository.count.mockResolvedValue(0);
+
+      const created = await service.create(user, { name: 'ERP sync', scopes: [ApiKeyScope.ORDERS_READ] }, admin);
+
+      expect(created.key).toMatch(/^otk_[\w-]{43}$/);
+      expect(created.prefix).toBe(created.key.slice(0, 12));
+      expect(created.rateLimit).toBe(60);
+      expect(created).not.toHaveProperty('keyHash');
+      expect(mockApiKeyRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        keyHash: createHash('sha256').update(created.key).digest('hex'),
+        createdBy: { id: 'admin-1' },
+      }));
+      expect(mockSecurityEventsService.record).toHaveBeenCalledWith(
+        SecurityEventType.API_KEY_CREATED,
+        expect.objectContaining({ userId: 'user-1', actorId: 'admin-1' }),
+      );
+    });
+
+    it('should refuse more keys than allowed per user', async () => {
+      mockApiKeyRepository.count.mockResolvedValue(2);
+
+      await expect(
+        service.create(user, { name: 'Third', scopes: [ApiKeyScope.ORDERS_READ] }, user),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockApiKeyRepository.save).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['an expiry in the past', { expiresAt: '2020-01-01T00:00:00Z' }],
+      ['a rate limit above the maximum', { rateLimit: 601 }],
+    ])('should refuse %s', async (_, overrides) => {
+      mockApiKeyRepository.count.mockResolvedValue(0);
+
+      await expect(
+        service.create(user, { name: 'ERP sync', scopes: [ApiKeyScope.ORDERS_READ], ...overrides }, user),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should only revoke an active key of the user', async () => {
+      mockApiKeyRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.revoke(user, 'key-1', user);
+
+      expect(mockApiKeyRepository.update).toHaveBeenCalledWith(
+        { id: 'key-1', user: { id: 'user-1' }, revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) },
+      );
+      expect(mockSecurityEventsService.record).toHaveBeenCalledWith(
+        SecurityEventType.API_KEY_REVOKED,
+        expect.objectContaining({ userId: 'user-1', actorId: null }),
+      );
+    });
+
+    it('should throw NotFoundException for a key of someone else or one already revoked', async () => {
+      mockApiKeyRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.revoke(user, 'key-2', user)).rejects.toThrow(NotFoundException);
+      expect(mockSecurityEventsService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the key and note where it was used', async () => {
+      mockApiKeyRepository.findOne.mockResolvedValue(stored({}));
+
+      const apiKey = await service.authenticate('otk_secret', '10.0.0.1');
+
+      expect(apiKey.user).toBe(user);
+      expect(mockApiKeyRepository.findOne).toHaveBeenCalledWith(expect.objectContaining({
+        where: { keyHash: createHash('sha256').update('otk_secret').digest('hex') },
+      }));
+      expect(mockApiKeyRepository.update).toHaveBeenCalledWith('key-1', {
+        lastUsedAt: expect.any(Date),
+        lastUsedIp: '10.0.0.1',
+      });
+    });
+
+    it('should not note every use of a busy key', async () => {
+      mockApiKeyRepository.findOne.mockResolvedValue(stored({ lastUsedAt: new Date(Date.now() - 1000) }));
+
+      await service.authenticate('otk_secret', '10.0.0.1');
+
+      expect(mockApiKeyRepository.update).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', stored({ revokedAt: new Date() })],
+      ['expired', stored({ expiresAt: new Date(Date.now() - 1000) })],
+      ['of an inactive user', stored({ user: { ...user, status: UserStatus.INACTIVE } as User })],
+      ['of a deleted user', stored({ user: { ...user, isDeleted: true } as User })],
+    ])('should reject a key that is %s', async (_, apiKey) => {
+      mockApiKeyRepository.findOne.mockResolvedValue(apiKey);
+
+      await expect(service.authenticate('otk_secret', null)).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('consume', () => {
+    it('should hold back requests over the limit of the key', async () => {
+      const apiKey = stored({ rateLimit: 2 });
+
+      expect(await service.consume(apiKey)).toBe(0);
+      expect(await service.consume(apiKey)).toBe(0);
+      expect(await service.consume(apiKey)).toBeGreaterThan(0);
+    });
+
+    it('should count each key on its own', async () => {
+      const busy = stored({ id: 'key-1', rateLimit: 1 });
+      const quiet = stored({ id: 'key-2', rateLimit: 1 });
+
+      await service.consume(busy);
+
+      expect(await service.consume(busy)).toBeGreaterThan(0);
+      expect(await service.consume(quiet)).toBe(0);
+    });
+  });
+});
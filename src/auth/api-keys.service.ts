@@ -0,0 +1,206 @@
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ThrottlerStorage } from '@nestjs/throttler';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeySummary, CreatedApiKey } from './interfaces/api-key.interface';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { SecurityEventsService } from '../audit/security-events.service';
+import { SecurityEventType } from '../audit/entities/security-event.entity';
+import { User, UserStatus } from '../users/entities/user.entity';
+
+const KEY_PREFIX = 'otk_';
+const RATE_LIMIT_WINDOW = 60000;
+// Saving every use would write on every request of a busy integration
+const LAST_USED_PRECISION = 60000;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Personal API keys: created and revoked by their owner or an admin, and
+ * checked by ApiKeyStrategy on requests with an X-API-Key header
+ */
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private apiKeyRepository: Repository<ApiKey>,
+    @Inject(ThrottlerStorage)
+    private throttlerStorage: ThrottlerStorage,
+    private securityEventsService: SecurityEventsService,
+    private configService: ConfigService,
+  ) { }
+
+  async findAll(userId: string): Promise<ApiKeySummary[]> {
+    const apiKeys = await this.apiKeyRepository.find({
+      where: { user: { id: userId }, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+
+    return apiKeys.map((apiKey) => this.summarize(apiKey));
+  }
+
+  /**
+   * Creates a key for a user, by the user or an admin
+   * @returns the key with its secret, which cannot be looked up later
+   * @throws BadRequestException if the user has too many keys, or the expiry
+   * or rate limit is out of range
+   */
+  async create(owner: User, dto: CreateApiKeyDto, createdBy: User): Promise<CreatedApiKey> {
+    const maxPerUser = this.configService.get<number>('apiKeys.maxPerUser', 10);
+    const count = await this.apiKeyRepository.count({
+      where: { user: { id: owner.id }, revokedAt: IsNull() },
+    });
+    if (count >= maxPerUser) {
+      throw new BadRequestException(`A user can have at most ${maxPerUser} API keys, revoke one first`);
+    }
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    const maxRateLimit = this.configService.get<number>('apiKeys.maxRateLimit', 600);
+    if (dto.rateLimit !== undefined && dto.rateLimit > maxRateLimit) {
+      throw new BadRequestException(`Rate limit can be at most ${maxRateLimit} requests per minute`);
+    }
+
+    const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        user: { id: owner.id },
+        name: dto.name,
+        prefix: key.slice(0, 12),
+        keyHash: hashKey(key),
+        scopes: [...new Set(dto.scopes)],
+        rateLimit: dto.rateLimit ?? null,
+        expiresAt,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        revokedAt: null,
+        createdBy: { id: createdBy.id },
+      }),
+    );
+
+    await this.securityEventsService.record(SecurityEventType.API_KEY_CREATED, {
+      userId: owner.id,
+      email: owner.email,
+      actorId: createdBy.id === owner.id ? null : createdBy.id,
+      details: { apiKeyId: apiKey.id, name: apiKey.name, scopes: apiKey.scopes },
+    });
+
+    return { ...this.summarize(apiKey), key };
+  }
+
+  /**
+   * @throws NotFoundException if the user has no such key that is still active
+   */
+  async revoke(owner: User, apiKeyId: string, revokedBy: User): Promise<void> {
+    const result = await this.apiKeyRepository.update(
+      { id: apiKeyId, user: { id: owner.id }, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('API key not found');
+    }
+
+    await this.securityEventsService.record(SecurityEventType.API_KEY_REVOKED, {
+      userId: owner.id,
+      email: owner.email,
+      actorId: revokedBy.id === owner.id ? null : revokedBy.id,
+      details: { apiKeyId },
+    });
+  }
+
+  /**
+   * Revokes every key of a user, e.g. when the account is deleted, so the
+   * keys stay dead if the account is ever restored
+   * @returns number of keys revoked
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const result = await this.apiKeyRepository
+      .createQueryBuilder()
+      .update(ApiKey)
+      .set({ revokedAt: new Date() })
+      .where('user_id = :userId', { userId })
+      .andWhere('revoked_at IS NULL')
+      .execute();
+
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Looks up the key of a request, with its owner
+   * @throws UnauthorizedException if the key is unknown, revoked or expired,
+   * or its owner can no longer log in
+   */
+  async authenticate(key: string, ipAddress: string | null): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { keyHash: hashKey(key) },
+      relations: ['user'],
+    });
+
+    const now = new Date();
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= now) ||
+      apiKey.user.isDeleted ||
+      apiKey.user.status !== UserStatus.ACTIVE
+    ) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_PRECISION) {
+      await this.apiKeyRepository.update(apiKey.id, { lastUsedAt: now, lastUsedIp: ipAddress });
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Counts a request against the rate limit of the key, in the same storage
+   * as the throttler of the app
+   * @returns seconds until the key may be used again, 0 if the request may go ahead
+   */
+  async consume(apiKey: ApiKey): Promise<number> {
+    const record = await this.throttlerStorage.increment(
+      `api-key:${apiKey.id}`,
+      RATE_LIMIT_WINDOW,
+      this.rateLimitOf(apiKey),
+      RATE_LIMIT_WINDOW,
+      'api-key',
+    );
+
+    return record.isBlocked ? record.timeToBlockExpire : 0;
+  }
+
+  private rateLimitOf(apiKey: ApiKey): number {
+    return apiKey.rateLimit ?? this.configService.get<number>('apiKeys.rateLimit', 60);
+  }
+
+  private summarize(apiKey: ApiKey): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      rateLimit: this.rateLimitOf(apiKey),
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
@@ -4,6 +4,8 @@ import {
   Body,
   UseGuards,
   Get,
+  Delete,
+  Param,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
@@ -15,44 +17,99 @@ import {
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { AccountTokensService } from './account-tokens.service';
+import { ApiKeysService } from './api-keys.service';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorLoginDto } from './dto/two-factor-login.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { SetPasswordDto } from './dto/set-password.dto';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { Public } from './decorators/public.decorator';
+import { AllowExpiredPassword } from './decorators/allow-expired-password.decorator';
+import { AllowPendingTwoFactor } from './decorators/allow-pending-two-factor.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
+import { CurrentSession } from './decorators/current-session.decorator';
+import { CurrentClient } from './decorators/client-info.decorator';
+import { ClientInfo } from './interfaces/session.interface';
 import { User } from '../users/entities/user.entity';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) { }
+  constructor(
+    private authService: AuthService,
+    private sessionsService: SessionsService,
+    private twoFactorService: TwoFactorService,
+    private accountTokensService: AccountTokensService,
+    private apiKeysService: ApiKeysService,
+  ) { }
 
   @Public()
   @UseGuards(LocalAuthGuard)
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  @Throttle({ default: { limit: 50, ttl: 60000 } }) // 50 attempts per minute (increased for development)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // Bursts only; failed logins are counted per account and IP in the database
   @ApiOperation({ summary: 'User login' })
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
+    description: 'Login successful, or a two-factor challenge when the user has two-factor authentication enabled',
     type: AuthResponseDto,
   })
   @ApiResponse({
     status: 401,
     description: 'Invalid credentials',
   })
+  @ApiResponse({
+    status: 423,
+    description: 'Account locked after too many failed logins',
+  })
   @ApiResponse({
     status: 429,
-    description: 'Too many login attempts',
+    description: 'Too many login attempts, retry after the given delay',
   })
   async login(
     @Body() loginDto: LoginDto,
     @CurrentUser() user: User,
+    @CurrentClient() client: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    return this.authService.startLogin(user, client);
+  }
+
+  @Public()
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // Bursts only; wrong codes count as failed logins
+  @ApiOperation({ summary: 'Finish a login with a two-factor or recovery code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired challenge, or wrong code',
+  })
+  @ApiResponse({
+    status: 423,
+    description: 'Account locked after too many failed logins',
+  })
+  async loginTwoFactor(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @CurrentClient() client: ClientInfo,
   ): Promise<AuthResponseDto> {
-    return this.authService.login(user);
+    return this.authService.completeTwoFactorLogin(
+      twoFactorLoginDto.challengeToken,
+      twoFactorLoginDto.code,
+      client,
+    );
   }
 
   @Public()
@@ -67,16 +124,78 @@ export class AuthController {
   })
   @ApiResponse({
     status: 401,
-    description: 'Invalid refresh token',
+    description: 'Invalid, revoked or already used refresh token. Reusing a used token also ends its session',
   })
   async refresh(
     @Body() refreshTokenDto: RefreshTokenDto,
+    @CurrentClient() client: ClientInfo,
   ): Promise<AuthResponseDto> {
-    return this.authService.refreshToken(refreshTokenDto.refreshToken);
+    return this.authService.refreshToken(refreshTokenDto.refreshToken, client);
+  }
+
+  @Public()
+  @Post('invitations/accept')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 attempts per minute
+  @ApiOperation({ summary: 'Choose a password with an invitation link' })
+  @ApiResponse({
+    status: 200,
+    description: 'Password set, the user can log in',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid, used or expired link, or the password breaks the password policy',
+  })
+  async acceptInvitation(@Body() setPasswordDto: SetPasswordDto) {
+    await this.accountTokensService.acceptInvitation(setPasswordDto.token, setPasswordDto.password);
+    return {
+      success: true,
+      message: 'Invitation accepted, you can now log in',
+    };
+  }
+
+  @Public()
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 900000 } }) // 5 requests per 15 minutes
+  @ApiOperation({ summary: 'Mail a password reset link' })
+  @ApiResponse({
+    status: 200,
+    description: 'Same answer whether or not the email belongs to an account',
+  })
+  forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    this.accountTokensService.requestPasswordReset(forgotPasswordDto.email);
+    return {
+      success: true,
+      message: 'If the email belongs to an account, a password reset link has been sent to it',
+    };
+  }
+
+  @Public()
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 attempts per minute
+  @ApiOperation({ summary: 'Choose a new password with a reset link' })
+  @ApiResponse({
+    status: 200,
+    description: 'Password changed and all sessions ended',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid, used or expired link, or the password breaks the password policy or was used recently',
+  })
+  async resetPassword(@Body() setPasswordDto: SetPasswordDto) {
+    await this.accountTokensService.resetPassword(setPasswordDto.token, setPasswordDto.password);
+    return {
+      success: true,
+      message: 'Password reset successfully, please log in again',
+    };
   }
 
   @UseGuards(JwtAuthGuard)
   @Get('profile')
+  @AllowExpiredPassword()
+  @AllowPendingTwoFactor()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get current user profile' })
   @ApiResponse({
@@ -98,18 +217,249 @@ export class AuthController {
   @UseGuards(JwtAuthGuard)
   @Post('logout')
   @HttpCode(HttpStatus.OK)
+  @AllowExpiredPassword()
+  @AllowPendingTwoFactor()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'User logout' })
   @ApiResponse({
     status: 200,
-    description: 'Logout successful',
+    description: 'Logout successful, the refresh and access tokens of the session are revoked',
   })
-  async logout() {
-    // In a real application, you might want to blacklist the token
-    // For now, we'll just return a success message
+  async logout(@CurrentSession() sessionId?: string) {
+    if (sessionId) {
+      await this.authService.logout(sessionId);
+    }
+
     return {
       success: true,
       message: 'Logout successful',
     };
   }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the sessions the current user is logged in with' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions with user agent, IP address, and created and last used time',
+  })
+  async getSessions(
+    @CurrentUser() user: User,
+    @CurrentSession() sessionId?: string,
+  ) {
+    const sessions = await this.sessionsService.findAll(user.id, sessionId);
+    return {
+      success: true,
+      data: sessions,
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'End one of the sessions of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session ended',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+  })
+  async revokeSession(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.sessionsService.revoke(user.id, id);
+    return {
+      success: true,
+      message: 'Session ended',
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('api-keys')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the API keys of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys with scopes, rate limit, expiry and last use, without the keys themselves',
+  })
+  async getApiKeys(@CurrentUser() user: User) {
+    const apiKeys = await this.apiKeysService.findAll(user.id);
+    return {
+      success: true,
+      data: apiKeys,
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('api-keys')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create an API key for the current user' })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created, the key itself is only shown now',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Too many API keys, or the expiry or rate limit is out of range',
+  })
+  async createApiKey(
+    @CurrentUser() user: User,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ) {
+    const apiKey = await this.apiKeysService.create(user, createApiKeyDto, user);
+    return {
+      success: true,
+      message: 'API key created, store it now as it cannot be shown again',
+      data: apiKey,
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete('api-keys/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke an API key of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key revoked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'API key not found',
+  })
+  async revokeApiKey(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.apiKeysService.revoke(user, id, user);
+    return {
+      success: true,
+      message: 'API key revoked',
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('2fa')
+  @AllowExpiredPassword()
+  @AllowPendingTwoFactor()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Two-factor authentication status of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Whether it is enabled or required, and how many recovery codes are left',
+  })
+  async getTwoFactorStatus(@CurrentUser() user: User) {
+    const status = await this.twoFactorService.getStatus(user);
+    return {
+      success: true,
+      data: status,
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/enroll')
+  @HttpCode(HttpStatus.OK)
+  @AllowExpiredPassword()
+  @AllowPendingTwoFactor()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start setting up two-factor authentication' })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret and otpauth URI to show as a QR code in the authenticator app',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Two-factor authentication is already enabled',
+  })
+  async enrollTwoFactor(@CurrentUser() user: User) {
+    const enrollment = await this.twoFactorService.startEnrollment(user);
+    return {
+      success: true,
+      message: 'Scan the QR code and confirm with a code from the app',
+      data: enrollment,
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @AllowExpiredPassword()
+  @AllowPendingTwoFactor()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Enable two-factor authentication with a first code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled, with recovery codes that are only shown now',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No enrollment started or invalid code',
+  })
+  async verifyTwoFactor(
+    @CurrentUser() user: User,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(user, twoFactorCodeDto.code);
+    return {
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes },
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Replace the recovery codes of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'New recovery codes, the old ones no longer work',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code',
+  })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: User,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(user, twoFactorCodeDto.code);
+    return {
+      success: true,
+      message: 'Recovery codes replaced',
+      data: { recoveryCodes },
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Turn off two-factor authentication' })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication disabled',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Two-factor authentication is required for the role',
+  })
+  async disableTwoFactor(
+    @CurrentUser() user: User,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    await this.twoFactorService.disable(user, twoFactorCodeDto.code);
+    return {
+      success: true,
+      message: 'Two-factor authentication disabled',
+    };
+  }
 }
@@ -7,11 +7,39 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { SessionsService } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { TwoFactorService } from './two-factor.service';
+import { AccountTokensService } from './account-tokens.service';
+import { ApiKeysService } from './api-keys.service';
+import { AuditModule } from '../audit/audit.module';
+import { MailModule } from '../mail/mail.module';
 import { User } from '../users/entities/user.entity';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { LoginFailure } from './entities/login-failure.entity';
+import { PasswordHistory } from './entities/password-history.entity';
+import { UserTwoFactor } from './entities/user-two-factor.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { AccountToken } from './entities/account-token.entity';
+import { ApiKey } from './entities/api-key.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      RefreshToken,
+      LoginFailure,
+      PasswordHistory,
+      UserTwoFactor,
+      RecoveryCode,
+      AccountToken,
+      ApiKey,
+    ]),
+    AuditModule,
+    MailModule,
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -25,7 +53,27 @@ import { User } from '../users/entities/user.entity';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, LocalStrategy],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    RefreshTokensService,
+    SessionsService,
+    LoginAttemptsService,
+    PasswordPolicyService,
+    TwoFactorService,
+    AccountTokensService,
+    ApiKeysService,
+    JwtStrategy,
+    LocalStrategy,
+    ApiKeyStrategy,
+  ],
+  exports: [
+    AuthService,
+    SessionsService,
+    LoginAttemptsService,
+    PasswordPolicyService,
+    TwoFactorService,
+    AccountTokensService,
+    ApiKeysService,
+  ],
 })
 export class AuthModule {}
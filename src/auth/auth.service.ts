@@ -1,12 +1,22 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { ConfigService } from '@nestjs/config';
-import * as bcrypt from 'bcrypt';
 import { User, UserStatus } from '../users/entities/user.entity';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { JwtPayload } from './strategies/jwt.strategy';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { ClientInfo } from './interfaces/session.interface';
+
+interface TwoFactorChallengePayload {
+  sub: string;
+  type: 'two-factor';
+}
 
 @Injectable()
 export class AuthService {
@@ -14,42 +24,131 @@ export class AuthService {
     @InjectRepository(User)
     private userRepository: Repository<User>,
     private jwtService: JwtService,
+    private refreshTokensService: RefreshTokensService,
+    private loginAttemptsService: LoginAttemptsService,
+    private passwordPolicyService: PasswordPolicyService,
+    private twoFactorService: TwoFactorService,
     private configService: ConfigService,
   ) {}
 
-  async validateUser(email: string, password: string): Promise<User | null> {
+  /**
+   * Checks a login, counting failures per account and IP address
+   * @returns the user, or null when the email or password is wrong
+   * @throws HttpException 423 or 429 when logins are held back after failures
+   */
+  async validateUser(
+    email: string,
+    password: string,
+    ipAddress: string | null = null,
+  ): Promise<User | null> {
+    await this.loginAttemptsService.assertAllowed(email, ipAddress);
+
     const user = await this.userRepository.findOne({
       where: { email, isDeleted: false }, // Exclude soft-deleted users
     });
 
-    if (!user || user.status !== UserStatus.ACTIVE) {
+    const isPasswordValid = !!user && await this.passwordPolicyService.verify(password, user.password);
+    if (!isPasswordValid) {
+      await this.loginAttemptsService.recordFailure(email, ipAddress, user);
       return null;
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
+    if (user.status !== UserStatus.ACTIVE) {
       return null;
     }
 
-    // Update last login
-    await this.userRepository.update(user.id, {
-      lastLogin: new Date(),
-    });
+    // Hashes made before the rounds were raised are upgraded while the password is at hand
+    if (this.passwordPolicyService.needsRehash(user.password)) {
+      user.password = await this.passwordPolicyService.hash(password);
+      await this.userRepository.update(user.id, { password: user.password });
+    }
+
+    // With a second factor, failures keep counting until the code is right too
+    if (!(await this.twoFactorService.isEnabled(user.id))) {
+      await this.recordLogin(user);
+    }
 
     return user;
   }
 
-  async login(user: User): Promise<AuthResponseDto> {
+  /**
+   * Logs in a user whose password was accepted, or hands out a challenge
+   * to answer with a two-factor code if they have it enabled
+   */
+  async startLogin(user: User, client: ClientInfo): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    if (!(await this.twoFactorService.isEnabled(user.id))) {
+      return this.login(user, client);
+    }
+
+    const expiresIn = this.configService.get<string>('twoFactor.challengeExpiresIn', '5m');
+    const payload: TwoFactorChallengePayload = { sub: user.id, type: 'two-factor' };
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: this.jwtService.sign(payload, { expiresIn }),
+      expiresIn,
+    };
+  }
+
+  /**
+   * Second login step: checks the code for a challenge from `startLogin`
+   * @throws UnauthorizedException if the challenge is invalid or expired, or the code is wrong
+   * @throws HttpException 423 or 429 when logins are held back after failures
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    client: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload = this.jwtService.verify<TwoFactorChallengePayload>(challengeToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    if (payload.type !== 'two-factor') {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub, isDeleted: false },
+    });
+
+    if (!user || user.status !== UserStatus.ACTIVE) {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    await this.loginAttemptsService.assertAllowed(user.email, client.ipAddress);
+
+    if (!(await this.twoFactorService.verify(user, code, client.ipAddress))) {
+      await this.loginAttemptsService.recordFailure(user.email, client.ipAddress, user);
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.recordLogin(user);
+    return this.login(user, client);
+  }
+
+  /**
+   * Issues an access and refresh token pair, for a new session unless the
+   * session of a rotated refresh token is given
+   */
+  async login(user: User, client: ClientInfo, sessionId?: string): Promise<AuthResponseDto> {
+    const { token: refreshToken, record } = await this.refreshTokensService.issue(
+      user,
+      client,
+      sessionId,
+    );
+
     const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
       role: user.role,
+      sid: record.familyId,
     };
 
     const accessToken = this.jwtService.sign(payload);
-    const refreshToken = this.jwtService.sign(payload, {
-      expiresIn: this.configService.get('jwt.refreshTokenExpiry'),
-    });
 
     return {
       accessToken,
@@ -60,28 +159,40 @@ export class AuthService {
         name: user.name,
         role: user.role,
       },
+      passwordChangeRequired: this.passwordPolicyService.isExpired(user),
+      twoFactorSetupRequired: await this.twoFactorService.isSetupPending(user),
     };
   }
 
-  async refreshToken(refreshToken: string): Promise<AuthResponseDto> {
-    try {
-      const payload = this.jwtService.verify(refreshToken);
-      const user = await this.userRepository.findOne({
-        where: { id: payload.sub },
-      });
-
-      if (!user || user.status !== UserStatus.ACTIVE) {
-        throw new UnauthorizedException('Invalid refresh token');
-      }
+  async refreshToken(refreshToken: string, client: ClientInfo): Promise<AuthResponseDto> {
+    const used = await this.refreshTokensService.rotate(refreshToken);
 
-      return this.login(user);
-    } catch (error) {
+    if (used.user.status !== UserStatus.ACTIVE || used.user.isDeleted) {
+      await this.refreshTokensService.revokeFamily(used.familyId);
       throw new UnauthorizedException('Invalid refresh token');
     }
+
+    return this.login(used.user, client, used.familyId);
+  }
+
+  /**
+   * Ends a session, so neither its refresh token nor its access tokens are
+   * accepted anymore
+   */
+  async logout(sessionId: string): Promise<void> {
+    await this.refreshTokensService.revokeFamily(sessionId);
   }
 
   async hashPassword(password: string): Promise<string> {
-    const saltRounds = 10;
-    return bcrypt.hash(password, saltRounds);
+    return this.passwordPolicyService.hash(password);
+  }
+
+  private async recordLogin(user: User): Promise<void> {
+    await this.loginAttemptsService.recordSuccess(user.email);
+
+    // Update last login
+    await this.userRepository.update(user.id, {
+      lastLogin: new Date(),
+    });
   }
 }
@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_EXPIRED_PASSWORD_KEY = 'allowExpiredPassword';
+export const AllowExpiredPassword = () => SetMetadata(ALLOW_EXPIRED_PASSWORD_KEY, true);
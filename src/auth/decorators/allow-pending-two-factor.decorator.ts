@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_PENDING_TWO_FACTOR_KEY = 'allowPendingTwoFactor';
+export const AllowPendingTwoFactor = () => SetMetadata(ALLOW_PENDING_TWO_FACTOR_KEY, true);
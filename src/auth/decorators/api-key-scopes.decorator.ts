@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Lets API keys with any of the scopes call the route. Routes without it
+ * only take logins.
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { ClientInfo } from '../interfaces/session.interface';
+
+export const CurrentClient = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): ClientInfo => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return {
+      userAgent: request.header('user-agent')?.slice(0, 500) ?? null,
+      ipAddress: request.ip ?? null,
+    };
+  },
+);
@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from '../strategies/jwt.strategy';
+
+/**
+ * ID of the login session the access token belongs to, undefined for tokens
+ * issued before sessions were tracked
+ */
+export const CurrentSession = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): string | undefined => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    return request.sessionId;
+  },
+);
@@ -29,4 +29,16 @@ export class AuthResponseDto {
     name: string;
     role: UserRole;
   };
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether the password has expired and must be changed before anything else is allowed',
+  })
+  passwordChangeRequired: boolean;
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether two-factor authentication is required for the role and must be set up before anything else is allowed',
+  })
+  twoFactorSetupRequired: boolean;
 }
@@ -0,0 +1,53 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    example: 'ERP sync',
+    description: 'Name to tell the key apart',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: [ApiKeyScope.ORDERS_READ, ApiKeyScope.DELIVERIES_IMPORT],
+    description: 'What the key may be used for',
+    enum: ApiKeyScope,
+    isArray: true,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    example: '2025-12-31T23:59:59Z',
+    description: 'When the key stops working, never when left out',
+  })
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({
+    example: 120,
+    description: 'Requests per minute, the configured default when left out',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  rateLimit?: number;
+}
@@ -0,0 +1,12 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ForgotPasswordDto {
+  @ApiProperty({
+    example: 'john.doe@ordertracker.com',
+    description: 'Email address of the account',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+}
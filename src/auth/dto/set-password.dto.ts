@@ -0,0 +1,20 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetPasswordDto {
+  @ApiProperty({
+    example: 'Jx3v0b8Yc1...',
+    description: 'Token from the invitation or password reset link',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    example: 'NewPassword123!',
+    description: 'New password, checked against the password policy',
+  })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({
+    example: true,
+    description: 'The password was accepted, a two-factor code is needed to finish logging in',
+  })
+  twoFactorRequired: true;
+
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Short-lived token to send with the code to /auth/login/2fa',
+  })
+  challengeToken: string;
+
+  @ApiProperty({
+    example: '5m',
+    description: 'How long the challenge token is valid',
+  })
+  expiresIn: string;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app, or a recovery code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TwoFactorCodeDto } from './two-factor-code.dto';
+
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Challenge token returned by /auth/login',
+  })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum AccountTokenType {
+  INVITATION = 'invitation',
+  PASSWORD_RESET = 'password-reset',
+}
+
+/**
+ * A one-time link sent by mail to set a password. Only the SHA-256 of
+ * the token is kept.
+ */
+@Entity('account_tokens')
+export class AccountToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'enum', enum: AccountTokenType })
+  type: AccountTokenType;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  @Index('IDX_ACCOUNT_TOKEN_USER_ID')
+  user: User;
+
+  @Column({ name: 'token_hash', type: 'char', length: 64, unique: true })
+  tokenHash: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'used_at', type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  // The admin who sent an invitation
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  createdBy: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
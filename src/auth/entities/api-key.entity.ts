@@ -0,0 +1,74 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * What an API key may be used for. Routes opt in with @ApiKeyScopes();
+ * the role of the owner still applies on top.
+ */
+export enum ApiKeyScope {
+  ORDERS_READ = 'orders:read',
+  ORDERS_IMPORT = 'orders:import',
+  DELIVERIES_READ = 'deliveries:read',
+  DELIVERIES_IMPORT = 'deliveries:import',
+  ANALYTICS_READ = 'analytics:read',
+}
+
+/**
+ * A personal API key for scripts and integrations. It acts as its owner,
+ * limited to its scopes. Only the SHA-256 of the key is kept.
+ */
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  @Index('IDX_API_KEY_USER_ID')
+  user: User;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  // Start of the key, so its owner can tell keys apart
+  @Column({ type: 'varchar', length: 12 })
+  prefix: string;
+
+  @Column({ name: 'key_hash', type: 'char', length: 64, unique: true })
+  keyHash: string;
+
+  @Column({ type: 'json' })
+  scopes: ApiKeyScope[];
+
+  // Requests per minute, null for the configured default
+  @Column({ name: 'rate_limit', type: 'int', unsigned: true, nullable: true })
+  rateLimit: number | null;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ name: 'last_used_ip', type: 'varchar', length: 45, nullable: true })
+  lastUsedIp: string | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  // The admin who created the key for its owner, or the owner
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  createdBy: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,33 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export enum LoginFailureScope {
+  ACCOUNT = 'account',
+  IP = 'ip',
+}
+
+/**
+ * Recent failed logins for one account (by email) or one IP address. Kept in
+ * the database so every worker sees the same count.
+ */
+@Entity('login_failures')
+@Index('UQ_LOGIN_FAILURE_SCOPE_KEY', ['scope', 'key'], { unique: true })
+export class LoginFailure {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'scope', type: 'enum', enum: LoginFailureScope })
+  scope: LoginFailureScope;
+
+  @Column({ name: 'failure_key', type: 'varchar', length: 255 })
+  key: string;
+
+  @Column({ name: 'failures', type: 'int', default: 0 })
+  failures: number;
+
+  @Column({ name: 'last_failure_at', type: 'timestamp' })
+  lastFailureAt: Date;
+
+  // Only set for accounts; addresses are slowed down but never locked out
+  @Column({ name: 'locked_until', type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+}
@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * A one-time code that logs in instead of a TOTP code when the
+ * authenticator is lost. Only the SHA-256 of the code is kept.
+ */
+@Entity('two_factor_recovery_codes')
+export class RecoveryCode {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  @Index('IDX_RECOVERY_CODE_USER_ID')
+  user: User;
+
+  @Column({ name: 'code_hash', type: 'char', length: 64 })
+  codeHash: string;
+
+  @Column({ name: 'used_at', type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
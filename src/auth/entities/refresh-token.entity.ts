@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * A refresh token handed out to a user. Every refresh replaces the token
+ * with a new one of the same family, so a family is one login session.
+ * Only the SHA-256 of the token is kept.
+ */
+@Entity('refresh_tokens')
+export class RefreshToken {
+  // Also the `jti` of the token, so it can be found without scanning hashes
+  @PrimaryColumn({ type: 'varchar', length: 36 })
+  id: string;
+
+  @Column({ name: 'family_id', type: 'varchar', length: 36 })
+  @Index('IDX_REFRESH_TOKEN_FAMILY_ID')
+  familyId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'token_hash', type: 'char', length: 64 })
+  tokenHash: string;
+
+  @Column({ name: 'user_agent', type: 'varchar', length: 500, nullable: true })
+  userAgent: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  @Index('IDX_REFRESH_TOKEN_EXPIRES_AT')
+  expiresAt: Date;
+
+  @Column({ name: 'rotated_at', type: 'timestamp', nullable: true })
+  rotatedAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * The TOTP secret of a user. Until the first code is confirmed the
+ * enrollment is pending and logins do not ask for a code.
+ */
+@Entity('user_two_factor')
+export class UserTwoFactor {
+  @PrimaryColumn({ name: 'user_id', type: 'varchar', length: 36 })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // Base32, as entered into authenticator apps
+  @Column({ name: 'secret', type: 'varchar', length: 64 })
+  secret: string;
+
+  @Column({ name: 'enabled_at', type: 'timestamp', nullable: true })
+  enabledAt: Date | null;
+
+  // Time step of the last accepted code, so a code cannot be used twice
+  @Column({ name: 'last_used_step', type: 'int', unsigned: true, nullable: true })
+  lastUsedStep: number | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
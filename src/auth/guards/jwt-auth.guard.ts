@@ -1,15 +1,24 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import { Injectable, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ALLOW_EXPIRED_PASSWORD_KEY } from '../decorators/allow-expired-password.decorator';
+import { ALLOW_PENDING_TWO_FACTOR_KEY } from '../decorators/allow-pending-two-factor.decorator';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { AuthenticatedRequest } from '../strategies/jwt.strategy';
 
+/**
+ * Takes an access token, or an API key in the X-API-Key header on routes
+ * that allow one of its scopes
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
   constructor(private reflector: Reflector) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
@@ -19,6 +28,42 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
-    return super.canActivate(context);
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    // Global, and listed again in @UseGuards of most controllers: authenticate
+    // once, so an API key request is not counted twice against its rate limit
+    const authenticated = request.user ? true : ((await super.canActivate(context)) as boolean);
+
+    if (authenticated && request.apiKey) {
+      const scopes = this.reflector.getAllAndOverride<ApiKeyScope[] | undefined>(
+        API_KEY_SCOPES_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      const { scopes: granted } = request.apiKey;
+
+      if (!scopes?.some((scope) => granted.includes(scope))) {
+        throw new ForbiddenException('API key is not allowed on this route');
+      }
+
+      return true;
+    }
+
+    const allowExpiredPassword = this.reflector.getAllAndOverride<boolean>(
+      ALLOW_EXPIRED_PASSWORD_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const allowPendingTwoFactor = this.reflector.getAllAndOverride<boolean>(
+      ALLOW_PENDING_TWO_FACTOR_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (authenticated && request.passwordExpired && !allowExpiredPassword) {
+      throw new ForbiddenException('Password has expired and must be changed');
+    }
+
+    if (authenticated && request.twoFactorSetupPending && !allowPendingTwoFactor) {
+      throw new ForbiddenException('Two-factor authentication must be set up first');
+    }
+
+    return authenticated;
   }
 }
@@ -0,0 +1,24 @@
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+/**
+ * An API key as listed to its owner and to admins, without the key itself
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  // Requests per minute, the configured default when the key has none
+  rateLimit: number;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date;
+}
+
+/**
+ * A new key with its secret, which is only shown once
+ */
+export interface CreatedApiKey extends ApiKeySummary {
+  key: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Where a login or refresh came from, as far as the request tells
+ */
+export interface ClientInfo {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * A login session as listed to its user and to admins
+ */
+export interface SessionSummary extends ClientInfo {
+  id: string;
+  createdAt: Date;
+  // Last time the session refreshed its tokens
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,186 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LoginFailure, LoginFailureScope } from './entities/login-failure.entity';
+import { SecurityEventsService } from '../audit/security-events.service';
+import { SecurityEventType } from '../audit/entities/security-event.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+
+  const now = new Date('2025-04-01T12:00:00Z');
+  const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+  const user = { id: 'user-1', email: 'Jane@Example.com' } as User;
+  const admin = { id: 'admin-1' } as User;
+
+  const mockLoginFailureRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    query: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockSecurityEventsService = {
+    record: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  const failure = (overrides: Partial<LoginFailure>) =>
+    ({
+      id: '1',
+      scope: LoginFailureScope.ACCOUNT,
+      key: 'jane@example.com',
+      failures: 1,
+      lastFailureAt: secondsAgo(1),
+      lockedUntil: null,
+      ...overrides,
+    }) as LoginFailure;
+
+  const statusOf = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+      return null;
+    } catch (error) {
+      return (error as HttpException).getStatus();
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new LoginAttemptsService(
+      mockLoginFailureRepository as unknown as Repository<LoginFailure>,
+      mockSecurityEventsService as unknown as SecurityEventsService,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  describe('assertAllowed', () => {
+    it('should allow logins after a few failures', async () => {
+      mockLoginFailureRepository.find.mockResolvedValue([failure({ failures: 2 })]);
+
+      await expect(service.assertAllowed('jane@example.com', '203.0.113.7', now)).resolves.toBeUndefined();
+      expect(mockLoginFailureRepository.find).toHaveBeenCalledWith({
+        where: [
+          { scope: LoginFailureScope.ACCOUNT, key: 'jane@example.com' },
+          { scope: LoginFailureScope.IP, key: '203.0.113.7' },
+        ],
+      });
+    });
+
+    it('should double the wait with every further failure', async () => {
+      // 5 failures: 2 over the delay threshold of 3, so 4 seconds
+      mockLoginFailureRepository.find.mockResolvedValue([
+        failure({ failures: 5, lastFailureAt: secondsAgo(3) }),
+      ]);
+      await expect(statusOf(service.assertAllowed('jane@example.com', null, now))).resolves.toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+
+      mockLoginFailureRepository.find.mockResolvedValue([
+        failure({ failures: 5, lastFailureAt: secondsAgo(5) }),
+      ]);
+      await expect(service.assertAllowed('jane@example.com', null, now)).resolves.toBeUndefined();
+    });
+
+    it('should slow down an address trying many accounts', async () => {
+      mockLoginFailureRepository.find.mockResolvedValue([
+        failure({ scope: LoginFailureScope.IP, key: '203.0.113.7', failures: 20 }),
+      ]);
+
+      await expect(statusOf(service.assertAllowed('other@example.com', '203.0.113.7', now))).resolves.toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    });
+
+    it('should ignore failures outside the window', async () => {
+      mockLoginFailureRepository.find.mockResolvedValue([
+        failure({ failures: 9, lastFailureAt: secondsAgo(16 * 60) }),
+      ]);
+
+      await expect(service.assertAllowed('jane@example.com', null, now)).resolves.toBeUndefined();
+    });
+
+    it('should reject logins to a locked account', async () => {
+      mockLoginFailureRepository.find.mockResolvedValue([
+        failure({ failures: 10, lastFailureAt: secondsAgo(600), lockedUntil: new Date(now.getTime() + 300000) }),
+      ]);
+
+      await expect(statusOf(service.assertAllowed('Jane@example.com', null, now))).resolves.toBe(
+        HttpStatus.LOCKED,
+      );
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should count the failure for the account and the address', async () => {
+      mockLoginFailureRepository.findOne.mockResolvedValue(failure({ failures: 4 }));
+
+      await service.recordFailure('Jane@Example.com', '203.0.113.7', user, now);
+
+      const [[, accountParams], [, ipParams]] = mockLoginFailureRepository.query.mock.calls as [string, unknown[]][];
+      expect(accountParams).toEqual([
+        LoginFailureScope.ACCOUNT,
+        'jane@example.com',
+        now,
+        secondsAgo(15 * 60),
+        now,
+      ]);
+      expect(ipParams[1]).toBe('203.0.113.7');
+      expect(mockLoginFailureRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account at the threshold and record a security event', async () => {
+      mockLoginFailureRepository.findOne.mockResolvedValue(failure({ failures: 10 }));
+      mockLoginFailureRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.recordFailure('jane@example.com', '203.0.113.7', user, now);
+
+      const lockedUntil = new Date(now.getTime() + 15 * 60 * 1000);
+      expect(mockLoginFailureRepository.update).toHaveBeenCalledWith(expect.any(Array), { lockedUntil });
+      expect(mockSecurityEventsService.record).toHaveBeenCalledWith(SecurityEventType.ACCOUNT_LOCKED, {
+        userId: 'user-1',
+        email: 'jane@example.com',
+        ipAddress: '203.0.113.7',
+        details: { failures: 10, lockedUntil },
+      });
+    });
+
+    it('should record one lockout when another worker locked the account first', async () => {
+      mockLoginFailureRepository.findOne.mockResolvedValue(failure({ failures: 11 }));
+      mockLoginFailureRepository.update.mockResolvedValue({ affected: 0 });
+
+      await service.recordFailure('jane@example.com', null, user, now);
+
+      expect(mockSecurityEventsService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlock', () => {
+    it('should clear a lockout and record who lifted it', async () => {
+      mockLoginFailureRepository.findOne.mockResolvedValue(
+        failure({ failures: 10, lockedUntil: new Date(Date.now() + 60000) }),
+      );
+
+      await expect(service.unlock(user, admin)).resolves.toBe(true);
+      expect(mockLoginFailureRepository.delete).toHaveBeenCalledWith('1');
+      expect(mockSecurityEventsService.record).toHaveBeenCalledWith(SecurityEventType.ACCOUNT_UNLOCKED, {
+        userId: 'user-1',
+        email: 'jane@example.com',
+        actorId: 'admin-1',
+      });
+    });
+
+    it('should report accounts that were not locked', async () => {
+      mockLoginFailureRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.unlock(user, admin)).resolves.toBe(false);
+      expect(mockSecurityEventsService.record).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, LessThanOrEqual } from 'typeorm';
+import { LoginFailure, LoginFailureScope } from './entities/login-failure.entity';
+import { SecurityEventsService } from '../audit/security-events.service';
+import { SecurityEventType } from '../audit/entities/security-event.entity';
+import { User } from '../users/entities/user.entity';
+
+interface LoginProtectionConfig {
+  failureWindowMinutes: number;
+  delayAfterFailures: number;
+  delayBaseSeconds: number;
+  delayMaxSeconds: number;
+  lockoutThreshold: number;
+  lockoutMinutes: number;
+}
+
+const DEFAULT_LOGIN_PROTECTION: LoginProtectionConfig = {
+  failureWindowMinutes: 15,
+  delayAfterFailures: 3,
+  delayBaseSeconds: 1,
+  delayMaxSeconds: 60,
+  lockoutThreshold: 10,
+  lockoutMinutes: 15,
+};
+
+/**
+ * Counts failed logins per account and per IP address. Repeated failures
+ * make each next attempt wait longer, and too many lock the account for a while.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  constructor(
+    @InjectRepository(LoginFailure)
+    private loginFailureRepository: Repository<LoginFailure>,
+    private securityEventsService: SecurityEventsService,
+    private configService: ConfigService,
+  ) { }
+
+  /**
+   * Checks whether a login may be tried at all, before the password is
+   * @throws HttpException 423 while the account is locked
+   * @throws HttpException 429 until the delay after the last failure has passed
+   */
+  async assertAllowed(email: string, ipAddress: string | null, now = new Date()): Promise<void> {
+    const failures = await this.loginFailureRepository.find({
+      where: this.keys(email, ipAddress),
+    });
+    const account = failures.find((failure) => failure.scope === LoginFailureScope.ACCOUNT);
+
+    if (account?.lockedUntil && account.lockedUntil > now) {
+      throw new HttpException(
+        `Account is locked after too many failed logins, try again in ${this.minutesUntil(account.lockedUntil, now)} minute(s)`,
+        HttpStatus.LOCKED,
+      );
+    }
+
+    const retryAt = Math.max(0, ...failures.map((failure) => this.retryAt(failure, now)));
+    if (retryAt > now.getTime()) {
+      throw new HttpException(
+        `Too many failed logins, try again in ${Math.ceil((retryAt - now.getTime()) / 1000)} second(s)`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Counts a failed login and locks the account once it reaches the threshold
+   * @param user the account the email belongs to, if any
+   */
+  async recordFailure(
+    email: string,
+    ipAddress: string | null,
+    user: User | null,
+    now = new Date(),
+  ): Promise<void> {
+    const config = this.getConfig();
+    const windowStart = new Date(now.getTime() - config.failureWindowMinutes * 60 * 1000);
+
+    for (const { scope, key } of this.keys(email, ipAddress)) {
+      // One statement, so concurrent failures on other workers are all counted
+      await this.loginFailureRepository.query(
+        `INSERT INTO login_failures (scope, failure_key, failures, last_failure_at)
+         VALUES (?, ?, 1, ?)
+         ON DUPLICATE KEY UPDATE
+           failures = IF(last_failure_at < ?, 1, failures + 1),
+           last_failure_at = ?`,
+        [scope, key, now, windowStart, now],
+      );
+    }
+
+    const account = await this.loginFailureRepository.findOne({
+      where: { scope: LoginFailureScope.ACCOUNT, key: this.normalizeEmail(email) },
+    });
+
+    if (!account || account.failures < config.lockoutThreshold) {
+      return;
+    }
+
+    const lockedUntil = new Date(now.getTime() + config.lockoutMinutes * 60 * 1000);
+    // Only the worker that sets the lock records it
+    const locked = await this.loginFailureRepository.update(
+      [
+        { id: account.id, lockedUntil: IsNull() },
+        { id: account.id, lockedUntil: LessThanOrEqual(now) },
+      ],
+      { lockedUntil },
+    );
+
+    if (locked.affected) {
+      await this.securityEventsService.record(SecurityEventType.ACCOUNT_LOCKED, {
+        userId: user?.id ?? null,
+        email: account.key,
+        ipAddress,
+        details: { failures: account.failures, lockedUntil },
+      });
+    }
+  }
+
+  /**
+   * Forgets the failures of an account after it logged in
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.loginFailureRepository.delete({
+      scope: LoginFailureScope.ACCOUNT,
+      key: this.normalizeEmail(email),
+    });
+  }
+
+  /**
+   * Lifts a lockout before it runs out
+   * @returns whether the account was locked
+   */
+  async unlock(user: User, admin: User): Promise<boolean> {
+    const email = this.normalizeEmail(user.email);
+    const account = await this.loginFailureRepository.findOne({
+      where: { scope: LoginFailureScope.ACCOUNT, key: email },
+    });
+
+    if (!account) {
+      return false;
+    }
+
+    await this.loginFailureRepository.delete(account.id);
+
+    const wasLocked = !!account.lockedUntil && account.lockedUntil > new Date();
+    if (wasLocked) {
+      await this.securityEventsService.record(SecurityEventType.ACCOUNT_UNLOCKED, {
+        userId: user.id,
+        email,
+        actorId: admin.id,
+      });
+    }
+
+    return wasLocked;
+  }
+
+  private retryAt(failure: LoginFailure, now: Date): number {
+    const config = this.getConfig();
+    const windowStart = now.getTime() - config.failureWindowMinutes * 60 * 1000;
+    const excess = failure.failures - config.delayAfterFailures;
+
+    if (excess < 0 || failure.lastFailureAt.getTime() < windowStart) {
+      return 0;
+    }
+
+    const delaySeconds = Math.min(config.delayBaseSeconds * 2 ** excess, config.delayMaxSeconds);
+    return failure.lastFailureAt.getTime() + delaySeconds * 1000;
+  }
+
+  private keys(email: string, ipAddress: string | null): { scope: LoginFailureScope; key: string }[] {
+    const keys = [{ scope: LoginFailureScope.ACCOUNT, key: this.normalizeEmail(email) }];
+    if (ipAddress) {
+      keys.push({ scope: LoginFailureScope.IP, key: ipAddress });
+    }
+    return keys;
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private minutesUntil(date: Date, now: Date): number {
+    return Math.ceil((date.getTime() - now.getTime()) / 60000);
+  }
+
+  private getConfig(): LoginProtectionConfig {
+    return this.configService.get<LoginProtectionConfig>('login', DEFAULT_LOGIN_PROTECTION);
+  }
+}
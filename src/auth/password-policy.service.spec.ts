@@ -0,0 +1,143 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LessThan, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHistory } from './entities/password-history.entity';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+
+  const now = new Date('2025-04-01T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  // Low rounds keep the tests fast; the policy only cares that they are configured
+  const policy = {
+    bcryptRounds: 4,
+    minLength: 8,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumbers: true,
+    requireSpecialChars: true,
+    historySize: 3,
+    maxAgeDays: 90,
+  };
+
+  const mockPasswordHistoryRepository = {
+    create: jest.fn((data: Partial<PasswordHistory>) => data),
+    save: jest.fn((data: Partial<PasswordHistory>) => Promise.resolve(data)),
+    find: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => policy),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPasswordHistoryRepository.find.mockResolvedValue([]);
+    service = new PasswordPolicyService(
+      mockPasswordHistoryRepository as unknown as Repository<PasswordHistory>,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  describe('assertAcceptable', () => {
+    it('should accept a password that follows every rule', async () => {
+      await expect(service.assertAcceptable('Corr3ct-Horse')).resolves.toBeUndefined();
+    });
+
+    it('should list every rule a password breaks', async () => {
+      await expect(service.assertAcceptable('abc')).rejects.toThrow(
+        'Password must be at least 8 characters long, contain an uppercase letter, contain a number, contain a special character',
+      );
+    });
+
+    it('should reject one of the latest passwords of the user', async () => {
+      mockPasswordHistoryRepository.find.mockResolvedValue([
+        { id: '3', passwordHash: await bcrypt.hash('Newest-Pass1', 4) },
+        { id: '2', passwordHash: await bcrypt.hash('Corr3ct-Horse', 4) },
+      ]);
+
+      await expect(service.assertAcceptable('Corr3ct-Horse', 'user-1')).rejects.toThrow(BadRequestException);
+      expect(mockPasswordHistoryRepository.find).toHaveBeenCalledWith({
+        where: { user: { id: 'user-1' } },
+        order: { id: 'DESC' },
+        take: 3,
+      });
+    });
+
+    it('should accept a password that is not among the latest', async () => {
+      mockPasswordHistoryRepository.find.mockResolvedValue([
+        { id: '3', passwordHash: await bcrypt.hash('Newest-Pass1', 4) },
+      ]);
+
+      await expect(service.assertAcceptable('Corr3ct-Horse', 'user-1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('hash', () => {
+    it('should hash with the configured rounds', async () => {
+      const hash = await service.hash('Corr3ct-Horse');
+
+      expect(bcrypt.getRounds(hash)).toBe(4);
+      await expect(service.verify('Corr3ct-Horse', hash)).resolves.toBe(true);
+    });
+
+    it('should ask for a rehash of hashes with fewer rounds only', async () => {
+      policy.bcryptRounds = 5;
+      try {
+        expect(service.needsRehash(await bcrypt.hash('Corr3ct-Horse', 4))).toBe(true);
+        expect(service.needsRehash(await bcrypt.hash('Corr3ct-Horse', 5))).toBe(false);
+      } finally {
+        policy.bcryptRounds = 4;
+      }
+    });
+  });
+
+  describe('isExpired', () => {
+    it('should expire a password once it reaches the maximum age', () => {
+      expect(service.isExpired({ passwordChangedAt: daysAgo(89), mustChangePassword: false }, now)).toBe(false);
+      expect(service.isExpired({ passwordChangedAt: daysAgo(90), mustChangePassword: false }, now)).toBe(true);
+    });
+
+    it('should expire a password an admin asked to be changed', () => {
+      expect(service.isExpired({ passwordChangedAt: daysAgo(1), mustChangePassword: true }, now)).toBe(true);
+    });
+
+    it('should never expire passwords when the maximum age is 0', () => {
+      policy.maxAgeDays = 0;
+      try {
+        expect(service.isExpired({ passwordChangedAt: daysAgo(1000), mustChangePassword: false }, now)).toBe(false);
+      } finally {
+        policy.maxAgeDays = 90;
+      }
+    });
+  });
+
+  describe('remember', () => {
+    it('should forget passwords that dropped out of the history', async () => {
+      mockPasswordHistoryRepository.find.mockResolvedValue([{ id: '9' }, { id: '8' }, { id: '7' }]);
+
+      await service.remember('user-1', 'hash');
+
+      expect(mockPasswordHistoryRepository.save).toHaveBeenCalledWith({
+        user: { id: 'user-1' },
+        passwordHash: 'hash',
+      });
+      expect(mockPasswordHistoryRepository.delete).toHaveBeenCalledWith({
+        user: { id: 'user-1' },
+        id: LessThan('7'),
+      });
+    });
+
+    it('should keep a history that is not full yet', async () => {
+      mockPasswordHistoryRepository.find.mockResolvedValue([{ id: '1' }]);
+
+      await service.remember('user-1', 'hash');
+
+      expect(mockPasswordHistoryRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { PasswordHistory } from './entities/password-history.entity';
+import { User } from '../users/entities/user.entity';
+
+interface PasswordPolicyConfig {
+  bcryptRounds: number;
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+  historySize: number;
+  maxAgeDays: number;
+}
+
+const DEFAULT_PASSWORD_POLICY: PasswordPolicyConfig = {
+  bcryptRounds: 12,
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSpecialChars: true,
+  historySize: 5,
+  maxAgeDays: 90,
+};
+
+/**
+ * Applies `security.password`: how strong a new password must be, which
+ * older ones may not come back, when one expires and how it is hashed
+ */
+@Injectable()
+export class PasswordPolicyService {
+  constructor(
+    @InjectRepository(PasswordHistory)
+    private passwordHistoryRepository: Repository<PasswordHistory>,
+    private configService: ConfigService,
+  ) { }
+
+  /**
+   * Checks a new password against the complexity rules and, for an existing
+   * user, against the latest passwords they have set
+   * @throws BadRequestException listing every rule the password breaks
+   */
+  async assertAcceptable(password: string, userId?: string): Promise<void> {
+    const config = this.getConfig();
+    const problems: string[] = [];
+
+    if (password.length < config.minLength) {
+      problems.push(`be at least ${config.minLength} characters long`);
+    }
+    if (config.requireUppercase && !/[A-Z]/.test(password)) {
+      problems.push('contain an uppercase letter');
+    }
+    if (config.requireLowercase && !/[a-z]/.test(password)) {
+      problems.push('contain a lowercase letter');
+    }
+    if (config.requireNumbers && !/\d/.test(password)) {
+      problems.push('contain a number');
+    }
+    if (config.requireSpecialChars && !/[^A-Za-z0-9]/.test(password)) {
+      problems.push('contain a special character');
+    }
+
+    if (problems.length > 0) {
+      throw new BadRequestException(`Password must ${problems.join(', ')}`);
+    }
+
+    if (userId && (await this.wasUsedRecently(userId, password))) {
+      throw new BadRequestException(
+        `Password must not be one of the last ${config.historySize} passwords`,
+      );
+    }
+  }
+
+  async hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.getConfig().bcryptRounds);
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    return bcrypt.compare(password, hash);
+  }
+
+  /**
+   * Whether a hash was made with fewer rounds than now configured
+   */
+  needsRehash(hash: string): boolean {
+    return bcrypt.getRounds(hash) < this.getConfig().bcryptRounds;
+  }
+
+  /**
+   * Whether the user has to change their password before doing anything else
+   */
+  isExpired(user: Pick<User, 'passwordChangedAt' | 'mustChangePassword'>, now = new Date()): boolean {
+    if (user.mustChangePassword) {
+      return true;
+    }
+
+    const { maxAgeDays } = this.getConfig();
+    if (maxAgeDays <= 0 || !user.passwordChangedAt) {
+      return false;
+    }
+
+    return user.passwordChangedAt.getTime() + maxAgeDays * 24 * 60 * 60 * 1000 <= now.getTime();
+  }
+
+  /**
+   * Adds a newly set password to the history of the user and forgets those
+   * that have dropped out of it
+   */
+  async remember(userId: string, passwordHash: string): Promise<void> {
+    const { historySize } = this.getConfig();
+    if (historySize <= 0) {
+      return;
+    }
+
+    await this.passwordHistoryRepository.save(
+      this.passwordHistoryRepository.create({ user: { id: userId }, passwordHash }),
+    );
+
+    const kept = await this.passwordHistoryRepository.find({
+      select: ['id'],
+      where: { user: { id: userId } },
+      order: { id: 'DESC' },
+      take: historySize,
+    });
+
+    if (kept.length === historySize) {
+      await this.passwordHistoryRepository.delete({
+        user: { id: userId },
+        id: LessThan(kept[kept.length - 1].id),
+      });
+    }
+  }
+
+  private async wasUsedRecently(userId: string, password: string): Promise<boolean> {
+    const { historySize } = this.getConfig();
+    if (historySize <= 0) {
+      return false;
+    }
+
+    const recent = await this.passwordHistoryRepository.find({
+      where: { user: { id: userId } },
+      order: { id: 'DESC' },
+      take: historySize,
+    });
+
+    for (const entry of recent) {
+      if (await bcrypt.compare(password, entry.passwordHash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private getConfig(): PasswordPolicyConfig {
+    return this.configService.get<PasswordPolicyConfig>('security.password', DEFAULT_PASSWORD_POLICY);
+  }
+}
@@ -0,0 +1,132 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { IsNull, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('RefreshTokensService', () => {
+  let service: RefreshTokensService;
+
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const user = { id: 'user-1' } as User;
+  const client = { userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.7' };
+
+  const mockRefreshTokenRepository = {
+    create: jest.fn((data: Partial<RefreshToken>) => data),
+    save: jest.fn((data: Partial<RefreshToken>) => Promise.resolve(data)),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+  const stored = (token: string, overrides: Partial<RefreshToken> = {}) =>
+    ({
+      id: jwtService.decode<{ jti: string }>(token).jti,
+      familyId: 'family-1',
+      user,
+      tokenHash: hash(token),
+      rotatedAt: null,
+      revokedAt: null,
+      ...overrides,
+    }) as RefreshToken;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new RefreshTokensService(
+      mockRefreshTokenRepository as unknown as Repository<RefreshToken>,
+      jwtService,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  describe('issue', () => {
+    it('should store the hash of a new token and where it went in a new family', async () => {
+      const { token, record } = await service.issue(user, client);
+
+      expect(record.tokenHash).toBe(hash(token));
+      expect(record.familyId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(record.userAgent).toBe('Mozilla/5.0');
+      expect(record.ipAddress).toBe('203.0.113.7');
+      expect(record.id).toBe(jwtService.decode<{ jti: string }>(token).jti);
+      expect(record.expiresAt.getTime() - Date.now()).toBeGreaterThan(6 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should keep the family of a rotated token', async () => {
+      const { record } = await service.issue(user, client, 'family-1');
+
+      expect(record.familyId).toBe('family-1');
+    });
+  });
+
+  describe('rotate', () => {
+    it('should use up a valid token', async () => {
+      const { token } = await service.issue(user, client, 'family-1');
+      const record = stored(token);
+      mockRefreshTokenRepository.findOne.mockResolvedValue(record);
+      mockRefreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+
+      await expect(service.rotate(token)).resolves.toBe(record);
+      expect(mockRefreshTokenRepository.update).toHaveBeenCalledWith(
+        { id: record.id, rotatedAt: IsNull(), revokedAt: IsNull() },
+        { rotatedAt: expect.any(Date) },
+      );
+    });
+
+    it('should revoke the whole family when a used token comes back', async () => {
+      const { token } = await service.issue(user, client, 'family-1');
+      mockRefreshTokenRepository.findOne.mockResolvedValue(stored(token, { rotatedAt: new Date() }));
+      mockRefreshTokenRepository.update.mockResolvedValueOnce({ affected: 0 }).mockResolvedValueOnce({ affected: 2 });
+
+      await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+      expect(mockRefreshTokenRepository.update).toHaveBeenLastCalledWith(
+        { familyId: 'family-1', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) },
+      );
+    });
+
+    it('should reject a token of a revoked session', async () => {
+      const { token } = await service.issue(user, client, 'family-1');
+      mockRefreshTokenRepository.findOne.mockResolvedValue(stored(token, { revokedAt: new Date() }));
+      mockRefreshTokenRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+      expect(mockRefreshTokenRepository.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a token that does not match the stored hash', async () => {
+      const { token } = await service.issue(user, client, 'family-1');
+      mockRefreshTokenRepository.findOne.mockResolvedValue(stored(token, { tokenHash: hash('other') }));
+
+      await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+      expect(mockRefreshTokenRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject access tokens', async () => {
+      const accessToken = jwtService.sign({ sub: 'user-1', email: 'user@example.com', role: 'admin' });
+
+      await expect(service.rotate(accessToken)).rejects.toThrow(UnauthorizedException);
+      expect(mockRefreshTokenRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isFamilyActive', () => {
+    it('should report a logged out session as inactive', async () => {
+      mockRefreshTokenRepository.count.mockResolvedValue(0);
+
+      await expect(service.isFamilyActive('family-1')).resolves.toBe(false);
+      expect(mockRefreshTokenRepository.count).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', revokedAt: IsNull() },
+      });
+    });
+  });
+});
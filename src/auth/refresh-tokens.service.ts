@@ -0,0 +1,179 @@
+import {
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, LessThan } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { User } from '../users/entities/user.entity';
+import { ClientInfo } from './interfaces/session.interface';
+
+export interface RefreshTokenPayload {
+  sub: string;
+  jti: string;
+  type: 'refresh';
+  exp?: number;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  record: RefreshToken;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issues refresh tokens, rotates them on every use and revokes whole
+ * families (login sessions) on logout or when a used token comes back
+ */
+@Injectable()
+export class RefreshTokensService
+implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(RefreshTokensService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) { }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () => void this.purgeExpired().catch((error) =>
+        this.logger.error(`Purging expired refresh tokens failed: ${error.message}`),
+      ),
+      this.configService.get<number>('jwt.refreshTokenPurgeInterval', 3600000),
+    );
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Signs a refresh token and stores its hash, starting a new family unless
+   * one is given
+   */
+  async issue(
+    user: User,
+    client: ClientInfo,
+    familyId: string = randomUUID(),
+  ): Promise<IssuedRefreshToken> {
+    const id = randomUUID();
+    const payload: RefreshTokenPayload = { sub: user.id, jti: id, type: 'refresh' };
+    const token = this.jwtService.sign(payload, {
+      expiresIn: this.configService.get('jwt.refreshTokenExpiry', '7d'),
+    });
+    const { exp } = this.jwtService.decode<RefreshTokenPayload>(token);
+
+    const record = await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        id,
+        familyId,
+        user: { id: user.id },
+        tokenHash: hashToken(token),
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        expiresAt: new Date((exp ?? 0) * 1000),
+        rotatedAt: null,
+        revokedAt: null,
+      }),
+    );
+
+    return { token, record };
+  }
+
+  /**
+   * Uses up a refresh token so it cannot be exchanged again
+   * @returns the used token with its user, to issue the next one of the family
+   * @throws UnauthorizedException if the token is invalid, revoked or was
+   * already used, in which case its whole family is revoked
+   */
+  async rotate(token: string): Promise<RefreshToken> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = this.jwtService.verify<RefreshTokenPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (payload.type !== 'refresh' || !payload.jti) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const record = await this.refreshTokenRepository.findOne({
+      where: { id: payload.jti },
+      relations: ['user'],
+    });
+
+    if (!record || record.tokenHash !== hashToken(token)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const result = await this.refreshTokenRepository.update(
+      { id: record.id, rotatedAt: IsNull(), revokedAt: IsNull() },
+      { rotatedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      if (!record.revokedAt) {
+        // Only one holder can have exchanged it, so the session may be stolen
+        await this.revokeFamily(record.familyId);
+        this.logger.warn(
+          `Refresh token reuse detected for user ${record.user.id}, revoked session ${record.familyId}`,
+        );
+      }
+      throw new UnauthorizedException('Refresh token is no longer valid, please log in again');
+    }
+
+    return record;
+  }
+
+  /**
+   * @returns number of tokens revoked
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    const result = await this.refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Whether a session was neither logged out nor revoked
+   */
+  async isFamilyActive(familyId: string): Promise<boolean> {
+    const active = await this.refreshTokenRepository.count({
+      where: { familyId, revokedAt: IsNull() },
+    });
+    return active > 0;
+  }
+
+  /**
+   * @returns number of expired tokens removed
+   */
+  async purgeExpired(now = new Date()): Promise<number> {
+    const result = await this.refreshTokenRepository.delete({ expiresAt: LessThan(now) });
+    const purged = result.affected ?? 0;
+
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired refresh token(s)`);
+    }
+
+    return purged;
+  }
+}
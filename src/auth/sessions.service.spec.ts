@@ -0,0 +1,135 @@
+import { NotFoundException } from '@nestjs/common';
+import { IsNull, Repository } from 'typeorm';
+import { SessionsService } from './sessions.service';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+
+  const startsQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const revokeQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockRefreshTokenRepository = {
+    find: jest.fn(),
+    count: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockRefreshTokensService = {
+    revokeFamily: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SessionsService(
+      mockRefreshTokenRepository as unknown as Repository<RefreshToken>,
+      mockRefreshTokensService as unknown as RefreshTokensService,
+    );
+  });
+
+  describe('findAll', () => {
+    it('should describe each session by its newest token', async () => {
+      const lastUsedAt = new Date('2025-03-02T08:00:00Z');
+      const expiresAt = new Date('2025-03-09T08:00:00Z');
+      mockRefreshTokenRepository.find.mockResolvedValue([
+        {
+          familyId: 'family-1',
+          userAgent: 'Mozilla/5.0',
+          ipAddress: '203.0.113.7',
+          createdAt: lastUsedAt,
+          expiresAt,
+        },
+        {
+          familyId: 'family-2',
+          userAgent: null,
+          ipAddress: null,
+          createdAt: lastUsedAt,
+          expiresAt,
+        },
+      ]);
+      mockRefreshTokenRepository.createQueryBuilder.mockReturnValue(startsQueryBuilder);
+      startsQueryBuilder.getRawMany.mockResolvedValue([
+        { familyId: 'family-1', createdAt: '2025-03-01T09:00:00.000Z' },
+        { familyId: 'family-2', createdAt: '2025-03-02T08:00:00.000Z' },
+      ]);
+
+      const sessions = await service.findAll('user-1', 'family-2');
+
+      expect(sessions).toEqual([
+        {
+          id: 'family-1',
+          userAgent: 'Mozilla/5.0',
+          ipAddress: '203.0.113.7',
+          createdAt: new Date('2025-03-01T09:00:00Z'),
+          lastUsedAt,
+          expiresAt,
+          current: false,
+        },
+        {
+          id: 'family-2',
+          userAgent: null,
+          ipAddress: null,
+          createdAt: lastUsedAt,
+          lastUsedAt,
+          expiresAt,
+          current: true,
+        },
+      ]);
+      expect(startsQueryBuilder.where).toHaveBeenCalledWith('token.familyId IN (:...familyIds)', {
+        familyIds: ['family-1', 'family-2'],
+      });
+    });
+
+    it('should not query session starts without sessions', async () => {
+      mockRefreshTokenRepository.find.mockResolvedValue([]);
+
+      await expect(service.findAll('user-1')).resolves.toEqual([]);
+      expect(mockRefreshTokenRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should end an active session of the user', async () => {
+      mockRefreshTokenRepository.count.mockResolvedValue(1);
+
+      await service.revoke('user-1', 'family-1');
+
+      expect(mockRefreshTokenRepository.count).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', user: { id: 'user-1' }, revokedAt: IsNull() },
+      });
+      expect(mockRefreshTokensService.revokeFamily).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should not end sessions of other users', async () => {
+      mockRefreshTokenRepository.count.mockResolvedValue(0);
+
+      await expect(service.revoke('user-2', 'family-1')).rejects.toThrow(NotFoundException);
+      expect(mockRefreshTokensService.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('should revoke every token of the user that is still valid', async () => {
+      mockRefreshTokenRepository.createQueryBuilder.mockReturnValue(revokeQueryBuilder);
+      revokeQueryBuilder.execute.mockResolvedValue({ affected: 3 });
+
+      await expect(service.revokeAll('user-1')).resolves.toBe(3);
+      expect(revokeQueryBuilder.where).toHaveBeenCalledWith('user_id = :userId', { userId: 'user-1' });
+      expect(revokeQueryBuilder.andWhere).toHaveBeenCalledWith('revoked_at IS NULL');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, MoreThan } from 'typeorm';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { SessionSummary } from './interfaces/session.interface';
+
+/**
+ * Lists and ends login sessions. A session is a refresh token family; its
+ * newest token tells where and when it was last used.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    private refreshTokensService: RefreshTokensService,
+  ) { }
+
+  async findAll(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const newestTokens = await this.refreshTokenRepository.find({
+      where: {
+        user: { id: userId },
+        rotatedAt: IsNull(),
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { createdAt: 'DESC' },
+    });
+
+    if (newestTokens.length === 0) {
+      return [];
+    }
+
+    const starts: { familyId: string; createdAt: Date | string }[] = await this.refreshTokenRepository
+      .createQueryBuilder('token')
+      .select('token.familyId', 'familyId')
+      .addSelect('MIN(token.createdAt)', 'createdAt')
+      .where('token.familyId IN (:...familyIds)', {
+        familyIds: newestTokens.map((token) => token.familyId),
+      })
+      .groupBy('token.familyId')
+      .getRawMany();
+    const createdAtByFamily = new Map(starts.map((start) => [start.familyId, new Date(start.createdAt)]));
+
+    return newestTokens.map((token) => ({
+      id: token.familyId,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      createdAt: createdAtByFamily.get(token.familyId) ?? token.createdAt,
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      current: token.familyId === currentSessionId,
+    }));
+  }
+
+  /**
+   * @throws NotFoundException if the user has no such session that is still active
+   */
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const active = await this.refreshTokenRepository.count({
+      where: { familyId: sessionId, user: { id: userId }, revokedAt: IsNull() },
+    });
+
+    if (active === 0) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.refreshTokensService.revokeFamily(sessionId);
+  }
+
+  /**
+   * Ends every session of a user, e.g. when the account is deactivated
+   * @returns number of tokens revoked
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const result = await this.refreshTokenRepository
+      .createQueryBuilder()
+      .update(RefreshToken)
+      .set({ revokedAt: new Date() })
+      .where('user_id = :userId', { userId })
+      .andWhere('revoked_at IS NULL')
+      .execute();
+
+    return result.affected ?? 0;
+  }
+}
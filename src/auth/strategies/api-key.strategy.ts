@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ThrottlerException } from '@nestjs/throttler';
+import { Strategy } from 'passport';
+import { Request } from 'express';
+import { ApiKeysService } from '../api-keys.service';
+import { AuthenticatedRequest } from './jwt.strategy';
+import { User } from '../../users/entities/user.entity';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+type VerifyApiKey = (req: Request, key: string, done: (error: unknown, user?: User | false) => void) => void;
+
+/**
+ * Passport strategy that reads a key from the X-API-Key header and fails,
+ * so the next strategy gets a turn, when there is none
+ */
+class HeaderApiKeyStrategy extends Strategy {
+  constructor(private readonly verify: VerifyApiKey) {
+    super();
+  }
+
+  authenticate(req: Request): void {
+    const key = req.get(API_KEY_HEADER);
+    if (!key) {
+      this.fail(401);
+      return;
+    }
+
+    this.verify(req, key, (error, user) => {
+      if (error) {
+        this.error(error);
+      } else if (user) {
+        this.success(user);
+      } else {
+        this.fail(401);
+      }
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(HeaderApiKeyStrategy, 'api-key') {
+  constructor(private apiKeysService: ApiKeysService) {
+    super();
+  }
+
+  async validate(req: AuthenticatedRequest, key: string): Promise<User> {
+    const apiKey = await this.apiKeysService.authenticate(key, req.ip ?? null);
+
+    const retryAfter = await this.apiKeysService.consume(apiKey);
+    if (retryAfter > 0) {
+      req.res?.header('Retry-After', String(retryAfter));
+      throw new ThrottlerException('API key rate limit exceeded');
+    }
+
+    // JwtAuthGuard checks the scopes of the key against the route
+    req.apiKey = apiKey;
+    return apiKey.user;
+  }
+}
@@ -4,35 +4,66 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { Request } from 'express';
 import { User, UserStatus } from '../../users/entities/user.entity';
+import { RefreshTokensService } from '../refresh-tokens.service';
+import { PasswordPolicyService } from '../password-policy.service';
+import { TwoFactorService } from '../two-factor.service';
+import { ApiKey } from '../entities/api-key.entity';
 
 export interface JwtPayload {
   sub: string;
   email: string;
   role: string;
+  sid?: string; // Login session, the family of the refresh token issued with it
+  type?: 'refresh' | 'two-factor';
   iat?: number;
   exp?: number;
 }
 
+export interface AuthenticatedRequest extends Request {
+  user: User;
+  sessionId?: string;
+  passwordExpired?: boolean;
+  twoFactorSetupPending?: boolean;
+  // Set instead of the fields above when the request came with an API key
+  apiKey?: ApiKey;
+}
+
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    private refreshTokensService: RefreshTokensService,
+    private passwordPolicyService: PasswordPolicyService,
+    private twoFactorService: TwoFactorService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
       secretOrKey: configService.get<string>('jwt.secret') || 'fallback-secret',
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: JwtPayload): Promise<User> {
+  async validate(req: AuthenticatedRequest, payload: JwtPayload): Promise<User> {
     const { sub: userId } = payload;
 
+    // Refresh and two-factor challenge tokens are signed with the same secret
+    // but only work on /auth/refresh and /auth/login/2fa
+    if (payload.type) {
+      throw new UnauthorizedException('Invalid access token');
+    }
+
+    // Tokens issued before sessions were tracked carry no session and run out on their own
+    if (payload.sid && !(await this.refreshTokensService.isFamilyActive(payload.sid))) {
+      throw new UnauthorizedException('Session has ended, please log in again');
+    }
+
     const user = await this.userRepository.findOne({
-      where: { id: userId },
+      where: { id: userId, isDeleted: false },
     });
 
     if (!user) {
@@ -43,6 +74,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('User account is inactive');
     }
 
+    req.sessionId = payload.sid;
+    // JwtAuthGuard only lets the request through to routes that allow it
+    req.passwordExpired = this.passwordPolicyService.isExpired(user);
+    req.twoFactorSetupPending = await this.twoFactorService.isSetupPending(user);
     return user;
   }
 }
@@ -1,6 +1,7 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy } from 'passport-local';
+import { Request } from 'express';
 import { AuthService } from '../auth.service';
 import { User } from '../../users/entities/user.entity';
 
@@ -10,11 +11,12 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
     super({
       usernameField: 'email',
       passwordField: 'password',
+      passReqToCallback: true,
     });
   }
 
-  async validate(email: string, password: string): Promise<User> {
-    const user = await this.authService.validateUser(email, password);
+  async validate(req: Request, email: string, password: string): Promise<User> {
+    const user = await this.authService.validateUser(email, password, req.ip ?? null);
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
     }
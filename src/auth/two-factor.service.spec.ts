@@ -0,0 +1,220 @@
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, IsNull, LessThan, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { TwoFactorService } from './two-factor.service';
+import { UserTwoFactor } from './entities/user-two-factor.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { SecurityEventsService } from '../audit/security-events.service';
+import { SecurityEventType } from '../audit/entities/security-event.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+import { base32Encode, findTotpStep, totpCode, totpStep } from './totp';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+  const user = { id: 'user-1', email: 'jane@example.com', role: UserRole.UPLOADER } as User;
+  const admin = { id: 'admin-1' } as User;
+  const currentCode = () => totpCode(secret, totpStep(new Date()));
+
+  const mockTwoFactorRepository = {
+    create: jest.fn((data: Partial<UserTwoFactor>) => data),
+    save: jest.fn((data: Partial<UserTwoFactor>) => Promise.resolve(data)),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockRecoveryCodeRepository = {
+    create: jest.fn((data: Partial<RecoveryCode>) => data),
+    save: jest.fn((data: Partial<RecoveryCode>[]) => Promise.resolve(data)),
+    count: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockManager = {
+    update: jest.fn(),
+    delete: jest.fn(),
+    getRepository: jest.fn(() => mockRecoveryCodeRepository),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work: (manager: typeof mockManager) => unknown) => work(mockManager)),
+  };
+
+  const mockSecurityEventsService = {
+    record: jest.fn(),
+  };
+
+  const twoFactorConfig: Record<string, unknown> = {
+    'twoFactor.issuer': 'Order Tracker',
+    'twoFactor.requiredRoles': [UserRole.ADMIN],
+    'twoFactor.recoveryCodeCount': 10,
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => twoFactorConfig[key] ?? defaultValue),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TwoFactorService(
+      mockTwoFactorRepository as unknown as Repository<UserTwoFactor>,
+      mockRecoveryCodeRepository as unknown as Repository<RecoveryCode>,
+      mockDataSource as unknown as DataSource,
+      mockSecurityEventsService as unknown as SecurityEventsService,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  describe('totp', () => {
+    it('should generate the codes of the RFC 6238 test vectors', () => {
+      expect(totpCode(secret, totpStep(new Date(59 * 1000)), 8)).toBe('94287082');
+      expect(totpCode(secret, totpStep(new Date(1111111109 * 1000)), 8)).toBe('07081804');
+      expect(totpCode(secret, totpStep(new Date(2000000000 * 1000)), 8)).toBe('69279037');
+    });
+
+    it('should accept a code from the previous period only', () => {
+      const now = new Date(1111111109 * 1000);
+      const previous = totpCode(secret, totpStep(now) - 1);
+      const older = totpCode(secret, totpStep(now) - 2);
+
+      expect(findTotpStep(secret, previous, now)).toBe(totpStep(now) - 1);
+      expect(findTotpStep(secret, older, now)).toBeNull();
+    });
+  });
+
+  describe('startEnrollment', () => {
+    it('should store a new pending secret and return its otpauth URI', async () => {
+      mockTwoFactorRepository.count.mockResolvedValue(0);
+
+      const enrollment = await service.startEnrollment(user);
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment.otpauthUri).toBe(
+        `otpauth://totp/Order%20Tracker%3Ajane%40example.com?secret=${enrollment.secret}` +
+        '&issuer=Order+Tracker&algorithm=SHA1&digits=6&period=30',
+      );
+      expect(mockTwoFactorRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', secret: enrollment.secret, enabledAt: null }),
+      );
+    });
+
+    it('should refuse to replace an enabled secret', async () => {
+      mockTwoFactorRepository.count.mockResolvedValue(1);
+
+      await expect(service.startEnrollment(user)).rejects.toThrow(ConflictException);
+      expect(mockTwoFactorRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable two-factor authentication and hand out recovery codes', async () => {
+      mockTwoFactorRepository.findOne.mockResolvedValue({ userId: 'user-1', secret, enabledAt: null });
+      const step = totpStep(new Date());
+
+      const codes = await service.confirmEnrollment(user, totpCode(secret, step));
+
+      expect(codes).toHaveLength(10);
+      expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        UserTwoFactor,
+        { userId: 'user-1' },
+        { enabledAt: expect.any(Date), lastUsedStep: step },
+      );
+      expect(mockRecoveryCodeRepository.delete).toHaveBeenCalledWith({ user: { id: 'user-1' } });
+      expect(mockSecurityEventsService.record).toHaveBeenCalledWith(SecurityEventType.TWO_FACTOR_ENABLED, {
+        userId: 'user-1',
+        email: 'jane@example.com',
+      });
+    });
+
+    it('should reject a wrong code', async () => {
+      mockTwoFactorRepository.findOne.mockResolvedValue({ userId: 'user-1', secret, enabledAt: null });
+
+      await expect(service.confirmEnrollment(user, 'abcdef')).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      mockTwoFactorRepository.findOne.mockResolvedValue({ userId: 'user-1', secret, enabledAt: new Date() });
+    });
+
+    it('should accept a current code once', async () => {
+      const step = totpStep(new Date());
+      const code = totpCode(secret, step);
+      mockTwoFactorRepository.update.mockResolvedValueOnce({ affected: 1 }).mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.verify(user, code)).resolves.toBe(true);
+      await expect(service.verify(user, code)).resolves.toBe(false);
+      expect(mockTwoFactorRepository.update).toHaveBeenCalledWith(
+        [
+          { userId: 'user-1', lastUsedStep: IsNull() },
+          { userId: 'user-1', lastUsedStep: LessThan(step) },
+        ],
+        { lastUsedStep: step },
+      );
+    });
+
+    it('should use up a recovery code and record it', async () => {
+      mockRecoveryCodeRepository.update.mockResolvedValue({ affected: 1 });
+
+      await expect(service.verify(user, 'ABCDE-12345', '203.0.113.7')).resolves.toBe(true);
+      expect(mockRecoveryCodeRepository.update).toHaveBeenCalledWith(
+        {
+          user: { id: 'user-1' },
+          codeHash: createHash('sha256').update('abcde12345').digest('hex'),
+          usedAt: IsNull(),
+        },
+        { usedAt: expect.any(Date) },
+      );
+      expect(mockSecurityEventsService.record).toHaveBeenCalledWith(SecurityEventType.RECOVERY_CODE_USED, {
+        userId: 'user-1',
+        email: 'jane@example.com',
+        ipAddress: '203.0.113.7',
+      });
+    });
+
+    it('should reject any code when two-factor authentication is not enabled', async () => {
+      mockTwoFactorRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.verify(user, currentCode())).resolves.toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('should not let a role that requires it turn it off', async () => {
+      await expect(service.disable({ ...user, role: UserRole.ADMIN } as User, currentCode())).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('reset', () => {
+    it('should remove the secret and codes and record the admin', async () => {
+      mockTwoFactorRepository.count.mockResolvedValue(1);
+
+      await expect(service.reset(user, admin)).resolves.toBe(true);
+      expect(mockManager.delete).toHaveBeenCalledWith(RecoveryCode, { user: { id: 'user-1' } });
+      expect(mockManager.delete).toHaveBeenCalledWith(UserTwoFactor, { userId: 'user-1' });
+      expect(mockSecurityEventsService.record).toHaveBeenCalledWith(SecurityEventType.TWO_FACTOR_DISABLED, {
+        userId: 'user-1',
+        email: 'jane@example.com',
+        actorId: 'admin-1',
+      });
+    });
+  });
+
+  describe('isSetupPending', () => {
+    it('should only be pending for required roles without two-factor authentication', async () => {
+      mockTwoFactorRepository.count.mockResolvedValue(0);
+
+      await expect(service.isSetupPending({ ...user, role: UserRole.ADMIN } as User)).resolves.toBe(true);
+      await expect(service.isSetupPending(user)).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, Not, LessThan, DataSource } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { UserTwoFactor } from './entities/user-two-factor.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { SecurityEventsService } from '../audit/security-events.service';
+import { SecurityEventType } from '../audit/entities/security-event.entity';
+import { User } from '../users/entities/user.entity';
+import { findTotpStep, generateTotpSecret, totpUri } from './totp';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+/**
+ * TOTP two-factor authentication: enrollment, checking codes at login and
+ * one-time recovery codes for a lost authenticator
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectRepository(UserTwoFactor)
+    private twoFactorRepository: Repository<UserTwoFactor>,
+    @InjectRepository(RecoveryCode)
+    private recoveryCodeRepository: Repository<RecoveryCode>,
+    private dataSource: DataSource,
+    private securityEventsService: SecurityEventsService,
+    private configService: ConfigService,
+  ) { }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const enabled = await this.twoFactorRepository.count({
+      where: { userId, enabledAt: Not(IsNull()) },
+    });
+    return enabled > 0;
+  }
+
+  /**
+   * Whether the role of the user has to use two-factor authentication
+   */
+  isRequired(user: Pick<User, 'role'>): boolean {
+    return this.configService.get<string[]>('twoFactor.requiredRoles', []).includes(user.role);
+  }
+
+  /**
+   * Whether the role of the user requires two-factor authentication they
+   * have not set up yet
+   */
+  async isSetupPending(user: User): Promise<boolean> {
+    return this.isRequired(user) && !(await this.isEnabled(user.id));
+  }
+
+  async getStatus(user: User): Promise<TwoFactorStatus> {
+    const enabled = await this.isEnabled(user.id);
+    const recoveryCodesLeft = enabled
+      ? await this.recoveryCodeRepository.count({ where: { user: { id: user.id }, usedAt: IsNull() } })
+      : 0;
+
+    return { enabled, required: this.isRequired(user), recoveryCodesLeft };
+  }
+
+  /**
+   * Starts (or restarts) an enrollment with a new secret, which takes
+   * effect once a code from it is confirmed
+   * @throws ConflictException if two-factor authentication is already enabled
+   */
+  async startEnrollment(user: User): Promise<TwoFactorEnrollment> {
+    if (await this.isEnabled(user.id)) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.twoFactorRepository.save(
+      this.twoFactorRepository.create({
+        userId: user.id,
+        secret,
+        enabledAt: null,
+        lastUsedStep: null,
+      }),
+    );
+
+    return {
+      secret,
+      otpauthUri: totpUri(
+        secret,
+        user.email,
+        this.configService.get<string>('twoFactor.issuer', 'Order Tracker'),
+      ),
+    };
+  }
+
+  /**
+   * Enables two-factor authentication with the first code from the authenticator
+   * @returns recovery codes, shown to the user this once
+   * @throws BadRequestException if no enrollment was started or the code is wrong
+   */
+  async confirmEnrollment(user: User, code: string): Promise<string[]> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId: user.id, enabledAt: IsNull() },
+    });
+
+    const step = twoFactor ? findTotpStep(twoFactor.secret, code) : null;
+    if (!twoFactor || step === null) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = await this.dataSource.transaction(async (manager) => {
+      await manager.update(UserTwoFactor, { userId: user.id }, { enabledAt: new Date(), lastUsedStep: step });
+      return this.replaceRecoveryCodes(user.id, manager.getRepository(RecoveryCode));
+    });
+
+    await this.securityEventsService.record(SecurityEventType.TWO_FACTOR_ENABLED, {
+      userId: user.id,
+      email: user.email,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks a TOTP or recovery code during login. Either can only be used once.
+   */
+  async verify(user: User, code: string, ipAddress: string | null = null): Promise<boolean> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId: user.id, enabledAt: Not(IsNull()) },
+    });
+
+    if (!twoFactor) {
+      return false;
+    }
+
+    const step = findTotpStep(twoFactor.secret, code);
+    if (step !== null) {
+      // Conditional, so the same code accepted by two workers counts once
+      const result = await this.twoFactorRepository.update(
+        [
+          { userId: user.id, lastUsedStep: IsNull() },
+          { userId: user.id, lastUsedStep: LessThan(step) },
+        ],
+        { lastUsedStep: step },
+      );
+      return !!result.affected;
+    }
+
+    const used = await this.recoveryCodeRepository.update(
+      { user: { id: user.id }, codeHash: hashRecoveryCode(code), usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    if (!used.affected) {
+      return false;
+    }
+
+    await this.securityEventsService.record(SecurityEventType.RECOVERY_CODE_USED, {
+      userId: user.id,
+      email: user.email,
+      ipAddress,
+    });
+    return true;
+  }
+
+  /**
+   * Replaces all recovery codes, e.g. when most have been used up
+   * @throws BadRequestException if the code is wrong
+   */
+  async regenerateRecoveryCodes(user: User, code: string): Promise<string[]> {
+    if (!(await this.verify(user, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    return this.replaceRecoveryCodes(user.id, this.recoveryCodeRepository);
+  }
+
+  /**
+   * Turns two-factor authentication off after checking a code
+   * @throws ForbiddenException if the role of the user requires it
+   * @throws BadRequestException if the code is wrong
+   */
+  async disable(user: User, code: string): Promise<void> {
+    if (this.isRequired(user)) {
+      throw new ForbiddenException('Two-factor authentication is required for your role');
+    }
+
+    if (!(await this.verify(user, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.remove(user);
+  }
+
+  /**
+   * Turns two-factor authentication off for a user who lost their
+   * authenticator and recovery codes
+   * @returns whether it was enabled
+   */
+  async reset(user: User, admin: User): Promise<boolean> {
+    return this.remove(user, admin);
+  }
+
+  private async remove(user: User, admin?: User): Promise<boolean> {
+    const wasEnabled = await this.isEnabled(user.id);
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(RecoveryCode, { user: { id: user.id } });
+      await manager.delete(UserTwoFactor, { userId: user.id });
+    });
+
+    if (wasEnabled) {
+      await this.securityEventsService.record(SecurityEventType.TWO_FACTOR_DISABLED, {
+        userId: user.id,
+        email: user.email,
+        actorId: admin?.id ?? null,
+      });
+    }
+
+    return wasEnabled;
+  }
+
+  private async replaceRecoveryCodes(
+    userId: string,
+    repository: Repository<RecoveryCode>,
+  ): Promise<string[]> {
+    const count = this.configService.get<number>('twoFactor.recoveryCodeCount', 10);
+    // 10 hex characters, shown as xxxxx-xxxxx
+    const codes = Array.from({ length: count }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    await repository.delete({ user: { id: userId } });
+    await repository.save(
+      codes.map((code) => repository.create({ user: { id: userId }, codeHash: hashRecoveryCode(code) })),
+    );
+
+    return codes;
+  }
+}
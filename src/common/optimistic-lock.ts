@@ -0,0 +1,83 @@
+import {
+  BadRequestException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { EntityManager, EntityTarget, FindOptionsWhere } from 'typeorm';
+
+interface Versioned {
+  id: string;
+  version: number;
+}
+
+/**
+ * ETag of a versioned record, e.g. `"7"`
+ */
+export function versionETag(record: Versioned): string {
+  return `"${record.version}"`;
+}
+
+/**
+ * Reads the version a client last saw from its `If-Match` header
+ * @returns undefined when the header is missing or `*`
+ * @throws BadRequestException if the header is not an ETag handed out by this API
+ */
+export function parseIfMatch(header: string | undefined): number | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = /^\s*(?:W\/)?"(\d+)"\s*$/.exec(header);
+  if (!match) {
+    throw new BadRequestException('If-Match must be an ETag returned by this API');
+  }
+
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Rejects a change made from a stale copy of the record
+ * @throws PreconditionFailedException if the record changed since the client read it
+ */
+export function assertVersion(
+  record: Versioned,
+  expectedVersion: number | undefined,
+  label: string,
+): void {
+  if (expectedVersion !== undefined && record.version !== expectedVersion) {
+    throw new PreconditionFailedException(
+      `${label} was changed by someone else, reload it and try again`,
+    );
+  }
+}
+
+/**
+ * Bumps the version of a record inside the transaction that changes it, only
+ * if it is still the version the change was validated against. The row stays
+ * locked until the transaction ends, so concurrent changes run one at a time.
+ * @throws PreconditionFailedException if the client sent If-Match and the record changed
+ * @throws ConflictException if the record changed while the request was being handled
+ */
+export async function claimVersion<T extends Versioned>(
+  manager: EntityManager,
+  target: EntityTarget<T>,
+  record: T,
+  expectedVersion: number | undefined,
+  label: string,
+): Promise<void> {
+  const { affected } = await manager.increment(
+    target,
+    { id: record.id, version: record.version } as FindOptionsWhere<T>,
+    'version',
+    1,
+  );
+
+  if (!affected) {
+    if (expectedVersion !== undefined) {
+      throw new PreconditionFailedException(
+        `${label} was changed by someone else, reload it and try again`,
+      );
+    }
+    throw new ConflictException(`${label} was changed while saving, please try again`);
+  }
+}
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('accountTokens', () => ({
+  invitationExpiresHours: parseInt(process.env.INVITATION_EXPIRES_HOURS || '72', 10),
+  passwordResetExpiresMinutes: parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60', 10),
+  // Pages of the frontend the links in the mails open, with ?token=... appended
+  invitationUrl: process.env.INVITATION_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/accept-invitation`,
+  passwordResetUrl: process.env.PASSWORD_RESET_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password`,
+}));
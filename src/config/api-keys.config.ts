@@ -0,0 +1,8 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('apiKeys', () => ({
+  // Requests per minute for keys without a limit of their own
+  rateLimit: parseInt(process.env.API_KEY_RATE_LIMIT || '60', 10),
+  maxRateLimit: parseInt(process.env.API_KEY_MAX_RATE_LIMIT || '600', 10),
+  maxPerUser: parseInt(process.env.API_KEY_MAX_PER_USER || '10', 10),
+}));
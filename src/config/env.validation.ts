@@ -1,5 +1,5 @@
 import { plainToInstance, Transform } from 'class-transformer';
-import { IsEnum, IsNumber, IsOptional, IsString, validateSync } from 'class-validator';
+import { IsEnum, IsIn, IsNumber, IsOptional, IsString, Matches, validateSync } from 'class-validator';
 
 enum Environment {
   Development = 'development',
@@ -57,6 +57,151 @@ export class EnvironmentVariables {
   @IsOptional()
   JWT_EXPIRES_IN: string = '24h';
 
+  @IsString()
+  @IsOptional()
+  REFRESH_TOKEN_EXPIRES_IN: string = '7d';
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  REFRESH_TOKEN_PURGE_INTERVAL: number = 3600000;
+
+  // Login Protection Configuration
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  LOGIN_FAILURE_WINDOW_MINUTES: number = 15;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  LOGIN_DELAY_AFTER_FAILURES: number = 3;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  LOGIN_DELAY_BASE_SECONDS: number = 1;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  LOGIN_DELAY_MAX_SECONDS: number = 60;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  LOGIN_LOCKOUT_THRESHOLD: number = 10;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  LOGIN_LOCKOUT_MINUTES: number = 15;
+
+  // Password Policy
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  BCRYPT_ROUNDS: number = 12;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  PASSWORD_HISTORY_SIZE: number = 5;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  PASSWORD_MAX_AGE_DAYS: number = 90;
+
+  // Two-Factor Authentication
+  @IsString()
+  @IsOptional()
+  TWO_FACTOR_ISSUER: string = 'Order Tracker';
+
+  @Matches(/^((admin|uploader|viewer)(,(admin|uploader|viewer))*)?$/, {
+    message: 'TWO_FACTOR_REQUIRED_ROLES must be a comma separated list of admin, uploader and viewer',
+  })
+  @IsOptional()
+  TWO_FACTOR_REQUIRED_ROLES: string = '';
+
+  @IsString()
+  @IsOptional()
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN: string = '5m';
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  TWO_FACTOR_RECOVERY_CODES: number = 10;
+
+  // Invitation and Password Reset Configuration
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  INVITATION_EXPIRES_HOURS: number = 72;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  PASSWORD_RESET_EXPIRES_MINUTES: number = 60;
+
+  @IsString()
+  @IsOptional()
+  INVITATION_URL: string;
+
+  @IsString()
+  @IsOptional()
+  PASSWORD_RESET_URL: string;
+
+  // API Key Configuration
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  API_KEY_RATE_LIMIT: number = 60;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  API_KEY_MAX_RATE_LIMIT: number = 600;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  API_KEY_MAX_PER_USER: number = 10;
+
+  // Mail Configuration
+  @IsIn(['smtp', 'file'])
+  @IsOptional()
+  MAIL_TRANSPORT: string = 'file';
+
+  @IsString()
+  @IsOptional()
+  MAIL_FROM: string = 'Order Tracker <no-reply@localhost>';
+
+  @IsString()
+  @IsOptional()
+  MAIL_FILE_DIR: string = 'uploads/mail';
+
+  @IsString()
+  @IsOptional()
+  SMTP_HOST: string = 'localhost';
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  SMTP_PORT: number = 587;
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  SMTP_SECURE: string = 'false';
+
+  @IsString()
+  @IsOptional()
+  SMTP_USER: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_PASSWORD: string;
+
   // Throttling Configuration
   @IsNumber()
   @IsOptional()
@@ -67,6 +212,99 @@ export class EnvironmentVariables {
   @IsOptional()
   @Transform(({ value }) => parseInt(value, 10))
   THROTTLE_LIMIT: number = 100;
+
+  // Import Job Configuration
+  @IsString()
+  @IsOptional()
+  IMPORT_JOBS_WORKER: string = 'true';
+
+  @IsString()
+  @IsOptional()
+  IMPORT_JOBS_DIR: string = 'uploads/import-jobs';
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  IMPORT_JOBS_POLL_INTERVAL: number = 2000;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  IMPORT_JOBS_STALE_AFTER: number = 60000;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  IMPORT_JOBS_MAX_ATTEMPTS: number = 3;
+
+  // File Storage Configuration
+  @IsIn(['local', 's3'])
+  @IsOptional()
+  STORAGE_DRIVER: string = 'local';
+
+  @IsString()
+  @IsOptional()
+  STORAGE_LOCAL_DIR: string = 'uploads/files';
+
+  @IsString()
+  @IsOptional()
+  STORAGE_S3_ENDPOINT: string;
+
+  @IsString()
+  @IsOptional()
+  STORAGE_S3_BUCKET: string = 'order-tracker';
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  STORAGE_ORDER_UPLOAD_RETENTION_DAYS: number = 0;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  STORAGE_DELIVERY_UPLOAD_RETENTION_DAYS: number = 0;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  STORAGE_ATTACHMENT_RETENTION_DAYS: number = 0;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  STORAGE_PENDING_RETENTION_HOURS: number = 24;
+
+  // Idempotency Configuration
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  IDEMPOTENCY_KEY_TTL_HOURS: number = 24;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  IDEMPOTENCY_PURGE_INTERVAL: number = 3600000;
+
+  // Order and Delivery ID Configuration
+  @IsString()
+  @IsOptional()
+  SEQUENCE_TENANT: string;
+
+  @Matches(/\{seq(:\d+)?\}/, { message: 'ORDER_ID_FORMAT must contain {seq} or {seq:N}' })
+  @IsOptional()
+  ORDER_ID_FORMAT: string = 'ORD-{YYYY}-{seq:6}';
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  ORDER_ID_RESET_YEARLY: string = 'true';
+
+  @Matches(/\{seq(:\d+)?\}/, { message: 'DELIVERY_ID_FORMAT must contain {seq} or {seq:N}' })
+  @IsOptional()
+  DELIVERY_ID_FORMAT: string = 'DEL-{seq:6}';
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  DELIVERY_ID_RESET_YEARLY: string = 'false';
 }
 
 export function validate(config: Record<string, unknown>) {
@@ -81,5 +319,11 @@ export function validate(config: Record<string, unknown>) {
   if (errors.length > 0) {
     throw new Error(errors.toString());
   }
+
+  // The file transport delivers nothing and keeps invitation and reset links on disk
+  if (validatedConfig.NODE_ENV === Environment.Production && validatedConfig.MAIL_TRANSPORT !== 'smtp') {
+    throw new Error('MAIL_TRANSPORT must be set to smtp in production');
+  }
+
   return validatedConfig;
 }
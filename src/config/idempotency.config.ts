@@ -0,0 +1,7 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('idempotency', () => ({
+  // Hours a key replays its first response before it can be used again
+  ttlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+  purgeInterval: parseInt(process.env.IDEMPOTENCY_PURGE_INTERVAL || '3600000', 10), // ms
+}));
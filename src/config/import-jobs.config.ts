@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('importJobs', () => ({
+  workerEnabled: process.env.IMPORT_JOBS_WORKER !== 'false',
+  storageDir: process.env.IMPORT_JOBS_DIR || 'uploads/import-jobs',
+  pollInterval: parseInt(process.env.IMPORT_JOBS_POLL_INTERVAL || '2000', 10), // ms
+  staleAfter: parseInt(process.env.IMPORT_JOBS_STALE_AFTER || '60000', 10), // ms without heartbeat
+  maxAttempts: parseInt(process.env.IMPORT_JOBS_MAX_ATTEMPTS || '3', 10),
+}));
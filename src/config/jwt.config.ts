@@ -6,4 +6,5 @@ export default registerAs('jwt', () => ({
     expiresIn: process.env.JWT_EXPIRES_IN || '24h',
   },
   refreshTokenExpiry: process.env.REFRESH_TOKEN_EXPIRES_IN || '7d',
+  refreshTokenPurgeInterval: parseInt(process.env.REFRESH_TOKEN_PURGE_INTERVAL || '3600000', 10), // ms
 }));
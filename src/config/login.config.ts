@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('login', () => ({
+  // Failures older than this no longer count
+  failureWindowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15', 10),
+  // From this many failures on, each retry waits twice as long as the last
+  delayAfterFailures: parseInt(process.env.LOGIN_DELAY_AFTER_FAILURES || '3', 10),
+  delayBaseSeconds: parseInt(process.env.LOGIN_DELAY_BASE_SECONDS || '1', 10),
+  delayMaxSeconds: parseInt(process.env.LOGIN_DELAY_MAX_SECONDS || '60', 10),
+  lockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10),
+  lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+}));
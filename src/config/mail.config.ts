@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('mail', () => ({
+  transport: process.env.MAIL_TRANSPORT || 'file', // smtp | file, which is refused in production
+  from: process.env.MAIL_FROM || 'Order Tracker <no-reply@localhost>',
+  // The file transport keeps every mail here as an .eml file
+  fileDir: process.env.MAIL_FILE_DIR || 'uploads/mail',
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    // true for implicit TLS (usually port 465), otherwise STARTTLS is used when offered, and required with credentials
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    timeout: parseInt(process.env.SMTP_TIMEOUT || '30000', 10), // ms
+  },
+}));
@@ -22,6 +22,10 @@ export default registerAs('security', () => ({
     requireLowercase: true,
     requireNumbers: true,
     requireSpecialChars: true,
+    // How many of the latest passwords may not be used again
+    historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
+    // Days until a password has to be changed at the next login, 0 to never expire
+    maxAgeDays: parseInt(process.env.PASSWORD_MAX_AGE_DAYS || '90', 10),
   },
 
   // Rate Limiting
@@ -121,8 +125,9 @@ export default registerAs('security', () => ({
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       'application/vnd.ms-excel',
       'text/csv',
+      'text/tab-separated-values',
     ],
-    allowedExtensions: ['.xlsx', '.xls', '.csv'],
+    allowedExtensions: ['.xlsx', '.xls', '.csv', '.tsv'],
     scanForViruses: process.env.NODE_ENV === 'production',
     quarantinePath: '/var/quarantine/order-tracker',
   },
@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('sequences', () => ({
+  // Filled into {tenant} in the formats, and counted separately, so tenants
+  // sharing a database do not take numbers from each other
+  tenant: process.env.SEQUENCE_TENANT || '',
+  // Tokens: {YYYY}, {YY}, {tenant} and {seq:N} for the number padded to N digits
+  order: {
+    format: process.env.ORDER_ID_FORMAT || 'ORD-{YYYY}-{seq:6}',
+    resetYearly: (process.env.ORDER_ID_RESET_YEARLY || 'true') === 'true',
+  },
+  delivery: {
+    format: process.env.DELIVERY_ID_FORMAT || 'DEL-{seq:6}',
+    resetYearly: process.env.DELIVERY_ID_RESET_YEARLY === 'true',
+  },
+}));
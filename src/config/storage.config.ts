@@ -0,0 +1,25 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('storage', () => ({
+  driver: process.env.STORAGE_DRIVER || 'local', // local | s3
+  localDir: process.env.STORAGE_LOCAL_DIR || 'uploads/files',
+  // Where order uploads were written before the storage service existed
+  legacyOrdersDir: process.env.STORAGE_LEGACY_ORDERS_DIR || 'src/orders',
+  s3: {
+    endpoint: process.env.STORAGE_S3_ENDPOINT || undefined, // e.g. http://localhost:9000 for MinIO
+    region: process.env.STORAGE_S3_REGION || 'us-east-1',
+    bucket: process.env.STORAGE_S3_BUCKET || 'order-tracker',
+    accessKeyId: process.env.STORAGE_S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.STORAGE_S3_SECRET_ACCESS_KEY || undefined,
+    forcePathStyle: process.env.STORAGE_S3_FORCE_PATH_STYLE === 'true',
+  },
+  // Days to keep each kind of upload, 0 keeps it forever
+  retentionDays: {
+    'order-upload': parseInt(process.env.STORAGE_ORDER_UPLOAD_RETENTION_DAYS || '0', 10),
+    'delivery-upload': parseInt(process.env.STORAGE_DELIVERY_UPLOAD_RETENTION_DAYS || '0', 10),
+    attachment: parseInt(process.env.STORAGE_ATTACHMENT_RETENTION_DAYS || '0', 10),
+  },
+  // Uploads kept between a preview and the save that uses them
+  pendingRetentionHours: parseInt(process.env.STORAGE_PENDING_RETENTION_HOURS || '24', 10),
+  purgeInterval: parseInt(process.env.STORAGE_PURGE_INTERVAL || '3600000', 10), // ms
+}));
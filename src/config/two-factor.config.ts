@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('twoFactor', () => ({
+  // Shown next to the account in authenticator apps
+  issuer: process.env.TWO_FACTOR_ISSUER || 'Order Tracker',
+  // Roles that have to set up two-factor authentication before doing anything else
+  requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean),
+  // How long the code can be entered after the password was accepted
+  challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+  recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODES || '10', 10),
+}));
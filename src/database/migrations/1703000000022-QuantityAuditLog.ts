@@ -0,0 +1,290 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class QuantityAuditLog1703000000022 implements MigrationInterface {
+  name = 'QuantityAuditLog1703000000022';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating quantity audit log table and triggers...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'quantity_audit_log',
+        columns: [
+          {
+            name: 'id',
+            type: 'bigint',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'operation_type',
+            type: 'varchar',
+            length: '30',
+          },
+          {
+            name: 'order_item_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'order_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'delivery_id',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'delivery_item_id',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'old_quantity',
+            type: 'int',
+          },
+          {
+            name: 'new_quantity',
+            type: 'int',
+          },
+          {
+            name: 'delivered_quantity',
+            type: 'int',
+            comment: 'old_quantity - new_quantity (negative when quantity is restored)',
+          },
+          {
+            name: 'reason',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          {
+            name: 'changed_by',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_QUANTITY_AUDIT_OPERATION', columnNames: ['operation_type'] },
+          { name: 'IDX_QUANTITY_AUDIT_ORDER_ITEM_ID', columnNames: ['order_item_id'] },
+          { name: 'IDX_QUANTITY_AUDIT_ORDER_ID', columnNames: ['order_id'] },
+          { name: 'IDX_QUANTITY_AUDIT_DELIVERY_ID', columnNames: ['delivery_id'] },
+          { name: 'IDX_QUANTITY_AUDIT_CHANGED_BY', columnNames: ['changed_by'] },
+          { name: 'IDX_QUANTITY_AUDIT_CREATED_AT', columnNames: ['created_at'] },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created quantity_audit_log table');
+
+    // 1. Allow the recalculation context used by DeliveriesService.recalculateOrderQuantities
+    await queryRunner.query('DROP TRIGGER IF EXISTS prevent_direct_quantity_remaining_update');
+    await queryRunner.query(`
+      CREATE TRIGGER prevent_direct_quantity_remaining_update
+      BEFORE UPDATE ON order_items
+      FOR EACH ROW
+      BEGIN
+          -- Allow updates from delivery triggers and explicit recalculation only
+          IF @TRIGGER_CONTEXT IS NULL OR @TRIGGER_CONTEXT NOT IN ('DELIVERY_OPERATION', 'RECALCULATION') THEN
+              -- Check if quantity_remaining is being changed directly
+              IF OLD.quantity_remaining != NEW.quantity_remaining THEN
+                  SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'Direct updates to quantity_remaining are not allowed. Use delivery operations instead.';
+              END IF;
+          END IF;
+      END;
+    `);
+
+    // 2. Single writer for the audit log - every quantity_remaining change ends up here
+    await queryRunner.query(`
+      CREATE TRIGGER log_quantity_remaining_change
+      AFTER UPDATE ON order_items
+      FOR EACH ROW
+      BEGIN
+          IF OLD.quantity_remaining != NEW.quantity_remaining THEN
+              INSERT INTO quantity_audit_log (
+                  operation_type, order_item_id, order_id, delivery_id, delivery_item_id,
+                  old_quantity, new_quantity, delivered_quantity, reason, changed_by
+              ) VALUES (
+                  COALESCE(@AUDIT_OPERATION, 'UPDATE'), NEW.id, NEW.order_id,
+                  @AUDIT_DELIVERY_ID, @AUDIT_DELIVERY_ITEM_ID,
+                  OLD.quantity_remaining, NEW.quantity_remaining,
+                  OLD.quantity_remaining - NEW.quantity_remaining,
+                  @AUDIT_REASON, @AUDIT_USER_ID
+              );
+          END IF;
+      END;
+    `);
+
+    // 3. Recreate delivery item triggers so they describe the change for the audit trigger
+    await this.dropDeliveryItemTriggers(queryRunner);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_insert
+      AFTER INSERT ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          -- Set context to allow quantity_remaining updates
+          SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+          SET @AUDIT_OPERATION = 'INSERT';
+          SET @AUDIT_DELIVERY_ID = NEW.delivery_id;
+          SET @AUDIT_DELIVERY_ITEM_ID = NEW.id;
+
+          -- AUTOMATIC RECALCULATION: Subtract delivered quantity from remaining quantity
+          UPDATE order_items
+          SET quantity_remaining = quantity_remaining - NEW.delivered_quantity
+          WHERE id = NEW.order_item_id;
+
+          -- Clear context
+          SET @TRIGGER_CONTEXT = NULL;
+          SET @AUDIT_OPERATION = NULL;
+          SET @AUDIT_DELIVERY_ID = NULL;
+          SET @AUDIT_DELIVERY_ITEM_ID = NULL;
+      END;
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_update
+      AFTER UPDATE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          DECLARE quantity_difference INT DEFAULT 0;
+
+          -- Calculate the difference in delivered quantities
+          SET quantity_difference = NEW.delivered_quantity - OLD.delivered_quantity;
+
+          -- Only update if there's actually a change in delivered quantity
+          IF quantity_difference != 0 THEN
+              -- Set context to allow quantity_remaining updates
+              SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+              SET @AUDIT_OPERATION = 'UPDATE';
+              SET @AUDIT_DELIVERY_ID = NEW.delivery_id;
+              SET @AUDIT_DELIVERY_ITEM_ID = NEW.id;
+
+              -- Adjust the remaining quantity by the difference
+              UPDATE order_items
+              SET quantity_remaining = quantity_remaining - quantity_difference
+              WHERE id = NEW.order_item_id;
+
+              -- Clear context
+              SET @TRIGGER_CONTEXT = NULL;
+              SET @AUDIT_OPERATION = NULL;
+              SET @AUDIT_DELIVERY_ID = NULL;
+              SET @AUDIT_DELIVERY_ITEM_ID = NULL;
+          END IF;
+      END;
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_delete
+      AFTER DELETE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          -- Set context to allow quantity_remaining updates
+          SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+          SET @AUDIT_OPERATION = 'DELETE';
+          SET @AUDIT_DELIVERY_ID = OLD.delivery_id;
+          SET @AUDIT_DELIVERY_ITEM_ID = OLD.id;
+
+          -- RESTORE QUANTITY: Add back the delivered quantity to remaining quantity
+          UPDATE order_items
+          SET quantity_remaining = quantity_remaining + OLD.delivered_quantity
+          WHERE id = OLD.order_item_id;
+
+          -- Clear context
+          SET @TRIGGER_CONTEXT = NULL;
+          SET @AUDIT_OPERATION = NULL;
+          SET @AUDIT_DELIVERY_ID = NULL;
+          SET @AUDIT_DELIVERY_ITEM_ID = NULL;
+      END;
+    `);
+
+    console.log('✅ Quantity changes are now recorded in quantity_audit_log');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Dropping quantity audit log...');
+
+    await queryRunner.query('DROP TRIGGER IF EXISTS log_quantity_remaining_change');
+    await this.dropDeliveryItemTriggers(queryRunner);
+
+    // Restore the triggers from 1703000000021-ConsolidatedTriggers
+    await queryRunner.query('DROP TRIGGER IF EXISTS prevent_direct_quantity_remaining_update');
+    await queryRunner.query(`
+      CREATE TRIGGER prevent_direct_quantity_remaining_update
+      BEFORE UPDATE ON order_items
+      FOR EACH ROW
+      BEGIN
+          IF @TRIGGER_CONTEXT IS NULL OR @TRIGGER_CONTEXT != 'DELIVERY_OPERATION' THEN
+              IF OLD.quantity_remaining != NEW.quantity_remaining THEN
+                  SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'Direct updates to quantity_remaining are not allowed. Use delivery operations instead.';
+              END IF;
+          END IF;
+      END;
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_insert
+      AFTER INSERT ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+          UPDATE order_items
+          SET quantity_remaining = quantity_remaining - NEW.delivered_quantity
+          WHERE id = NEW.order_item_id;
+          SET @TRIGGER_CONTEXT = NULL;
+      END;
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_update
+      AFTER UPDATE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          DECLARE quantity_difference INT DEFAULT 0;
+          SET quantity_difference = NEW.delivered_quantity - OLD.delivered_quantity;
+          IF quantity_difference != 0 THEN
+              SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+              UPDATE order_items
+              SET quantity_remaining = quantity_remaining - quantity_difference
+              WHERE id = NEW.order_item_id;
+              SET @TRIGGER_CONTEXT = NULL;
+          END IF;
+      END;
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_delete
+      AFTER DELETE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+          UPDATE order_items
+          SET quantity_remaining = quantity_remaining + OLD.delivered_quantity
+          WHERE id = OLD.order_item_id;
+          SET @TRIGGER_CONTEXT = NULL;
+      END;
+    `);
+
+    await queryRunner.dropTable('quantity_audit_log');
+
+    console.log('✅ Quantity audit log dropped');
+  }
+
+  private async dropDeliveryItemTriggers(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TRIGGER IF EXISTS update_quantity_remaining_after_delivery_delete');
+    await queryRunner.query('DROP TRIGGER IF EXISTS update_quantity_remaining_after_delivery_update');
+    await queryRunner.query('DROP TRIGGER IF EXISTS update_quantity_remaining_after_delivery_insert');
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class DeliveryVoiding1703000000023 implements MigrationInterface {
+  name = 'DeliveryVoiding1703000000023';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Adding delivery voiding support...');
+
+    // 1. Voided status and void metadata on deliveries
+    await queryRunner.query(`
+      ALTER TABLE deliveries
+      MODIFY COLUMN status ENUM('pending', 'in-transit', 'delivered', 'cancelled', 'voided') NOT NULL DEFAULT 'pending'
+    `);
+
+    await queryRunner.addColumns('deliveries', [
+      new TableColumn({
+        name: 'voided_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'voided_by',
+        type: 'varchar',
+        length: '36',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'void_reason',
+        type: 'varchar',
+        length: '500',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'deliveries',
+      new TableIndex({ name: 'IDX_DELIVERY_VOIDED_BY', columnNames: ['voided_by'] }),
+    );
+
+    await queryRunner.createForeignKey(
+      'deliveries',
+      new TableForeignKey({
+        name: 'FK_DELIVERY_VOIDED_BY',
+        columnNames: ['voided_by'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    // 2. Voided flag on delivery items - the triggers key off this column
+    await queryRunner.addColumn(
+      'delivery_items',
+      new TableColumn({
+        name: 'is_voided',
+        type: 'boolean',
+        default: false,
+      }),
+    );
+
+    console.log('✅ Added void columns to deliveries and delivery_items');
+
+    // 3. Recreate delivery item triggers so voiding restores quantities
+    await this.dropDeliveryItemTriggers(queryRunner);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_update
+      AFTER UPDATE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          DECLARE quantity_difference INT DEFAULT 0;
+          DECLARE audit_operation VARCHAR(30) DEFAULT 'UPDATE';
+          DECLARE previous_operation VARCHAR(30);
+
+          IF NEW.is_voided != OLD.is_voided THEN
+              -- Voiding returns the delivered quantity, un-voiding takes it again
+              SET quantity_difference = IF(NEW.is_voided, -OLD.delivered_quantity, NEW.delivered_quantity);
+              SET audit_operation = 'VOID';
+          ELSEIF NOT NEW.is_voided THEN
+              -- Voided items no longer count, so their quantity edits must not move stock
+              SET quantity_difference = NEW.delivered_quantity - OLD.delivered_quantity;
+          END IF;
+
+          -- Only update if there's actually a change in delivered quantity
+          IF quantity_difference != 0 THEN
+              -- Keep an operation set by the application (e.g. VOID with a reason)
+              SET previous_operation = @AUDIT_OPERATION;
+
+              -- Set context to allow quantity_remaining updates
+              SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+              SET @AUDIT_OPERATION = COALESCE(@AUDIT_OPERATION, audit_operation);
+              SET @AUDIT_DELIVERY_ID = NEW.delivery_id;
+              SET @AUDIT_DELIVERY_ITEM_ID = NEW.id;
+
+              -- Adjust the remaining quantity by the difference
+              UPDATE order_items
+              SET quantity_remaining = quantity_remaining - quantity_difference
+              WHERE id = NEW.order_item_id;
+
+              -- Clear context
+              SET @TRIGGER_CONTEXT = NULL;
+              SET @AUDIT_OPERATION = previous_operation;
+              SET @AUDIT_DELIVERY_ID = NULL;
+              SET @AUDIT_DELIVERY_ITEM_ID = NULL;
+          END IF;
+      END;
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_delete
+      AFTER DELETE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          -- Voided items already gave their quantity back
+          IF NOT OLD.is_voided THEN
+              -- Set context to allow quantity_remaining updates
+              SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+              SET @AUDIT_OPERATION = 'DELETE';
+              SET @AUDIT_DELIVERY_ID = OLD.delivery_id;
+              SET @AUDIT_DELIVERY_ITEM_ID = OLD.id;
+
+              -- RESTORE QUANTITY: Add back the delivered quantity to remaining quantity
+              UPDATE order_items
+              SET quantity_remaining = quantity_remaining + OLD.delivered_quantity
+              WHERE id = OLD.order_item_id;
+
+              -- Clear context
+              SET @TRIGGER_CONTEXT = NULL;
+              SET @AUDIT_OPERATION = NULL;
+              SET @AUDIT_DELIVERY_ID = NULL;
+              SET @AUDIT_DELIVERY_ITEM_ID = NULL;
+          END IF;
+      END;
+    `);
+
+    console.log('✅ Voiding a delivery now restores order item quantities');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing delivery voiding support...');
+
+    // Restore the triggers from 1703000000022-QuantityAuditLog
+    await this.dropDeliveryItemTriggers(queryRunner);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_update
+      AFTER UPDATE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          DECLARE quantity_difference INT DEFAULT 0;
+          SET quantity_difference = NEW.delivered_quantity - OLD.delivered_quantity;
+          IF quantity_difference != 0 THEN
+              SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+              SET @AUDIT_OPERATION = 'UPDATE';
+              SET @AUDIT_DELIVERY_ID = NEW.delivery_id;
+              SET @AUDIT_DELIVERY_ITEM_ID = NEW.id;
+              UPDATE order_items
+              SET quantity_remaining = quantity_remaining - quantity_difference
+              WHERE id = NEW.order_item_id;
+              SET @TRIGGER_CONTEXT = NULL;
+              SET @AUDIT_OPERATION = NULL;
+              SET @AUDIT_DELIVERY_ID = NULL;
+              SET @AUDIT_DELIVERY_ITEM_ID = NULL;
+          END IF;
+      END;
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER update_quantity_remaining_after_delivery_delete
+      AFTER DELETE ON delivery_items
+      FOR EACH ROW
+      BEGIN
+          SET @TRIGGER_CONTEXT = 'DELIVERY_OPERATION';
+          SET @AUDIT_OPERATION = 'DELETE';
+          SET @AUDIT_DELIVERY_ID = OLD.delivery_id;
+          SET @AUDIT_DELIVERY_ITEM_ID = OLD.id;
+          UPDATE order_items
+          SET quantity_remaining = quantity_remaining + OLD.delivered_quantity
+          WHERE id = OLD.order_item_id;
+          SET @TRIGGER_CONTEXT = NULL;
+          SET @AUDIT_OPERATION = NULL;
+          SET @AUDIT_DELIVERY_ID = NULL;
+          SET @AUDIT_DELIVERY_ITEM_ID = NULL;
+      END;
+    `);
+
+    await queryRunner.dropColumn('delivery_items', 'is_voided');
+
+    await queryRunner.dropForeignKey('deliveries', 'FK_DELIVERY_VOIDED_BY');
+    await queryRunner.dropIndex('deliveries', 'IDX_DELIVERY_VOIDED_BY');
+    await queryRunner.dropColumns('deliveries', ['voided_at', 'voided_by', 'void_reason']);
+
+    // Voided deliveries fall back to cancelled, the closest pre-existing status
+    await queryRunner.query(`UPDATE deliveries SET status = 'cancelled' WHERE status = 'voided'`);
+    await queryRunner.query(`
+      ALTER TABLE deliveries
+      MODIFY COLUMN status ENUM('pending', 'in-transit', 'delivered', 'cancelled') NOT NULL DEFAULT 'pending'
+    `);
+
+    console.log('✅ Delivery voiding support removed');
+  }
+
+  private async dropDeliveryItemTriggers(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TRIGGER IF EXISTS update_quantity_remaining_after_delivery_delete');
+    await queryRunner.query('DROP TRIGGER IF EXISTS update_quantity_remaining_after_delivery_update');
+  }
+}
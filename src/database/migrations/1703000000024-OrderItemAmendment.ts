@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class OrderItemAmendment1703000000024 implements MigrationInterface {
+  name = 'OrderItemAmendment1703000000024';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Allowing order item amendments to adjust quantity_remaining...');
+
+    await queryRunner.query('DROP TRIGGER IF EXISTS prevent_direct_quantity_remaining_update');
+    await queryRunner.query(`
+      CREATE TRIGGER prevent_direct_quantity_remaining_update
+      BEFORE UPDATE ON order_items
+      FOR EACH ROW
+      BEGIN
+          -- Allow updates from delivery triggers, recalculation and order item amendments only
+          IF @TRIGGER_CONTEXT IS NULL OR @TRIGGER_CONTEXT NOT IN ('DELIVERY_OPERATION', 'RECALCULATION', 'ORDER_AMENDMENT') THEN
+              -- Check if quantity_remaining is being changed directly
+              IF OLD.quantity_remaining != NEW.quantity_remaining THEN
+                  SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'Direct updates to quantity_remaining are not allowed. Use delivery operations instead.';
+              END IF;
+          END IF;
+
+          -- An amendment may never drop the requested quantity below what was delivered
+          IF @TRIGGER_CONTEXT = 'ORDER_AMENDMENT'
+             AND NEW.quantity_requested - NEW.quantity_remaining != OLD.quantity_requested - OLD.quantity_remaining THEN
+              SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'Order item amendments must not change the delivered quantity.';
+          END IF;
+      END;
+    `);
+
+    console.log('✅ Order item amendments enabled');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Disabling order item amendments...');
+
+    // Restore the trigger from 1703000000022-QuantityAuditLog
+    await queryRunner.query('DROP TRIGGER IF EXISTS prevent_direct_quantity_remaining_update');
+    await queryRunner.query(`
+      CREATE TRIGGER prevent_direct_quantity_remaining_update
+      BEFORE UPDATE ON order_items
+      FOR EACH ROW
+      BEGIN
+          IF @TRIGGER_CONTEXT IS NULL OR @TRIGGER_CONTEXT NOT IN ('DELIVERY_OPERATION', 'RECALCULATION') THEN
+              IF OLD.quantity_remaining != NEW.quantity_remaining THEN
+                  SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'Direct updates to quantity_remaining are not allowed. Use delivery operations instead.';
+              END IF;
+          END IF;
+      END;
+    `);
+
+    console.log('✅ Order item amendments disabled');
+  }
+}
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class OrderRevisions1703000000025 implements MigrationInterface {
+  name = 'OrderRevisions1703000000025';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating order revisions table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'order_revisions',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'order_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'revision_number',
+            type: 'int',
+          },
+          {
+            name: 'source',
+            type: 'varchar',
+            length: '20',
+          },
+          {
+            name: 'snapshot',
+            type: 'json',
+            comment: 'Order header and items as of this revision',
+          },
+          {
+            name: 'created_by',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        uniques: [
+          { name: 'UNQ_ORDER_REVISION_NUMBER', columnNames: ['order_id', 'revision_number'] },
+        ],
+        indices: [
+          { name: 'IDX_ORDER_REVISION_ORDER_ID', columnNames: ['order_id'] },
+          { name: 'IDX_ORDER_REVISION_CREATED_BY', columnNames: ['created_by'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_ORDER_REVISION_ORDER',
+            columnNames: ['order_id'],
+            referencedTableName: 'orders',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            name: 'FK_ORDER_REVISION_CREATED_BY',
+            columnNames: ['created_by'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'RESTRICT',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created order_revisions table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Dropping order revisions table...');
+
+    await queryRunner.dropTable('order_revisions');
+
+    console.log('✅ Order revisions table dropped');
+  }
+}
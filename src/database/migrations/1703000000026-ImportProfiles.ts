@@ -0,0 +1,100 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class ImportProfiles1703000000026 implements MigrationInterface {
+  name = 'ImportProfiles1703000000026';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating import profiles table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'import_profiles',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isUnique: true,
+          },
+          {
+            name: 'description',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          {
+            name: 'target',
+            type: 'enum',
+            enum: ['order', 'delivery'],
+          },
+          {
+            name: 'sheet_name',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+          },
+          {
+            name: 'sheet_index',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'header_row',
+            type: 'int',
+            default: 1,
+          },
+          {
+            name: 'column_mappings',
+            type: 'json',
+            comment: 'Source headers or column letter per canonical import column',
+          },
+          {
+            name: 'created_by',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_IMPORT_PROFILE_TARGET', columnNames: ['target'] },
+          { name: 'IDX_IMPORT_PROFILE_CREATED_BY', columnNames: ['created_by'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_IMPORT_PROFILE_CREATED_BY',
+            columnNames: ['created_by'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'RESTRICT',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created import_profiles table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Dropping import profiles table...');
+
+    await queryRunner.dropTable('import_profiles');
+
+    console.log('✅ Import profiles table dropped');
+  }
+}
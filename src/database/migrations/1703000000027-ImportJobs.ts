@@ -0,0 +1,141 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class ImportJobs1703000000027 implements MigrationInterface {
+  name = 'ImportJobs1703000000027';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating import jobs table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'import_jobs',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'target',
+            type: 'enum',
+            enum: ['order', 'delivery'],
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['queued', 'parsing', 'validating', 'saving', 'done', 'failed'],
+            default: "'queued'",
+          },
+          {
+            name: 'original_name',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'mime_type',
+            type: 'varchar',
+            length: '100',
+          },
+          {
+            name: 'file_path',
+            type: 'varchar',
+            length: '500',
+            comment: 'Stored upload, removed once the job has finished',
+          },
+          {
+            name: 'options',
+            type: 'json',
+            comment: 'Import form fields the job was submitted with',
+          },
+          {
+            name: 'total_rows',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'processed_rows',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'result',
+            type: 'json',
+            isNullable: true,
+          },
+          {
+            name: 'error',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'locked_by',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+            comment: 'Worker instance running the job',
+          },
+          {
+            name: 'heartbeat_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'started_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'finished_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_by',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_IMPORT_JOB_STATUS_CREATED_AT', columnNames: ['status', 'created_at'] },
+          { name: 'IDX_IMPORT_JOB_CREATED_BY', columnNames: ['created_by'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_IMPORT_JOB_CREATED_BY',
+            columnNames: ['created_by'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'RESTRICT',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created import_jobs table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Dropping import jobs table...');
+
+    await queryRunner.dropTable('import_jobs');
+
+    console.log('✅ Import jobs table dropped');
+  }
+}
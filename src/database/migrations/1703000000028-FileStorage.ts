@@ -0,0 +1,141 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+} from 'typeorm';
+
+export class FileStorage1703000000028 implements MigrationInterface {
+  name = 'FileStorage1703000000028';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating stored files table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'stored_files',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'storage_key',
+            type: 'varchar',
+            length: '500',
+            isUnique: true,
+          },
+          {
+            name: 'driver',
+            type: 'enum',
+            enum: ['local', 's3'],
+          },
+          {
+            name: 'category',
+            type: 'enum',
+            enum: ['order-upload', 'delivery-upload'],
+          },
+          {
+            name: 'original_name',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'content_type',
+            type: 'varchar',
+            length: '100',
+            comment: 'Sniffed from the content, not taken from the upload',
+          },
+          {
+            name: 'size',
+            type: 'int',
+          },
+          {
+            name: 'sha256',
+            type: 'char',
+            length: '64',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_by',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_STORED_FILE_CATEGORY', columnNames: ['category'] },
+          { name: 'IDX_STORED_FILE_SHA256', columnNames: ['sha256'] },
+          { name: 'IDX_STORED_FILE_EXPIRES_AT', columnNames: ['expires_at'] },
+          { name: 'IDX_STORED_FILE_CREATED_BY', columnNames: ['created_by'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_STORED_FILE_CREATED_BY',
+            columnNames: ['created_by'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'SET NULL',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created stored_files table');
+
+    // Orders and deliveries keep their file name when a file is purged
+    for (const [tableName, keyName] of [
+      ['orders', 'FK_ORDER_FILE'],
+      ['deliveries', 'FK_DELIVERY_FILE'],
+    ]) {
+      await queryRunner.addColumn(
+        tableName,
+        new TableColumn({
+          name: 'file_id',
+          type: 'varchar',
+          length: '36',
+          isNullable: true,
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          name: keyName,
+          columnNames: ['file_id'],
+          referencedTableName: 'stored_files',
+          referencedColumnNames: ['id'],
+          onDelete: 'SET NULL',
+        }),
+      );
+    }
+
+    console.log('✅ Linked orders and deliveries to stored files');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing file storage...');
+
+    await queryRunner.dropForeignKey('deliveries', 'FK_DELIVERY_FILE');
+    await queryRunner.dropColumn('deliveries', 'file_id');
+    await queryRunner.dropForeignKey('orders', 'FK_ORDER_FILE');
+    await queryRunner.dropColumn('orders', 'file_id');
+
+    await queryRunner.dropTable('stored_files');
+
+    console.log('✅ File storage removed');
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+} from 'typeorm';
+
+export class Attachments1703000000029 implements MigrationInterface {
+  name = 'Attachments1703000000029';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Adding attachments...');
+
+    // 1. Attachment category and pending uploads on stored files
+    await queryRunner.query(`
+      ALTER TABLE stored_files
+      MODIFY COLUMN category ENUM('order-upload', 'delivery-upload', 'attachment') NOT NULL
+    `);
+
+    await queryRunner.addColumn(
+      'stored_files',
+      new TableColumn({
+        name: 'is_pending',
+        type: 'boolean',
+        default: false,
+        comment: 'Uploaded for a preview and not yet claimed by a saved record',
+      }),
+    );
+
+    console.log('✅ Stored files can be attachments or pending uploads');
+
+    // 2. Attachments of orders and deliveries
+    await queryRunner.createTable(
+      new Table({
+        name: 'attachments',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+          },
+          {
+            name: 'file_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'order_id',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'delivery_id',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'description',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          {
+            name: 'created_by',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_ATTACHMENT_ORDER_ID', columnNames: ['order_id'] },
+          { name: 'IDX_ATTACHMENT_DELIVERY_ID', columnNames: ['delivery_id'] },
+          { name: 'IDX_ATTACHMENT_CREATED_BY', columnNames: ['created_by'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_ATTACHMENT_FILE',
+            columnNames: ['file_id'],
+            referencedTableName: 'stored_files',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            name: 'FK_ATTACHMENT_ORDER',
+            columnNames: ['order_id'],
+            referencedTableName: 'orders',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            name: 'FK_ATTACHMENT_DELIVERY',
+            columnNames: ['delivery_id'],
+            referencedTableName: 'deliveries',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            name: 'FK_ATTACHMENT_CREATED_BY',
+            columnNames: ['created_by'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created attachments table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing attachments...');
+
+    await queryRunner.dropTable('attachments');
+
+    // Their content stays in the storage backend, only the records go
+    await queryRunner.query(`DELETE FROM stored_files WHERE category = 'attachment' OR is_pending = TRUE`);
+    await queryRunner.dropColumn('stored_files', 'is_pending');
+    await queryRunner.query(`
+      ALTER TABLE stored_files
+      MODIFY COLUMN category ENUM('order-upload', 'delivery-upload') NOT NULL
+    `);
+
+    console.log('✅ Attachments removed');
+  }
+}
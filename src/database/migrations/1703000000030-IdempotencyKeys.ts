@@ -0,0 +1,92 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class IdempotencyKeys1703000000030 implements MigrationInterface {
+  name = 'IdempotencyKeys1703000000030';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating idempotency keys table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'idempotency_keys',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'idempotency_key',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'request_hash',
+            type: 'char',
+            length: '64',
+            comment: 'SHA-256 of the route, body and uploaded file of the first request',
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['in-progress', 'completed'],
+            default: "'in-progress'",
+          },
+          {
+            name: 'response_status',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'response_body',
+            type: 'json',
+            isNullable: true,
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          {
+            name: 'UQ_IDEMPOTENCY_KEY_USER',
+            columnNames: ['user_id', 'idempotency_key'],
+            isUnique: true,
+          },
+          { name: 'IDX_IDEMPOTENCY_KEY_EXPIRES_AT', columnNames: ['expires_at'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_IDEMPOTENCY_KEY_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created idempotency_keys table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing idempotency keys...');
+
+    await queryRunner.dropTable('idempotency_keys');
+
+    console.log('✅ Idempotency keys removed');
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class RecordVersions1703000000031 implements MigrationInterface {
+  name = 'RecordVersions1703000000031';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Adding version columns for optimistic locking...');
+
+    for (const tableName of ['orders', 'order_items', 'deliveries']) {
+      await queryRunner.addColumn(
+        tableName,
+        new TableColumn({
+          name: 'version',
+          type: 'int',
+          default: 1,
+          comment: 'Bumped on every update, compared against If-Match',
+        }),
+      );
+    }
+
+    console.log('✅ Orders, order items and deliveries are versioned');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing version columns...');
+
+    for (const tableName of ['deliveries', 'order_items', 'orders']) {
+      await queryRunner.dropColumn(tableName, 'version');
+    }
+
+    console.log('✅ Version columns removed');
+  }
+}
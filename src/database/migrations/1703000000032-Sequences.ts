@@ -0,0 +1,80 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class Sequences1703000000032 implements MigrationInterface {
+  name = 'Sequences1703000000032';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating sequences table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'sequences',
+        columns: [
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '50',
+            isPrimary: true,
+          },
+          {
+            name: 'tenant',
+            type: 'varchar',
+            length: '50',
+            isPrimary: true,
+            default: "''",
+          },
+          {
+            name: 'period',
+            type: 'varchar',
+            length: '4',
+            isPrimary: true,
+            default: "''",
+            comment: 'Year the counter belongs to, empty when it never resets',
+          },
+          {
+            name: 'last_value',
+            type: 'int',
+            unsigned: true,
+            default: 0,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('🔧 Continuing sequences from existing order and delivery IDs...');
+
+    // Existing IDs use the default formats ORD-YYYY-NNNNNN and DEL-NNNNNN
+    await queryRunner.query(`
+      INSERT INTO sequences (name, tenant, period, last_value)
+      SELECT 'order', '', SUBSTRING(order_id, 5, 4), MAX(CAST(SUBSTRING(order_id, 10) AS UNSIGNED))
+      FROM orders
+      WHERE order_id REGEXP '^ORD-[0-9]{4}-[0-9]+$'
+      GROUP BY SUBSTRING(order_id, 5, 4)
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO sequences (name, tenant, period, last_value)
+      SELECT 'delivery', '', '', MAX(CAST(SUBSTRING(delivery_id, 5) AS UNSIGNED))
+      FROM deliveries
+      WHERE delivery_id REGEXP '^DEL-[0-9]+$'
+      HAVING COUNT(*) > 0
+    `);
+
+    console.log('✅ Created sequences table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing sequences...');
+
+    await queryRunner.dropTable('sequences');
+
+    console.log('✅ Sequences removed');
+  }
+}
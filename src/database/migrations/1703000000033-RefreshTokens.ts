@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class RefreshTokens1703000000033 implements MigrationInterface {
+  name = 'RefreshTokens1703000000033';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating refresh tokens table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'refresh_tokens',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'family_id',
+            type: 'varchar',
+            length: '36',
+            comment: 'Shared by all tokens rotated from the same login',
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'token_hash',
+            type: 'char',
+            length: '64',
+            comment: 'SHA-256 of the refresh token',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp',
+          },
+          {
+            name: 'rotated_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'revoked_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_REFRESH_TOKEN_FAMILY_ID', columnNames: ['family_id'] },
+          { name: 'IDX_REFRESH_TOKEN_EXPIRES_AT', columnNames: ['expires_at'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_REFRESH_TOKEN_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created refresh_tokens table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing refresh tokens...');
+
+    await queryRunner.dropTable('refresh_tokens');
+
+    console.log('✅ Refresh tokens removed');
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class SessionClientInfo1703000000034 implements MigrationInterface {
+  name = 'SessionClientInfo1703000000034';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Recording where refresh tokens were issued to...');
+
+    await queryRunner.addColumns('refresh_tokens', [
+      new TableColumn({
+        name: 'user_agent',
+        type: 'varchar',
+        length: '500',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'ip_address',
+        type: 'varchar',
+        length: '45',
+        isNullable: true,
+      }),
+    ]);
+
+    console.log('✅ Added user_agent and ip_address to refresh_tokens');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing refresh token client info...');
+
+    await queryRunner.dropColumn('refresh_tokens', 'ip_address');
+    await queryRunner.dropColumn('refresh_tokens', 'user_agent');
+
+    console.log('✅ Refresh token client info removed');
+  }
+}
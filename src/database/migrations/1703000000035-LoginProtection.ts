@@ -0,0 +1,146 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class LoginProtection1703000000035 implements MigrationInterface {
+  name = 'LoginProtection1703000000035';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating login failures table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'login_failures',
+        columns: [
+          {
+            name: 'id',
+            type: 'bigint',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'scope',
+            type: 'enum',
+            enum: ['account', 'ip'],
+          },
+          {
+            name: 'failure_key',
+            type: 'varchar',
+            length: '255',
+            comment: 'Lower-cased email for accounts, the address for IPs',
+          },
+          {
+            name: 'failures',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'last_failure_at',
+            type: 'timestamp',
+          },
+          {
+            name: 'locked_until',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+        indices: [
+          {
+            name: 'UQ_LOGIN_FAILURE_SCOPE_KEY',
+            columnNames: ['scope', 'failure_key'],
+            isUnique: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('🔧 Creating security events table...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'security_events',
+        columns: [
+          {
+            name: 'id',
+            type: 'bigint',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'event_type',
+            type: 'varchar',
+            length: '50',
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'email',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'ip_address',
+            type: 'varchar',
+            length: '45',
+            isNullable: true,
+          },
+          {
+            name: 'actor_id',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'details',
+            type: 'json',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_SECURITY_EVENT_TYPE', columnNames: ['event_type'] },
+          { name: 'IDX_SECURITY_EVENT_EMAIL', columnNames: ['email'] },
+          { name: 'IDX_SECURITY_EVENT_CREATED_AT', columnNames: ['created_at'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_SECURITY_EVENT_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'SET NULL',
+          },
+          {
+            name: 'FK_SECURITY_EVENT_ACTOR',
+            columnNames: ['actor_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'SET NULL',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created login_failures and security_events tables');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing login protection...');
+
+    await queryRunner.dropTable('security_events');
+    await queryRunner.dropTable('login_failures');
+
+    console.log('✅ Login protection removed');
+  }
+}
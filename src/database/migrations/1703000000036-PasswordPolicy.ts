@@ -0,0 +1,91 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+export class PasswordPolicy1703000000036 implements MigrationInterface {
+  name = 'PasswordPolicy1703000000036';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Adding password age and history...');
+
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'password_changed_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'must_change_password',
+        type: 'boolean',
+        default: false,
+      }),
+    ]);
+
+    // Existing passwords start aging now rather than all expiring at once
+    await queryRunner.query(
+      'UPDATE users SET password_changed_at = CURRENT_TIMESTAMP WHERE password_changed_at IS NULL',
+    );
+
+    console.log('✅ Added password_changed_at and must_change_password to users');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'password_history',
+        columns: [
+          {
+            name: 'id',
+            type: 'bigint',
+            unsigned: true,
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'password_hash',
+            type: 'varchar',
+            length: '255',
+            comment: 'bcrypt hash of a password the user has set',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_PASSWORD_HISTORY_USER_ID', columnNames: ['user_id'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_PASSWORD_HISTORY_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // The current passwords are the first entries, so they cannot be set again
+    await queryRunner.query(
+      'INSERT INTO password_history (user_id, password_hash) SELECT id, password FROM users',
+    );
+
+    console.log('✅ Created password_history table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing password age and history...');
+
+    await queryRunner.dropTable('password_history');
+    await queryRunner.dropColumn('users', 'must_change_password');
+    await queryRunner.dropColumn('users', 'password_changed_at');
+
+    console.log('✅ Password age and history removed');
+  }
+}
@@ -0,0 +1,125 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class TwoFactor1703000000037 implements MigrationInterface {
+  name = 'TwoFactor1703000000037';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Creating two-factor authentication tables...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_two_factor',
+        columns: [
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'secret',
+            type: 'varchar',
+            length: '64',
+            comment: 'Base32 TOTP secret',
+          },
+          {
+            name: 'enabled_at',
+            type: 'timestamp',
+            isNullable: true,
+            comment: 'Null while the enrollment is not confirmed',
+          },
+          {
+            name: 'last_used_step',
+            type: 'int',
+            unsigned: true,
+            isNullable: true,
+            comment: 'Time step of the last accepted code',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_USER_TWO_FACTOR_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created user_two_factor table');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'two_factor_recovery_codes',
+        columns: [
+          {
+            name: 'id',
+            type: 'bigint',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'code_hash',
+            type: 'char',
+            length: '64',
+            comment: 'SHA-256 of the recovery code',
+          },
+          {
+            name: 'used_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_RECOVERY_CODE_USER_ID', columnNames: ['user_id'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_RECOVERY_CODE_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created two_factor_recovery_codes table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing two-factor authentication...');
+
+    await queryRunner.dropTable('two_factor_recovery_codes');
+    await queryRunner.dropTable('user_two_factor');
+
+    console.log('✅ Two-factor authentication removed');
+  }
+}
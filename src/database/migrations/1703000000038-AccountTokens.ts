@@ -0,0 +1,104 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class AccountTokens1703000000038 implements MigrationInterface {
+  name = 'AccountTokens1703000000038';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Adding invitations and password resets...');
+
+    // 1. Invited users exist before they have chosen a password
+    await queryRunner.query(`
+      ALTER TABLE users
+      MODIFY COLUMN status ENUM('active', 'inactive', 'invited') NOT NULL DEFAULT 'active'
+    `);
+
+    // 2. One-time links
+    await queryRunner.createTable(
+      new Table({
+        name: 'account_tokens',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'type',
+            type: 'enum',
+            enum: ['invitation', 'password-reset'],
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'token_hash',
+            type: 'char',
+            length: '64',
+            isUnique: true,
+            comment: 'SHA-256 of the token in the link',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp',
+          },
+          {
+            name: 'used_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_by',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_ACCOUNT_TOKEN_USER_ID', columnNames: ['user_id'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_ACCOUNT_TOKEN_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            name: 'FK_ACCOUNT_TOKEN_CREATED_BY',
+            columnNames: ['created_by'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'SET NULL',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created account_tokens table and invited user status');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing invitations and password resets...');
+
+    await queryRunner.dropTable('account_tokens');
+
+    // Users who never accepted their invitation cannot log in either way
+    await queryRunner.query(`UPDATE users SET status = 'inactive' WHERE status = 'invited'`);
+    await queryRunner.query(`
+      ALTER TABLE users
+      MODIFY COLUMN status ENUM('active', 'inactive') NOT NULL DEFAULT 'active'
+    `);
+
+    console.log('✅ Invitations and password resets removed');
+  }
+}
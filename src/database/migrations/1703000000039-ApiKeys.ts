@@ -0,0 +1,119 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class ApiKeys1703000000039 implements MigrationInterface {
+  name = 'ApiKeys1703000000039';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔧 Adding personal API keys...');
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'api_keys',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '36',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+          },
+          {
+            name: 'prefix',
+            type: 'varchar',
+            length: '12',
+            comment: 'Start of the key, to tell keys apart',
+          },
+          {
+            name: 'key_hash',
+            type: 'char',
+            length: '64',
+            isUnique: true,
+            comment: 'SHA-256 of the key',
+          },
+          {
+            name: 'scopes',
+            type: 'json',
+          },
+          {
+            name: 'rate_limit',
+            type: 'int',
+            unsigned: true,
+            isNullable: true,
+            comment: 'Requests per minute, NULL for the configured default',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'last_used_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'last_used_ip',
+            type: 'varchar',
+            length: '45',
+            isNullable: true,
+          },
+          {
+            name: 'revoked_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_by',
+            type: 'varchar',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          { name: 'IDX_API_KEY_USER_ID', columnNames: ['user_id'] },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_API_KEY_USER',
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            name: 'FK_API_KEY_CREATED_BY',
+            columnNames: ['created_by'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'SET NULL',
+          },
+        ],
+      }),
+      true,
+    );
+
+    console.log('✅ Created api_keys table');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log('🔄 Removing personal API keys...');
+
+    await queryRunner.dropTable('api_keys');
+
+    console.log('✅ Personal API keys removed');
+  }
+}
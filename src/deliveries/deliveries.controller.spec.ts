@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { Response } from 'express';
 import { DeliveriesController } from './deliveries.controller';
 import { DeliveriesService } from './deliveries.service';
+import { DeliveryNoteService } from './delivery-note.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { User, UserRole, UserStatus } from '../users/entities/user.entity';
@@ -21,6 +24,8 @@ describe('DeliveriesController', () => {
     role: UserRole.ADMIN,
     status: UserStatus.ACTIVE,
     password: 'hashed-password',
+    passwordChangedAt: null,
+    mustChangePassword: false,
     isDeleted: false,
     orders: [],
     deliveries: [],
@@ -43,19 +48,28 @@ describe('DeliveriesController', () => {
       deliveredQuantity: 0,
       remainingQuantity: 80,
       fileName: null,
+      file: null,
       isDeleted: false,
       createdBy: mockUser,
       items: [],
       deliveries: [],
       createdAt: new Date(),
       updatedAt: new Date(),
+      version: 1,
     },
     createdBy: mockUser,
     deliveryItems: [],
+    voidedAt: null,
+    voidedBy: null,
+    voidReason: null,
+    file: null,
     createdAt: new Date(),
     updatedAt: new Date(),
+    version: 1,
   };
 
+  const mockResponse = () => ({ setHeader: jest.fn() }) as unknown as Response & { setHeader: jest.Mock };
+
   const mockPaginatedResponse = {
     data: [mockDelivery],
     total: 1,
@@ -70,6 +84,7 @@ describe('DeliveriesController', () => {
     findOne: jest.fn(),
     update: jest.fn(),
     remove: jest.fn(),
+    voidDelivery: jest.fn(),
     getDeliveryRevenue: jest.fn(),
     getOrderDeliveryStats: jest.fn(),
   };
@@ -82,6 +97,14 @@ describe('DeliveriesController', () => {
           provide: DeliveriesService,
           useValue: mockDeliveriesService,
         },
+        {
+          provide: DeliveryNoteService,
+          useValue: { generate: jest.fn() },
+        },
+        {
+          provide: IdempotencyService,
+          useValue: { reserve: jest.fn(), complete: jest.fn(), release: jest.fn() },
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
@@ -151,7 +174,7 @@ describe('DeliveriesController', () => {
     it('should return a delivery by id', async () => {
       mockDeliveriesService.findOne.mockResolvedValue(mockDelivery);
 
-      const result = await controller.findOne('delivery-1');
+      const result = await controller.findOne('delivery-1', mockResponse());
 
       expect(result).toEqual({
         success: true,
@@ -173,7 +196,12 @@ describe('DeliveriesController', () => {
       };
       mockDeliveriesService.update.mockResolvedValue(updatedDelivery);
 
-      const result = await controller.update('delivery-1', updateDeliveryDto);
+      const result = await controller.update(
+        'delivery-1',
+        updateDeliveryDto,
+        mockUser,
+        mockResponse(),
+      );
 
       expect(result).toEqual({
         success: true,
@@ -183,7 +211,33 @@ describe('DeliveriesController', () => {
       expect(service.update).toHaveBeenCalledWith(
         'delivery-1',
         updateDeliveryDto,
+        mockUser,
+        undefined,
+      );
+    });
+
+    it('should check If-Match and return the new ETag', async () => {
+      mockDeliveriesService.update.mockResolvedValue({ ...mockDelivery, version: 4 });
+      const res = mockResponse();
+
+      await controller.update('delivery-1', updateDeliveryDto, mockUser, res, '"3"');
+
+      expect(service.update).toHaveBeenCalledWith(
+        'delivery-1',
+        updateDeliveryDto,
+        mockUser,
+        3,
       );
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', '"4"');
+    });
+
+    it('should reject an If-Match that is not an ETag of this API', async () => {
+      mockDeliveriesService.update.mockClear();
+
+      await expect(
+        controller.update('delivery-1', updateDeliveryDto, mockUser, mockResponse(), 'abc'),
+      ).rejects.toThrow('If-Match must be an ETag returned by this API');
+      expect(service.update).not.toHaveBeenCalled();
     });
   });
 
@@ -191,9 +245,37 @@ describe('DeliveriesController', () => {
     it('should delete a delivery', async () => {
       mockDeliveriesService.remove.mockResolvedValue(undefined);
 
-      await controller.remove('delivery-1');
+      await controller.remove('delivery-1', mockUser);
 
-      expect(service.remove).toHaveBeenCalledWith('delivery-1');
+      expect(service.remove).toHaveBeenCalledWith('delivery-1', mockUser);
+    });
+  });
+
+  describe('voidDelivery', () => {
+    it('should void a delivery', async () => {
+      const voidDeliveryDto = { reason: 'Recorded against the wrong order' };
+      const voidedDelivery = {
+        ...mockDelivery,
+        status: DeliveryStatus.VOIDED,
+        voidReason: voidDeliveryDto.reason,
+      };
+      mockDeliveriesService.voidDelivery.mockResolvedValue(voidedDelivery);
+
+      const result = await controller.voidDelivery(
+        'delivery-1',
+        voidDeliveryDto,
+        mockUser,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Delivery DEL-000001 voided successfully');
+      expect(result.data.status).toBe(DeliveryStatus.VOIDED);
+      expect(result.data.voidReason).toBe(voidDeliveryDto.reason);
+      expect(service.voidDelivery).toHaveBeenCalledWith(
+        'delivery-1',
+        voidDeliveryDto,
+        mockUser,
+      );
     });
   });
 
@@ -12,8 +12,12 @@ import {
   UploadedFile,
   HttpCode,
   HttpStatus,
+  Res,
+  Headers,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import * as path from 'path';
 import {
   ApiTags,
   ApiOperation,
@@ -21,20 +25,33 @@ import {
   ApiBearerAuth,
   ApiConsumes,
   ApiBody,
+  ApiHeader,
+  ApiSecurity,
 } from '@nestjs/swagger';
 import { DeliveriesService } from './deliveries.service';
+import { DeliveryNoteService } from './delivery-note.service';
 import { CreateDeliveryDto } from './dto/create-delivery.dto';
 import { UpdateDeliveryDto } from './dto/update-delivery.dto';
+import { VoidDeliveryDto } from './dto/void-delivery.dto';
 import { GetDeliveriesDto } from './dto/get-deliveries.dto';
 import {
   ExcelImportDeliveryDto,
   ExcelImportDeliveryResponseDto,
 } from './dto/excel-import-delivery.dto';
 import { DeliveryResponseDto, PaginatedDeliveryResponseDto } from './dto/delivery-response.dto';
+import { GetQuantityAuditLogDto } from '../audit/dto/get-quantity-audit-log.dto';
+import {
+  TextImportOptionsDto,
+  TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+} from '../imports/dto/text-import-options.dto';
 import { plainToInstance } from 'class-transformer';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { ApiKeyScopes } from '../auth/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../auth/entities/api-key.entity';
+import { Idempotent } from '../idempotency/idempotent.decorator';
+import { parseIfMatch, versionETag } from '../common/optimistic-lock';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { User, UserRole } from '../users/entities/user.entity';
 
@@ -42,11 +59,17 @@ import { User, UserRole } from '../users/entities/user.entity';
 @Controller('deliveries')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class DeliveriesController {
-  constructor(private readonly deliveriesService: DeliveriesService) { }
+  constructor(
+    private readonly deliveriesService: DeliveriesService,
+    private readonly deliveryNoteService: DeliveryNoteService,
+  ) { }
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_IMPORT)
+  @Idempotent()
   @ApiOperation({
     summary: 'Create new delivery with automatic quantity tracking',
   })
@@ -90,6 +113,7 @@ export class DeliveriesController {
 
   @Get()
   @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
   @ApiOperation({ summary: 'Get all deliveries with filtering and pagination' })
   @ApiResponse({
     status: 200,
@@ -115,8 +139,51 @@ export class DeliveriesController {
     };
   }
 
+  @Get('audit-log')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
+  @ApiOperation({
+    summary: 'Get quantity audit log with filtering and pagination',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit log retrieved successfully',
+  })
+  async getAuditLog(@Query() query: GetQuantityAuditLogDto) {
+    const auditLog = await this.deliveriesService.getQuantityAuditLog(query);
+    return {
+      success: true,
+      data: auditLog,
+    };
+  }
+
+  @Get('audit-log/:orderItemId')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
+  @ApiOperation({
+    summary: 'Get quantity audit log for specific order item',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit log retrieved successfully',
+  })
+  async getAuditLogForOrderItem(
+    @Param('orderItemId') orderItemId: string,
+    @Query() query: GetQuantityAuditLogDto,
+  ) {
+    const auditLog = await this.deliveriesService.getQuantityAuditLog({
+      ...query,
+      orderItemId,
+    });
+    return {
+      success: true,
+      data: auditLog,
+    };
+  }
+
   @Get(':id')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
   @ApiOperation({ summary: 'Get delivery by ID with items and order details' })
   @ApiResponse({
     status: 200,
@@ -127,8 +194,12 @@ export class DeliveriesController {
     status: 404,
     description: 'Delivery not found',
   })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     const delivery = await this.deliveriesService.findOne(id);
+    res.setHeader('ETag', versionETag(delivery));
 
     const responseData = plainToInstance(DeliveryResponseDto, delivery, {
       excludeExtraneousValues: true,
@@ -140,11 +211,60 @@ export class DeliveriesController {
     };
   }
 
+  @Get(':id/delivery-note')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
+  @ApiOperation({
+    summary: 'Print a delivery note for a delivery',
+    description:
+      'PDF packing slip with the order reference, the delivered lines and totals, a barcode of the delivery ID and signature boxes',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery note as an A4 PDF',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found',
+  })
+  async getDeliveryNote(@Param('id') id: string, @Res() res: Response) {
+    const note = await this.deliveryNoteService.generate(id);
+
+    res.type('application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${note.fileName}"`);
+    res.send(note.buffer);
+  }
+
+  @Get(':id/download')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
+  @ApiOperation({ summary: 'Download the file a delivery was imported from' })
+  @ApiResponse({
+    status: 200,
+    description: 'File downloaded successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery or file not found',
+  })
+  async downloadDeliveryFile(@Param('id') id: string, @Res() res: Response) {
+    const file = await this.deliveriesService.getDeliveryFile(id);
+
+    res.attachment(file.fileName);
+    res.type(file.contentType);
+    res.send(file.buffer);
+  }
+
   @Patch(':id')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
   @ApiOperation({
     summary: 'Update delivery with automatic quantity recalculation',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from the last read of the delivery; the update is rejected if it changed since',
+  })
   @ApiResponse({
     status: 200,
     description: 'Delivery updated successfully',
@@ -162,11 +282,28 @@ export class DeliveriesController {
     status: 404,
     description: 'Delivery not found',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Delivery changed while the update was being saved',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match the current version of the delivery',
+  })
   async update(
     @Param('id') id: string,
     @Body() updateDeliveryDto: UpdateDeliveryDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('if-match') ifMatch?: string,
   ) {
-    const delivery = await this.deliveriesService.update(id, updateDeliveryDto);
+    const delivery = await this.deliveriesService.update(
+      id,
+      updateDeliveryDto,
+      user,
+      parseIfMatch(ifMatch),
+    );
+    res.setHeader('ETag', versionETag(delivery));
 
     const responseData = plainToInstance(DeliveryResponseDto, delivery, {
       excludeExtraneousValues: true,
@@ -179,6 +316,51 @@ export class DeliveriesController {
     };
   }
 
+  @Post(':id/void')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Void a delivered delivery and restore its quantities to the order',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery voided successfully',
+    type: DeliveryResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing reason, or delivery is not in delivered status',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Uploader access required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found',
+  })
+  async voidDelivery(
+    @Param('id') id: string,
+    @Body() voidDeliveryDto: VoidDeliveryDto,
+    @CurrentUser() user: User,
+  ) {
+    const delivery = await this.deliveriesService.voidDelivery(
+      id,
+      voidDeliveryDto,
+      user,
+    );
+
+    const responseData = plainToInstance(DeliveryResponseDto, delivery, {
+      excludeExtraneousValues: true,
+    });
+
+    return {
+      success: true,
+      message: `Delivery ${delivery.deliveryId} voided successfully`,
+      data: responseData,
+    };
+  }
+
   @Delete(':id')
   @Roles(UserRole.ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
@@ -197,8 +379,8 @@ export class DeliveriesController {
     status: 404,
     description: 'Delivery not found',
   })
-  async remove(@Param('id') id: string) {
-    await this.deliveriesService.remove(id);
+  async remove(@Param('id') id: string, @CurrentUser() user: User) {
+    await this.deliveriesService.remove(id, user);
   }
 
   @Post('recalculate-quantities/:orderId')
@@ -218,8 +400,14 @@ export class DeliveriesController {
     status: 404,
     description: 'Order not found',
   })
-  async recalculateQuantities(@Param('orderId') orderId: string) {
-    const result = await this.deliveriesService.recalculateOrderQuantities(orderId);
+  async recalculateQuantities(
+    @Param('orderId') orderId: string,
+    @CurrentUser() user: User,
+  ) {
+    const result = await this.deliveriesService.recalculateOrderQuantities(
+      orderId,
+      user,
+    );
     return {
       success: true,
       message: 'Quantities recalculated successfully',
@@ -227,51 +415,85 @@ export class DeliveriesController {
     };
   }
 
-  @Get('audit-log')
-  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @Post('preview')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_IMPORT)
+  @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({
-    summary: 'Get quantity audit log for debugging',
+    summary: 'Preview delivery items from Excel file without saving',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
+        },
+        orderId: {
+          type: 'string',
+          description: 'Order ID to preview delivery for',
+          example: 'uuid-order-id',
+        },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+      },
+      required: ['file', 'orderId'],
+    },
   })
   @ApiResponse({
     status: 200,
-    description: 'Audit log retrieved successfully',
+    description: 'Delivery items preview generated successfully',
   })
-  async getAuditLog(
-    @Query('orderItemId') orderItemId?: string,
-    @Query('limit') limit: number = 100,
-  ) {
-    const auditLog = await this.deliveriesService.getQuantityAuditLog(orderItemId, limit);
-    return {
-      success: true,
-      data: auditLog,
-    };
-  }
-
-  @Get('audit-log/:orderItemId')
-  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
-  @ApiOperation({
-    summary: 'Get quantity audit log for specific order item',
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid file or data',
   })
   @ApiResponse({
-    status: 200,
-    description: 'Audit log retrieved successfully',
+    status: 403,
+    description: 'Forbidden - Admin or Uploader access required',
   })
-  async getAuditLogForOrderItem(
-    @Param('orderItemId') orderItemId: string,
-    @Query('limit') limit: number = 100,
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async previewDeliveryFromExcel(
+    @UploadedFile() file: Express.Multer.File,
+    @Body('orderId') orderId: string,
+    @CurrentUser() user: User,
+    @Body() textImportOptions: TextImportOptionsDto,
+    @Body('importProfileId') importProfileId?: string,
   ) {
-    const auditLog = await this.deliveriesService.getQuantityAuditLog(orderItemId, limit);
+    const result = await this.deliveriesService.previewDeliveryFromExcel(
+      file,
+      orderId,
+      importProfileId,
+      textImportOptions,
+      user,
+    );
     return {
       success: true,
-      data: auditLog,
+      message: 'Delivery items preview generated successfully',
+      data: result,
     };
   }
 
-  @Post('preview')
+  @Post('preview/annotated')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_IMPORT)
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({
-    summary: 'Preview delivery items from Excel file without saving',
+    summary: 'Download the uploaded delivery file with its import issues marked',
+    description:
+      'Cells with a problem get a comment and an "Import Issues" column lists the issues of each row. Always returns an Excel workbook.',
   })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -281,24 +503,32 @@ export class DeliveriesController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'Excel file (.xlsx)',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
         },
         orderId: {
           type: 'string',
-          description: 'Order ID to preview delivery for',
+          description: 'Order ID the delivery is for',
           example: 'uuid-order-id',
         },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
       },
       required: ['file', 'orderId'],
     },
   })
   @ApiResponse({
     status: 200,
-    description: 'Delivery items preview generated successfully',
+    description: 'Annotated Excel file',
   })
   @ApiResponse({
     status: 400,
-    description: 'Bad request - Invalid file or data',
+    description: 'Bad request - Invalid file',
   })
   @ApiResponse({
     status: 403,
@@ -308,24 +538,28 @@ export class DeliveriesController {
     status: 404,
     description: 'Order not found',
   })
-  async previewDeliveryFromExcel(
+  async annotateDeliveryImport(
     @UploadedFile() file: Express.Multer.File,
     @Body('orderId') orderId: string,
-    @CurrentUser() user: User,
+    @Body() textImportOptions: TextImportOptionsDto,
+    @Res() res: Response,
+    @Body('importProfileId') importProfileId?: string,
   ) {
-    const result = await this.deliveriesService.previewDeliveryFromExcel(
+    const buffer = await this.deliveriesService.annotateDeliveryImport(
       file,
       orderId,
+      importProfileId,
+      textImportOptions,
     );
-    return {
-      success: true,
-      message: 'Delivery items preview generated successfully',
-      data: result,
-    };
+
+    res.attachment(`${path.parse(file.originalname).name}-annotated.xlsx`);
+    res.send(buffer);
   }
 
   @Post('save')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_IMPORT)
+  @Idempotent()
   @ApiOperation({ summary: 'Save delivery from reviewed items' })
   @ApiBody({
     schema: {
@@ -392,6 +626,11 @@ export class DeliveriesController {
             required: ['asin', 'deliveredQuantity', 'unitPrice'],
           },
         },
+        fileId: {
+          type: 'string',
+          description: 'fileId returned by the preview, to keep the uploaded file with the delivery',
+          example: 'uuid-file-id',
+        },
       },
       required: ['orderId', 'deliveryDate', 'deliveryItems'],
     },
@@ -417,12 +656,14 @@ export class DeliveriesController {
     @Body('deliveryDate') deliveryDate: string,
     @Body('deliveryItems') deliveryItems: any[],
     @CurrentUser() user: User,
+    @Body('fileId') fileId?: string,
   ) {
     const result = await this.deliveriesService.saveDeliveryFromItems(
       deliveryItems,
       orderId,
       new Date(deliveryDate),
       user,
+      fileId,
     );
     return {
       success: true,
@@ -433,6 +674,8 @@ export class DeliveriesController {
 
   @Post('import')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_IMPORT)
+  @Idempotent()
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({ summary: 'Import delivery from Excel file' })
   @ApiConsumes('multipart/form-data')
@@ -443,7 +686,7 @@ export class DeliveriesController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'Excel file (.xlsx)',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
         },
         orderId: {
           type: 'string',
@@ -462,6 +705,14 @@ export class DeliveriesController {
           description: 'Delivery status (optional)',
           example: 'delivered',
         },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
       },
       required: ['file', 'orderId', 'deliveryDate'],
     },
@@ -502,6 +753,7 @@ export class DeliveriesController {
 
   @Get(':id/revenue')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
   @ApiOperation({ summary: 'Get delivery revenue and statistics' })
   @ApiResponse({
     status: 200,
@@ -521,6 +773,7 @@ export class DeliveriesController {
 
   @Get('order/:orderId/stats')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_READ)
   @ApiOperation({ summary: 'Get delivery statistics for an order' })
   @ApiResponse({
     status: 200,
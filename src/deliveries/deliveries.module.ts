@@ -2,17 +2,30 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DeliveriesService } from './deliveries.service';
 import { DeliveriesController } from './deliveries.controller';
+import { DeliveryNoteService } from './delivery-note.service';
 import { Delivery } from './entities/delivery.entity';
 import { DeliveryItem } from './entities/delivery-item.entity';
 import { Order } from '../orders/entities/order.entity';
 import { OrderItem } from '../orders/entities/order-item.entity';
+import { AuditModule } from '../audit/audit.module';
+import { OrdersModule } from '../orders/orders.module';
+import { ImportsModule } from '../imports/imports.module';
+import { StorageModule } from '../storage/storage.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { SequencesModule } from '../sequences/sequences.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Delivery, DeliveryItem, Order, OrderItem]),
+    AuditModule,
+    OrdersModule,
+    ImportsModule,
+    StorageModule,
+    IdempotencyModule,
+    SequencesModule,
   ],
   controllers: [DeliveriesController],
-  providers: [DeliveriesService],
+  providers: [DeliveriesService, DeliveryNoteService],
   exports: [DeliveriesService],
 })
 export class DeliveriesModule {}
@@ -1,7 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
 import { DeliveriesService } from './deliveries.service';
 import { Delivery, DeliveryStatus } from './entities/delivery.entity';
 import { DeliveryItem } from './entities/delivery-item.entity';
@@ -11,6 +16,15 @@ import { User, UserRole, UserStatus } from '../users/entities/user.entity';
 import { OrderStatus } from '../orders/entities/order.entity';
 import { CreateDeliveryDto } from './dto/create-delivery.dto';
 import { UpdateDeliveryDto } from './dto/update-delivery.dto';
+import { QuantityAuditService } from '../audit/quantity-audit.service';
+import { OrderStatusService } from '../orders/order-status.service';
+import { ImportProfilesService } from '../imports/import-profiles.service';
+import { ImportProfileTarget } from '../imports/entities/import-profile.entity';
+import { ImportDelimiter } from '../imports/dto/text-import-options.dto';
+import { QuantityAuditOperation } from '../audit/entities/quantity-audit-log.entity';
+import { FileStorageService } from '../storage/file-storage.service';
+import { StoredFileCategory } from '../storage/entities/stored-file.entity';
+import { SequencesService } from '../sequences/sequences.service';
 
 describe('DeliveriesService', () => {
   let service: DeliveriesService;
@@ -19,6 +33,10 @@ describe('DeliveriesService', () => {
   let orderRepository: Repository<Order>;
   let orderItemRepository: Repository<OrderItem>;
   let dataSource: DataSource;
+  let quantityAuditService: QuantityAuditService;
+  let importProfilesService: ImportProfilesService;
+  let fileStorageService: FileStorageService;
+  let sequencesService: SequencesService;
 
   const mockUser: User = {
     id: 'user-1',
@@ -27,6 +45,8 @@ describe('DeliveriesService', () => {
     role: UserRole.ADMIN,
     status: UserStatus.ACTIVE,
     password: 'hashed-password',
+    passwordChangedAt: null,
+    mustChangePassword: false,
     isDeleted: false,
     orders: [],
     deliveries: [],
@@ -44,12 +64,14 @@ describe('DeliveriesService', () => {
     deliveredQuantity: 0,
     remainingQuantity: 80,
     fileName: null,
+    file: null,
     isDeleted: false,
     createdBy: mockUser,
     items: [],
     deliveries: [],
     createdAt: new Date(),
     updatedAt: new Date(),
+    version: 1,
   };
 
   const mockOrderItem: OrderItem = {
@@ -67,6 +89,7 @@ describe('DeliveriesService', () => {
     deliveryItems: [],
     createdAt: new Date(),
     updatedAt: new Date(),
+    version: 1,
     setInitialQuantityRemaining: jest.fn(),
   };
 
@@ -78,8 +101,13 @@ describe('DeliveriesService', () => {
     order: mockOrder,
     createdBy: mockUser,
     deliveryItems: [],
+    voidedAt: null,
+    voidedBy: null,
+    voidReason: null,
+    file: null,
     createdAt: new Date(),
     updatedAt: new Date(),
+    version: 1,
   };
 
   const mockDeliveryItem: DeliveryItem = {
@@ -88,6 +116,7 @@ describe('DeliveriesService', () => {
     unitPrice: 299.99,
     totalAmount: 7499.75,
     deliveryDate: new Date('2024-01-25'),
+    isVoided: false,
     delivery: mockDelivery,
     orderItem: mockOrderItem,
     createdAt: new Date(),
@@ -100,6 +129,7 @@ describe('DeliveriesService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DeliveriesService,
+        OrderStatusService,
         {
           provide: getRepositoryToken(Delivery),
           useValue: {
@@ -109,6 +139,7 @@ describe('DeliveriesService', () => {
             save: jest.fn(),
             update: jest.fn(),
             remove: jest.fn(),
+            count: jest.fn().mockResolvedValue(0),
             createQueryBuilder: jest.fn(),
           },
         },
@@ -139,6 +170,34 @@ describe('DeliveriesService', () => {
             transaction: jest.fn(),
           },
         },
+        {
+          provide: QuantityAuditService,
+          useValue: {
+            withContext: jest.fn((manager, context, work) => work()),
+            findAll: jest.fn(),
+          },
+        },
+        {
+          provide: ImportProfilesService,
+          useValue: {
+            readSheet: jest.fn(),
+          },
+        },
+        {
+          provide: FileStorageService,
+          useValue: {
+            store: jest.fn().mockResolvedValue({ id: 'file-1' }),
+            claim: jest.fn().mockResolvedValue({ id: 'file-1' }),
+            read: jest.fn(),
+            remove: jest.fn(),
+          },
+        },
+        {
+          provide: SequencesService,
+          useValue: {
+            next: jest.fn().mockResolvedValue('DEL-000001'),
+          },
+        },
       ],
     }).compile();
 
@@ -154,6 +213,10 @@ describe('DeliveriesService', () => {
       getRepositoryToken(OrderItem),
     );
     dataSource = module.get<DataSource>(DataSource);
+    quantityAuditService = module.get<QuantityAuditService>(QuantityAuditService);
+    importProfilesService = module.get<ImportProfilesService>(ImportProfilesService);
+    fileStorageService = module.get<FileStorageService>(FileStorageService);
+    sequencesService = module.get<SequencesService>(SequencesService);
   });
 
   it('should be defined', () => {
@@ -237,6 +300,26 @@ describe('DeliveriesService', () => {
     });
   });
 
+  describe('generateNextDeliveryId', () => {
+    it('should take the next delivery ID from the sequence', async () => {
+      await expect(service['generateNextDeliveryId']()).resolves.toBe('DEL-000001');
+      expect(sequencesService.next).toHaveBeenCalledWith('delivery');
+    });
+
+    it('should skip delivery IDs that are already in use', async () => {
+      jest
+        .spyOn(sequencesService, 'next')
+        .mockResolvedValueOnce('DEL-000001')
+        .mockResolvedValueOnce('DEL-000002');
+      jest.spyOn(deliveryRepository, 'count').mockResolvedValueOnce(1);
+
+      await expect(service['generateNextDeliveryId']()).resolves.toBe('DEL-000002');
+      expect(deliveryRepository.count).toHaveBeenCalledWith({
+        where: { deliveryId: 'DEL-000001' },
+      });
+    });
+  });
+
   describe('validateStatusTransition', () => {
     it('should allow valid status transitions', () => {
       expect(() => {
@@ -268,6 +351,146 @@ describe('DeliveriesService', () => {
           DeliveryStatus.DELIVERED,
         );
       }).toThrow(BadRequestException);
+      expect(() => {
+        service['validateStatusTransition'](
+          DeliveryStatus.DELIVERED,
+          DeliveryStatus.VOIDED,
+        );
+      }).toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    let mockManager: { increment: jest.Mock; update: jest.Mock; findOne: jest.Mock };
+
+    beforeEach(() => {
+      mockManager = { increment: jest.fn(), update: jest.fn(), findOne: jest.fn() };
+      jest.spyOn(deliveryRepository, 'findOne').mockResolvedValue({ ...mockDelivery, version: 3 });
+      jest
+        .spyOn(dataSource, 'transaction')
+        .mockImplementation(async (callback: any) => callback(mockManager));
+      mockManager.increment.mockResolvedValue({ affected: 1 });
+      mockManager.findOne.mockResolvedValue({ ...mockDelivery, version: 5 });
+    });
+
+    it('should bump the version the update was checked against', async () => {
+      const result = await service.update(
+        'delivery-1',
+        { deliveryDate: '2024-01-26' },
+        mockUser,
+        3,
+      );
+
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        Delivery,
+        { id: 'delivery-1', version: 3 },
+        'version',
+        1,
+      );
+      expect(result.version).toBe(5);
+    });
+
+    it('should reject an update made from a stale version', async () => {
+      await expect(
+        service.update('delivery-1', { deliveryDate: '2024-01-26' }, mockUser, 2),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject an update when the delivery changed while it was saved', async () => {
+      mockManager.increment.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.update('delivery-1', { deliveryDate: '2024-01-26' }, mockUser),
+      ).rejects.toThrow(ConflictException);
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voidDelivery', () => {
+    it('should void a delivered delivery and record the reason', async () => {
+      const voidedDelivery = {
+        ...mockDelivery,
+        status: DeliveryStatus.VOIDED,
+        voidedBy: mockUser,
+        voidReason: 'Recorded against the wrong order',
+      };
+      const mockManager = {
+        update: jest.fn(),
+        find: jest.fn().mockResolvedValue([mockOrderItem]),
+        query: jest.fn().mockResolvedValue([{ totalDelivered: '0' }]),
+        findOne: jest.fn((entity) =>
+          Promise.resolve(entity === Delivery ? voidedDelivery : mockOrder),
+        ),
+      };
+
+      jest.spyOn(deliveryRepository, 'findOne').mockResolvedValue(mockDelivery);
+      jest
+        .spyOn(dataSource, 'transaction')
+        .mockImplementation(async (callback: any) => {
+          return callback(mockManager);
+        });
+
+      const result = await service.voidDelivery(
+        'delivery-1',
+        { reason: '  Recorded against the wrong order  ' },
+        mockUser,
+      );
+
+      expect(result).toEqual(voidedDelivery);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Delivery,
+        'delivery-1',
+        expect.objectContaining({
+          status: DeliveryStatus.VOIDED,
+          voidReason: 'Recorded against the wrong order',
+        }),
+      );
+      expect(mockManager.update).toHaveBeenCalledWith(
+        DeliveryItem,
+        { delivery: { id: 'delivery-1' }, isVoided: false },
+        { isVoided: true },
+      );
+      expect(quantityAuditService.withContext).toHaveBeenCalledWith(
+        mockManager,
+        {
+          userId: 'user-1',
+          operation: QuantityAuditOperation.VOID,
+          reason: 'Recorded against the wrong order',
+        },
+        expect.any(Function),
+      );
+    });
+
+    it('should reject deliveries that are not delivered', async () => {
+      jest.spyOn(deliveryRepository, 'findOne').mockResolvedValue({
+        ...mockDelivery,
+        status: DeliveryStatus.PENDING,
+      });
+
+      await expect(
+        service.voidDelivery('delivery-1', { reason: 'Mistake' }, mockUser),
+      ).rejects.toThrow(BadRequestException);
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject an already voided delivery', async () => {
+      jest.spyOn(deliveryRepository, 'findOne').mockResolvedValue({
+        ...mockDelivery,
+        status: DeliveryStatus.VOIDED,
+      });
+
+      await expect(
+        service.voidDelivery('delivery-1', { reason: 'Mistake' }, mockUser),
+      ).rejects.toThrow('Delivery is already voided');
+    });
+
+    it('should require a non-blank reason', async () => {
+      jest.spyOn(deliveryRepository, 'findOne').mockResolvedValue(mockDelivery);
+
+      await expect(
+        service.voidDelivery('delivery-1', { reason: '   ' }, mockUser),
+      ).rejects.toThrow(BadRequestException);
     });
   });
 
@@ -313,6 +536,14 @@ describe('DeliveriesService', () => {
       deliveryDate: '2024-01-25',
       status: 'delivered' as any,
     };
+    const columnLetters = {
+      ASIN: 'A',
+      'Brand Name': 'B',
+      'Model Number': 'C',
+      Title: 'D',
+      'Delivered Quantity': 'E',
+      'Unit Price': 'F',
+    };
 
     it('should throw BadRequestException when no file uploaded', async () => {
       await expect(
@@ -329,14 +560,6 @@ describe('DeliveriesService', () => {
     });
 
     it('should process Excel file successfully', async () => {
-      // Mock XLSX.read and sheet_to_json
-      const mockWorkbook = {
-        SheetNames: ['Sheet1'],
-        Sheets: {
-          Sheet1: {},
-        },
-      };
-
       const mockData = [
         {
           ASIN: 'B08N5WRWNW',
@@ -348,10 +571,10 @@ describe('DeliveriesService', () => {
         },
       ];
 
-      // Mock XLSX functions
-      const XLSX = require('xlsx');
-      jest.spyOn(XLSX, 'read').mockReturnValue(mockWorkbook);
-      jest.spyOn(XLSX.utils, 'sheet_to_json').mockReturnValue(mockData);
+      // Mock the sheet as mapped by the import profile
+      const readSheet = jest
+        .spyOn(importProfilesService, 'readSheet')
+        .mockResolvedValue({ rows: mockData, rowNumbers: [2], columnLetters });
 
       jest.spyOn(orderRepository, 'findOne').mockResolvedValue({
         ...mockOrder,
@@ -374,7 +597,275 @@ describe('DeliveriesService', () => {
         itemsSkipped: 0,
         totalRevenue: 7499.75,
         errors: [],
+        issues: [],
       });
+      expect(readSheet).toHaveBeenCalledWith(
+        mockFile,
+        ImportProfileTarget.DELIVERY,
+        undefined,
+        { text: excelImportDto },
+      );
+      expect(fileStorageService.store).toHaveBeenCalledWith({
+        buffer: mockFile.buffer,
+        fileName: 'test.xlsx',
+        category: StoredFileCategory.DELIVERY_UPLOAD,
+        createdBy: mockUser,
+      });
+      expect(service.create).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'order-1' }),
+        mockUser,
+        { id: 'file-1' },
+      );
+    });
+
+    it('should remove the stored upload when the delivery cannot be created', async () => {
+      jest.spyOn(importProfilesService, 'readSheet').mockResolvedValue({
+        rows: [
+          {
+            ASIN: 'B08N5WRWNW',
+            'Brand Name': 'Sony',
+            'Model Number': '1234567890123',
+            Title: 'Sony WH-1000XM4 Headphones',
+            'Delivered Quantity': 25,
+            'Unit Price': 299.99,
+          },
+        ],
+        rowNumbers: [2],
+        columnLetters,
+      });
+      jest.spyOn(orderRepository, 'findOne').mockResolvedValue({
+        ...mockOrder,
+        items: [mockOrderItem],
+      });
+      jest
+        .spyOn(service, 'create')
+        .mockRejectedValue(new BadRequestException('Delivery quantity exceeds remaining'));
+
+      await expect(
+        service.importFromExcel(mockFile, excelImportDto, mockUser),
+      ).rejects.toThrow('Delivery quantity exceeds remaining');
+      expect(fileStorageService.remove).toHaveBeenCalledWith({ id: 'file-1' });
+    });
+
+    it('should read the sheet through the selected import profile and text options', async () => {
+      const mappedRow = {
+        ASIN: 'B08N5WRWNW',
+        'Brand Name': 'Sony',
+        'Model Number': '1234567890123',
+        Title: 'Sony WH-1000XM4 Headphones',
+        'Delivered Quantity': 25,
+        'Unit Price': 299.99,
+      };
+      jest.spyOn(importProfilesService, 'readSheet').mockResolvedValue({
+        rows: [mappedRow, { ...mappedRow, 'Unit Price': 'abc' }],
+        rowNumbers: [7, 9],
+        columnLetters,
+      });
+      jest.spyOn(orderRepository, 'findOne').mockResolvedValue({
+        ...mockOrder,
+        items: [mockOrderItem],
+      });
+      jest.spyOn(service, 'create').mockResolvedValue(mockDelivery);
+
+      const importDto = {
+        ...excelImportDto,
+        importProfileId: 'profile-1',
+        delimiter: ImportDelimiter.SEMICOLON,
+      };
+      const result = await service.importFromExcel(mockFile, importDto, mockUser);
+
+      expect(importProfilesService.readSheet).toHaveBeenCalledWith(
+        mockFile,
+        ImportProfileTarget.DELIVERY,
+        'profile-1',
+        { text: importDto },
+      );
+      expect(result.itemsProcessed).toBe(1);
+      expect(result.errors).toEqual([
+        'Row 9: Unit price must be a valid positive number',
+      ]);
+    });
+
+    it('should report structured issues, including warnings that do not skip the row', async () => {
+      const mappedRow = {
+        ASIN: 'B08N5WRWNW',
+        'Brand Name': 'Sony',
+        'Model Number': '1234567890123',
+        Title: 'Sony WH-1000XM4 Headphones',
+        'Delivered Quantity': 25,
+        'Unit Price': 299.99,
+      };
+      jest.spyOn(importProfilesService, 'readSheet').mockResolvedValue({
+        rows: [{ ...mappedRow, 'Brand Name': 'Sony Europe' }, { ...mappedRow, 'Model Number': '12345' }],
+        rowNumbers: [2, 3],
+        columnLetters,
+      });
+      jest.spyOn(orderRepository, 'findOne').mockResolvedValue({
+        ...mockOrder,
+        items: [mockOrderItem],
+      });
+      jest.spyOn(service, 'create').mockResolvedValue(mockDelivery);
+
+      const result = await service.importFromExcel(mockFile, excelImportDto, mockUser);
+
+      expect(result.itemsProcessed).toBe(1);
+      expect(result.errors).toEqual([
+        'Row 3: Model number "12345" must be exactly 13 digits (numbers only)',
+      ]);
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          row: 2,
+          column: 'B',
+          field: 'Brand Name',
+          code: 'BRAND_NAME_MISMATCH',
+          value: 'Sony Europe',
+          severity: 'warning',
+        }),
+        {
+          row: 3,
+          column: 'C',
+          field: 'Model Number',
+          code: 'INVALID_MODEL_NUMBER',
+          value: '12345',
+          severity: 'error',
+          message: 'Model number "12345" must be exactly 13 digits (numbers only)',
+          suggestion:
+            'Enter the 13-digit model number and format the column as text so leading zeros are kept',
+        },
+      ]);
+    });
+  });
+
+  describe('previewDeliveryFromExcel', () => {
+    const mockFile = {
+      buffer: Buffer.from('mock excel data'),
+      originalname: 'delivery.xlsx',
+    } as Express.Multer.File;
+
+    beforeEach(() => {
+      jest.spyOn(importProfilesService, 'readSheet').mockResolvedValue({
+        rows: [
+          {
+            ASIN: 'B08N5WRWNW',
+            'Brand Name': 'Sony',
+            'Model Number': '1234567890123',
+            Title: 'Sony WH-1000XM4 Headphones',
+            'Delivered Quantity': 25,
+            'Unit Price': 299.99,
+          },
+        ],
+        rowNumbers: [2],
+        columnLetters: {},
+      });
+      jest.spyOn(orderRepository, 'findOne').mockResolvedValue({
+        ...mockOrder,
+        items: [mockOrderItem],
+      });
+    });
+
+    it('should hold the upload as a pending file for the save', async () => {
+      const result = await service.previewDeliveryFromExcel(
+        mockFile,
+        'order-1',
+        undefined,
+        undefined,
+        mockUser,
+      );
+
+      expect(result.fileId).toBe('file-1');
+      expect(fileStorageService.store).toHaveBeenCalledWith({
+        buffer: mockFile.buffer,
+        fileName: 'delivery.xlsx',
+        category: StoredFileCategory.DELIVERY_UPLOAD,
+        createdBy: mockUser,
+        pending: true,
+      });
+    });
+
+    it('should not keep the upload without an uploading user', async () => {
+      const result = await service.previewDeliveryFromExcel(mockFile, 'order-1');
+
+      expect(result.fileId).toBeUndefined();
+      expect(fileStorageService.store).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveDeliveryFromItems', () => {
+    const deliveryItems = [
+      {
+        asin: 'B08N5WRWNW',
+        brandName: 'Sony',
+        modelNumber: '1234567890123',
+        title: 'Sony WH-1000XM4 Headphones',
+        deliveredQuantity: 25,
+        unitPrice: 299.99,
+      },
+    ];
+
+    beforeEach(() => {
+      jest.spyOn(orderRepository, 'findOne').mockResolvedValue({
+        ...mockOrder,
+        items: [mockOrderItem],
+      });
+    });
+
+    it('should link the file uploaded for the preview', async () => {
+      jest.spyOn(service, 'create').mockResolvedValue(mockDelivery);
+
+      await service.saveDeliveryFromItems(
+        deliveryItems,
+        'order-1',
+        new Date('2024-01-25'),
+        mockUser,
+        'file-1',
+      );
+
+      expect(fileStorageService.claim).toHaveBeenCalledWith(
+        'file-1',
+        StoredFileCategory.DELIVERY_UPLOAD,
+        mockUser,
+      );
+      expect(service.create).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'order-1' }),
+        mockUser,
+        { id: 'file-1' },
+      );
+    });
+
+    it('should save without a file when none is passed', async () => {
+      jest.spyOn(service, 'create').mockResolvedValue(mockDelivery);
+
+      await service.saveDeliveryFromItems(
+        deliveryItems,
+        'order-1',
+        new Date('2024-01-25'),
+        mockUser,
+      );
+
+      expect(fileStorageService.claim).not.toHaveBeenCalled();
+      expect(service.create).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'order-1' }),
+        mockUser,
+        null,
+      );
+    });
+
+    it('should not save when the uploaded file can no longer be claimed', async () => {
+      jest.spyOn(service, 'create');
+      jest
+        .spyOn(fileStorageService, 'claim')
+        .mockRejectedValue(new BadRequestException('Uploaded file not found or expired, please upload it again'));
+
+      await expect(
+        service.saveDeliveryFromItems(
+          deliveryItems,
+          'order-1',
+          new Date('2024-01-25'),
+          mockUser,
+          'file-1',
+        ),
+      ).rejects.toThrow('Uploaded file not found or expired');
+      expect(service.create).not.toHaveBeenCalled();
     });
   });
 
@@ -468,6 +959,10 @@ describe('DeliveriesService', () => {
           order: mockOrder,
           createdBy: mockUser,
           deliveryItems: [],
+          voidedAt: null,
+          voidedBy: null,
+          voidReason: null,
+          file: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         };
@@ -593,69 +1088,68 @@ describe('DeliveriesService', () => {
     });
 
     describe('getQuantityAuditLog', () => {
-      it('should retrieve quantity audit log for specific order item', async () => {
+      it('should delegate filtering and pagination to the audit service', async () => {
         // Arrange
-        const mockAuditLog = [
-          {
-            id: 1,
-            operation_type: 'INSERT',
-            order_item_id: 'order-item-1',
-            delivery_item_id: 'delivery-item-1',
-            old_quantity: 100,
-            new_quantity: 75,
-            delivered_quantity: 25,
-            created_at: new Date(),
-          },
-        ];
+        const mockAuditLog = {
+          data: [
+            {
+              id: '1',
+              operationType: QuantityAuditOperation.INSERT,
+              orderItemId: 'order-item-1',
+              orderId: 'order-1',
+              deliveryId: 'delivery-1',
+              deliveryItemId: 'delivery-item-1',
+              oldQuantity: 100,
+              newQuantity: 75,
+              deliveredQuantity: 25,
+              reason: null,
+              changedBy: mockUser,
+              delivery: null,
+              createdAt: new Date(),
+            },
+          ],
+          total: 1,
+          page: 1,
+          limit: 50,
+          totalPages: 1,
+        };
+        const query = { orderItemId: 'order-item-1', limit: 50 };
 
-        jest.spyOn(dataSource, 'query').mockResolvedValue(mockAuditLog);
+        jest.spyOn(quantityAuditService, 'findAll').mockResolvedValue(mockAuditLog);
 
         // Act
-        const result = await service.getQuantityAuditLog('order-item-1', 50);
+        const result = await service.getQuantityAuditLog(query);
 
         // Assert
         expect(result).toEqual(mockAuditLog);
-        expect(dataSource.query).toHaveBeenCalledWith(
-          expect.stringContaining('SELECT * FROM quantity_audit_log'),
-          ['order-item-1', 50]
-        );
+        expect(quantityAuditService.findAll).toHaveBeenCalledWith(query);
       });
+    });
 
-      it('should retrieve general audit log when no order item specified', async () => {
+    describe('audit context', () => {
+      it('should record the acting user and operation when recalculating', async () => {
         // Arrange
-        const mockAuditLog = [
-          {
-            id: 1,
-            operation_type: 'INSERT',
-            order_item_id: 'order-item-1',
-            delivery_item_id: 'delivery-item-1',
-            old_quantity: 100,
-            new_quantity: 75,
-            delivered_quantity: 25,
-            created_at: new Date(),
-          },
-          {
-            id: 2,
-            operation_type: 'UPDATE',
-            order_item_id: 'order-item-2',
-            delivery_item_id: 'delivery-item-2',
-            old_quantity: 50,
-            new_quantity: 30,
-            delivered_quantity: 20,
-            created_at: new Date(),
-          },
-        ];
+        const mockManager = {
+          find: jest.fn().mockResolvedValue([]),
+          update: jest.fn(),
+          query: jest.fn(),
+        };
 
-        jest.spyOn(dataSource, 'query').mockResolvedValue(mockAuditLog);
+        jest.spyOn(dataSource, 'transaction').mockImplementation(async (callback: any) => {
+          return await callback(mockManager as any);
+        });
 
         // Act
-        const result = await service.getQuantityAuditLog(undefined, 100);
+        await service.recalculateOrderQuantities('order-1', mockUser);
 
         // Assert
-        expect(result).toEqual(mockAuditLog);
-        expect(dataSource.query).toHaveBeenCalledWith(
-          expect.stringContaining('SELECT * FROM quantity_audit_log'),
-          [100]
+        expect(quantityAuditService.withContext).toHaveBeenCalledWith(
+          mockManager,
+          expect.objectContaining({
+            userId: 'user-1',
+            operation: QuantityAuditOperation.RECALCULATION,
+          }),
+          expect.any(Function),
         );
       });
     });
@@ -677,8 +1171,13 @@ describe('DeliveriesService', () => {
       order: mockOrderDeleted,
       createdBy: mockUser,
       deliveryItems: [],
+      voidedAt: null,
+      voidedBy: null,
+      voidReason: null,
+      file: null,
       createdAt: new Date(),
       updatedAt: new Date(),
+      version: 1,
     };
 
     describe('findAll', () => {
@@ -718,7 +1217,7 @@ describe('DeliveriesService', () => {
             id: 'delivery-from-deleted-order',
             order: { isDeleted: false }
           },
-          relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy'],
+          relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy', 'voidedBy', 'file'],
         });
       });
 
@@ -737,7 +1236,7 @@ describe('DeliveriesService', () => {
             id: 'delivery-1',
             order: { isDeleted: false }
           },
-          relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy'],
+          relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy', 'voidedBy', 'file'],
         });
       });
     });
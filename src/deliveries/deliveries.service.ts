@@ -7,15 +7,42 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, SelectQueryBuilder, DataSource } from 'typeorm';
 import { Delivery, DeliveryStatus } from './entities/delivery.entity';
 import { DeliveryItem } from './entities/delivery-item.entity';
-import { Order } from '../orders/entities/order.entity';
+import { Order, OrderStatus } from '../orders/entities/order.entity';
 import { OrderItem } from '../orders/entities/order-item.entity';
 import { User } from '../users/entities/user.entity';
 import { CreateDeliveryDto } from './dto/create-delivery.dto';
 import { UpdateDeliveryDto } from './dto/update-delivery.dto';
 import { GetDeliveriesDto } from './dto/get-deliveries.dto';
 import { ExcelImportDeliveryDto } from './dto/excel-import-delivery.dto';
+import { VoidDeliveryDto } from './dto/void-delivery.dto';
+import { OrderStatusService } from '../orders/order-status.service';
+import { assertVersion, claimVersion } from '../common/optimistic-lock';
 import { DeliveryItemData, ExcelRowData, DeliveryPreviewResult } from './interfaces/delivery-item.interface';
-import * as XLSX from 'xlsx';
+import { QuantityAuditService } from '../audit/quantity-audit.service';
+import { ImportProfilesService } from '../imports/import-profiles.service';
+import { ImportProfileTarget } from '../imports/entities/import-profile.entity';
+import {
+  MappedSheet,
+  TextImportOptions,
+} from '../imports/interfaces/import-profile.interface';
+import { ImportIssue } from '../imports/interfaces/import-issue.interface';
+import { ImportProgressListener } from '../imports/interfaces/import-progress.interface';
+import {
+  ImportRowError,
+  createImportIssue,
+  formatImportIssue,
+  importIssueFromError,
+} from '../imports/import-issues';
+import { GetQuantityAuditLogDto } from '../audit/dto/get-quantity-audit-log.dto';
+import {
+  QuantityAuditLog,
+  QuantityAuditOperation,
+} from '../audit/entities/quantity-audit-log.entity';
+import { FileStorageService } from '../storage/file-storage.service';
+import { SequencesService } from '../sequences/sequences.service';
+import { Attachment } from '../attachments/entities/attachment.entity';
+import { StoredFile, StoredFileCategory } from '../storage/entities/stored-file.entity';
+import { StoredFileContent } from '../storage/interfaces/stored-file.interface';
 
 export interface PaginatedResponse<T> {
   data: T[];
@@ -25,6 +52,11 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+const MODEL_NUMBER_SUGGESTION =
+  'Enter the 13-digit model number and format the column as text so leading zeros are kept';
+const NO_MATCHING_ORDER_ITEM_SUGGESTION =
+  'Check the ASIN and model number against the order lines';
+
 @Injectable()
 export class DeliveriesService {
   constructor(
@@ -37,11 +69,17 @@ export class DeliveriesService {
     @InjectRepository(OrderItem)
     private orderItemRepository: Repository<OrderItem>,
     private dataSource: DataSource,
+    private quantityAuditService: QuantityAuditService,
+    private orderStatusService: OrderStatusService,
+    private importProfilesService: ImportProfilesService,
+    private fileStorageService: FileStorageService,
+    private sequencesService: SequencesService,
   ) { }
 
   async create(
     createDeliveryDto: CreateDeliveryDto,
     user: User,
+    file: StoredFile | null = null,
   ): Promise<Delivery> {
     // Verify order exists and is not soft-deleted
     const order = await this.orderRepository.findOne({
@@ -56,59 +94,70 @@ export class DeliveriesService {
       throw new NotFoundException('Order not found');
     }
 
+    this.validateOrderAcceptsDeliveries(order);
+
+    if (createDeliveryDto.status === DeliveryStatus.VOIDED) {
+      throw new BadRequestException(
+        'Deliveries cannot be created as voided. Use the void operation instead',
+      );
+    }
+
     // Validate delivery items and check quantities
     await this.validateDeliveryItems(createDeliveryDto.items, order.items);
 
-    // Generate the next delivery ID with retry logic for concurrency
-    const deliveryId = await this.generateNextDeliveryIdWithRetry();
+    // Generate the next delivery ID from the delivery sequence
+    const deliveryId = await this.generateNextDeliveryId();
 
     // Use transaction to ensure data consistency
-    return await this.dataSource.transaction(async (manager) => {
-      // Create delivery
-      const delivery = manager.create(Delivery, {
-        deliveryId,
-        deliveryDate: new Date(createDeliveryDto.deliveryDate),
-        status: createDeliveryDto.status || DeliveryStatus.DELIVERED,
-        order,
-        createdBy: user,
-      });
+    return await this.dataSource.transaction(async (manager) =>
+      this.quantityAuditService.withContext(manager, { userId: user.id }, async () => {
+        // Create delivery
+        const delivery = manager.create(Delivery, {
+          deliveryId,
+          deliveryDate: new Date(createDeliveryDto.deliveryDate),
+          status: createDeliveryDto.status || DeliveryStatus.DELIVERED,
+          order,
+          file,
+          createdBy: user,
+        });
 
-      const savedDelivery = await manager.save(delivery);
+        const savedDelivery = await manager.save(delivery);
 
-      // Create delivery items
-      const deliveryItems = createDeliveryDto.items.map((itemDto) => {
-        const totalAmount = itemDto.deliveredQuantity * itemDto.unitPrice;
+        // Create delivery items
+        const deliveryItems = createDeliveryDto.items.map((itemDto) => {
+          const totalAmount = itemDto.deliveredQuantity * itemDto.unitPrice;
 
-        return manager.create(DeliveryItem, {
-          deliveredQuantity: itemDto.deliveredQuantity,
-          unitPrice: itemDto.unitPrice,
-          totalAmount,
-          deliveryDate: savedDelivery.deliveryDate, // Set delivery date from parent delivery
-          delivery: savedDelivery,
-          orderItem: { id: itemDto.orderItemId } as OrderItem,
+          return manager.create(DeliveryItem, {
+            deliveredQuantity: itemDto.deliveredQuantity,
+            unitPrice: itemDto.unitPrice,
+            totalAmount,
+            deliveryDate: savedDelivery.deliveryDate, // Set delivery date from parent delivery
+            delivery: savedDelivery,
+            orderItem: { id: itemDto.orderItemId } as OrderItem,
+          });
         });
-      });
 
-      await manager.save(DeliveryItem, deliveryItems);
+        await manager.save(DeliveryItem, deliveryItems);
 
-      // Note: Quantity updates are handled automatically by database triggers
-      // when delivery items are saved. No manual quantity updates needed.
+        // Note: Quantity updates are handled automatically by database triggers
+        // when delivery items are saved. No manual quantity updates needed.
 
-      // Update order totals (but not individual item quantities - triggers handle that)
-      await this.updateOrderTotalRemaining(manager, order.id);
+        // Update order totals (but not individual item quantities - triggers handle that)
+        await this.updateOrderTotalRemaining(manager, order.id);
 
-      // Return the delivery with its relations using the transaction manager
-      const deliveryWithRelations = await manager.findOne(Delivery, {
-        where: { id: savedDelivery.id },
-        relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy'],
-      });
+        // Return the delivery with its relations using the transaction manager
+        const deliveryWithRelations = await manager.findOne(Delivery, {
+          where: { id: savedDelivery.id },
+          relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy'],
+        });
 
-      if (!deliveryWithRelations) {
-        throw new Error('Failed to retrieve created delivery');
-      }
+        if (!deliveryWithRelations) {
+          throw new Error('Failed to retrieve created delivery');
+        }
 
-      return deliveryWithRelations;
-    });
+        return deliveryWithRelations;
+      }),
+    );
   }
 
   async findAll(query: GetDeliveriesDto): Promise<PaginatedResponse<Delivery>> {
@@ -156,7 +205,7 @@ export class DeliveriesService {
         id,
         order: { isDeleted: false }
       },
-      relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy'],
+      relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy', 'voidedBy', 'file'],
     });
 
     if (!delivery) {
@@ -166,12 +215,43 @@ export class DeliveriesService {
     return delivery;
   }
 
+  /**
+   * The spreadsheet a delivery was imported from
+   */
+  async getDeliveryFile(id: string): Promise<StoredFileContent> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: {
+        id,
+        order: { isDeleted: false }
+      },
+      relations: ['file'],
+    });
+
+    if (!delivery) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    if (!delivery.file) {
+      throw new NotFoundException('No file associated with this delivery');
+    }
+
+    return this.fileStorageService.read(delivery.file);
+  }
+
   async update(
     id: string,
     updateDeliveryDto: UpdateDeliveryDto,
+    user: User,
+    expectedVersion?: number,
   ): Promise<Delivery> {
     const delivery = await this.findOne(id);
 
+    assertVersion(delivery, expectedVersion, 'Delivery');
+
+    if (delivery.status === DeliveryStatus.VOIDED) {
+      throw new BadRequestException('Voided deliveries cannot be modified');
+    }
+
     // Validate status transition if status is being updated
     if (
       updateDeliveryDto.status &&
@@ -198,73 +278,94 @@ export class DeliveriesService {
     }
 
     // Use transaction for consistency
-    return await this.dataSource.transaction(async (manager) => {
-      // Update delivery
-      await manager.update(Delivery, id, {
-        deliveryDate: updateDeliveryDto.deliveryDate
-          ? new Date(updateDeliveryDto.deliveryDate)
-          : undefined,
-        status: updateDeliveryDto.status,
-      });
-
-      // If items are being updated, replace them
-      if (updateDeliveryDto.items) {
-        // Note: Database triggers will automatically handle quantity restoration
-        // when delivery items are deleted and quantity updates when new items are saved
-
-        // Remove existing items (triggers will restore quantities automatically)
-        await manager.delete(DeliveryItem, { delivery: { id } });
-
-        // Add new items (triggers will update quantities automatically)
-        const deliveryItems = updateDeliveryDto.items.map((itemDto) => {
-          const totalAmount = itemDto.deliveredQuantity * itemDto.unitPrice;
+    return await this.dataSource.transaction(async (manager) =>
+      this.quantityAuditService.withContext(manager, { userId: user.id }, async () => {
+        await claimVersion(manager, Delivery, delivery, expectedVersion, 'Delivery');
+
+        // Update delivery
+        await manager.update(Delivery, id, {
+          deliveryDate: updateDeliveryDto.deliveryDate
+            ? new Date(updateDeliveryDto.deliveryDate)
+            : undefined,
+          status: updateDeliveryDto.status,
+        });
 
-          return manager.create(DeliveryItem, {
-            deliveredQuantity: itemDto.deliveredQuantity,
-            unitPrice: itemDto.unitPrice,
-            totalAmount,
-            deliveryDate: updateDeliveryDto.deliveryDate
-              ? new Date(updateDeliveryDto.deliveryDate)
-              : delivery.deliveryDate, // Use updated or existing delivery date
-            delivery,
-            orderItem: { id: itemDto.orderItemId } as OrderItem,
+        // If items are being updated, replace them
+        if (updateDeliveryDto.items) {
+          // Note: Database triggers will automatically handle quantity restoration
+          // when delivery items are deleted and quantity updates when new items are saved
+
+          // Remove existing items (triggers will restore quantities automatically)
+          await manager.delete(DeliveryItem, { delivery: { id } });
+
+          // Add new items (triggers will update quantities automatically)
+          const deliveryItems = updateDeliveryDto.items.map((itemDto) => {
+            const totalAmount = itemDto.deliveredQuantity * itemDto.unitPrice;
+
+            return manager.create(DeliveryItem, {
+              deliveredQuantity: itemDto.deliveredQuantity,
+              unitPrice: itemDto.unitPrice,
+              totalAmount,
+              deliveryDate: updateDeliveryDto.deliveryDate
+                ? new Date(updateDeliveryDto.deliveryDate)
+                : delivery.deliveryDate, // Use updated or existing delivery date
+              delivery,
+              orderItem: { id: itemDto.orderItemId } as OrderItem,
+            });
           });
-        });
 
-        await manager.save(DeliveryItem, deliveryItems);
+          await manager.save(DeliveryItem, deliveryItems);
 
-        // Update order totals (individual item quantities handled by triggers)
-        await this.updateOrderTotalRemaining(manager, delivery.order.id);
-      }
+          // Update order totals (individual item quantities handled by triggers)
+          await this.updateOrderTotalRemaining(manager, delivery.order.id);
+        }
 
-      // Return the delivery with its relations using the transaction manager
-      const deliveryWithRelations = await manager.findOne(Delivery, {
-        where: { id },
-        relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy'],
-      });
+        // Return the delivery with its relations using the transaction manager
+        const deliveryWithRelations = await manager.findOne(Delivery, {
+          where: { id },
+          relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy'],
+        });
 
-      if (!deliveryWithRelations) {
-        throw new NotFoundException('Delivery not found after update');
-      }
+        if (!deliveryWithRelations) {
+          throw new NotFoundException('Delivery not found after update');
+        }
 
-      return deliveryWithRelations;
-    });
+        return deliveryWithRelations;
+      }),
+    );
   }
 
-  async remove(id: string): Promise<void> {
+  async remove(id: string, user: User): Promise<void> {
     const delivery = await this.findOne(id);
 
     // Use transaction to ensure deletion is atomic
-    await this.dataSource.transaction(async (manager) => {
-      // Note: Database triggers will automatically restore quantities
-      // when delivery items are deleted (cascade delete)
+    const files = await this.dataSource.transaction(async (manager) =>
+      this.quantityAuditService.withContext(manager, { userId: user.id }, async () => {
+        const attachments = await manager.find(Attachment, {
+          where: { delivery: { id } },
+          relations: ['file'],
+        });
 
-      // Remove the delivery (cascade will remove delivery items and restore quantities)
-      await manager.remove(delivery);
+        // Note: Database triggers will automatically restore quantities
+        // when delivery items are deleted (cascade delete)
 
-      // Update order totals after deletion
-      await this.updateOrderTotalRemaining(manager, delivery.order.id);
-    });
+        // Remove the delivery (cascade will remove delivery items, attachments and restore quantities)
+        await manager.remove(delivery);
+
+        // Update order totals after deletion
+        await this.updateOrderTotalRemaining(manager, delivery.order.id);
+
+        return [
+          ...(delivery.file ? [delivery.file] : []),
+          ...attachments.map((attachment) => attachment.file),
+        ];
+      }),
+    );
+
+    // Files go once the delivery is gone, so a failed delete keeps them
+    for (const file of files) {
+      await this.fileStorageService.remove(file);
+    }
   }
 
   async getDeliveryRevenue(deliveryId: string): Promise<{
@@ -317,7 +418,12 @@ export class DeliveriesService {
       relations: ['deliveryItems', 'deliveryItems.orderItem', 'order'],
     });
 
-    const totalRevenue = deliveries.reduce((sum, delivery) => {
+    // Voided deliveries are still counted by status but no longer add to totals
+    const activeDeliveries = deliveries.filter(
+      (delivery) => delivery.status !== DeliveryStatus.VOIDED,
+    );
+
+    const totalRevenue = activeDeliveries.reduce((sum, delivery) => {
       return (
         sum +
         delivery.deliveryItems.reduce(
@@ -327,7 +433,7 @@ export class DeliveriesService {
       );
     }, 0);
 
-    const totalQuantityDelivered = deliveries.reduce((sum, delivery) => {
+    const totalQuantityDelivered = activeDeliveries.reduce((sum, delivery) => {
       return (
         sum +
         delivery.deliveryItems.reduce(
@@ -363,6 +469,9 @@ export class DeliveriesService {
   async previewDeliveryFromExcel(
     file: Express.Multer.File,
     orderId: string,
+    importProfileId?: string,
+    text?: TextImportOptions,
+    uploadedBy?: User,
   ): Promise<DeliveryPreviewResult> {
     if (!file) {
       throw new BadRequestException('No file uploaded');
@@ -378,22 +487,26 @@ export class DeliveriesService {
       throw new NotFoundException('Order not found');
     }
 
-    try {
-      // Parse Excel file
-      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(worksheet);
+    this.validateOrderAcceptsDeliveries(order);
 
-      // Validate required columns are present
-      this.validateExcelColumns(data);
+    try {
+      // Parse Excel file through the selected column mapping
+      const sheet = await this.importProfilesService.readSheet<ExcelRowData>(
+        file,
+        ImportProfileTarget.DELIVERY,
+        importProfileId,
+        { text },
+      );
+      const { rows: data, rowNumbers } = sheet;
 
       const errors: string[] = [];
+      const issues: ImportIssue[] = [];
       const validItems: any[] = [];
       const invalidItems: any[] = [];
 
       // Process each row and match with order items
-      data.forEach((row: ExcelRowData, index: number) => {
+      data.forEach((row, index) => {
+        const rowNumber = rowNumbers[index];
         try {
           // Extract raw data from Excel row for display
           const asin = String(row['ASIN'] || '').trim();
@@ -409,10 +522,42 @@ export class DeliveriesService {
           if (!brandName) missingFields.push('Brand Name');
           if (!modelNumber) missingFields.push('Model Number');
           if (!title) missingFields.push('Title');
-          if (deliveredQuantity == null || isNaN(deliveredQuantity) || deliveredQuantity < 0)
+          missingFields.forEach((field) =>
+            issues.push(
+              createImportIssue(sheet, rowNumber, `Missing required field: ${field}`, {
+                code: 'MISSING_VALUE',
+                field,
+                suggestion: `Enter a value for ${field}`,
+              }),
+            ),
+          );
+          if (deliveredQuantity == null || isNaN(deliveredQuantity) || deliveredQuantity < 0) {
             missingFields.push('Delivered Quantity (must be zero or positive)');
-          if (isNaN(unitPrice) || unitPrice < 0)
+            issues.push(
+              createImportIssue(
+                sheet,
+                rowNumber,
+                'Delivered quantity must be zero or a positive integer',
+                {
+                  code: 'INVALID_QUANTITY',
+                  field: 'Delivered Quantity',
+                  value: row['Delivered Quantity'],
+                  suggestion: 'Enter a whole number of zero or more',
+                },
+              ),
+            );
+          }
+          if (isNaN(unitPrice) || unitPrice < 0) {
             missingFields.push('Unit Price');
+            issues.push(
+              createImportIssue(sheet, rowNumber, 'Unit price must be a valid positive number', {
+                code: 'INVALID_PRICE',
+                field: 'Unit Price',
+                value: row['Unit Price'],
+                suggestion: 'Enter a number of zero or more without a currency symbol',
+              }),
+            );
+          }
 
           if (missingFields.length > 0) {
             const invalidItem = {
@@ -426,11 +571,11 @@ export class DeliveriesService {
               isQuantityExceeded: false,
               hasValidationError: true,
               validationError: `Missing required fields: ${missingFields.join(', ')}`,
-              rowNumber: index + 2,
+              rowNumber,
             };
             invalidItems.push(invalidItem);
             errors.push(
-              `Row ${index + 2}: Missing required fields: ${missingFields.join(', ')}`,
+              `Row ${rowNumber}: Missing required fields: ${missingFields.join(', ')}`,
             );
             return;
           }
@@ -448,11 +593,24 @@ export class DeliveriesService {
               isQuantityExceeded: false,
               hasValidationError: true,
               validationError: `Model number "${modelNumber}" must be exactly 13 digits`,
-              rowNumber: index + 2,
+              rowNumber,
             };
             invalidItems.push(invalidItem);
             errors.push(
-              `Row ${index + 2}: Model number "${modelNumber}" must be exactly 13 digits`,
+              `Row ${rowNumber}: Model number "${modelNumber}" must be exactly 13 digits`,
+            );
+            issues.push(
+              createImportIssue(
+                sheet,
+                rowNumber,
+                `Model number "${modelNumber}" must be exactly 13 digits`,
+                {
+                  code: 'INVALID_MODEL_NUMBER',
+                  field: 'Model Number',
+                  value: row['Model Number'],
+                  suggestion: MODEL_NUMBER_SUGGESTION,
+                },
+              ),
             );
             return;
           }
@@ -475,16 +633,21 @@ export class DeliveriesService {
               isQuantityExceeded: false,
               hasValidationError: true,
               validationError: `No matching order item found for ASIN: ${asin}, Model: ${modelNumber}`,
-              rowNumber: index + 2,
+              rowNumber,
             };
             invalidItems.push(invalidItem);
             errors.push(
-              `Row ${index + 2}: No matching order item found for ASIN: ${asin}, Model: ${modelNumber}`,
+              `Row ${rowNumber}: No matching order item found for ASIN: ${asin}, Model: ${modelNumber}`,
             );
+            issues.push(this.noMatchingOrderItemIssue(sheet, row, rowNumber));
             return;
           }
 
           const remainingQuantity = orderItem.quantityRemaining;
+          const brandNameWarning = this.brandNameMismatchIssue(sheet, row, rowNumber, orderItem);
+          if (brandNameWarning) {
+            issues.push(brandNameWarning);
+          }
 
           const itemWithValidation = {
             asin,
@@ -497,20 +660,32 @@ export class DeliveriesService {
             isQuantityExceeded: deliveredQuantity > remainingQuantity,
             hasValidationError: false,
             validationError: null,
-            rowNumber: index + 2,
+            rowNumber,
             orderItemId: orderItem.id,
           };
 
           if (itemWithValidation.isQuantityExceeded) {
             invalidItems.push(itemWithValidation);
             errors.push(
-              `Row ${index + 2}: Delivery quantity (${deliveredQuantity}) exceeds remaining quantity (${remainingQuantity}) for ASIN ${asin}`,
+              `Row ${rowNumber}: Delivery quantity (${deliveredQuantity}) exceeds remaining quantity (${remainingQuantity}) for ASIN ${asin}`,
+            );
+            issues.push(
+              createImportIssue(
+                sheet,
+                rowNumber,
+                `Delivery quantity (${deliveredQuantity}) exceeds remaining quantity (${remainingQuantity}) for ASIN ${asin}`,
+                {
+                  code: 'QUANTITY_EXCEEDS_REMAINING',
+                  field: 'Delivered Quantity',
+                  value: row['Delivered Quantity'],
+                  suggestion: `Enter at most ${remainingQuantity}`,
+                },
+              ),
             );
           } else {
             validItems.push(itemWithValidation);
           }
         } catch (error) {
-          const rowNumber = index + 2;
           const invalidItem = {
             ...row,
             rowNumber,
@@ -520,6 +695,7 @@ export class DeliveriesService {
           };
           invalidItems.push(invalidItem);
           errors.push(`Row ${rowNumber}: ${error.message}`);
+          issues.push(importIssueFromError(sheet, rowNumber, error));
           // console.error(
           //   `Excel validation error at row ${rowNumber}:`,
           //   error.message,
@@ -539,8 +715,20 @@ export class DeliveriesService {
         0,
       );
 
+      // Hold on to the upload until the delivery is saved from this preview
+      const pendingFile = uploadedBy
+        ? await this.fileStorageService.store({
+          buffer: file.buffer,
+          fileName: file.originalname,
+          category: StoredFileCategory.DELIVERY_UPLOAD,
+          createdBy: uploadedBy,
+          pending: true,
+        })
+        : null;
+
       return {
         orderId: order.orderId,
+        ...(pendingFile && { fileId: pendingFile.id }),
         orderInfo: {
           id: order.id,
           orderId: order.orderId,
@@ -564,6 +752,7 @@ export class DeliveriesService {
         totalDeliveryQuantity,
         totalDeliveryValue,
         errors,
+        issues,
         summary: {
           canProceed:
             invalidItems.filter((item) => item.isQuantityExceeded).length === 0,
@@ -588,10 +777,37 @@ export class DeliveriesService {
     }
   }
 
+  /**
+   * Checks a delivery upload against the order like the preview does and
+   * returns a copy of the file with every row issue marked
+   */
+  async annotateDeliveryImport(
+    file: Express.Multer.File,
+    orderId: string,
+    importProfileId?: string,
+    text?: TextImportOptions,
+  ): Promise<Buffer> {
+    const { issues } = await this.previewDeliveryFromExcel(
+      file,
+      orderId,
+      importProfileId,
+      text,
+    );
+
+    return this.importProfilesService.annotateUpload(
+      file,
+      ImportProfileTarget.DELIVERY,
+      issues,
+      importProfileId,
+      { text },
+    );
+  }
+
   async importFromExcel(
     file: Express.Multer.File,
     excelImportDto: ExcelImportDeliveryDto,
     user: User,
+    onProgress?: ImportProgressListener,
   ): Promise<any> {
     if (!file) {
       throw new BadRequestException('No file uploaded');
@@ -610,31 +826,44 @@ export class DeliveriesService {
       throw new NotFoundException('Order not found');
     }
 
-    try {
-      // Parse Excel file
-      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(worksheet);
+    this.validateOrderAcceptsDeliveries(order);
 
-      // Validate required columns are present
-      this.validateExcelColumns(data);
+    try {
+      // Parse Excel file through the selected column mapping
+      onProgress?.('parsing', 0, 0);
+      const sheet = await this.importProfilesService.readSheet<ExcelRowData>(
+        file,
+        ImportProfileTarget.DELIVERY,
+        excelImportDto.importProfileId,
+        { text: excelImportDto },
+      );
+      const { rows: data, rowNumbers } = sheet;
 
-      const errors: string[] = [];
+      const issues: ImportIssue[] = [];
       const validItems: any[] = [];
 
       // Process each row and match with order items
-      data.forEach((row: any, index: number) => {
+      data.forEach((row, index) => {
+        const rowNumber = rowNumbers[index];
         try {
           const deliveryItem = this.validateAndMatchExcelRow(
             row,
-            index + 2,
+            rowNumber,
             order.items,
           );
           validItems.push(deliveryItem);
+
+          const brandNameWarning = this.brandNameMismatchIssue(
+            sheet,
+            row,
+            rowNumber,
+            order.items.find((item) => item.id === deliveryItem.orderItemId)!,
+          );
+          if (brandNameWarning) {
+            issues.push(brandNameWarning);
+          }
         } catch (error) {
-          const rowNumber = index + 2;
-          errors.push(`Row ${rowNumber}: ${error.message}`);
+          issues.push(importIssueFromError(sheet, rowNumber, error));
           // console.error(
           //   `Excel validation error at row ${rowNumber}:`,
           //   error.message,
@@ -642,14 +871,21 @@ export class DeliveriesService {
           //   row,
           // );
         }
+        onProgress?.('validating', index + 1, data.length);
       });
 
+      const errors = issues
+        .filter((issue) => issue.severity === 'error')
+        .map((issue) => formatImportIssue(issue));
+
       if (validItems.length === 0) {
         throw new BadRequestException(
           'No valid delivery items found in Excel file',
         );
       }
 
+      onProgress?.('saving', data.length, data.length);
+
       // Create delivery with valid items
       const createDeliveryDto: CreateDeliveryDto = {
         orderId: excelImportDto.orderId,
@@ -658,7 +894,20 @@ export class DeliveriesService {
         items: validItems,
       };
 
-      const delivery = await this.create(createDeliveryDto, user);
+      // Keep the upload so it can be downloaded from the delivery
+      const storedFile = await this.fileStorageService.store({
+        buffer: file.buffer,
+        fileName: file.originalname,
+        category: StoredFileCategory.DELIVERY_UPLOAD,
+        createdBy: user,
+      });
+
+      const delivery = await this.create(createDeliveryDto, user, storedFile).catch(
+        async (error) => {
+          await this.fileStorageService.remove(storedFile);
+          throw error;
+        },
+      );
 
       // Calculate total revenue
       const totalRevenue = validItems.reduce(
@@ -674,6 +923,7 @@ export class DeliveriesService {
         itemsSkipped: data.length - validItems.length,
         totalRevenue,
         errors,
+        issues,
       };
     } catch (error) {
       if (
@@ -693,6 +943,7 @@ export class DeliveriesService {
     orderId: string,
     deliveryDate: Date,
     user: User,
+    fileId?: string,
   ): Promise<Delivery> {
     // Verify order exists and get its items
     const order = await this.orderRepository.findOne({
@@ -704,6 +955,8 @@ export class DeliveriesService {
       throw new NotFoundException('Order not found');
     }
 
+    this.validateOrderAcceptsDeliveries(order);
+
     // Validate all delivery items against current order state
     const errors: string[] = [];
     const validItems: any[] = [];
@@ -781,8 +1034,20 @@ export class DeliveriesService {
       items: validItems,
     };
 
+    // The file uploaded for the preview, if the client passed it back
+    const storedFile = fileId
+      ? await this.fileStorageService.claim(fileId, StoredFileCategory.DELIVERY_UPLOAD, user)
+      : null;
+
     // console.log('createDeliveryDto', createDeliveryDto);
-    const delivery = await this.create(createDeliveryDto, user);
+    const delivery = await this.create(createDeliveryDto, user, storedFile).catch(
+      async (error) => {
+        if (storedFile) {
+          await this.fileStorageService.remove(storedFile);
+        }
+        throw error;
+      },
+    );
 
     // Calculate total revenue
     const totalRevenue = validItems.reduce(
@@ -793,6 +1058,18 @@ export class DeliveriesService {
     return delivery;
   }
 
+  /**
+   * Validates that deliveries can still be recorded against the order
+   * @throws BadRequestException if the order is cancelled
+   */
+  private validateOrderAcceptsDeliveries(order: Order): void {
+    if (order.status === OrderStatus.CANCELLED) {
+      throw new BadRequestException(
+        `Cannot record deliveries for cancelled order ${order.orderId}`,
+      );
+    }
+  }
+
   private validateStatusTransition(
     currentStatus: DeliveryStatus,
     newStatus: DeliveryStatus,
@@ -807,66 +1084,20 @@ export class DeliveriesService {
         DeliveryStatus.DELIVERED,
         DeliveryStatus.CANCELLED,
       ],
-      [DeliveryStatus.DELIVERED]: [], // Final state - no transitions allowed
+      [DeliveryStatus.DELIVERED]: [], // Final state - only voidDelivery can reverse it
       [DeliveryStatus.CANCELLED]: [], // Final state - no transitions allowed
+      [DeliveryStatus.VOIDED]: [], // Final state - no transitions allowed
     };
 
-    if (!validTransitions[currentStatus].includes(newStatus)) {
+    if (newStatus === DeliveryStatus.VOIDED) {
       throw new BadRequestException(
-        `Invalid status transition from ${currentStatus} to ${newStatus}`,
+        'Deliveries can only be voided through the void operation, which requires a reason',
       );
     }
-  }
-
-  /**
-   * Validates that all required columns are present in the Excel file
-   * @param data - The parsed Excel data (array of row objects)
-   * @throws BadRequestException if required columns are missing
-   */
-  private validateExcelColumns(data: any[]): void {
-    if (!data || data.length === 0) {
-      throw new BadRequestException('Excel file is empty');
-    }
-
-    const requiredColumns = [
-      'ASIN',
-      'Brand Name',
-      'Model Number',
-      'Title',
-      'Delivered Quantity',
-      'Unit Price'
-    ];
-
-    // Get the first row to check column headers
-    const firstRow = data[0];
-    const availableColumns = Object.keys(firstRow);
-
-    // Normalize column names for case-insensitive comparison
-    const normalizedAvailableColumns = availableColumns.map(col => col.toLowerCase().trim());
-    const normalizedRequiredColumns = requiredColumns.map(col => col.toLowerCase().trim());
-
-    // Find missing columns
-    const missingColumns: string[] = [];
-
-    requiredColumns.forEach((requiredCol, index) => {
-      const normalizedRequired = normalizedRequiredColumns[index];
-      const isPresent = normalizedAvailableColumns.some(availableCol =>
-        availableCol === normalizedRequired
-      );
-
-      if (!isPresent) {
-        missingColumns.push(requiredCol);
-      }
-    });
-
-    // If there are missing columns, throw a detailed error
-    if (missingColumns.length > 0) {
-      const missingColumnsText = missingColumns.map(col => `'${col}'`).join(', ');
-      const allRequiredColumnsText = requiredColumns.join(', ');
 
+    if (!validTransitions[currentStatus].includes(newStatus)) {
       throw new BadRequestException(
-        `Missing required columns in Excel file: ${missingColumnsText}. ` +
-        `Please ensure your Excel file contains all required columns: ${allRequiredColumnsText}.`
+        `Invalid status transition from ${currentStatus} to ${newStatus}`,
       );
     }
   }
@@ -888,13 +1119,16 @@ export class DeliveriesService {
     // Check required fields
     for (const field of requiredFields) {
       if (!row[field] && row[field] !== 0) {
-        throw new Error(`Missing required field: ${field}`);
+        throw new ImportRowError(`Missing required field: ${field}`, {
+          code: 'MISSING_VALUE',
+          field,
+          suggestion: `Enter a value for ${field}`,
+        });
       }
     }
 
     // Extract and validate data
     const asin = String(row['ASIN']).trim();
-    const brandName = String(row['Brand Name']).trim();
     const modelNumber = String(row['Model Number']).trim();
     const title = String(row['Title']).trim();
     const deliveredQuantity = Number(row['Delivered Quantity']);
@@ -902,19 +1136,35 @@ export class DeliveriesService {
 
     // Validate model number (13 digits)
     if (!/^\d{13}$/.test(modelNumber)) {
-      throw new Error(
+      throw new ImportRowError(
         `Model number "${modelNumber}" must be exactly 13 digits (numbers only)`,
+        {
+          code: 'INVALID_MODEL_NUMBER',
+          field: 'Model Number',
+          value: row['Model Number'],
+          suggestion: MODEL_NUMBER_SUGGESTION,
+        },
       );
     }
 
     // Validate delivered quantity (allow zero, but not negative)
     if (!Number.isInteger(deliveredQuantity) || deliveredQuantity < 0) {
-      throw new Error('Delivered quantity must be zero or a positive integer');
+      throw new ImportRowError('Delivered quantity must be zero or a positive integer', {
+        code: 'INVALID_QUANTITY',
+        field: 'Delivered Quantity',
+        value: row['Delivered Quantity'],
+        suggestion: 'Enter a whole number of zero or more',
+      });
     }
 
     // Validate unit price
     if (isNaN(unitPrice) || unitPrice < 0) {
-      throw new Error('Unit price must be a valid positive number');
+      throw new ImportRowError('Unit price must be a valid positive number', {
+        code: 'INVALID_PRICE',
+        field: 'Unit Price',
+        value: row['Unit Price'],
+        suggestion: 'Enter a number of zero or more without a currency symbol',
+      });
     }
 
     // Find matching order item by ASIN and model number
@@ -923,24 +1173,31 @@ export class DeliveriesService {
     );
 
     if (!matchingOrderItem) {
-      throw new Error(
+      throw new ImportRowError(
         `No matching order item found for ASIN: ${asin}, Model: ${modelNumber}`,
+        {
+          code: 'NO_MATCHING_ORDER_ITEM',
+          field: 'ASIN',
+          value: row['ASIN'],
+          suggestion: NO_MATCHING_ORDER_ITEM_SUGGESTION,
+        },
       );
     }
 
     // Validate that delivered quantity doesn't exceed remaining quantity
     if (deliveredQuantity > matchingOrderItem.quantityRemaining) {
-      throw new Error(
+      throw new ImportRowError(
         `Delivered quantity (${deliveredQuantity}) exceeds remaining quantity (${matchingOrderItem.quantityRemaining}) for item ${asin}`,
+        {
+          code: 'QUANTITY_EXCEEDS_REMAINING',
+          field: 'Delivered Quantity',
+          value: row['Delivered Quantity'],
+          suggestion: `Enter at most ${matchingOrderItem.quantityRemaining}`,
+        },
       );
     }
 
-    // Validate that brand name and title match (optional warning, but allow)
-    if (matchingOrderItem.brandName !== brandName) {
-      // console.warn(
-      //   `Brand name mismatch for ${asin}: Excel="${brandName}", Order="${matchingOrderItem.brandName}"`,
-      // );
-    }
+    // Brand name mismatches are reported as warnings by the callers
 
     return {
       orderItemId: matchingOrderItem.id,
@@ -949,6 +1206,53 @@ export class DeliveriesService {
     };
   }
 
+  private noMatchingOrderItemIssue(
+    sheet: MappedSheet<ExcelRowData>,
+    row: ExcelRowData,
+    rowNumber: number,
+  ): ImportIssue {
+    return createImportIssue(
+      sheet,
+      rowNumber,
+      `No matching order item found for ASIN: ${String(row['ASIN']).trim()}, Model: ${String(row['Model Number']).trim()}`,
+      {
+        code: 'NO_MATCHING_ORDER_ITEM',
+        field: 'ASIN',
+        value: row['ASIN'],
+        suggestion: NO_MATCHING_ORDER_ITEM_SUGGESTION,
+      },
+    );
+  }
+
+  /**
+   * Warns when a row matched an order line by ASIN and model number but names
+   * a different brand; the row is still imported
+   */
+  private brandNameMismatchIssue(
+    sheet: MappedSheet<ExcelRowData>,
+    row: ExcelRowData,
+    rowNumber: number,
+    orderItem: OrderItem,
+  ): ImportIssue | null {
+    const brandName = String(row['Brand Name'] ?? '').trim();
+    if (!brandName || brandName === orderItem.brandName) {
+      return null;
+    }
+
+    return createImportIssue(
+      sheet,
+      rowNumber,
+      `Brand name "${brandName}" differs from "${orderItem.brandName}" on the order`,
+      {
+        code: 'BRAND_NAME_MISMATCH',
+        field: 'Brand Name',
+        value: row['Brand Name'],
+        suggestion: `Check the row is for the ordered item, or use "${orderItem.brandName}"`,
+      },
+      'warning',
+    );
+  }
+
   private async validateDeliveryItems(
     deliveryItems: any[],
     orderItems: OrderItem[],
@@ -994,11 +1298,77 @@ export class DeliveriesService {
     }
   }
 
+  /**
+   * Void a delivered delivery. The record and its items are kept for history,
+   * while the item triggers give the delivered quantities back to the order.
+   */
+  async voidDelivery(
+    id: string,
+    voidDeliveryDto: VoidDeliveryDto,
+    user: User,
+  ): Promise<Delivery> {
+    const delivery = await this.findOne(id);
+
+    if (delivery.status === DeliveryStatus.VOIDED) {
+      throw new BadRequestException('Delivery is already voided');
+    }
+
+    if (delivery.status !== DeliveryStatus.DELIVERED) {
+      throw new BadRequestException(
+        `Only delivered deliveries can be voided (current status: ${delivery.status})`,
+      );
+    }
+
+    const reason = voidDeliveryDto.reason.trim();
+    if (!reason) {
+      throw new BadRequestException('A reason is required to void a delivery');
+    }
+
+    return await this.dataSource.transaction(async (manager) =>
+      this.quantityAuditService.withContext(
+        manager,
+        {
+          userId: user.id,
+          operation: QuantityAuditOperation.VOID,
+          reason,
+        },
+        async () => {
+          await manager.update(Delivery, id, {
+            status: DeliveryStatus.VOIDED,
+            voidedAt: new Date(),
+            voidedBy: { id: user.id } as User,
+            voidReason: reason,
+          });
+
+          // Triggers restore quantity_remaining for each item flipped to voided
+          await manager.update(
+            DeliveryItem,
+            { delivery: { id }, isVoided: false },
+            { isVoided: true },
+          );
+
+          await this.updateOrderTotalRemaining(manager, delivery.order.id);
+
+          const voidedDelivery = await manager.findOne(Delivery, {
+            where: { id },
+            relations: ['deliveryItems', 'deliveryItems.orderItem', 'order', 'createdBy', 'voidedBy'],
+          });
+
+          if (!voidedDelivery) {
+            throw new NotFoundException('Delivery not found after voiding');
+          }
+
+          return voidedDelivery;
+        },
+      ),
+    );
+  }
+
   /**
    * Recalculate and verify quantity consistency for an order
    * This method can be used to fix any inconsistencies in quantity_remaining
    */
-  async recalculateOrderQuantities(orderId: string): Promise<{
+  async recalculateOrderQuantities(orderId: string, user?: User): Promise<{
     success: boolean;
     message: string;
     corrections: Array<{
@@ -1018,51 +1388,65 @@ export class DeliveriesService {
     }> = [];
 
     // Use transaction to ensure consistency
-    await this.dataSource.transaction(async (manager) => {
-      // Get all order items for this order (only if order is not deleted)
-      const orderItems = await manager.find(OrderItem, {
-        where: {
-          order: {
-            id: orderId,
-            isDeleted: false
-          }
+    await this.dataSource.transaction(async (manager) =>
+      this.quantityAuditService.withContext(
+        manager,
+        {
+          userId: user?.id,
+          operation: QuantityAuditOperation.RECALCULATION,
+          reason: 'Quantity recalculation from delivery items',
         },
-        relations: ['deliveryItems', 'deliveryItems.delivery', 'order'],
-      });
-
-      for (const orderItem of orderItems) {
-        // Calculate total delivered quantity from all delivery items
-        const totalDelivered = orderItem.deliveryItems.reduce(
-          (sum, deliveryItem) => sum + deliveryItem.deliveredQuantity,
-          0,
-        );
-
-        // Calculate what the remaining quantity should be
-        const correctQuantityRemaining = orderItem.quantityRequested - totalDelivered;
-
-        // Check if there's a discrepancy
-        if (orderItem.quantityRemaining !== correctQuantityRemaining) {
-          corrections.push({
-            orderItemId: orderItem.id,
-            asin: orderItem.asin,
-            oldQuantityRemaining: orderItem.quantityRemaining,
-            newQuantityRemaining: correctQuantityRemaining,
-            totalDelivered,
+        async () => {
+          // Get all order items for this order (only if order is not deleted)
+          const orderItems = await manager.find(OrderItem, {
+            where: {
+              order: {
+                id: orderId,
+                isDeleted: false
+              }
+            },
+            relations: ['deliveryItems', 'deliveryItems.delivery', 'order'],
           });
 
-          // Set trigger context to allow direct update
-          await manager.query('SET @TRIGGER_CONTEXT = ?', ['RECALCULATION']);
-
-          // Update the quantity_remaining
-          await manager.update(OrderItem, orderItem.id, {
-            quantityRemaining: correctQuantityRemaining,
-          });
+          for (const orderItem of orderItems) {
+            // Calculate total delivered quantity from all delivery items
+            const totalDelivered = orderItem.deliveryItems
+              .filter((deliveryItem) => !deliveryItem.isVoided)
+              .reduce((sum, deliveryItem) => sum + deliveryItem.deliveredQuantity, 0);
+
+            // Calculate what the remaining quantity should be
+            const correctQuantityRemaining = orderItem.quantityRequested - totalDelivered;
+
+            // Check if there's a discrepancy
+            if (orderItem.quantityRemaining !== correctQuantityRemaining) {
+              corrections.push({
+                orderItemId: orderItem.id,
+                asin: orderItem.asin,
+                oldQuantityRemaining: orderItem.quantityRemaining,
+                newQuantityRemaining: correctQuantityRemaining,
+                totalDelivered,
+              });
+
+              // Set trigger context to allow direct update
+              await manager.query('SET @TRIGGER_CONTEXT = ?', ['RECALCULATION']);
+
+              // Update the quantity_remaining
+              await manager.update(OrderItem, orderItem.id, {
+                quantityRemaining: correctQuantityRemaining,
+              });
+
+              // Clear trigger context
+              await manager.query('SET @TRIGGER_CONTEXT = NULL');
+            }
+          }
 
-          // Clear trigger context
-          await manager.query('SET @TRIGGER_CONTEXT = NULL');
-        }
-      }
-    });
+          // Bring order totals and status in line with the corrected items
+          if (corrections.length > 0) {
+            await this.updateOrderTotalRemaining(manager, orderId);
+          }
+        },
+      ),
+    );
 
     return {
       success: true,
@@ -1074,82 +1458,31 @@ export class DeliveriesService {
   }
 
   /**
-   * Get quantity audit log for debugging
+   * Get quantity audit log entries, newest first
    */
-  async getQuantityAuditLog(orderItemId?: string, limit: number = 100): Promise<any[]> {
-    let query = `
-      SELECT * FROM quantity_audit_log
-      ${orderItemId ? 'WHERE order_item_id = ?' : ''}
-      ORDER BY created_at DESC
-      LIMIT ?
-    `;
-
-    const params = orderItemId ? [orderItemId, limit] : [limit];
-
-    return await this.dataSource.query(query, params);
+  async getQuantityAuditLog(
+    query: GetQuantityAuditLogDto,
+  ): Promise<PaginatedResponse<QuantityAuditLog>> {
+    return this.quantityAuditService.findAll(query);
   }
 
   /**
-   * Generate the next sequential delivery ID with concurrency handling
-   * Format: DEL-XXXXXX where XXXXXX is a 6-digit zero-padded number
+   * Takes the next delivery ID from the delivery sequence, skipping any
+   * that are already in use
    */
-  private async generateNextDeliveryId(): Promise<string> {
-    // Use a transaction to ensure atomicity and handle concurrency
-    return await this.dataSource.transaction(async (manager) => {
-      // Get the highest existing delivery ID number
-      const result = await manager.query(`
-        SELECT delivery_id
-        FROM deliveries
-        WHERE delivery_id REGEXP '^DEL-[0-9]{6}$'
-        ORDER BY CAST(SUBSTRING(delivery_id, 5) AS UNSIGNED) DESC
-        LIMIT 1
-      `);
-
-      let nextNumber = 1;
-
-      if (result.length > 0) {
-        const lastDeliveryId = result[0].delivery_id;
-        const lastNumber = parseInt(lastDeliveryId.substring(4), 10);
-        nextNumber = lastNumber + 1;
-      }
-
-      // Format as DEL-XXXXXX with 6-digit zero padding
-      const deliveryId = `DEL-${nextNumber.toString().padStart(6, '0')}`;
-
-      // Verify uniqueness (additional safety check)
-      const existingCount = await manager.count(Delivery, {
+  private async generateNextDeliveryId(maxRetries: number = 5): Promise<string> {
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const deliveryId = await this.sequencesService.next('delivery');
+      const existingCount = await this.deliveryRepository.count({
         where: { deliveryId },
       });
 
-      if (existingCount > 0) {
-        // If somehow the ID already exists, recursively try the next one
-        // This handles edge cases in high-concurrency scenarios
-        throw new Error(`Delivery ID ${deliveryId} already exists. Retrying...`);
-      }
-
-      return deliveryId;
-    });
-  }
-
-  /**
-   * Generate delivery ID with retry logic to handle high concurrency scenarios
-   */
-  private async generateNextDeliveryIdWithRetry(maxRetries: number = 5): Promise<string> {
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await this.generateNextDeliveryId();
-      } catch (error) {
-        if (attempt === maxRetries) {
-          throw new Error(`Failed to generate unique delivery ID after ${maxRetries} attempts: ${error.message}`);
-        }
-
-        // Wait a small random amount before retrying to reduce collision probability
-        const delay = Math.random() * 100 + 50; // 50-150ms
-        await new Promise(resolve => setTimeout(resolve, delay));
+      if (existingCount === 0) {
+        return deliveryId;
       }
     }
 
-    throw new Error('Unexpected error in delivery ID generation');
+    throw new Error(`Failed to generate unique delivery ID after ${maxRetries} attempts`);
   }
 
   /**
@@ -1191,7 +1524,7 @@ export class DeliveriesService {
       FROM delivery_items di
       INNER JOIN order_items oi ON di.order_item_id = oi.id
       INNER JOIN orders o ON oi.order_id = o.id
-      WHERE o.id = ? AND o.is_deleted = 0
+      WHERE o.id = ? AND o.is_deleted = 0 AND di.is_voided = 0
     `, [orderId]);
 
     const totalDelivered = parseInt(deliveryItemsResult[0]?.totalDelivered || '0', 10);
@@ -1204,6 +1537,9 @@ export class DeliveriesService {
         deliveredQuantity: totalDelivered
       }
     );
+
+    // Move the order through its lifecycle based on the new totals
+    await this.orderStatusService.syncStatus(manager, orderId);
   }
 
   private createQueryBuilder(): SelectQueryBuilder<Delivery> {
@@ -1211,6 +1547,7 @@ export class DeliveriesService {
       .createQueryBuilder('delivery')
       .leftJoinAndSelect('delivery.order', 'order')
       .leftJoinAndSelect('delivery.createdBy', 'createdBy')
+      .leftJoinAndSelect('delivery.voidedBy', 'voidedBy')
       .leftJoinAndSelect('delivery.deliveryItems', 'deliveryItems')
       .leftJoinAndSelect('deliveryItems.orderItem', 'orderItem')
       .where('order.is_deleted = :isDeleted', { isDeleted: false })
@@ -0,0 +1,103 @@
+import { NotFoundException } from '@nestjs/common';
+import { DeliveryNoteService } from './delivery-note.service';
+import { DeliveriesService } from './deliveries.service';
+import { Delivery, DeliveryStatus } from './entities/delivery.entity';
+import { encodeCode128 } from './code128';
+
+describe('DeliveryNoteService', () => {
+  let service: DeliveryNoteService;
+
+  const mockDeliveriesService = {
+    findOne: jest.fn(),
+  };
+
+  const deliveryItem = (index: number) => ({
+    id: `delivery-item-${index}`,
+    deliveredQuantity: 2,
+    unitPrice: '12.50',
+    totalAmount: '25.00',
+    orderItem: {
+      asin: `B00000000${index % 10}`,
+      modelNumber: `12345678901${index % 10}`,
+      title: `Widget ${index}`,
+    },
+  });
+
+  const delivery = (itemCount: number, status = DeliveryStatus.DELIVERED) =>
+    ({
+      id: 'delivery-1',
+      deliveryId: 'DEL-000001',
+      deliveryDate: new Date('2025-02-03'),
+      status,
+      voidReason: status === DeliveryStatus.VOIDED ? 'Wrong order' : undefined,
+      order: { orderId: 'ORD-2025-000001' },
+      deliveryItems: Array.from({ length: itemCount }, (_, index) => deliveryItem(index)),
+    }) as unknown as Delivery;
+
+  const pageCount = (buffer: Buffer) =>
+    (buffer.toString('latin1').match(/\/Type \/Page\b/g) ?? []).length;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DeliveryNoteService(mockDeliveriesService as unknown as DeliveriesService);
+  });
+
+  describe('generate', () => {
+    it('should render a PDF named after the delivery', async () => {
+      mockDeliveriesService.findOne.mockResolvedValue(delivery(3));
+
+      const note = await service.generate('delivery-1');
+
+      expect(mockDeliveriesService.findOne).toHaveBeenCalledWith('delivery-1');
+      expect(note.fileName).toBe('delivery-note_DEL-000001.pdf');
+      expect(note.buffer.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(pageCount(note.buffer)).toBe(1);
+    });
+
+    it('should continue long deliveries on further pages', async () => {
+      mockDeliveriesService.findOne.mockResolvedValue(delivery(80));
+
+      const note = await service.generate('delivery-1');
+
+      expect(pageCount(note.buffer)).toBeGreaterThan(1);
+    });
+
+    it('should render voided deliveries', async () => {
+      mockDeliveriesService.findOne.mockResolvedValue(delivery(1, DeliveryStatus.VOIDED));
+
+      const note = await service.generate('delivery-1');
+
+      expect(note.buffer.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should pass on a missing delivery', async () => {
+      mockDeliveriesService.findOne.mockRejectedValue(new NotFoundException());
+
+      await expect(service.generate('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('encodeCode128', () => {
+    it('should wrap the text in start, check and stop symbols', () => {
+      // Start B, "A" (33), check (104 + 33) % 103 = 34, stop
+      expect(encodeCode128('A')).toEqual([
+        ...[2, 1, 1, 2, 1, 4],
+        ...[1, 1, 1, 3, 2, 3],
+        ...[1, 3, 1, 1, 2, 3],
+        ...[2, 3, 3, 1, 1, 1, 2],
+      ]);
+    });
+
+    it('should use 11 modules per symbol and 13 for the stop symbol', () => {
+      const modules = encodeCode128('DEL-000001');
+      const width = modules.reduce((sum, module) => sum + module, 0);
+
+      // Start, ten characters and the check symbol, then the stop symbol
+      expect(width).toBe(12 * 11 + 13);
+    });
+
+    it('should reject characters outside code set B', () => {
+      expect(() => encodeCode128('DEL\n1')).toThrow('cannot be encoded');
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { Injectable } from '@nestjs/common';
+import * as PDFDocument from 'pdfkit';
+import { DeliveriesService } from './deliveries.service';
+import { Delivery, DeliveryStatus } from './entities/delivery.entity';
+import { encodeCode128 } from './code128';
+
+interface NoteColumn {
+  header: string;
+  width: number;
+  align: 'left' | 'right';
+}
+
+const PAGE_MARGIN = 50;
+const BARCODE_MODULE_WIDTH = 1.2;
+const BARCODE_HEIGHT = 40;
+const SIGNATURE_BLOCK_HEIGHT = 110;
+const SIGNATURE_BOXES = ['Packed by', 'Delivered by', 'Received by'];
+
+// Widths add up to the printable width of an A4 page (595pt less both margins)
+const NOTE_COLUMNS: NoteColumn[] = [
+  { header: '#', width: 25, align: 'right' },
+  { header: 'ASIN', width: 75, align: 'left' },
+  { header: 'Model Number', width: 85, align: 'left' },
+  { header: 'Title', width: 160, align: 'left' },
+  { header: 'Qty', width: 40, align: 'right' },
+  { header: 'Unit Price', width: 55, align: 'right' },
+  { header: 'Total', width: 55, align: 'right' },
+];
+
+/**
+ * Printable delivery notes for the warehouse, rendered with the standard PDF
+ * fonts so no font files or external services are needed
+ */
+@Injectable()
+export class DeliveryNoteService {
+  constructor(private deliveriesService: DeliveriesService) { }
+
+  async generate(id: string): Promise<{ fileName: string; buffer: Buffer }> {
+    const delivery = await this.deliveriesService.findOne(id);
+
+    return {
+      fileName: `delivery-note_${delivery.deliveryId}.pdf`,
+      buffer: await this.render(delivery),
+    };
+  }
+
+  private render(delivery: Delivery): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Delivery Note ${delivery.deliveryId}`,
+        Subject: `Order ${delivery.order.orderId}`,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.drawHeader(doc, delivery);
+    this.drawItems(doc, delivery);
+    this.drawSignatureBoxes(doc);
+    this.drawPageNumbers(doc, delivery);
+    doc.end();
+
+    return finished;
+  }
+
+  private drawHeader(doc: PDFKit.PDFDocument, delivery: Delivery): void {
+    const top = PAGE_MARGIN;
+
+    doc.font('Helvetica-Bold').fontSize(22).text('Delivery Note', PAGE_MARGIN, top);
+
+    const barcodeWidth = this.drawBarcode(
+      doc,
+      delivery.deliveryId,
+      doc.page.width - PAGE_MARGIN,
+      top,
+    );
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .text(delivery.deliveryId, doc.page.width - PAGE_MARGIN - barcodeWidth, top + BARCODE_HEIGHT + 4, {
+        width: barcodeWidth,
+        align: 'center',
+      });
+
+    const details: [string, string][] = [
+      ['Delivery ID', delivery.deliveryId],
+      ['Delivery Date', this.formatDate(delivery.deliveryDate)],
+      ['Order Reference', delivery.order.orderId],
+      ['Status', delivery.status],
+    ];
+    let y = top + 40;
+    details.forEach(([label, value]) => {
+      doc.font('Helvetica-Bold').fontSize(10).text(`${label}:`, PAGE_MARGIN, y, { width: 100 });
+      doc.font('Helvetica').text(value, PAGE_MARGIN + 100, y, { width: 200 });
+      y += 15;
+    });
+
+    if (delivery.status === DeliveryStatus.VOIDED) {
+      y += 5;
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(12)
+        .fillColor('#b00020')
+        .text(
+          `VOIDED${delivery.voidReason ? ` - ${delivery.voidReason}` : ''}`,
+          PAGE_MARGIN,
+          y,
+          { width: doc.page.width - 2 * PAGE_MARGIN },
+        )
+        .fillColor('black');
+      y = doc.y;
+    }
+
+    doc.y = y + 20;
+  }
+
+  /**
+   * Draws the barcode with its right edge at `right` and returns its width
+   */
+  private drawBarcode(
+    doc: PDFKit.PDFDocument,
+    text: string,
+    right: number,
+    top: number,
+  ): number {
+    const modules = encodeCode128(text);
+    const width = modules.reduce((sum, module) => sum + module, 0) * BARCODE_MODULE_WIDTH;
+
+    let x = right - width;
+    modules.forEach((module, index) => {
+      const moduleWidth = module * BARCODE_MODULE_WIDTH;
+      // Even positions are bars, odd positions are spaces
+      if (index % 2 === 0) {
+        doc.rect(x, top, moduleWidth, BARCODE_HEIGHT).fill('black');
+      }
+      x += moduleWidth;
+    });
+
+    return width;
+  }
+
+  private drawItems(doc: PDFKit.PDFDocument, delivery: Delivery): void {
+    const bottom = doc.page.height - PAGE_MARGIN;
+
+    this.drawTableHeader(doc);
+
+    let totalQuantity = 0;
+    let totalAmount = 0;
+    delivery.deliveryItems.forEach((item, index) => {
+      const unitPrice = Number(item.unitPrice);
+      const amount = Number(item.totalAmount ?? item.deliveredQuantity * unitPrice);
+      totalQuantity += item.deliveredQuantity;
+      totalAmount += amount;
+
+      const cells = [
+        String(index + 1),
+        item.orderItem.asin,
+        item.orderItem.modelNumber,
+        item.orderItem.title,
+        String(item.deliveredQuantity),
+        this.formatMoney(unitPrice),
+        this.formatMoney(amount),
+      ];
+
+      doc.font('Helvetica').fontSize(9);
+      const rowHeight =
+        Math.max(
+          ...cells.map((cell, column) =>
+            doc.heightOfString(cell, { width: NOTE_COLUMNS[column].width - 6 }),
+          ),
+        ) + 6;
+
+      if (doc.y + rowHeight > bottom) {
+        doc.addPage();
+        this.drawTableHeader(doc);
+      }
+
+      this.drawRow(doc, cells, rowHeight);
+    });
+
+    if (doc.y + 40 > bottom) {
+      doc.addPage();
+    }
+
+    doc.font('Helvetica-Bold').fontSize(10);
+    const totalsY = doc.y + 6;
+    const quantityX = PAGE_MARGIN + NOTE_COLUMNS.slice(0, 4).reduce((sum, column) => sum + column.width, 0);
+    doc.text('Total', PAGE_MARGIN, totalsY, { width: quantityX - PAGE_MARGIN - 3, align: 'right' });
+    doc.text(String(totalQuantity), quantityX, totalsY, { width: NOTE_COLUMNS[4].width - 3, align: 'right' });
+    doc.text(
+      this.formatMoney(totalAmount),
+      doc.page.width - PAGE_MARGIN - NOTE_COLUMNS[6].width,
+      totalsY,
+      { width: NOTE_COLUMNS[6].width - 3, align: 'right' },
+    );
+    doc.text(`${delivery.deliveryItems.length} line(s)`, PAGE_MARGIN, totalsY + 16);
+    doc.y = totalsY + 40;
+  }
+
+  private drawTableHeader(doc: PDFKit.PDFDocument): void {
+    doc.font('Helvetica-Bold').fontSize(9);
+    this.drawRow(
+      doc,
+      NOTE_COLUMNS.map((column) => column.header),
+      18,
+      '#eeeeee',
+    );
+  }
+
+  private drawRow(
+    doc: PDFKit.PDFDocument,
+    cells: string[],
+    height: number,
+    background?: string,
+  ): void {
+    const top = doc.y;
+    const width = doc.page.width - 2 * PAGE_MARGIN;
+
+    if (background) {
+      doc.rect(PAGE_MARGIN, top, width, height).fill(background).fillColor('black');
+    }
+
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, column) => {
+      doc.text(cell, x + 3, top + 3, {
+        width: NOTE_COLUMNS[column].width - 6,
+        align: NOTE_COLUMNS[column].align,
+      });
+      x += NOTE_COLUMNS[column].width;
+    });
+
+    doc
+      .moveTo(PAGE_MARGIN, top + height)
+      .lineTo(PAGE_MARGIN + width, top + height)
+      .lineWidth(0.5)
+      .strokeColor('#999999')
+      .stroke();
+    doc.y = top + height;
+  }
+
+  private drawSignatureBoxes(doc: PDFKit.PDFDocument): void {
+    if (doc.y + SIGNATURE_BLOCK_HEIGHT > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    }
+
+    const top = doc.y;
+    const gap = 15;
+    const boxWidth =
+      (doc.page.width - 2 * PAGE_MARGIN - gap * (SIGNATURE_BOXES.length - 1)) /
+      SIGNATURE_BOXES.length;
+
+    SIGNATURE_BOXES.forEach((label, index) => {
+      const x = PAGE_MARGIN + index * (boxWidth + gap);
+      doc.rect(x, top, boxWidth, SIGNATURE_BLOCK_HEIGHT).lineWidth(0.8).strokeColor('black').stroke();
+      doc.font('Helvetica-Bold').fontSize(10).text(label, x + 8, top + 8, { width: boxWidth - 16 });
+      doc.font('Helvetica').fontSize(8);
+      ['Name', 'Signature', 'Date'].forEach((field, line) => {
+        const y = top + 38 + line * 24;
+        doc.text(field, x + 8, y - 10, { width: boxWidth - 16 });
+        doc
+          .moveTo(x + 8, y + 8)
+          .lineTo(x + boxWidth - 8, y + 8)
+          .lineWidth(0.5)
+          .stroke();
+      });
+    });
+
+    doc.y = top + SIGNATURE_BLOCK_HEIGHT;
+  }
+
+  private drawPageNumbers(doc: PDFKit.PDFDocument, delivery: Delivery): void {
+    const { start, count } = doc.bufferedPageRange();
+
+    for (let page = start; page < start + count; page++) {
+      doc.switchToPage(page);
+      // Writing below the bottom margin would otherwise start a new page
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor('#666666')
+        .text(
+          `${delivery.deliveryId} - Order ${delivery.order.orderId} - Page ${page - start + 1} of ${count}`,
+          PAGE_MARGIN,
+          doc.page.height - PAGE_MARGIN + 15,
+          { width: doc.page.width - 2 * PAGE_MARGIN, align: 'center' },
+        )
+        .fillColor('black');
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  private formatMoney(value: number): string {
+    return value.toFixed(2);
+  }
+
+  private formatDate(value: Date | string): string {
+    return value instanceof Date ? value.toISOString().split('T')[0] : String(value);
+  }
+}
@@ -63,6 +63,13 @@ export class DeliveryItemResponseDto {
   @Expose()
   totalAmount: number;
 
+  @ApiProperty({
+    example: false,
+    description: 'Whether this item belongs to a voided delivery',
+  })
+  @Expose()
+  isVoided: boolean;
+
   @ApiProperty({
     example: '2024-01-25',
     description: 'Delivery date for this item',
@@ -156,6 +163,44 @@ export class DeliveryResponseDto {
   @Type(() => UserSummaryDto)
   createdBy: UserSummaryDto;
 
+  @ApiProperty({
+    example: '2024-01-26T09:15:00Z',
+    description: 'When the delivery was voided',
+    nullable: true,
+    required: false,
+  })
+  @Expose()
+  voidedAt: Date | null;
+
+  @ApiProperty({
+    type: UserSummaryDto,
+    description: 'User who voided the delivery',
+    nullable: true,
+    required: false,
+  })
+  @Expose()
+  @Type(() => UserSummaryDto)
+  voidedBy: UserSummaryDto | null;
+
+  @ApiProperty({
+    example: 'Recorded against the wrong order',
+    description: 'Reason given when the delivery was voided',
+    nullable: true,
+    required: false,
+  })
+  @Expose()
+  voidReason: string | null;
+
+  @ApiProperty({
+    example: 'delivery_2024-01-25.xlsx',
+    description: 'Name of the file the delivery was imported from, downloadable from /deliveries/:id/download',
+    nullable: true,
+    required: false,
+  })
+  @Expose()
+  @Transform(({ obj }) => obj.file?.originalName ?? null)
+  fileName: string | null;
+
   @ApiProperty({
     type: [DeliveryItemResponseDto],
     description: 'Delivery items',
@@ -177,6 +222,13 @@ export class DeliveryResponseDto {
   })
   @Expose()
   updatedAt: Date;
+
+  @ApiProperty({
+    example: 3,
+    description: 'Version of the delivery, also sent as its ETag for If-Match on updates',
+  })
+  @Expose()
+  version: number;
 }
 
 export class PaginatedDeliveryResponseDto {
@@ -8,8 +8,10 @@ import {
 import { Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { DeliveryStatus } from '../entities/delivery.entity';
+import { TextImportOptionsDto } from '../../imports/dto/text-import-options.dto';
+import { ImportIssue } from '../../imports/interfaces/import-issue.interface';
 
-export class ExcelImportDeliveryDto {
+export class ExcelImportDeliveryDto extends TextImportOptionsDto {
   @ApiProperty({
     example: 'uuid-order-id',
     description: 'Order ID to create delivery for (required)',
@@ -34,6 +36,16 @@ export class ExcelImportDeliveryDto {
   @IsOptional()
   @IsEnum(DeliveryStatus)
   status?: DeliveryStatus;
+
+  @ApiProperty({
+    example: 'uuid-import-profile-id',
+    description:
+      'Import profile mapping the sheet columns (standard column names if not provided)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  importProfileId?: string;
 }
 
 export class ExcelImportDeliveryResponseDto {
@@ -58,8 +70,21 @@ export class ExcelImportDeliveryResponseDto {
       itemsSkipped: 0,
       totalRevenue: 7499.75,
       errors: [],
+      issues: [
+        {
+          row: 7,
+          column: 'B',
+          field: 'Brand Name',
+          code: 'BRAND_NAME_MISMATCH',
+          value: 'Sony Europe',
+          severity: 'warning',
+          message: 'Brand name "Sony Europe" differs from "Sony" on the order',
+          suggestion: 'Check the row is for the ordered item, or use "Sony"',
+        },
+      ],
     },
-    description: 'Import details',
+    description:
+      'Import details. `issues` holds every row problem, including warnings, with its cell and a suggestion.',
   })
   data: {
     deliveryId: string;
@@ -69,5 +94,6 @@ export class ExcelImportDeliveryResponseDto {
     itemsSkipped: number;
     totalRevenue: number;
     errors: string[];
+    issues: ImportIssue[];
   };
 }
@@ -0,0 +1,14 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VoidDeliveryDto {
+  @ApiProperty({
+    example: 'Recorded against the wrong order',
+    description: 'Why the delivery is being voided',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -37,6 +37,14 @@ export class DeliveryItem {
   @Index('IDX_DELIVERY_ITEM_DELIVERY_DATE')
   deliveryDate: Date;
 
+  @Column({
+    name: 'is_voided',
+    type: 'boolean',
+    default: false,
+    comment: 'Voided items keep their row but no longer count against order quantities',
+  })
+  isVoided: boolean;
+
   @ManyToOne(() => Delivery, (delivery) => delivery.deliveryItems, {
     onDelete: 'CASCADE',
   })
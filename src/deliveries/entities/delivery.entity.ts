@@ -4,6 +4,7 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  VersionColumn,
   ManyToOne,
   OneToMany,
   JoinColumn,
@@ -12,12 +13,14 @@ import {
 import { Order } from '../../orders/entities/order.entity';
 import { User } from '../../users/entities/user.entity';
 import { DeliveryItem } from './delivery-item.entity';
+import { StoredFile } from '../../storage/entities/stored-file.entity';
 
 export enum DeliveryStatus {
   PENDING = 'pending',
   IN_TRANSIT = 'in-transit',
   DELIVERED = 'delivered',
   CANCELLED = 'cancelled',
+  VOIDED = 'voided',
 }
 
 @Entity('deliveries')
@@ -57,6 +60,22 @@ export class Delivery {
   @Index('IDX_DELIVERY_CREATED_BY')
   createdBy: User;
 
+  @Column({ name: 'voided_at', type: 'timestamp', nullable: true })
+  voidedAt: Date | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'voided_by' })
+  @Index('IDX_DELIVERY_VOIDED_BY')
+  voidedBy: User | null;
+
+  @Column({ name: 'void_reason', type: 'varchar', length: 500, nullable: true })
+  voidReason: string | null;
+
+  /** Upload the delivery was imported from */
+  @ManyToOne(() => StoredFile, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'file_id' })
+  file: StoredFile | null;
+
   @OneToMany(() => DeliveryItem, (deliveryItem) => deliveryItem.delivery, {
     cascade: true,
   })
@@ -67,4 +86,8 @@ export class Delivery {
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  // Bumped on every write to the delivery; served as its ETag
+  @VersionColumn({ name: 'version', default: 1 })
+  version: number;
 }
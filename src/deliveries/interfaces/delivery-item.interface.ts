@@ -1,3 +1,5 @@
+import { ImportIssue } from '../../imports/interfaces/import-issue.interface';
+
 export interface DeliveryItemData {
   asin: string;
   brandName: string;
@@ -24,6 +26,8 @@ export interface ExcelRowData {
 
 export interface DeliveryPreviewResult {
   orderId: string;
+  /** Pending upload to pass back when saving the delivery from this preview */
+  fileId?: string;
   orderInfo: {
     id: string;
     orderId: string;
@@ -44,6 +48,7 @@ export interface DeliveryPreviewResult {
   totalDeliveryQuantity: number;
   totalDeliveryValue: number;
   errors: string[];
+  issues: ImportIssue[];
   summary: {
     canProceed: boolean;
     quantityErrorsCount: number;
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum IdempotencyKeyStatus {
+  IN_PROGRESS = 'in-progress',
+  COMPLETED = 'completed',
+}
+
+/**
+ * An `Idempotency-Key` sent by a user, with the request it was first used for
+ * and, once that request succeeded, the response to replay for retries
+ */
+@Entity('idempotency_keys')
+@Index('UQ_IDEMPOTENCY_KEY_USER', ['user', 'key'], { unique: true })
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'idempotency_key', type: 'varchar', length: 255 })
+  key: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'request_hash', type: 'char', length: 64 })
+  requestHash: string;
+
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: IdempotencyKeyStatus,
+    default: IdempotencyKeyStatus.IN_PROGRESS,
+  })
+  status: IdempotencyKeyStatus;
+
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ name: 'response_body', type: 'json', nullable: true })
+  responseBody: object | null;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  @Index('IDX_IDEMPOTENCY_KEY_EXPIRES_AT')
+  expiresAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,133 @@
+import { BadRequestException, CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKey, IdempotencyKeyStatus } from './entities/idempotency-key.entity';
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+
+  const mockIdempotencyService = {
+    reserve: jest.fn(),
+    complete: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const user = { id: 'user-1' };
+
+  const request = (headers: Record<string, string>, body: unknown = { orderId: 'order-1' }) => ({
+    method: 'POST',
+    originalUrl: '/deliveries/save',
+    body,
+    user,
+    header: (name: string) => headers[name.toLowerCase()],
+  });
+
+  const response = () => ({
+    statusCode: 201,
+    status: jest.fn(),
+    setHeader: jest.fn(),
+  });
+
+  const context = (req: object, res: object) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => req,
+        getResponse: () => res,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const handler = (result = of({ success: true })) =>
+    ({ handle: jest.fn(() => result) }) as CallHandler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    interceptor = new IdempotencyInterceptor(
+      mockIdempotencyService as unknown as IdempotencyService,
+    );
+  });
+
+  it('should pass requests without a key straight through', async () => {
+    const next = handler();
+
+    const result = await interceptor.intercept(context(request({}), response()), next);
+
+    await expect(lastValueFrom(result)).resolves.toEqual({ success: true });
+    expect(mockIdempotencyService.reserve).not.toHaveBeenCalled();
+  });
+
+  it('should store the response of the first request', async () => {
+    const taken = { id: 'record-1', status: IdempotencyKeyStatus.IN_PROGRESS } as IdempotencyKey;
+    mockIdempotencyService.reserve.mockResolvedValue(taken);
+
+    const result = await interceptor.intercept(
+      context(request({ 'idempotency-key': 'key-1' }), response()),
+      handler(),
+    );
+
+    await expect(lastValueFrom(result)).resolves.toEqual({ success: true });
+    expect(mockIdempotencyService.reserve).toHaveBeenCalledWith(
+      'key-1',
+      user,
+      expect.stringMatching(/^[0-9a-f]{64}$/),
+    );
+    expect(mockIdempotencyService.complete).toHaveBeenCalledWith(taken, 201, { success: true });
+  });
+
+  it('should replay the stored response without running the handler', async () => {
+    mockIdempotencyService.reserve.mockResolvedValue({
+      id: 'record-1',
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseStatus: 201,
+      responseBody: { success: true, data: { id: 'delivery-1' } },
+    });
+    const res = response();
+    const next = handler();
+
+    const result = await interceptor.intercept(
+      context(request({ 'idempotency-key': 'key-1' }), res),
+      next,
+    );
+
+    await expect(lastValueFrom(result)).resolves.toEqual({ success: true, data: { id: 'delivery-1' } });
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('should free the key when the request fails', async () => {
+    const taken = { id: 'record-1', status: IdempotencyKeyStatus.IN_PROGRESS } as IdempotencyKey;
+    mockIdempotencyService.reserve.mockResolvedValue(taken);
+
+    const result = await interceptor.intercept(
+      context(request({ 'idempotency-key': 'key-1' }), response()),
+      handler(throwError(() => new BadRequestException('No valid delivery items to save'))),
+    );
+
+    await expect(lastValueFrom(result)).rejects.toThrow('No valid delivery items to save');
+    expect(mockIdempotencyService.release).toHaveBeenCalledWith(taken);
+    expect(mockIdempotencyService.complete).not.toHaveBeenCalled();
+  });
+
+  it('should hash different payloads differently', async () => {
+    mockIdempotencyService.reserve.mockResolvedValue({ status: IdempotencyKeyStatus.IN_PROGRESS });
+
+    await interceptor.intercept(
+      context(request({ 'idempotency-key': 'key-1' }, { orderId: 'order-1' }), response()),
+      handler(),
+    );
+    await interceptor.intercept(
+      context(request({ 'idempotency-key': 'key-1' }, { orderId: 'order-2' }), response()),
+      handler(),
+    );
+
+    const [[, , first], [, , second]] = mockIdempotencyService.reserve.mock.calls as [string, unknown, string][];
+    expect(first).not.toBe(second);
+  });
+
+  it('should reject blank keys', async () => {
+    await expect(
+      interceptor.intercept(context(request({ 'idempotency-key': ' ' }), response()), handler()),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
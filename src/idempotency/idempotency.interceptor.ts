@@ -0,0 +1,89 @@
+import {
+  Injectable,
+  Logger,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  BadRequestException,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable, of } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { createHash } from 'crypto';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKeyStatus } from './entities/idempotency-key.entity';
+import { User } from '../users/entities/user.entity';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Hash of what makes two requests the same: route, body and uploaded file
+ */
+function requestHash(req: Request & { file?: Express.Multer.File }): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        method: req.method,
+        url: req.originalUrl,
+        body: (req.body as unknown) ?? null,
+        file: req.file
+          ? {
+            name: req.file.originalname,
+            sha256: createHash('sha256').update(req.file.buffer).digest('hex'),
+          }
+          : null,
+      }),
+    )
+    .digest('hex');
+}
+
+/**
+ * Replays the stored response when a request is retried with the same
+ * `Idempotency-Key`. Requests without the header are handled as usual.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(private readonly idempotencyService: IdempotencyService) { }
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const req = context.switchToHttp().getRequest<Request & { user: User }>();
+    const res = context.switchToHttp().getResponse<Response>();
+    const key = req.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    if (key.trim().length === 0 || key.length > 255) {
+      throw new BadRequestException(`${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 characters`);
+    }
+
+    const record = await this.idempotencyService.reserve(key, req.user, requestHash(req));
+
+    if (record.status === IdempotencyKeyStatus.COMPLETED) {
+      res.status(record.responseStatus ?? 200);
+      res.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return of(record.responseBody);
+    }
+
+    return next.handle().pipe(
+      catchError(async (error) => {
+        await this.idempotencyService.release(record);
+        throw error;
+      }),
+      mergeMap(async (body: unknown) => {
+        try {
+          await this.idempotencyService.complete(record, res.statusCode, body);
+        } catch (error) {
+          // The request itself succeeded, so answer it. The key stays taken
+          // until it expires, so a retry cannot run the request twice.
+          this.logger.error(`Storing the response for an idempotency key failed: ${error.message}`);
+        }
+        return body;
+      }),
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { ConflictException, UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKey, IdempotencyKeyStatus } from './entities/idempotency-key.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+
+  const user = { id: 'user-1' } as User;
+
+  const mockIdempotencyKeyRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<IdempotencyKey>) => data),
+    save: jest.fn((data: Partial<IdempotencyKey>) => Promise.resolve({ ...data, id: 'record-1' })),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  const record = (overrides: Partial<IdempotencyKey> = {}) =>
+    ({
+      id: 'record-1',
+      key: 'key-1',
+      requestHash: 'hash-1',
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseStatus: 201,
+      responseBody: { success: true },
+      expiresAt: new Date(Date.now() + 60000),
+      ...overrides,
+    }) as IdempotencyKey;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new IdempotencyService(
+      mockIdempotencyKeyRepository as unknown as Repository<IdempotencyKey>,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  describe('reserve', () => {
+    it('should take a new key for the configured window', async () => {
+      mockIdempotencyKeyRepository.findOne.mockResolvedValue(null);
+
+      const taken = await service.reserve('key-1', user, 'hash-1');
+
+      expect(mockIdempotencyKeyRepository.findOne).toHaveBeenCalledWith({
+        where: { key: 'key-1', user: { id: 'user-1' } },
+      });
+      expect(taken).toEqual(expect.objectContaining({
+        key: 'key-1',
+        user: { id: 'user-1' },
+        requestHash: 'hash-1',
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+      }));
+      expect(taken.expiresAt.getTime() - Date.now()).toBeGreaterThan(23 * 60 * 60 * 1000);
+    });
+
+    it('should return the completed record for the same request', async () => {
+      const completed = record();
+      mockIdempotencyKeyRepository.findOne.mockResolvedValue(completed);
+
+      await expect(service.reserve('key-1', user, 'hash-1')).resolves.toBe(completed);
+      expect(mockIdempotencyKeyRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject the key for a different request', async () => {
+      mockIdempotencyKeyRepository.findOne.mockResolvedValue(record());
+
+      await expect(service.reserve('key-1', user, 'hash-2')).rejects.toThrow(
+        UnprocessableEntityException,
+      );
+    });
+
+    it('should reject the key while its first request is still running', async () => {
+      mockIdempotencyKeyRepository.findOne.mockResolvedValue(
+        record({ status: IdempotencyKeyStatus.IN_PROGRESS, responseStatus: null, responseBody: null }),
+      );
+
+      await expect(service.reserve('key-1', user, 'hash-1')).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject the key when a concurrent request took it first', async () => {
+      mockIdempotencyKeyRepository.findOne.mockResolvedValue(null);
+      mockIdempotencyKeyRepository.save.mockRejectedValueOnce(
+        Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' }),
+      );
+
+      await expect(service.reserve('key-1', user, 'hash-1')).rejects.toThrow(ConflictException);
+    });
+
+    it('should take an expired key again, even for a different request', async () => {
+      mockIdempotencyKeyRepository.findOne.mockResolvedValue(
+        record({ expiresAt: new Date(Date.now() - 60000) }),
+      );
+
+      const taken = await service.reserve('key-1', user, 'hash-2');
+
+      expect(mockIdempotencyKeyRepository.delete).toHaveBeenCalledWith('record-1');
+      expect(taken.status).toBe(IdempotencyKeyStatus.IN_PROGRESS);
+      expect(taken.requestHash).toBe('hash-2');
+    });
+  });
+
+  describe('complete', () => {
+    it('should store the response as plain JSON', async () => {
+      const createdAt = new Date('2025-02-03T10:00:00Z');
+
+      await service.complete(record(), 201, { success: true, data: { createdAt } });
+
+      expect(mockIdempotencyKeyRepository.update).toHaveBeenCalledWith('record-1', {
+        status: IdempotencyKeyStatus.COMPLETED,
+        responseStatus: 201,
+        responseBody: { success: true, data: { createdAt: '2025-02-03T10:00:00.000Z' } },
+      });
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should remove expired keys', async () => {
+      mockIdempotencyKeyRepository.delete.mockResolvedValue({ affected: 3 });
+
+      await expect(service.purgeExpired()).resolves.toBe(3);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  UnprocessableEntityException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import { IdempotencyKey, IdempotencyKeyStatus } from './entities/idempotency-key.entity';
+import { User } from '../users/entities/user.entity';
+
+/**
+ * Remembers `Idempotency-Key`s per user so a retried mutation gets the first
+ * response back instead of running again
+ */
+@Injectable()
+export class IdempotencyService
+implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private idempotencyKeyRepository: Repository<IdempotencyKey>,
+    private configService: ConfigService,
+  ) { }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () => void this.purgeExpired().catch((error) =>
+        this.logger.error(`Purging expired idempotency keys failed: ${error.message}`),
+      ),
+      this.configService.get<number>('idempotency.purgeInterval', 3600000),
+    );
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Takes the key for a request, or returns the completed record to replay
+   * when the same request was already made with it
+   * @throws ConflictException if a request with the key is still running
+   * @throws UnprocessableEntityException if the key was used for a different request
+   */
+  async reserve(key: string, user: User, requestHash: string): Promise<IdempotencyKey> {
+    const now = new Date();
+    let existing = await this.idempotencyKeyRepository.findOne({
+      where: { key, user: { id: user.id } },
+    });
+
+    if (existing && existing.expiresAt <= now) {
+      await this.idempotencyKeyRepository.delete(existing.id);
+      existing = null;
+    }
+
+    if (!existing) {
+      const ttlHours = this.configService.get<number>('idempotency.ttlHours', 24);
+
+      try {
+        return await this.idempotencyKeyRepository.save(
+          this.idempotencyKeyRepository.create({
+            key,
+            user: { id: user.id },
+            requestHash,
+            status: IdempotencyKeyStatus.IN_PROGRESS,
+            responseStatus: null,
+            responseBody: null,
+            expiresAt: new Date(now.getTime() + ttlHours * 60 * 60 * 1000),
+          }),
+        );
+      } catch (error) {
+        // Another request with the key got in first
+        if (error.code === 'ER_DUP_ENTRY') {
+          throw new ConflictException('A request with this Idempotency-Key is already being processed');
+        }
+        throw error;
+      }
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        'This Idempotency-Key was already used for a different request',
+      );
+    }
+
+    if (existing.status === IdempotencyKeyStatus.IN_PROGRESS) {
+      throw new ConflictException('A request with this Idempotency-Key is already being processed');
+    }
+
+    return existing;
+  }
+
+  async complete(record: IdempotencyKey, responseStatus: number, responseBody: unknown): Promise<void> {
+    await this.idempotencyKeyRepository.update(record.id, {
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseStatus,
+      // Kept as the JSON the client received, not as entity instances
+      responseBody: responseBody === undefined ? null : (JSON.parse(JSON.stringify(responseBody)) as object),
+    });
+  }
+
+  /**
+   * Frees the key of a failed request, so the client can retry with it
+   */
+  async release(record: IdempotencyKey): Promise<void> {
+    await this.idempotencyKeyRepository.delete(record.id);
+  }
+
+  /**
+   * @returns number of expired keys removed
+   */
+  async purgeExpired(now = new Date()): Promise<number> {
+    const result = await this.idempotencyKeyRepository.delete({ expiresAt: LessThan(now) });
+    const purged = result.affected ?? 0;
+
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired idempotency key(s)`);
+    }
+
+    return purged;
+  }
+}
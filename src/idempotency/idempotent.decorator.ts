@@ -0,0 +1,19 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { IdempotencyInterceptor, IDEMPOTENCY_KEY_HEADER } from './idempotency.interceptor';
+
+/**
+ * Accepts an `Idempotency-Key` header on the route. Place it above
+ * `@UseInterceptors(FileInterceptor(...))` so the upload is parsed first and
+ * counts towards the request hash.
+ */
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      required: false,
+      description:
+        'Unique key for this request. Retries with the same key and payload replay the first response; reusing it for a different payload is rejected.',
+    }),
+  );
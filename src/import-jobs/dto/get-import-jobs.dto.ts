@@ -0,0 +1,53 @@
+import { IsOptional, IsEnum, IsNumber, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ImportJobStatus } from '../entities/import-job.entity';
+import { ImportProfileTarget } from '../../imports/entities/import-profile.entity';
+
+export class GetImportJobsDto {
+  @ApiProperty({
+    example: 1,
+    description: 'Page number',
+    required: false,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Number of jobs per page',
+    required: false,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 10;
+
+  @ApiProperty({
+    example: 'order',
+    description: 'Only list jobs for this import',
+    enum: ImportProfileTarget,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportProfileTarget)
+  target?: ImportProfileTarget;
+
+  @ApiProperty({
+    example: 'failed',
+    description: 'Filter by job status',
+    enum: ImportJobStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportJobStatus)
+  status?: ImportJobStatus;
+}
@@ -0,0 +1,94 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ImportProfileTarget } from '../../imports/entities/import-profile.entity';
+
+export enum ImportJobStatus {
+  QUEUED = 'queued',
+  PARSING = 'parsing',
+  VALIDATING = 'validating',
+  SAVING = 'saving',
+  DONE = 'done',
+  FAILED = 'failed',
+}
+
+/**
+ * An order or delivery import run in the background. The upload is kept on
+ * disk until the job finishes, so queued jobs survive a restart and are
+ * picked up by whichever instance polls first.
+ */
+@Entity('import_jobs')
+@Index('IDX_IMPORT_JOB_STATUS_CREATED_AT', ['status', 'createdAt'])
+export class ImportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'target', type: 'enum', enum: ImportProfileTarget })
+  target: ImportProfileTarget;
+
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: ImportJobStatus,
+    default: ImportJobStatus.QUEUED,
+  })
+  status: ImportJobStatus;
+
+  @Column({ name: 'original_name', type: 'varchar', length: 255 })
+  originalName: string;
+
+  @Column({ name: 'mime_type', type: 'varchar', length: 100 })
+  mimeType: string;
+
+  @Column({ name: 'file_path', type: 'varchar', length: 500 })
+  filePath: string;
+
+  @Column({ name: 'options', type: 'json' })
+  options: Record<string, unknown>;
+
+  @Column({ name: 'total_rows', type: 'int', default: 0 })
+  totalRows: number;
+
+  @Column({ name: 'processed_rows', type: 'int', default: 0 })
+  processedRows: number;
+
+  @Column({ name: 'result', type: 'json', nullable: true })
+  result: object | null;
+
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ name: 'attempts', type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'locked_by', type: 'varchar', length: 100, nullable: true })
+  lockedBy: string | null;
+
+  @Column({ name: 'heartbeat_at', type: 'timestamp', nullable: true })
+  heartbeatAt: Date | null;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'created_by' })
+  @Index('IDX_IMPORT_JOB_CREATED_BY')
+  createdBy: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
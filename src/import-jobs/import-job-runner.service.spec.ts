@@ -0,0 +1,235 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as fs from 'fs';
+import { ImportJobRunnerService } from './import-job-runner.service';
+import { ImportJob, ImportJobStatus } from './entities/import-job.entity';
+import { ImportProfileTarget } from '../imports/entities/import-profile.entity';
+import { OrdersService } from '../orders/orders.service';
+import { DeliveriesService } from '../deliveries/deliveries.service';
+import { OrderImportSplit } from '../orders/dto/excel-import.dto';
+import { ImportProgressListener } from '../imports/interfaces/import-progress.interface';
+import { User } from '../users/entities/user.entity';
+
+describe('ImportJobRunnerService', () => {
+  let service: ImportJobRunnerService;
+
+  const mockImportJobRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockOrdersService = {
+    importFromExcel: jest.fn(),
+    importWorkbook: jest.fn(),
+  };
+
+  const mockDeliveriesService = {
+    importFromExcel: jest.fn(),
+  };
+
+  const config: Record<string, unknown> = {
+    'importJobs.staleAfter': 60000,
+    'importJobs.maxAttempts': 3,
+  };
+  const mockConfigService = {
+    get: jest.fn((key: string, fallback?: unknown) => config[key] ?? fallback),
+  };
+
+  const user = { id: 'user-1', name: 'Test User', email: 'test@example.com' } as User;
+
+  const job = (overrides: Partial<ImportJob> = {}) =>
+    ({
+      id: 'job-1',
+      target: ImportProfileTarget.ORDER,
+      status: ImportJobStatus.PARSING,
+      originalName: 'order.xlsx',
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      filePath: '/tmp/import-jobs/job-1.xlsx',
+      options: { importProfileId: 'profile-1' },
+      attempts: 1,
+      lockedBy: 'other-host:1',
+      heartbeatAt: new Date('2025-01-01T00:00:00Z'),
+      createdBy: { id: user.id },
+      ...overrides,
+    }) as ImportJob;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockImportJobRepository.update.mockResolvedValue({ affected: 1 });
+    mockUserRepository.findOne.mockResolvedValue(user);
+    jest.spyOn(fs.promises, 'readFile').mockResolvedValue(Buffer.from('file'));
+    jest.spyOn(fs.promises, 'rm').mockResolvedValue(undefined);
+
+    service = new ImportJobRunnerService(
+      mockImportJobRepository as unknown as Repository<ImportJob>,
+      mockUserRepository as unknown as Repository<User>,
+      mockOrdersService as unknown as OrdersService,
+      mockDeliveriesService as unknown as DeliveriesService,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('claimNextJob', () => {
+    it('should claim the oldest queued job', async () => {
+      const queued = job({ status: ImportJobStatus.QUEUED, attempts: 0, lockedBy: null });
+      mockImportJobRepository.find.mockResolvedValue([queued]);
+      mockImportJobRepository.findOne.mockResolvedValue(queued);
+
+      const claimed = await service.claimNextJob();
+
+      expect(claimed).toBe(queued);
+      expect(mockImportJobRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-1', status: ImportJobStatus.QUEUED }),
+        expect.objectContaining({ status: ImportJobStatus.PARSING, attempts: 1 }),
+      );
+    });
+
+    it('should move on when another instance claimed the job first', async () => {
+      mockImportJobRepository.find.mockResolvedValue([
+        job({ id: 'job-1', status: ImportJobStatus.QUEUED, lockedBy: null }),
+        job({ id: 'job-2', status: ImportJobStatus.QUEUED, lockedBy: null }),
+      ]);
+      mockImportJobRepository.update
+        .mockResolvedValueOnce({ affected: 0 })
+        .mockResolvedValueOnce({ affected: 1 });
+      mockImportJobRepository.findOne.mockResolvedValue(job({ id: 'job-2' }));
+
+      const claimed = await service.claimNextJob();
+
+      expect(claimed?.id).toBe('job-2');
+      expect(mockImportJobRepository.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return null when nothing is queued', async () => {
+      mockImportJobRepository.find.mockResolvedValue([]);
+
+      await expect(service.claimNextJob()).resolves.toBeNull();
+    });
+  });
+
+  describe('recoverStaleJobs', () => {
+    it('should queue a job interrupted before saving again', async () => {
+      const stale = job({ status: ImportJobStatus.VALIDATING });
+      mockImportJobRepository.find.mockResolvedValue([stale]);
+
+      await service.recoverStaleJobs();
+
+      expect(mockImportJobRepository.update).toHaveBeenCalledWith(
+        { id: 'job-1', status: ImportJobStatus.VALIDATING, heartbeatAt: stale.heartbeatAt },
+        { status: ImportJobStatus.QUEUED, lockedBy: null, heartbeatAt: null },
+      );
+      expect(fs.promises.rm).not.toHaveBeenCalled();
+    });
+
+    it('should fail a job interrupted while saving', async () => {
+      mockImportJobRepository.find.mockResolvedValue([job({ status: ImportJobStatus.SAVING })]);
+
+      await service.recoverStaleJobs();
+
+      expect(mockImportJobRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-1' }),
+        expect.objectContaining({
+          status: ImportJobStatus.FAILED,
+          error: expect.stringContaining('Check whether the order was created'),
+        }),
+      );
+      expect(fs.promises.rm).toHaveBeenCalledWith('/tmp/import-jobs/job-1.xlsx', { force: true });
+    });
+
+    it('should give up a job that has used all its attempts', async () => {
+      mockImportJobRepository.find.mockResolvedValue([job({ attempts: 3 })]);
+
+      await service.recoverStaleJobs();
+
+      expect(mockImportJobRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-1' }),
+        expect.objectContaining({ status: ImportJobStatus.FAILED }),
+      );
+    });
+
+    it('should leave a job alone that another instance recovered first', async () => {
+      mockImportJobRepository.find.mockResolvedValue([job({ status: ImportJobStatus.SAVING })]);
+      mockImportJobRepository.update.mockResolvedValue({ affected: 0 });
+
+      await service.recoverStaleJobs();
+
+      expect(fs.promises.rm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run', () => {
+    it('should import the stored file and record the result', async () => {
+      const result = { orderId: 'ORD-2025-000001', totalItems: 2, errors: [], issues: [] };
+      mockOrdersService.importFromExcel.mockImplementation(
+        (file: unknown, options: unknown, importUser: User, onProgress: ImportProgressListener) => {
+          onProgress('parsing', 0, 0);
+          onProgress('validating', 2, 2);
+          onProgress('saving', 2, 2);
+          return Promise.resolve(result);
+        },
+      );
+
+      await service.run(job());
+
+      expect(mockOrdersService.importFromExcel).toHaveBeenCalledWith(
+        expect.objectContaining({ originalname: 'order.xlsx', buffer: Buffer.from('file') }),
+        { importProfileId: 'profile-1' },
+        user,
+        expect.any(Function),
+      );
+      expect(mockImportJobRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-1' }),
+        expect.objectContaining({ status: ImportJobStatus.VALIDATING, processedRows: 2, totalRows: 2 }),
+      );
+      expect(mockImportJobRepository.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'job-1' }),
+        expect.objectContaining({ status: ImportJobStatus.DONE, result }),
+      );
+      expect(fs.promises.rm).toHaveBeenCalledWith('/tmp/import-jobs/job-1.xlsx', { force: true });
+    });
+
+    it('should run split order imports as a workbook import', async () => {
+      mockOrdersService.importWorkbook.mockResolvedValue({ created: 2 });
+
+      await service.run(job({ options: { splitBy: OrderImportSplit.SHEET } }));
+
+      expect(mockOrdersService.importWorkbook).toHaveBeenCalled();
+      expect(mockOrdersService.importFromExcel).not.toHaveBeenCalled();
+    });
+
+    it('should run delivery imports through the deliveries service', async () => {
+      mockDeliveriesService.importFromExcel.mockResolvedValue({ deliveryId: 'delivery-1' });
+
+      await service.run(job({ target: ImportProfileTarget.DELIVERY }));
+
+      expect(mockDeliveriesService.importFromExcel).toHaveBeenCalled();
+    });
+
+    it('should record the error of a failed import', async () => {
+      mockOrdersService.importFromExcel.mockRejectedValue(
+        new BadRequestException('No valid items found in Excel file'),
+      );
+
+      await service.run(job());
+
+      expect(mockImportJobRepository.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'job-1' }),
+        expect.objectContaining({
+          status: ImportJobStatus.FAILED,
+          error: 'No valid items found in Excel file',
+        }),
+      );
+      expect(fs.promises.rm).toHaveBeenCalled();
+    });
+  });
+});
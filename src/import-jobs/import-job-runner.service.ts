@@ -0,0 +1,336 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, LessThan, IsNull } from 'typeorm';
+import * as fs from 'fs';
+import * as os from 'os';
+import { ImportJob, ImportJobStatus } from './entities/import-job.entity';
+import { ImportProfileTarget } from '../imports/entities/import-profile.entity';
+import {
+  ImportProgressListener,
+  ImportProgressStage,
+} from '../imports/interfaces/import-progress.interface';
+import { OrdersService } from '../orders/orders.service';
+import { DeliveriesService } from '../deliveries/deliveries.service';
+import {
+  ExcelImportDto,
+  OrderImportSplit,
+} from '../orders/dto/excel-import.dto';
+import { ExcelImportDeliveryDto } from '../deliveries/dto/excel-import-delivery.dto';
+import { User } from '../users/entities/user.entity';
+
+const STAGE_STATUSES: Record<ImportProgressStage, ImportJobStatus> = {
+  parsing: ImportJobStatus.PARSING,
+  validating: ImportJobStatus.VALIDATING,
+  saving: ImportJobStatus.SAVING,
+};
+
+// Nothing has been written in these stages, so an interrupted job can start over
+const RESTARTABLE_STATUSES = [ImportJobStatus.PARSING, ImportJobStatus.VALIDATING];
+
+// Minimum time between progress writes within one stage
+const PROGRESS_WRITE_INTERVAL = 1000;
+
+/**
+ * Works through queued import jobs. Every instance of the PM2 cluster runs
+ * one job at a time; jobs are claimed with a conditional update so each is
+ * run by a single instance. Jobs of an instance that stopped without
+ * finishing them are found by their missing heartbeat and queued again.
+ */
+@Injectable()
+export class ImportJobRunnerService
+implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(ImportJobRunnerService.name);
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private activeJobId: string | null = null;
+  private activeRun: Promise<void> | null = null;
+  private polling = false;
+
+  constructor(
+    @InjectRepository(ImportJob)
+    private importJobRepository: Repository<ImportJob>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private ordersService: OrdersService,
+    private deliveriesService: DeliveriesService,
+    private configService: ConfigService,
+  ) { }
+
+  onApplicationBootstrap(): void {
+    if (!this.configService.get<boolean>('importJobs.workerEnabled', true)) {
+      return;
+    }
+
+    this.timer = setInterval(
+      () => void this.poll(),
+      this.configService.get<number>('importJobs.pollInterval', 2000),
+    );
+  }
+
+  /**
+   * Stops taking new jobs and lets the current one finish. Should the process
+   * be killed first, the job is recovered once its heartbeat goes stale.
+   */
+  async onApplicationShutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.activeRun;
+  }
+
+  /**
+   * One tick of the worker: keeps the running job's heartbeat fresh, recovers
+   * abandoned jobs and starts the next queued job when idle
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      if (this.activeJobId) {
+        await this.importJobRepository.update(
+          { id: this.activeJobId, lockedBy: this.instanceId },
+          { heartbeatAt: new Date() },
+        );
+        return;
+      }
+
+      await this.recoverStaleJobs();
+
+      const job = await this.claimNextJob();
+      if (job) {
+        this.activeJobId = job.id;
+        this.activeRun = this.run(job).finally(() => {
+          this.activeJobId = null;
+          this.activeRun = null;
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Import job polling failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Takes the oldest queued job. Another instance may claim the same job
+   * first, in which case the next candidate is tried.
+   */
+  async claimNextJob(): Promise<ImportJob | null> {
+    const candidates = await this.importJobRepository.find({
+      where: { status: ImportJobStatus.QUEUED },
+      order: { createdAt: 'ASC' },
+      take: 5,
+    });
+
+    for (const candidate of candidates) {
+      const now = new Date();
+      const claim = await this.importJobRepository.update(
+        { id: candidate.id, status: ImportJobStatus.QUEUED, lockedBy: IsNull() },
+        {
+          status: ImportJobStatus.PARSING,
+          lockedBy: this.instanceId,
+          heartbeatAt: now,
+          startedAt: now,
+          attempts: candidate.attempts + 1,
+          processedRows: 0,
+          totalRows: 0,
+        },
+      );
+
+      if (claim.affected === 1) {
+        return this.importJobRepository.findOne({
+          where: { id: candidate.id },
+          relations: ['createdBy'],
+        });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Queues jobs whose worker stopped sending heartbeats again, or fails them
+   * when they were interrupted while saving or have used up their attempts
+   */
+  async recoverStaleJobs(): Promise<void> {
+    const staleAfter = this.configService.get<number>('importJobs.staleAfter', 60000);
+    const maxAttempts = this.configService.get<number>('importJobs.maxAttempts', 3);
+
+    const staleJobs = await this.importJobRepository.find({
+      where: {
+        status: In([...RESTARTABLE_STATUSES, ImportJobStatus.SAVING]),
+        heartbeatAt: LessThan(new Date(Date.now() - staleAfter)),
+      },
+    });
+
+    for (const job of staleJobs) {
+      // Only the instance that still sees the stale heartbeat may recover the job
+      const unchanged = {
+        id: job.id,
+        status: job.status,
+        heartbeatAt: job.heartbeatAt!,
+      };
+
+      if (RESTARTABLE_STATUSES.includes(job.status) && job.attempts < maxAttempts) {
+        const requeued = await this.importJobRepository.update(unchanged, {
+          status: ImportJobStatus.QUEUED,
+          lockedBy: null,
+          heartbeatAt: null,
+        });
+        if (requeued.affected === 1) {
+          this.logger.warn(`Import job ${job.id} was abandoned by ${job.lockedBy} and has been queued again`);
+        }
+        continue;
+      }
+
+      const failed = await this.importJobRepository.update(unchanged, {
+        status: ImportJobStatus.FAILED,
+        error:
+          job.status === ImportJobStatus.SAVING
+            ? `The import was interrupted while saving. Check whether the ${job.target === ImportProfileTarget.ORDER ? 'order' : 'delivery'} was created before submitting the file again.`
+            : `The import was interrupted ${job.attempts} times and has been given up`,
+        lockedBy: null,
+        finishedAt: new Date(),
+      });
+      if (failed.affected === 1) {
+        await this.removeUpload(job);
+      }
+    }
+  }
+
+  /**
+   * Runs a claimed job to completion and stores its result or error
+   */
+  async run(job: ImportJob): Promise<void> {
+    const progress = this.createProgressWriter(job.id);
+
+    try {
+      const file = {
+        fieldname: 'file',
+        originalname: job.originalName,
+        mimetype: job.mimeType,
+        buffer: await fs.promises.readFile(job.filePath),
+      } as Express.Multer.File;
+      file.size = file.buffer.length;
+
+      const user = await this.userRepository.findOne({
+        where: { id: job.createdBy.id },
+      });
+      if (!user) {
+        throw new Error('The user who submitted the import no longer exists');
+      }
+
+      const result = await this.runImport(job, file, user, progress.listener);
+      await progress.flush();
+
+      await this.importJobRepository.update(
+        { id: job.id, lockedBy: this.instanceId },
+        {
+          status: ImportJobStatus.DONE,
+          result,
+          error: null,
+          lockedBy: null,
+          finishedAt: new Date(),
+        },
+      );
+    } catch (error) {
+      await progress.flush();
+      this.logger.warn(`Import job ${job.id} failed: ${error.message}`);
+
+      await this.importJobRepository.update(
+        { id: job.id, lockedBy: this.instanceId },
+        {
+          status: ImportJobStatus.FAILED,
+          error: error.message,
+          lockedBy: null,
+          finishedAt: new Date(),
+        },
+      );
+    }
+
+    await this.removeUpload(job);
+  }
+
+  private runImport(
+    job: ImportJob,
+    file: Express.Multer.File,
+    user: User,
+    onProgress: ImportProgressListener,
+  ): Promise<object> {
+    if (job.target === ImportProfileTarget.DELIVERY) {
+      return this.deliveriesService.importFromExcel(
+        file,
+        job.options as unknown as ExcelImportDeliveryDto,
+        user,
+        onProgress,
+      );
+    }
+
+    const options = job.options as unknown as ExcelImportDto;
+    if (options.splitBy && options.splitBy !== OrderImportSplit.NONE) {
+      return this.ordersService.importWorkbook(file, options, user, onProgress);
+    }
+
+    return this.ordersService.importFromExcel(file, options, user, onProgress);
+  }
+
+  /**
+   * Importers report progress synchronously for every row; the job row is
+   * updated when the stage changes and at most once a second otherwise.
+   * Writes are chained so they land in order.
+   */
+  private createProgressWriter(jobId: string): {
+    listener: ImportProgressListener;
+    flush: () => Promise<void>;
+  } {
+    let pending = Promise.resolve();
+    let lastStage: ImportProgressStage = 'parsing';
+    let lastWrite = 0;
+
+    const listener: ImportProgressListener = (stage, processedRows, totalRows) => {
+      const now = Date.now();
+      if (stage === lastStage && processedRows < totalRows && now - lastWrite < PROGRESS_WRITE_INTERVAL) {
+        return;
+      }
+      lastStage = stage;
+      lastWrite = now;
+
+      pending = pending
+        .then(async () => {
+          await this.importJobRepository.update(
+            { id: jobId, lockedBy: this.instanceId },
+            {
+              status: STAGE_STATUSES[stage],
+              processedRows,
+              totalRows,
+              heartbeatAt: new Date(),
+            },
+          );
+        })
+        .catch((error) => {
+          this.logger.warn(`Could not record progress of import job ${jobId}: ${error.message}`);
+        });
+    };
+
+    return { listener, flush: () => pending };
+  }
+
+  private async removeUpload(job: ImportJob): Promise<void> {
+    try {
+      await fs.promises.rm(job.filePath, { force: true });
+    } catch (error) {
+      this.logger.warn(`Could not remove upload of import job ${job.id}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { ImportJobsService } from './import-jobs.service';
+import { GetImportJobsDto } from './dto/get-import-jobs.dto';
+import { ImportProfileTarget } from '../imports/entities/import-profile.entity';
+import { ExcelImportDto, OrderImportSplit } from '../orders/dto/excel-import.dto';
+import { ExcelImportDeliveryDto } from '../deliveries/dto/excel-import-delivery.dto';
+import { TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES } from '../imports/dto/text-import-options.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ApiKeyScopes } from '../auth/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../auth/entities/api-key.entity';
+import { Idempotent } from '../idempotency/idempotent.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+
+@ApiTags('Import Jobs')
+@Controller('import-jobs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+export class ImportJobsController {
+  constructor(private readonly importJobsService: ImportJobsService) { }
+
+  @Post('orders')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Idempotent()
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Queue an order import from an Excel, CSV or TSV file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
+        },
+        orderId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Order ID for the imported items (optional - auto-generated if not provided)',
+          example: 'ORD-2024-001',
+        },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+        splitBy: {
+          type: 'string',
+          enum: Object.values(OrderImportSplit),
+          description:
+            'Create one order per sheet or per PO Number value (optional - a single order if not provided)',
+          example: 'sheet',
+        },
+        atomic: {
+          type: 'boolean',
+          description:
+            'When splitting, create all orders or none (optional - each order on its own if not provided)',
+          example: false,
+        },
+      },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Import queued. Poll GET /import-jobs/{id} for its progress and result.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No file uploaded',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Uploader access required',
+  })
+  async submitOrderImport(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() excelImportDto: ExcelImportDto,
+    @CurrentUser() user: User,
+  ) {
+    const job = await this.importJobsService.submit(
+      ImportProfileTarget.ORDER,
+      file,
+      excelImportDto,
+      user,
+    );
+    return {
+      success: true,
+      message: 'Order import queued',
+      data: job,
+    };
+  }
+
+  @Post('deliveries')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.DELIVERIES_IMPORT)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Idempotent()
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Queue a delivery import from an Excel, CSV or TSV file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
+        },
+        orderId: {
+          type: 'string',
+          description: 'Order ID to create delivery for',
+          example: 'uuid-order-id',
+        },
+        deliveryDate: {
+          type: 'string',
+          format: 'date',
+          description: 'Delivery date (YYYY-MM-DD)',
+          example: '2024-01-25',
+        },
+        status: {
+          type: 'string',
+          enum: ['pending', 'in-transit', 'delivered', 'cancelled'],
+          description: 'Delivery status (optional)',
+          example: 'delivered',
+        },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+      },
+      required: ['file', 'orderId', 'deliveryDate'],
+    },
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Import queued. Poll GET /import-jobs/{id} for its progress and result.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No file uploaded or invalid form fields',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Uploader access required',
+  })
+  async submitDeliveryImport(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() excelImportDto: ExcelImportDeliveryDto,
+    @CurrentUser() user: User,
+  ) {
+    const job = await this.importJobsService.submit(
+      ImportProfileTarget.DELIVERY,
+      file,
+      excelImportDto,
+      user,
+    );
+    return {
+      success: true,
+      message: 'Delivery import queued',
+      data: job,
+    };
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT, ApiKeyScope.DELIVERIES_IMPORT)
+  @ApiOperation({ summary: 'List import jobs, newest first (own jobs unless Admin)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import jobs retrieved successfully',
+  })
+  async findAll(@Query() query: GetImportJobsDto, @CurrentUser() user: User) {
+    const jobs = await this.importJobsService.findAll(query, user);
+    return {
+      success: true,
+      message: 'Import jobs retrieved successfully',
+      data: jobs,
+    };
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT, ApiKeyScope.DELIVERIES_IMPORT)
+  @ApiOperation({ summary: 'Get the status, progress and result of an import job' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Import job retrieved successfully. Once done, `result` holds what the synchronous import would have returned.',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Import job not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ) {
+    const job = await this.importJobsService.findOne(id, user);
+    return {
+      success: true,
+      message: 'Import job retrieved successfully',
+      data: job,
+    };
+  }
+}
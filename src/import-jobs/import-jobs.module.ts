@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MulterModule } from '@nestjs/platform-express';
+import * as path from 'path';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportJobRunnerService } from './import-job-runner.service';
+import { ImportJobsController } from './import-jobs.controller';
+import { ImportJob } from './entities/import-job.entity';
+import { User } from '../users/entities/user.entity';
+import { OrdersModule } from '../orders/orders.module';
+import { DeliveriesModule } from '../deliveries/deliveries.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ImportJob, User]),
+    OrdersModule,
+    DeliveriesModule,
+    IdempotencyModule,
+    MulterModule.register({
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB
+      },
+      fileFilter: (req, file, cb) => {
+        if (
+          file.mimetype.includes('spreadsheet') ||
+          file.mimetype.includes('excel') ||
+          ['text/csv', 'application/csv', 'text/tab-separated-values', 'text/plain'].includes(file.mimetype) ||
+          ['.csv', '.tsv', '.tab', '.txt'].includes(path.extname(file.originalname).toLowerCase())
+        ) {
+          cb(null, true);
+        } else {
+          cb(new Error('Only Excel, CSV or TSV files are allowed'), false);
+        }
+      },
+    }),
+  ],
+  controllers: [ImportJobsController],
+  providers: [ImportJobsService, ImportJobRunnerService],
+  exports: [ImportJobsService],
+})
+export class ImportJobsModule { }
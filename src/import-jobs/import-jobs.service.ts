@@ -0,0 +1,155 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportJob, ImportJobStatus } from './entities/import-job.entity';
+import { GetImportJobsDto } from './dto/get-import-jobs.dto';
+import { ImportJobSummary } from './interfaces/import-job.interface';
+import { ImportProfileTarget } from '../imports/entities/import-profile.entity';
+import { ExcelImportDto } from '../orders/dto/excel-import.dto';
+import { ExcelImportDeliveryDto } from '../deliveries/dto/excel-import-delivery.dto';
+import { PaginatedResponse } from '../orders/orders.service';
+import { User, UserRole } from '../users/entities/user.entity';
+
+@Injectable()
+export class ImportJobsService {
+  constructor(
+    @InjectRepository(ImportJob)
+    private importJobRepository: Repository<ImportJob>,
+    private configService: ConfigService,
+  ) { }
+
+  /**
+   * Stores the upload and queues it for the import workers
+   */
+  async submit(
+    target: ImportProfileTarget,
+    file: Express.Multer.File,
+    options: ExcelImportDto | ExcelImportDeliveryDto,
+    user: User,
+  ): Promise<ImportJobSummary> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const id = randomUUID();
+    const storageDir = path.resolve(
+      this.configService.get<string>('importJobs.storageDir', 'uploads/import-jobs'),
+    );
+    const filePath = path.join(
+      storageDir,
+      `${id}${path.extname(file.originalname).toLowerCase()}`,
+    );
+
+    await fs.promises.mkdir(storageDir, { recursive: true });
+    await fs.promises.writeFile(filePath, file.buffer);
+
+    try {
+      const job = await this.importJobRepository.save(
+        this.importJobRepository.create({
+          id,
+          target,
+          status: ImportJobStatus.QUEUED,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          filePath,
+          options: { ...options },
+          createdBy: { id: user.id } as User,
+        }),
+      );
+
+      return this.summarize({ ...job, createdBy: user });
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Uploaders only see their own jobs; admins see every job
+   */
+  async findAll(
+    query: GetImportJobsDto,
+    user: User,
+  ): Promise<PaginatedResponse<ImportJobSummary>> {
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+
+    const where: FindOptionsWhere<ImportJob> = {};
+    if (query.target) {
+      where.target = query.target;
+    }
+    if (query.status) {
+      where.status = query.status;
+    }
+    if (user.role !== UserRole.ADMIN) {
+      where.createdBy = { id: user.id };
+    }
+
+    const [jobs, total] = await this.importJobRepository.findAndCount({
+      where,
+      relations: ['createdBy'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data: jobs.map((job) => this.summarize(job)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string, user: User): Promise<ImportJobSummary> {
+    const job = await this.importJobRepository.findOne({
+      where: { id },
+      relations: ['createdBy'],
+    });
+
+    if (!job || (user.role !== UserRole.ADMIN && job.createdBy?.id !== user.id)) {
+      throw new NotFoundException('Import job not found');
+    }
+
+    return this.summarize(job);
+  }
+
+  private summarize(job: ImportJob): ImportJobSummary {
+    return {
+      id: job.id,
+      target: job.target,
+      status: job.status,
+      fileName: job.originalName,
+      totalRows: job.totalRows ?? 0,
+      processedRows: job.processedRows ?? 0,
+      progress:
+        job.status === ImportJobStatus.DONE
+          ? 100
+          : job.totalRows > 0
+            ? Math.floor((job.processedRows / job.totalRows) * 100)
+            : 0,
+      result: job.result ?? null,
+      error: job.error ?? null,
+      attempts: job.attempts ?? 0,
+      createdBy: job.createdBy
+        ? {
+          id: job.createdBy.id,
+          name: job.createdBy.name,
+          email: job.createdBy.email,
+        }
+        : null,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { ImportJobStatus } from '../entities/import-job.entity';
+import { ImportProfileTarget } from '../../imports/entities/import-profile.entity';
+
+export interface ImportJobAuthor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * What the status endpoints report about a job; where the upload is stored
+ * and which instance runs it stay internal
+ */
+export interface ImportJobSummary {
+  id: string;
+  target: ImportProfileTarget;
+  status: ImportJobStatus;
+  fileName: string;
+  totalRows: number;
+  processedRows: number;
+  /** Share of rows processed in the current stage, 0-100 */
+  progress: number;
+  /** Response data of the equivalent synchronous import once the job is done */
+  result: object | null;
+  error: string | null;
+  attempts: number;
+  createdBy: ImportJobAuthor | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
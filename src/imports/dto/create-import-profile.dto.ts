@@ -0,0 +1,89 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsObject,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ImportProfileTarget } from '../entities/import-profile.entity';
+import { ImportColumnMappings } from '../interfaces/import-profile.interface';
+
+export class CreateImportProfileDto {
+  @ApiProperty({
+    example: 'Acme GmbH purchase orders',
+    description: 'Unique profile name',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: 'German PO sheets sent by Acme',
+    description: 'Free-text description',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    example: 'order',
+    description: 'Import the profile applies to',
+    enum: ImportProfileTarget,
+  })
+  @IsEnum(ImportProfileTarget)
+  target: ImportProfileTarget;
+
+  @ApiProperty({
+    example: 'Bestellung',
+    description: 'Sheet to read. Takes precedence over sheetIndex.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  sheetName?: string;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Zero-based index of the sheet to read when no sheet name is set',
+    required: false,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  sheetIndex?: number;
+
+  @ApiProperty({
+    example: 3,
+    description: 'One-based row number of the header row',
+    required: false,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  headerRow?: number;
+
+  @ApiProperty({
+    example: {
+      ASIN: { headers: ['ASIN', 'Artikel-ID'] },
+      'Quantity Requested': { headers: ['Menge', 'Qty'] },
+      'Unit Cost': { column: 'G' },
+    },
+    description:
+      'Source headers (aliases) or a column letter per import column. Unmapped columns fall back to their own name.',
+  })
+  @IsObject()
+  columnMappings: ImportColumnMappings;
+}
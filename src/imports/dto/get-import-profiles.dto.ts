@@ -0,0 +1,15 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ImportProfileTarget } from '../entities/import-profile.entity';
+
+export class GetImportProfilesDto {
+  @ApiProperty({
+    example: 'order',
+    description: 'Only list profiles for this import',
+    enum: ImportProfileTarget,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportProfileTarget)
+  target?: ImportProfileTarget;
+}
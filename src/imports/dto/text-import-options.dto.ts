@@ -0,0 +1,132 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum ImportFileFormat {
+  XLSX = 'xlsx',
+  CSV = 'csv',
+  TSV = 'tsv',
+}
+
+export enum ImportDelimiter {
+  COMMA = 'comma',
+  SEMICOLON = 'semicolon',
+  TAB = 'tab',
+  PIPE = 'pipe',
+}
+
+export enum ImportEncoding {
+  UTF8 = 'utf-8',
+  UTF16LE = 'utf-16le',
+  WINDOWS_1252 = 'windows-1252',
+}
+
+export enum ImportDecimalSeparator {
+  DOT = 'dot',
+  COMMA = 'comma',
+}
+
+export enum ImportDateFormat {
+  ISO = 'YYYY-MM-DD',
+  DAY_MONTH_YEAR_DOTS = 'DD.MM.YYYY',
+  DAY_MONTH_YEAR_SLASHES = 'DD/MM/YYYY',
+  MONTH_DAY_YEAR_SLASHES = 'MM/DD/YYYY',
+}
+
+/**
+ * How to read a CSV or TSV upload. Ignored for Excel workbooks.
+ */
+export class TextImportOptionsDto {
+  @ApiProperty({
+    example: 'csv',
+    description:
+      'File format (detected from the file extension or MIME type if not provided)',
+    enum: ImportFileFormat,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportFileFormat)
+  format?: ImportFileFormat;
+
+  @ApiProperty({
+    example: 'semicolon',
+    description:
+      'Field delimiter of CSV files (tab for TSV files, otherwise detected from the header line if not provided)',
+    enum: ImportDelimiter,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportDelimiter)
+  delimiter?: ImportDelimiter;
+
+  @ApiProperty({
+    example: 'windows-1252',
+    description:
+      'Character encoding of CSV files (byte order mark or UTF-8 if not provided)',
+    enum: ImportEncoding,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportEncoding)
+  encoding?: ImportEncoding;
+
+  @ApiProperty({
+    example: 'comma',
+    description:
+      'Decimal separator of numbers in CSV files. The other character is accepted as thousands separator.',
+    enum: ImportDecimalSeparator,
+    required: false,
+    default: ImportDecimalSeparator.DOT,
+  })
+  @IsOptional()
+  @IsEnum(ImportDecimalSeparator)
+  decimalSeparator?: ImportDecimalSeparator;
+
+  @ApiProperty({
+    example: 'DD.MM.YYYY',
+    description: 'Date format of CSV files (parsed leniently if not provided)',
+    enum: ImportDateFormat,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportDateFormat)
+  dateFormat?: ImportDateFormat;
+}
+
+/**
+ * Multipart form fields of `TextImportOptionsDto`, for the inline `@ApiBody`
+ * schemas of upload routes
+ */
+export const TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: Object.values(ImportFileFormat),
+    description:
+      'File format (optional - detected from the file extension or MIME type)',
+    example: 'csv',
+  },
+  delimiter: {
+    type: 'string',
+    enum: Object.values(ImportDelimiter),
+    description:
+      'CSV field delimiter (optional - tab for TSV files, otherwise detected)',
+    example: 'semicolon',
+  },
+  encoding: {
+    type: 'string',
+    enum: Object.values(ImportEncoding),
+    description: 'CSV character encoding (optional - byte order mark or UTF-8)',
+    example: 'windows-1252',
+  },
+  decimalSeparator: {
+    type: 'string',
+    enum: Object.values(ImportDecimalSeparator),
+    description: 'Decimal separator of CSV numbers (optional - dot)',
+    example: 'comma',
+  },
+  dateFormat: {
+    type: 'string',
+    enum: Object.values(ImportDateFormat),
+    description: 'Date format of CSV dates (optional - parsed leniently)',
+    example: 'DD.MM.YYYY',
+  },
+};
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateImportProfileDto } from './create-import-profile.dto';
+
+export class UpdateImportProfileDto extends PartialType(CreateImportProfileDto) {}
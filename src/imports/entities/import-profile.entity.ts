@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ImportColumnMappings } from '../interfaces/import-profile.interface';
+
+export enum ImportProfileTarget {
+  ORDER = 'order',
+  DELIVERY = 'delivery',
+}
+
+/**
+ * Named description of a supplier's spreadsheet layout: which sheet to read,
+ * where the header row is and how its columns map to our import columns.
+ */
+@Entity('import_profiles')
+export class ImportProfile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'name', type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  @Column({ name: 'description', type: 'varchar', length: 500, nullable: true })
+  description: string | null;
+
+  @Column({ name: 'target', type: 'enum', enum: ImportProfileTarget })
+  @Index('IDX_IMPORT_PROFILE_TARGET')
+  target: ImportProfileTarget;
+
+  @Column({ name: 'sheet_name', type: 'varchar', length: 100, nullable: true })
+  sheetName: string | null;
+
+  @Column({ name: 'sheet_index', type: 'int', default: 0 })
+  sheetIndex: number;
+
+  @Column({ name: 'header_row', type: 'int', default: 1 })
+  headerRow: number;
+
+  @Column({ name: 'column_mappings', type: 'json' })
+  columnMappings: ImportColumnMappings;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'created_by' })
+  @Index('IDX_IMPORT_PROFILE_CREATED_BY')
+  createdBy: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
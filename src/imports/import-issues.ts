@@ -0,0 +1,84 @@
+import {
+  ImportIssue,
+  ImportIssueDetails,
+  ImportIssueSeverity,
+} from './interfaces/import-issue.interface';
+import { MappedSheet } from './interfaces/import-profile.interface';
+
+/**
+ * Thrown by row validators so the problem can be reported against the
+ * offending cell rather than only as a message
+ */
+export class ImportRowError extends Error {
+  constructor(
+    message: string,
+    readonly details: ImportIssueDetails,
+  ) {
+    super(message);
+    this.name = 'ImportRowError';
+  }
+}
+
+/**
+ * Places a problem found in a row on the uploaded sheet
+ */
+export function createImportIssue(
+  sheet: Pick<MappedSheet, 'columnLetters'>,
+  row: number,
+  message: string,
+  { code, field, value, suggestion }: ImportIssueDetails,
+  severity: ImportIssueSeverity = 'error',
+): ImportIssue {
+  return {
+    row,
+    column: field ? (sheet.columnLetters[field] ?? null) : null,
+    field: field ?? null,
+    code,
+    value: toIssueValue(value),
+    severity,
+    message,
+    suggestion: suggestion ?? null,
+  };
+}
+
+/**
+ * Converts an error thrown while validating a row. Errors other than
+ * `ImportRowError` are reported against the whole row.
+ */
+export function importIssueFromError(
+  sheet: Pick<MappedSheet, 'columnLetters'>,
+  row: number,
+  error: unknown,
+): ImportIssue {
+  if (error instanceof ImportRowError) {
+    return createImportIssue(sheet, row, error.message, error.details);
+  }
+
+  return createImportIssue(
+    sheet,
+    row,
+    error instanceof Error ? error.message : String(error),
+    { code: 'INVALID_ROW' },
+  );
+}
+
+/**
+ * The one-line form used in `errors` lists, e.g. "Row 5: Missing required field: ASIN"
+ */
+export function formatImportIssue(issue: ImportIssue): string {
+  return `Row ${issue.row}: ${issue.message}`;
+}
+
+function toIssueValue(value: unknown): ImportIssue['value'] {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+
+  return JSON.stringify(value);
+}
@@ -0,0 +1,160 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { ImportProfilesService } from './import-profiles.service';
+import { CreateImportProfileDto } from './dto/create-import-profile.dto';
+import { UpdateImportProfileDto } from './dto/update-import-profile.dto';
+import { GetImportProfilesDto } from './dto/get-import-profiles.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ApiKeyScopes } from '../auth/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../auth/entities/api-key.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+
+@ApiTags('Import Profiles')
+@Controller('import-profiles')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+export class ImportProfilesController {
+  constructor(private readonly importProfilesService: ImportProfilesService) { }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create an import column mapping profile (Admin only)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Import profile created successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid column mappings',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Import profile with this name already exists',
+  })
+  async create(
+    @Body() createImportProfileDto: CreateImportProfileDto,
+    @CurrentUser() user: User,
+  ) {
+    const profile = await this.importProfilesService.create(
+      createImportProfileDto,
+      user,
+    );
+    return {
+      success: true,
+      message: 'Import profile created successfully',
+      data: profile,
+    };
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT, ApiKeyScope.DELIVERIES_IMPORT)
+  @ApiOperation({ summary: 'List import profiles' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import profiles retrieved successfully',
+  })
+  async findAll(@Query() query: GetImportProfilesDto) {
+    const profiles = await this.importProfilesService.findAll(query);
+    return {
+      success: true,
+      data: profiles,
+    };
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT, ApiKeyScope.DELIVERIES_IMPORT)
+  @ApiOperation({ summary: 'Get import profile by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import profile retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Import profile not found',
+  })
+  async findOne(@Param('id') id: string) {
+    const profile = await this.importProfilesService.findOne(id);
+    return {
+      success: true,
+      data: profile,
+    };
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update import profile (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import profile updated successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid column mappings',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Import profile not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Import profile with this name already exists',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateImportProfileDto: UpdateImportProfileDto,
+  ) {
+    const profile = await this.importProfilesService.update(
+      id,
+      updateImportProfileDto,
+    );
+    return {
+      success: true,
+      message: 'Import profile updated successfully',
+      data: profile,
+    };
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete import profile (Admin only)' })
+  @ApiResponse({
+    status: 204,
+    description: 'Import profile deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Import profile not found',
+  })
+  async remove(@Param('id') id: string) {
+    await this.importProfilesService.remove(id);
+  }
+}
@@ -0,0 +1,440 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import * as XLSX from 'xlsx';
+import { ImportProfilesService } from './import-profiles.service';
+import {
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportDelimiter,
+  ImportEncoding,
+} from './dto/text-import-options.dto';
+import {
+  ImportProfile,
+  ImportProfileTarget,
+} from './entities/import-profile.entity';
+import { ImportIssue } from './interfaces/import-issue.interface';
+import { User } from '../users/entities/user.entity';
+
+describe('ImportProfilesService', () => {
+  let service: ImportProfilesService;
+
+  const mockImportProfileRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve(data)),
+    delete: jest.fn(),
+  };
+
+  const mockUser = { id: 'user-1' } as User;
+
+  const workbookFile = (sheets: Record<string, unknown[][]>) => {
+    const workbook = XLSX.utils.book_new();
+    Object.entries(sheets).forEach(([name, rows]) =>
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name),
+    );
+    return {
+      buffer: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+    } as Express.Multer.File;
+  };
+
+  const textFile = (originalname: string, buffer: Buffer) =>
+    ({ originalname, mimetype: 'application/octet-stream', buffer }) as Express.Multer.File;
+
+  const deliveryHeaders = [
+    'ASIN',
+    'Brand Name',
+    'Model Number',
+    'Title',
+    'Delivered Quantity',
+    'Unit Price',
+  ];
+  const deliveryRow = ['B08N5WRWNW', 'Sony', '1234567890123', 'Headphones', 25, 299.99];
+
+  const profile = (overrides: Partial<ImportProfile>) =>
+    ({
+      id: 'profile-1',
+      name: 'Acme',
+      target: ImportProfileTarget.DELIVERY,
+      sheetName: null,
+      sheetIndex: 0,
+      headerRow: 1,
+      columnMappings: {},
+      ...overrides,
+    }) as ImportProfile;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ImportProfilesService(
+      mockImportProfileRepository as unknown as Repository<ImportProfile>,
+    );
+  });
+
+  describe('readSheet', () => {
+    it('should match standard headers case-insensitively without a profile', async () => {
+      const file = workbookFile({
+        Sheet1: [
+          [' asin ', 'BRAND NAME', 'Model  Number', 'title', 'Delivered Quantity', 'unit price'],
+          deliveryRow,
+        ],
+      });
+
+      const sheet = await service.readSheet(file, ImportProfileTarget.DELIVERY);
+
+      expect(sheet.rows).toEqual([
+        {
+          ASIN: 'B08N5WRWNW',
+          'Brand Name': 'Sony',
+          'Model Number': '1234567890123',
+          Title: 'Headphones',
+          'Delivered Quantity': 25,
+          'Unit Price': 299.99,
+        },
+      ]);
+      expect(sheet.rowNumbers).toEqual([2]);
+    });
+
+    it('should apply aliases, column letters, sheet name and header row from the profile', async () => {
+      mockImportProfileRepository.findOne.mockResolvedValue(
+        profile({
+          sheetName: 'Lieferung',
+          headerRow: 3,
+          columnMappings: {
+            'Delivered Quantity': { headers: ['Menge'] },
+            'Unit Price': { column: 'F' },
+          },
+        }),
+      );
+      const file = workbookFile({
+        Cover: [['Not this one']],
+        Lieferung: [
+          ['Acme GmbH'],
+          [],
+          ['ASIN', 'Brand Name', 'Model Number', 'Title', 'menge', 'Preis (EUR)'],
+          deliveryRow,
+          [],
+          ['B07XJ8C8F5', 'Sony', '9876543210987', 'Speaker', 3, 49.5],
+        ],
+      });
+
+      const sheet = await service.readSheet(file, ImportProfileTarget.DELIVERY, 'profile-1');
+
+      expect(sheet.rows.map((row) => [row['Delivered Quantity'], row['Unit Price']])).toEqual([
+        [25, 299.99],
+        [3, 49.5],
+      ]);
+      expect(sheet.rowNumbers).toEqual([4, 6]);
+    });
+
+    it('should list missing columns', async () => {
+      const file = workbookFile({
+        Sheet1: [deliveryHeaders.slice(0, 4), deliveryRow.slice(0, 4)],
+      });
+
+      await expect(
+        service.readSheet(file, ImportProfileTarget.DELIVERY),
+      ).rejects.toThrow(
+        "Missing required columns in Excel file: 'Delivered Quantity', 'Unit Price'",
+      );
+    });
+
+    it('should reject a sheet without data rows', async () => {
+      const file = workbookFile({ Sheet1: [deliveryHeaders] });
+
+      await expect(
+        service.readSheet(file, ImportProfileTarget.DELIVERY),
+      ).rejects.toThrow('Excel file is empty');
+    });
+
+    it('should reject a profile made for another import', async () => {
+      mockImportProfileRepository.findOne.mockResolvedValue(
+        profile({ target: ImportProfileTarget.ORDER }),
+      );
+      const file = workbookFile({ Sheet1: [deliveryHeaders, deliveryRow] });
+
+      await expect(
+        service.readSheet(file, ImportProfileTarget.DELIVERY, 'profile-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a missing sheet', async () => {
+      mockImportProfileRepository.findOne.mockResolvedValue(
+        profile({ sheetName: 'Missing' }),
+      );
+      const file = workbookFile({ Sheet1: [deliveryHeaders, deliveryRow] });
+
+      await expect(
+        service.readSheet(file, ImportProfileTarget.DELIVERY, 'profile-1'),
+      ).rejects.toThrow('Sheet "Missing" not found in Excel file');
+    });
+  });
+
+  describe('readAllSheets', () => {
+    it('should map every sheet and report the ones that cannot be mapped', async () => {
+      const file = workbookFile({
+        Cover: [['Summary']],
+        Items: [deliveryHeaders, deliveryRow],
+      });
+
+      const sheets = await service.readAllSheets(file, ImportProfileTarget.DELIVERY);
+
+      expect(sheets.map(({ sheetName, sheet }) => [sheetName, sheet?.rows.length ?? null])).toEqual([
+        ['Cover', null],
+        ['Items', 1],
+      ]);
+      expect(sheets[0].error).toBe('Excel file is empty');
+    });
+  });
+
+  describe('optional columns', () => {
+    const orderHeaders = [
+      'ASIN',
+      'Brand Name',
+      'Model Number',
+      'Title',
+      'Requesting Date',
+      'Quantity Requested',
+      'Unit Cost',
+    ];
+    const orderRow = ['B08N5WRWNW', 'Sony', '1234567890123', 'Headphones', '2024-01-15', 5, 10];
+
+    it('should read optional columns when present', async () => {
+      const file = workbookFile({ Sheet1: [[...orderHeaders, 'PO Number'], [...orderRow, 'PO-1']] });
+
+      const sheet = await service.readSheet(file, ImportProfileTarget.ORDER);
+
+      expect(sheet.rows[0]['PO Number']).toBe('PO-1');
+    });
+
+    it('should require optional columns the caller asks for', async () => {
+      const file = workbookFile({ Sheet1: [orderHeaders, orderRow] });
+
+      await expect(
+        service.readSheet(file, ImportProfileTarget.ORDER, undefined, {
+          requiredColumns: ['PO Number'],
+        }),
+      ).rejects.toThrow("Missing required columns in Excel file: 'PO Number'");
+    });
+  });
+
+  describe('CSV and TSV files', () => {
+    it('should read a Windows-1252 file with locale numbers and report source line numbers', async () => {
+      const content = [
+        'ASIN;Brand Name;Model Number;Title;Delivered Quantity;Unit Price',
+        'B08N5WRWNW;Café;1234567890123;"Headphones; black\nwireless";1.250;1.299,99',
+        '',
+        'B07XJ8C8F5;Acme;9876543210987;Speaker;abc;12,5',
+      ].join('\r\n');
+      const file = textFile('delivery.csv', Buffer.from(content, 'latin1'));
+
+      const sheet = await service.readSheet(file, ImportProfileTarget.DELIVERY, undefined, {
+        text: {
+          delimiter: ImportDelimiter.SEMICOLON,
+          encoding: ImportEncoding.WINDOWS_1252,
+          decimalSeparator: ImportDecimalSeparator.COMMA,
+        },
+      });
+
+      expect(sheet.rows).toEqual([
+        {
+          ASIN: 'B08N5WRWNW',
+          'Brand Name': 'Café',
+          'Model Number': '1234567890123',
+          Title: 'Headphones; black\nwireless',
+          'Delivered Quantity': 1250,
+          'Unit Price': 1299.99,
+        },
+        {
+          ASIN: 'B07XJ8C8F5',
+          'Brand Name': 'Acme',
+          'Model Number': '9876543210987',
+          Title: 'Speaker',
+          'Delivered Quantity': 'abc',
+          'Unit Price': 12.5,
+        },
+      ]);
+      // The quoted title spans lines 2-3 and line 4 is blank
+      expect(sheet.rowNumbers).toEqual([2, 5]);
+    });
+
+    it('should strip a UTF-8 byte order mark and detect the delimiter', async () => {
+      const content = [deliveryHeaders.join(','), deliveryRow.join(',')].join('\n');
+      const file = textFile(
+        'delivery.csv',
+        Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(content)]),
+      );
+
+      const sheet = await service.readSheet(file, ImportProfileTarget.DELIVERY);
+
+      expect(sheet.rows[0]).toMatchObject({ ASIN: 'B08N5WRWNW', 'Unit Price': 299.99 });
+    });
+
+    it('should read TSV files and name their only sheet after the file', async () => {
+      const content = [deliveryHeaders.join('\t'), deliveryRow.join('\t')].join('\n');
+      const file = textFile('acme-delivery.tsv', Buffer.from(content));
+
+      const sheets = await service.readAllSheets(file, ImportProfileTarget.DELIVERY);
+
+      expect(sheets).toHaveLength(1);
+      expect(sheets[0].sheetName).toBe('acme-delivery');
+      expect(sheets[0].sheet?.rows[0]).toMatchObject({ Title: 'Headphones', 'Delivered Quantity': 25 });
+    });
+
+    it('should convert dates in the given format and keep invalid ones for row validation', async () => {
+      const content = [
+        'ASIN,Brand Name,Model Number,Title,Requesting Date,Quantity Requested,Unit Cost',
+        'B08N5WRWNW,Sony,1234567890123,Headphones,15.01.2024,5,10',
+        'B07XJ8C8F5,Sony,9876543210987,Speaker,31.02.2024,5,10',
+      ].join('\n');
+      const file = textFile('order.csv', Buffer.from(content));
+
+      const sheet = await service.readSheet(file, ImportProfileTarget.ORDER, undefined, {
+        text: { dateFormat: ImportDateFormat.DAY_MONTH_YEAR_DOTS },
+      });
+
+      expect(sheet.rows.map((row) => row['Requesting Date'])).toEqual(['2024-01-15', '31.02.2024']);
+    });
+
+    it('should reject files that are not valid in the expected encoding', async () => {
+      const file = textFile('delivery.csv', Buffer.from('ASIN,Brand Name\nB08N5WRWNW,Caf\xe9', 'latin1'));
+
+      await expect(service.readSheet(file, ImportProfileTarget.DELIVERY)).rejects.toThrow(
+        'CSV file is not valid utf-8 text',
+      );
+    });
+
+    it('should reject an unterminated quoted field', async () => {
+      const file = textFile('delivery.csv', Buffer.from(`${deliveryHeaders.join(',')}\nB08N5WRWNW,"Sony`));
+
+      await expect(service.readSheet(file, ImportProfileTarget.DELIVERY)).rejects.toThrow(
+        'Line 2: Quoted field is not closed',
+      );
+    });
+
+    it('should name the file type in missing column errors', async () => {
+      const file = textFile('delivery.csv', Buffer.from('ASIN,Title\nB08N5WRWNW,Headphones'));
+
+      await expect(service.readSheet(file, ImportProfileTarget.DELIVERY)).rejects.toThrow(
+        /^Missing required columns in CSV file: 'Brand Name'/,
+      );
+    });
+  });
+
+  describe('annotateUpload', () => {
+    const issue = (overrides: Partial<ImportIssue>): ImportIssue => ({
+      row: 2,
+      column: 'C',
+      field: 'Model Number',
+      code: 'INVALID_MODEL_NUMBER',
+      value: '12345',
+      severity: 'error',
+      message: 'Model number "12345" must be exactly 13 digits (numbers only)',
+      suggestion: 'Enter the 13-digit model number',
+      ...overrides,
+    });
+
+    it('should highlight and comment the offending cells and list the issues of each row', async () => {
+      const file = workbookFile({
+        Cover: [['Summary']],
+        Items: [deliveryHeaders, [...deliveryRow.slice(0, 2), '12345', ...deliveryRow.slice(3)]],
+      });
+      mockImportProfileRepository.findOne.mockResolvedValue(profile({ sheetName: 'Items' }));
+
+      const buffer = await service.annotateUpload(
+        file,
+        ImportProfileTarget.DELIVERY,
+        [
+          issue({}),
+          issue({
+            column: 'B',
+            field: 'Brand Name',
+            code: 'BRAND_NAME_MISMATCH',
+            severity: 'warning',
+            message: 'Brand name differs',
+            suggestion: null,
+          }),
+        ],
+        'profile-1',
+      );
+
+      const workbook = XLSX.read(buffer, { type: 'buffer', cellStyles: true });
+      const worksheet = workbook.Sheets['Items'];
+      expect(workbook.SheetNames).toEqual(['Cover', 'Items']);
+      expect(worksheet['G1'].v).toBe('Import Issues');
+      expect(worksheet['G2'].v).toBe(
+        'ERROR: Model number "12345" must be exactly 13 digits (numbers only). Enter the 13-digit model number.\n' +
+        'WARNING: Brand name differs',
+      );
+      expect(worksheet['C2'].c?.[0].t).toBe(
+        'Model number "12345" must be exactly 13 digits (numbers only). Enter the 13-digit model number.',
+      );
+      expect(worksheet['B2'].c?.[0].t).toBe('Brand name differs');
+      expect(worksheet['C2'].s).toEqual(expect.objectContaining({ fgColor: { rgb: 'FFC7CE' } }));
+      expect(worksheet['B2'].s).toEqual(expect.objectContaining({ fgColor: { rgb: 'FFEB9C' } }));
+      expect(worksheet['A2'].s).toEqual({ patternType: 'none' });
+    });
+
+    it('should place CSV issues on the record that starts on the reported line', async () => {
+      const content = [
+        deliveryHeaders.join(','),
+        'B08N5WRWNW,Sony,1234567890123,"Head\nphones",25,299.99',
+        'B07XJ8C8F5,Sony,,Speaker,1,10',
+      ].join('\n');
+      const file = textFile('delivery.csv', Buffer.from(content));
+
+      const buffer = await service.annotateUpload(file, ImportProfileTarget.DELIVERY, [
+        issue({ row: 4, code: 'MISSING_VALUE', value: null, message: 'Missing required field: Model Number', suggestion: null }),
+      ]);
+
+      const worksheet = XLSX.read(buffer, { type: 'buffer', cellStyles: true }).Sheets['delivery'];
+      expect(worksheet['A3'].v).toBe('B07XJ8C8F5');
+      expect(worksheet['C3'].c?.[0].t).toBe('Missing required field: Model Number');
+      expect(worksheet['C3'].s).toEqual(expect.objectContaining({ fgColor: { rgb: 'FFC7CE' } }));
+      expect(worksheet['G3'].v).toBe('ERROR: Missing required field: Model Number');
+      expect(worksheet['G2']).toBeUndefined();
+    });
+  });
+
+  describe('create', () => {
+    it('should upper-case column letters', async () => {
+      mockImportProfileRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.create(
+        {
+          name: 'Acme',
+          target: ImportProfileTarget.ORDER,
+          columnMappings: { 'Unit Cost': { column: 'g' } },
+        },
+        mockUser,
+      );
+
+      expect(result.columnMappings).toEqual({ 'Unit Cost': { column: 'G' } });
+    });
+
+    it('should reject columns that do not belong to the import', async () => {
+      mockImportProfileRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          {
+            name: 'Acme',
+            target: ImportProfileTarget.ORDER,
+            columnMappings: { 'Unit Price': { headers: ['Preis'] } },
+          },
+          mockUser,
+        ),
+      ).rejects.toThrow("'Unit Price' is not a column of order imports");
+    });
+
+    it('should reject duplicate names', async () => {
+      mockImportProfileRepository.findOne.mockResolvedValue(profile({}));
+
+      await expect(
+        service.create(
+          { name: 'Acme', target: ImportProfileTarget.ORDER, columnMappings: {} },
+          mockUser,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
@@ -0,0 +1,791 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as XLSX from 'xlsx';
+import * as XLSXStyle from 'xlsx-js-style';
+import * as path from 'path';
+import {
+  ImportProfile,
+  ImportProfileTarget,
+} from './entities/import-profile.entity';
+import { CreateImportProfileDto } from './dto/create-import-profile.dto';
+import { UpdateImportProfileDto } from './dto/update-import-profile.dto';
+import { GetImportProfilesDto } from './dto/get-import-profiles.dto';
+import {
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportDelimiter,
+  ImportEncoding,
+  ImportFileFormat,
+} from './dto/text-import-options.dto';
+import { ImportIssue, ImportIssueSeverity } from './interfaces/import-issue.interface';
+import {
+  ImportColumnMapping,
+  ImportColumnMappings,
+  MappedSheet,
+  NamedSheet,
+  ReadSheetOptions,
+  TextImportOptions,
+} from './interfaces/import-profile.interface';
+import { User } from '../users/entities/user.entity';
+
+/**
+ * Canonical columns of each import. Row readers address cells by these names
+ * whatever the supplier's sheet calls them.
+ */
+export const IMPORT_COLUMNS: Record<ImportProfileTarget, string[]> = {
+  [ImportProfileTarget.ORDER]: [
+    'ASIN',
+    'Brand Name',
+    'Model Number',
+    'Title',
+    'Requesting Date',
+    'Quantity Requested',
+    'Unit Cost',
+  ],
+  [ImportProfileTarget.DELIVERY]: [
+    'ASIN',
+    'Brand Name',
+    'Model Number',
+    'Title',
+    'Delivered Quantity',
+    'Unit Price',
+  ],
+};
+
+/**
+ * Columns read when present but not required by default
+ */
+export const OPTIONAL_IMPORT_COLUMNS: Record<ImportProfileTarget, string[]> = {
+  [ImportProfileTarget.ORDER]: ['PO Number'],
+  [ImportProfileTarget.DELIVERY]: [],
+};
+
+/**
+ * Columns converted from locale-formatted text when read from CSV files.
+ * Excel cells carry their own number and date types.
+ */
+const NUMERIC_IMPORT_COLUMNS = [
+  'Quantity Requested',
+  'Unit Cost',
+  'Delivered Quantity',
+  'Unit Price',
+];
+const DATE_IMPORT_COLUMNS = ['Requesting Date'];
+
+/**
+ * Fills of cells with an issue in an annotated upload, the colours of
+ * Excel's "Bad" and "Neutral" cell styles
+ */
+const ISSUE_CELL_STYLES: Record<ImportIssueSeverity, XLSXStyle.CellStyle> = {
+  error: { fill: { patternType: 'solid', fgColor: { rgb: 'FFC7CE' } } },
+  warning: { fill: { patternType: 'solid', fgColor: { rgb: 'FFEB9C' } } },
+};
+
+const DELIMITERS: Record<ImportDelimiter, string> = {
+  [ImportDelimiter.COMMA]: ',',
+  [ImportDelimiter.SEMICOLON]: ';',
+  [ImportDelimiter.TAB]: '\t',
+  [ImportDelimiter.PIPE]: '|',
+};
+
+/** One row of the source file with its 1-based row (or line) number */
+interface SourceRow {
+  cells: unknown[];
+  rowNumber: number;
+}
+
+@Injectable()
+export class ImportProfilesService {
+  constructor(
+    @InjectRepository(ImportProfile)
+    private importProfileRepository: Repository<ImportProfile>,
+  ) { }
+
+  async create(
+    createImportProfileDto: CreateImportProfileDto,
+    user: User,
+  ): Promise<ImportProfile> {
+    await this.validateNameUniqueness(createImportProfileDto.name);
+
+    const profile = this.importProfileRepository.create({
+      ...createImportProfileDto,
+      columnMappings: this.validateColumnMappings(
+        createImportProfileDto.target,
+        createImportProfileDto.columnMappings,
+      ),
+      createdBy: { id: user.id } as User,
+    });
+
+    return this.importProfileRepository.save(profile);
+  }
+
+  async findAll(query: GetImportProfilesDto): Promise<ImportProfile[]> {
+    return this.importProfileRepository.find({
+      where: query.target ? { target: query.target } : {},
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string): Promise<ImportProfile> {
+    const profile = await this.importProfileRepository.findOne({
+      where: { id },
+    });
+
+    if (!profile) {
+      throw new NotFoundException('Import profile not found');
+    }
+
+    return profile;
+  }
+
+  async update(
+    id: string,
+    updateImportProfileDto: UpdateImportProfileDto,
+  ): Promise<ImportProfile> {
+    const profile = await this.findOne(id);
+
+    if (updateImportProfileDto.name && updateImportProfileDto.name !== profile.name) {
+      await this.validateNameUniqueness(updateImportProfileDto.name);
+    }
+
+    // Existing mappings must still fit when only the target changes
+    const target = updateImportProfileDto.target ?? profile.target;
+    const columnMappings = this.validateColumnMappings(
+      target,
+      updateImportProfileDto.columnMappings ?? profile.columnMappings,
+    );
+
+    return this.importProfileRepository.save({
+      ...profile,
+      ...updateImportProfileDto,
+      columnMappings,
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+    await this.importProfileRepository.delete(id);
+  }
+
+  /**
+   * Reads an uploaded workbook or CSV/TSV file and returns its rows keyed by
+   * canonical column name. Without a profile the first sheet is read, the
+   * header row is row 1 and columns are found by their canonical names.
+   * @throws BadRequestException if the sheet is missing, empty or lacks a required column
+   */
+  async readSheet<T = Record<string, unknown>>(
+    file: Express.Multer.File,
+    target: ImportProfileTarget,
+    profileId?: string,
+    options: ReadSheetOptions = {},
+  ): Promise<MappedSheet<T>> {
+    const profile = await this.findProfileFor(target, profileId);
+    const format = this.detectFormat(file, options.text);
+
+    if (format !== ImportFileFormat.XLSX) {
+      return this.mapRows(
+        this.readDelimitedFile(file, format, options.text),
+        target,
+        profile,
+        options,
+        format,
+      ) as MappedSheet<T>;
+    }
+
+    const workbook = XLSX.read(file.buffer, { type: 'buffer' });
+
+    return this.mapRows(
+      this.readWorksheet(this.selectWorksheet(workbook, profile)),
+      target,
+      profile,
+      options,
+      format,
+    ) as MappedSheet<T>;
+  }
+
+  /**
+   * Reads every sheet of an uploaded workbook with the profile's header row
+   * and column mappings; the profile's sheet selection is ignored. Sheets that
+   * cannot be mapped are returned with the reason instead of failing the file.
+   * A CSV/TSV file is a single sheet named after the file.
+   */
+  async readAllSheets<T = Record<string, unknown>>(
+    file: Express.Multer.File,
+    target: ImportProfileTarget,
+    profileId?: string,
+    options: ReadSheetOptions = {},
+  ): Promise<NamedSheet<T>[]> {
+    const profile = await this.findProfileFor(target, profileId);
+    const format = this.detectFormat(file, options.text);
+
+    let sources: { sheetName: string; rows: SourceRow[] }[];
+    if (format === ImportFileFormat.XLSX) {
+      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
+      sources = workbook.SheetNames.map((sheetName) => ({
+        sheetName,
+        rows: this.readWorksheet(workbook.Sheets[sheetName]),
+      }));
+    } else {
+      sources = [
+        {
+          sheetName: this.textSheetName(file),
+          rows: this.readDelimitedFile(file, format, options.text),
+        },
+      ];
+    }
+
+    return sources.map(({ sheetName, rows }) => {
+      try {
+        const sheet = this.mapRows(
+          rows,
+          target,
+          profile,
+          options,
+          format,
+        ) as MappedSheet<T>;
+        return { sheetName, sheet, error: null };
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        return { sheetName, sheet: null, error: error.message };
+      }
+    });
+  }
+
+  /**
+   * Returns a copy of an upload with the given issues marked, so it can be
+   * fixed and submitted again. Cells with a problem are filled red for errors
+   * or yellow for warnings and get a comment holding the message and
+   * suggestion, and an "Import Issues" column after the data lists every
+   * issue of the row. CSV files come back as a one-sheet workbook.
+   */
+  async annotateUpload(
+    file: Express.Multer.File,
+    target: ImportProfileTarget,
+    issues: ImportIssue[],
+    profileId?: string,
+    options: ReadSheetOptions = {},
+  ): Promise<Buffer> {
+    const profile = await this.findProfileFor(target, profileId);
+    const format = this.detectFormat(file, options.text);
+
+    let workbook: XLSX.WorkBook;
+    let worksheet: XLSX.WorkSheet;
+    // Maps an issue's row number to the zero-based sheet row
+    let sheetRowIndex: (rowNumber: number) => number;
+
+    if (format === ImportFileFormat.XLSX) {
+      workbook = XLSX.read(file.buffer, { type: 'buffer' });
+      worksheet = this.selectWorksheet(workbook, profile);
+      sheetRowIndex = (rowNumber) => rowNumber - 1;
+    } else {
+      // CSV rows are numbered by line, which differs from the record index
+      // once a quoted field spans several lines
+      const sourceRows = this.readDelimitedFile(file, format, options.text);
+      const indexes = new Map(sourceRows.map(({ rowNumber }, index) => [rowNumber, index]));
+
+      worksheet = XLSX.utils.aoa_to_sheet(sourceRows.map(({ cells }) => cells));
+      workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, this.textSheetName(file));
+      sheetRowIndex = (rowNumber) => indexes.get(rowNumber) ?? rowNumber - 1;
+    }
+
+    const range = XLSX.utils.decode_range(worksheet['!ref'] ?? 'A1');
+    const headerRowIndex = (profile?.headerRow ?? 1) - 1;
+    const issuesColumn = range.e.c + 1;
+
+    worksheet[XLSX.utils.encode_cell({ r: headerRowIndex, c: issuesColumn })] = {
+      t: 's',
+      v: 'Import Issues',
+    };
+
+    const issuesByRow = new Map<number, ImportIssue[]>();
+    issues.forEach((issue) => {
+      issuesByRow.set(issue.row, [...(issuesByRow.get(issue.row) ?? []), issue]);
+    });
+
+    issuesByRow.forEach((rowIssues, rowNumber) => {
+      const rowIndex = sheetRowIndex(rowNumber);
+
+      rowIssues
+        .filter((issue) => issue.column)
+        .forEach((issue) => {
+          const address = XLSX.utils.encode_cell({
+            r: rowIndex,
+            c: XLSX.utils.decode_col(issue.column!),
+          });
+          // Missing values have no cell yet; a stub cell can still carry a comment
+          const cell = (worksheet[address] as XLSX.CellObject | undefined) ?? { t: 'z' };
+          cell.c = [...(cell.c ?? []), { a: 'Import', t: this.describeIssue(issue) }];
+          // An error outranks a warning on the same cell
+          if (cell.s !== ISSUE_CELL_STYLES.error) {
+            cell.s = ISSUE_CELL_STYLES[issue.severity];
+          }
+          worksheet[address] = cell;
+        });
+
+      worksheet[XLSX.utils.encode_cell({ r: rowIndex, c: issuesColumn })] = {
+        t: 's',
+        v: rowIssues
+          .map((issue) => `${issue.severity.toUpperCase()}: ${this.describeIssue(issue)}`)
+          .join('\n'),
+      };
+      range.e.r = Math.max(range.e.r, rowIndex);
+    });
+
+    range.e.c = issuesColumn;
+    range.e.r = Math.max(range.e.r, headerRowIndex);
+    worksheet['!ref'] = XLSX.utils.encode_range(range);
+
+    // The community edition of SheetJS drops cell styles when writing
+    return XLSXStyle.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+
+  private async findProfileFor(
+    target: ImportProfileTarget,
+    profileId?: string,
+  ): Promise<ImportProfile | null> {
+    const profile = profileId ? await this.findOne(profileId) : null;
+
+    if (profile && profile.target !== target) {
+      throw new BadRequestException(
+        `Import profile "${profile.name}" is for ${profile.target} imports, not ${target} imports`,
+      );
+    }
+
+    return profile;
+  }
+
+  private mapRows(
+    sourceRows: SourceRow[],
+    target: ImportProfileTarget,
+    profile: ImportProfile | null,
+    { requiredColumns = [], text = {} }: ReadSheetOptions,
+    format: ImportFileFormat,
+  ): MappedSheet {
+    const fileLabel =
+      format === ImportFileFormat.XLSX ? 'Excel file' : `${format.toUpperCase()} file`;
+
+    const headerRow = profile?.headerRow ?? 1;
+    const headers = Array.from(sourceRows[headerRow - 1]?.cells ?? [], (value) =>
+      this.normalizeHeader(value),
+    );
+    const dataRows = sourceRows.slice(headerRow);
+
+    if (dataRows.every(({ cells }) => this.isBlankRow(cells))) {
+      throw new BadRequestException(`${fileLabel} is empty`);
+    }
+
+    const columns = [...IMPORT_COLUMNS[target], ...requiredColumns];
+    const columnIndexes = new Map<string, number>();
+    const missingColumns: string[] = [];
+
+    [...IMPORT_COLUMNS[target], ...OPTIONAL_IMPORT_COLUMNS[target]].forEach((column) => {
+      const index = this.resolveColumnIndex(
+        column,
+        profile?.columnMappings[column],
+        headers,
+      );
+      if (index !== -1) {
+        columnIndexes.set(column, index);
+      } else if (columns.includes(column)) {
+        missingColumns.push(column);
+      }
+    });
+
+    if (missingColumns.length > 0) {
+      const missingColumnsText = missingColumns.map((col) => `'${col}'`).join(', ');
+      const profileText = profile ? ` or map them in import profile "${profile.name}"` : '';
+
+      throw new BadRequestException(
+        `Missing required columns in ${fileLabel}: ${missingColumnsText}. ` +
+        `Please ensure your ${fileLabel} contains all required columns: ${columns.join(', ')}${profileText}.`,
+      );
+    }
+
+    const columnLetters: Record<string, string> = {};
+    columnIndexes.forEach((columnIndex, column) => {
+      columnLetters[column] = XLSX.utils.encode_col(columnIndex);
+    });
+
+    const sheet: MappedSheet = { rows: [], rowNumbers: [], columnLetters };
+    dataRows.forEach(({ cells, rowNumber }) => {
+      if (this.isBlankRow(cells)) {
+        return;
+      }
+
+      const row: Record<string, unknown> = {};
+      columnIndexes.forEach((columnIndex, column) => {
+        const value = cells[columnIndex];
+        if (format !== ImportFileFormat.XLSX) {
+          // Empty CSV fields count as missing, like empty Excel cells
+          if (typeof value === 'string' && value.trim() !== '') {
+            row[column] = this.parseTextValue(column, value, text);
+          }
+        } else if (value !== undefined) {
+          row[column] = value;
+        }
+      });
+
+      sheet.rows.push(row);
+      sheet.rowNumbers.push(rowNumber);
+    });
+
+    return sheet;
+  }
+
+  /**
+   * Picks the profile's sheet, or the first sheet without a profile
+   * @throws BadRequestException if the workbook has no such sheet
+   */
+  private selectWorksheet(
+    workbook: XLSX.WorkBook,
+    profile: ImportProfile | null,
+  ): XLSX.WorkSheet {
+    const sheetName =
+      profile?.sheetName ?? workbook.SheetNames[profile?.sheetIndex ?? 0];
+    const worksheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+
+    if (!worksheet) {
+      throw new BadRequestException(
+        profile?.sheetName
+          ? `Sheet "${profile.sheetName}" not found in Excel file`
+          : `Sheet ${(profile?.sheetIndex ?? 0) + 1} not found in Excel file`,
+      );
+    }
+
+    return worksheet;
+  }
+
+  private readWorksheet(worksheet: XLSX.WorkSheet): SourceRow[] {
+    if (!worksheet['!ref']) {
+      return [];
+    }
+
+    // Read from A1 with blank rows kept, so array positions are sheet coordinates
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    range.s = { r: 0, c: 0 };
+    const cells = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+      header: 1,
+      range: XLSX.utils.encode_range(range),
+      blankrows: true,
+    });
+
+    return cells.map((rowCells, index) => ({
+      cells: rowCells ?? [],
+      rowNumber: index + 1,
+    }));
+  }
+
+  private textSheetName(file: Express.Multer.File): string {
+    return path.parse(file.originalname ?? '').name || 'Sheet1';
+  }
+
+  private describeIssue(issue: ImportIssue): string {
+    return issue.suggestion ? `${issue.message}. ${issue.suggestion}.` : issue.message;
+  }
+
+  /**
+   * Works out whether an upload is a workbook or delimited text. An explicit
+   * format wins over the file extension, which wins over the MIME type.
+   */
+  private detectFormat(
+    file: Express.Multer.File,
+    text: TextImportOptions = {},
+  ): ImportFileFormat {
+    if (text.format) {
+      return text.format;
+    }
+
+    const extension = path.extname(file.originalname ?? '').toLowerCase();
+    if (['.xlsx', '.xls'].includes(extension)) {
+      return ImportFileFormat.XLSX;
+    }
+    if (['.tsv', '.tab'].includes(extension) || file.mimetype === 'text/tab-separated-values') {
+      return ImportFileFormat.TSV;
+    }
+    if (
+      ['.csv', '.txt'].includes(extension) ||
+      ['text/csv', 'application/csv', 'text/plain'].includes(file.mimetype)
+    ) {
+      return ImportFileFormat.CSV;
+    }
+
+    return ImportFileFormat.XLSX;
+  }
+
+  /**
+   * Decodes and splits a CSV/TSV upload. Quoted fields may contain
+   * delimiters, doubled quotes and line breaks; rows are numbered by the line
+   * they start on.
+   * @throws BadRequestException if the file does not decode or has an unterminated quote
+   */
+  private readDelimitedFile(
+    file: Express.Multer.File,
+    format: ImportFileFormat,
+    text: TextImportOptions = {},
+  ): SourceRow[] {
+    const content = this.decodeText(file.buffer, format, text.encoding);
+    const delimiter = text.delimiter
+      ? DELIMITERS[text.delimiter]
+      : format === ImportFileFormat.TSV
+        ? '\t'
+        : this.detectDelimiter(content);
+
+    const rows: SourceRow[] = [];
+    let cells: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) {
+            line++;
+          }
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        cells.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        cells.push(field);
+        rows.push({ cells, rowNumber: rowLine });
+        cells = [];
+        field = '';
+        line++;
+        rowLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new BadRequestException(
+        `Line ${rowLine}: Quoted field is not closed`,
+      );
+    }
+
+    // No trailing line break after the last row
+    if (field !== '' || cells.length > 0) {
+      cells.push(field);
+      rows.push({ cells, rowNumber: rowLine });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Decodes file bytes. Without an explicit encoding a byte order mark is
+   * honoured and UTF-8 is assumed otherwise; the BOM itself is dropped.
+   */
+  private decodeText(
+    buffer: Buffer,
+    format: ImportFileFormat,
+    encoding?: ImportEncoding,
+  ): string {
+    const byteOrderMark =
+      buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf
+        ? ImportEncoding.UTF8
+        : buffer[0] === 0xff && buffer[1] === 0xfe
+          ? ImportEncoding.UTF16LE
+          : undefined;
+    const resolvedEncoding = encoding ?? byteOrderMark ?? ImportEncoding.UTF8;
+
+    try {
+      return new TextDecoder(resolvedEncoding, { fatal: true }).decode(buffer);
+    } catch {
+      throw new BadRequestException(
+        `${format.toUpperCase()} file is not valid ${resolvedEncoding} text. ` +
+        `Please set the encoding of the file, e.g. ${ImportEncoding.WINDOWS_1252}.`,
+      );
+    }
+  }
+
+  /**
+   * Picks the candidate delimiter occurring most often in the first lines
+   */
+  private detectDelimiter(content: string): string {
+    const sample = content.split(/\r\n|\n|\r/, 5).join('\n');
+    let delimiter = ',';
+    let highestCount = 0;
+
+    Object.values(DELIMITERS).forEach((candidate) => {
+      const count = sample.split(candidate).length - 1;
+      if (count > highestCount) {
+        delimiter = candidate;
+        highestCount = count;
+      }
+    });
+
+    return delimiter;
+  }
+
+  /**
+   * Converts locale-formatted numbers and dates of CSV fields. Values that do
+   * not match the expected format are returned unchanged so that row
+   * validation reports them.
+   */
+  private parseTextValue(
+    column: string,
+    value: string,
+    { decimalSeparator = ImportDecimalSeparator.DOT, dateFormat }: TextImportOptions,
+  ): unknown {
+    const trimmed = value.trim();
+
+    if (NUMERIC_IMPORT_COLUMNS.includes(column)) {
+      const [decimal, thousands] =
+        decimalSeparator === ImportDecimalSeparator.COMMA ? [',', '.'] : ['.', ','];
+      const compact = trimmed.replace(/[\s\u00a0]/g, '');
+      const pattern = new RegExp(
+        `^-?(\\d+|\\d{1,3}(\\${thousands}\\d{3})+)(\\${decimal}\\d+)?$`,
+      );
+
+      return pattern.test(compact)
+        ? Number(compact.split(thousands).join('').replace(decimal, '.'))
+        : value;
+    }
+
+    if (DATE_IMPORT_COLUMNS.includes(column) && dateFormat && dateFormat !== ImportDateFormat.ISO) {
+      const separator = dateFormat === ImportDateFormat.DAY_MONTH_YEAR_DOTS ? '.' : '/';
+      const parts = trimmed.split(separator);
+      if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) {
+        return value;
+      }
+
+      const [day, month, year] =
+        dateFormat === ImportDateFormat.MONTH_DAY_YEAR_SLASHES
+          ? [parts[1], parts[0], parts[2]]
+          : parts;
+      const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+
+      // Rejects days that roll over into the next month, e.g. 31.02.2024
+      return year.length === 4 &&
+        date.getUTCMonth() === Number(month) - 1 &&
+        date.getUTCDate() === Number(day)
+        ? date.toISOString().split('T')[0]
+        : value;
+    }
+
+    return value;
+  }
+
+  /**
+   * Finds the zero-based sheet column for a canonical column. A mapped column
+   * letter is used as is; otherwise the header row is searched for the mapped
+   * aliases and the canonical name itself.
+   * @returns -1 when the column cannot be found
+   */
+  private resolveColumnIndex(
+    column: string,
+    mapping: ImportColumnMapping | undefined,
+    headers: string[],
+  ): number {
+    if (mapping?.column) {
+      return XLSX.utils.decode_col(mapping.column);
+    }
+
+    const candidates = [...(mapping?.headers ?? []), column].map((header) =>
+      this.normalizeHeader(header),
+    );
+
+    return headers.findIndex((header) => header !== '' && candidates.includes(header));
+  }
+
+  /**
+   * Validates column mappings against the import's canonical columns
+   * @returns the mappings with column letters upper-cased
+   * @throws BadRequestException for unknown columns or malformed mappings
+   */
+  private validateColumnMappings(
+    target: ImportProfileTarget,
+    columnMappings: ImportColumnMappings,
+  ): ImportColumnMappings {
+    const columns = [...IMPORT_COLUMNS[target], ...OPTIONAL_IMPORT_COLUMNS[target]];
+    const errors: string[] = [];
+    const normalized: ImportColumnMappings = {};
+
+    Object.entries(columnMappings).forEach(([column, mapping]) => {
+      if (!columns.includes(column)) {
+        errors.push(`'${column}' is not a column of ${target} imports`);
+        return;
+      }
+
+      if (!mapping || typeof mapping !== 'object') {
+        errors.push(`'${column}' must map to an object with headers and/or a column letter`);
+        return;
+      }
+
+      const { headers, column: letter } = mapping;
+
+      if (
+        headers !== undefined &&
+        (!Array.isArray(headers) ||
+          headers.some((header) => typeof header !== 'string' || !header.trim()))
+      ) {
+        errors.push(`'${column}' headers must be a list of non-empty strings`);
+      }
+
+      if (letter !== undefined && (typeof letter !== 'string' || !/^[A-Za-z]{1,3}$/.test(letter))) {
+        errors.push(`'${column}' column must be a column letter such as "C"`);
+      }
+
+      normalized[column] = {
+        ...(headers !== undefined && { headers }),
+        ...(letter !== undefined && { column: String(letter).toUpperCase() }),
+      };
+    });
+
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid column mappings: ${errors.join('; ')}`);
+    }
+
+    return normalized;
+  }
+
+  private async validateNameUniqueness(name: string): Promise<void> {
+    const existingProfile = await this.importProfileRepository.findOne({
+      where: { name },
+    });
+
+    if (existingProfile) {
+      throw new ConflictException('Import profile with this name already exists');
+    }
+  }
+
+  private normalizeHeader(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    return String(value as string | number | boolean)
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, ' ');
+  }
+
+  private isBlankRow(row: unknown[] | undefined): boolean {
+    return !row || row.every((value) => value === undefined || value === null || value === '');
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportProfilesController } from './import-profiles.controller';
+import { ImportProfile } from './entities/import-profile.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ImportProfile])],
+  controllers: [ImportProfilesController],
+  providers: [ImportProfilesService],
+  exports: [ImportProfilesService],
+})
+export class ImportsModule {}
@@ -0,0 +1,40 @@
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export type ImportIssueCode =
+  | 'MISSING_VALUE'
+  | 'INVALID_MODEL_NUMBER'
+  | 'INVALID_QUANTITY'
+  | 'INVALID_PRICE'
+  | 'INVALID_DATE'
+  | 'VALUE_TOO_LONG'
+  | 'NO_MATCHING_ORDER_ITEM'
+  | 'QUANTITY_EXCEEDS_REMAINING'
+  | 'BRAND_NAME_MISMATCH'
+  | 'INVALID_ROW';
+
+/**
+ * One problem found in an uploaded row. Errors keep the row from being
+ * imported; warnings are informational and the row is imported anyway.
+ */
+export interface ImportIssue {
+  /** Spreadsheet row number, or line number of a CSV file */
+  row: number;
+  /** Column letter in the uploaded sheet, e.g. "C"; null when not tied to one cell */
+  column: string | null;
+  /** Canonical column name, e.g. 'Model Number' */
+  field: string | null;
+  code: ImportIssueCode;
+  /** The offending cell value as read from the file */
+  value: string | number | boolean | null;
+  severity: ImportIssueSeverity;
+  message: string;
+  suggestion: string | null;
+}
+
+/** What a row validator knows about a problem, before it is placed on the sheet */
+export interface ImportIssueDetails {
+  code: ImportIssueCode;
+  field?: string;
+  value?: unknown;
+  suggestion?: string;
+}
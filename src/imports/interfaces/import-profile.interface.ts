@@ -0,0 +1,52 @@
+import {
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportDelimiter,
+  ImportEncoding,
+  ImportFileFormat,
+} from '../dto/text-import-options.dto';
+
+/**
+ * Where to find one canonical column in a supplier sheet. Headers are matched
+ * case-insensitively; a column letter (e.g. "C") wins over headers when set.
+ */
+export interface ImportColumnMapping {
+  headers?: string[];
+  column?: string;
+}
+
+/** Keyed by canonical column name, e.g. 'Quantity Requested' */
+export type ImportColumnMappings = Record<string, ImportColumnMapping>;
+
+/**
+ * Sheet rows keyed by canonical column name, with the spreadsheet row number
+ * (or line number of a CSV file) of each row at the same index in `rowNumbers`.
+ */
+export interface MappedSheet<T = Record<string, unknown>> {
+  rows: T[];
+  rowNumbers: number[];
+  /** Column letter each canonical column was read from, e.g. { ASIN: 'A' } */
+  columnLetters: Record<string, string>;
+}
+
+export interface NamedSheet<T = Record<string, unknown>> {
+  sheetName: string;
+  /** Null when the sheet could not be mapped, see `error` */
+  sheet: MappedSheet<T> | null;
+  error: string | null;
+}
+
+export interface ReadSheetOptions {
+  /** Optional columns the caller needs, e.g. 'PO Number' for grouping */
+  requiredColumns?: string[];
+  /** Parsing options for CSV and TSV uploads */
+  text?: TextImportOptions;
+}
+
+export interface TextImportOptions {
+  format?: ImportFileFormat;
+  delimiter?: ImportDelimiter;
+  encoding?: ImportEncoding;
+  decimalSeparator?: ImportDecimalSeparator;
+  dateFormat?: ImportDateFormat;
+}
@@ -0,0 +1,11 @@
+export type ImportProgressStage = 'parsing' | 'validating' | 'saving';
+
+/**
+ * Called by importers as they work through a file. `totalRows` is 0 until
+ * the file has been read.
+ */
+export type ImportProgressListener = (
+  stage: ImportProgressStage,
+  processedRows: number,
+  totalRows: number,
+) => void;
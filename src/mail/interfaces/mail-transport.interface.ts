@@ -0,0 +1,21 @@
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * Backend that delivers mail
+ */
+export interface MailTransport {
+  readonly name: string;
+
+  send(mail: OutgoingMail): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './interfaces/mail-transport.interface';
+import { FileMailTransport } from './transports/file-mail.transport';
+import { SmtpMailTransport, SmtpMailOptions } from './transports/smtp-mail.transport';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        if (configService.get<string>('mail.transport', 'file') === 'smtp') {
+          return new SmtpMailTransport(configService.getOrThrow<SmtpMailOptions>('mail.smtp'));
+        }
+
+        return new FileMailTransport(configService.get<string>('mail.fileDir', 'uploads/mail'));
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule { }
@@ -0,0 +1,32 @@
+import { Inject, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './interfaces/mail-transport.interface';
+
+/**
+ * Sends mail from the configured sender through the configured transport
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private transport: MailTransport,
+    private configService: ConfigService,
+  ) { }
+
+  /**
+   * @throws ServiceUnavailableException if the transport could not send it
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({
+        from: this.configService.get<string>('mail.from', 'Order Tracker <no-reply@localhost>'),
+        ...message,
+      });
+    } catch (error) {
+      this.logger.error(`Sending "${message.subject}" to ${message.to} via ${this.transport.name} failed: ${error.message}`);
+      throw new ServiceUnavailableException('Email could not be sent, please try again later');
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { randomUUID } from 'crypto';
+import { OutgoingMail } from './interfaces/mail-transport.interface';
+
+/**
+ * Builds the RFC 5322 text of a mail. Bodies are base64 encoded, so no line
+ * is too long or starts with a dot, whatever the content.
+ */
+export function formatMail(mail: OutgoingMail, date = new Date()): string {
+  const domain = addressOf(mail.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!mail.html) {
+    return [...headers, ...bodyPart('text/plain', mail.text)].join('\r\n');
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...bodyPart('text/plain', mail.text),
+    `--${boundary}`,
+    ...bodyPart('text/html', mail.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * The bare address of `Name <address>` or `address`
+ */
+export function addressOf(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function bodyPart(contentType: string, content: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) ?? []),
+    '',
+  ];
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
@@ -0,0 +1,31 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { MailTransport, OutgoingMail } from '../interfaces/mail-transport.interface';
+import { formatMail } from '../mime';
+
+/**
+ * Delivers nothing: writes each mail to a directory as an .eml file, for
+ * local development and tests. Env validation refuses it in production.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    const filePath = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+    await fs.promises.writeFile(filePath, formatMail(mail));
+
+    // Not the body: it holds one-time links
+    this.logger.log(`Mail to ${mail.to}: "${mail.subject}" (${filePath})`);
+  }
+}
@@ -0,0 +1,120 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { SmtpMailTransport } from './smtp-mail.transport';
+
+/**
+ * A scripted SMTP server on a random local port that records what it receives
+ */
+function startServer(options: { auth?: boolean; rejectRecipient?: boolean } = {}) {
+  const received: string[] = [];
+  let data = '';
+
+  const server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = '';
+    socket.write('220 test ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        received.push(line);
+        const verb = line.split(' ')[0];
+        if (verb === 'EHLO') {
+          socket.write(options.auth ? '250-test\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n' : '250-test\r\n250 8BITMIME\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 ok\r\n');
+        } else if (verb === 'RCPT' && options.rejectRecipient) {
+          socket.write('550 no such user\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ port: number; received: string[]; data: () => string; close: () => Promise<void> }>(
+    (resolve) => {
+      server.listen(0, '127.0.0.1', () => {
+        resolve({
+          port: (server.address() as AddressInfo).port,
+          received,
+          data: () => data,
+          close: () => new Promise((done) => server.close(() => done())),
+        });
+      });
+    },
+  );
+}
+
+describe('SmtpMailTransport', () => {
+  const mail = {
+    from: 'Order Tracker <no-reply@tracker.example.com>',
+    to: 'Jane <jane@example.com>',
+    subject: 'Reset your password',
+    text: 'Hello Jane',
+  };
+
+  it('should hand the mail to the server', async () => {
+    const server = await startServer();
+    try {
+      await new SmtpMailTransport({ host: '127.0.0.1', port: server.port }).send(mail);
+
+      expect(server.received).toEqual([
+        expect.stringMatching(/^EHLO /),
+        'MAIL FROM:<no-reply@tracker.example.com>',
+        'RCPT TO:<jane@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      expect(server.data()).toContain('Subject: Reset your password\r\n');
+      expect(server.data()).toContain(Buffer.from('Hello Jane').toString('base64'));
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should not send credentials over a connection without TLS', async () => {
+    // Offers AUTH but no STARTTLS, as when STARTTLS is stripped from the reply
+    const server = await startServer({ auth: true });
+    try {
+      await expect(
+        new SmtpMailTransport({ host: '127.0.0.1', port: server.port, user: 'mailer', password: 'secret' }).send(mail),
+      ).rejects.toThrow('refusing to send credentials unencrypted');
+
+      expect(server.received.some((line) => line.startsWith('AUTH'))).toBe(false);
+      expect(server.received.some((line) => line.startsWith('MAIL FROM'))).toBe(false);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should fail with the reply of the server', async () => {
+    const server = await startServer({ rejectRecipient: true });
+    try {
+      await expect(new SmtpMailTransport({ host: '127.0.0.1', port: server.port }).send(mail)).rejects.toThrow(
+        'SMTP RCPT failed: 550 no such user',
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import * as os from 'os';
+import { MailTransport, OutgoingMail } from '../interfaces/mail-transport.interface';
+import { addressOf, formatMail } from '../mime';
+
+export interface SmtpMailOptions {
+  host: string;
+  port: number;
+  /** Connect with TLS right away instead of upgrading with STARTTLS */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  timeout?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Sends mail to an SMTP server: STARTTLS when the server offers it and
+ * AUTH PLAIN when credentials are configured, which requires TLS. One
+ * connection per mail.
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpMailOptions) { }
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const connection = await SmtpConnection.open(this.options);
+
+    try {
+      await connection.expect(220);
+      let features = await connection.command(`EHLO ${os.hostname()}`, 250);
+      let encrypted = Boolean(this.options.secure);
+
+      if (!encrypted && /^STARTTLS$/im.test(features.text)) {
+        await connection.command('STARTTLS', 220);
+        await connection.startTls(this.options.host);
+        features = await connection.command(`EHLO ${os.hostname()}`, 250);
+        encrypted = true;
+      }
+
+      if (this.options.user && this.options.password) {
+        // A STARTTLS stripped from the EHLO reply must not make us send the password in the clear
+        if (!encrypted) {
+          throw new Error('SMTP server does not offer STARTTLS, refusing to send credentials unencrypted');
+        }
+        if (!/^AUTH\b/im.test(features.text)) {
+          throw new Error('SMTP server does not offer authentication');
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH');
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(mail.from)}>`, 250);
+      await connection.command(`RCPT TO:<${addressOf(mail.to)}>`, [250, 251]);
+      await connection.command('DATA', 354);
+      await connection.command(`${formatMail(mail)}\r\n.`, 250, 'DATA');
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+/**
+ * A socket that reads whole (possibly multi-line) SMTP replies
+ */
+class SmtpConnection {
+  private buffer = '';
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private readonly timeout: number) {
+    this.listen();
+  }
+
+  static open(options: SmtpMailOptions): Promise<SmtpConnection> {
+    const timeout = options.timeout ?? 30000;
+
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      const connected = options.secure ? 'secureConnect' : 'connect';
+
+      socket.setTimeout(timeout, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once('error', reject);
+      socket.once(connected, () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, timeout));
+      });
+    });
+  }
+
+  async expect(codes: number | number[], verb = 'greeting'): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!([] as number[]).concat(codes).includes(reply.code)) {
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * @param verb named in errors instead of the line, which may hold credentials or the message
+   */
+  command(line: string, codes: number | number[], verb = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, verb);
+  }
+
+  async startTls(servername: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secured = tls.connect({ socket: this.socket, servername }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+    this.socket.setTimeout(this.timeout, () => this.socket.destroy(new Error('SMTP connection timed out')));
+    this.listen();
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private listen(): void {
+    this.socket.setEncoding('utf8');
+    this.socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.deliver();
+    });
+    this.socket.on('error', (error) => this.fail(error));
+    this.socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    });
+  }
+
+  private deliver(): void {
+    if (!this.waiting) {
+      return;
+    }
+
+    const reply = this.takeReply();
+    if (reply) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else if (this.failure) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  private takeReply(): SmtpReply | null {
+    const lines: string[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n', offset);
+      if (end === -1) {
+        return null;
+      }
+
+      const line = this.buffer.slice(offset, end);
+      offset = end + 2;
+      lines.push(line.slice(4));
+
+      // "250-" continues a reply, "250 " ends it
+      if (line[3] !== '-') {
+        this.buffer = this.buffer.slice(offset);
+        return { code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') };
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.deliver();
+  }
+}
@@ -11,6 +11,9 @@ async function bootstrap() {
   const app = await NestFactory.create(AppModule);
   const configService = app.get(ConfigService);
 
+  // Lets import job workers hand back their job when PM2 stops or reloads the instance
+  app.enableShutdownHooks();
+
   // Enable CORS with multiple origins support
   const frontendUrls = configService.get('app.frontendUrl').split(',');
   app.enableCors({
@@ -42,7 +45,11 @@ async function bootstrap() {
       'Origin',
       'Access-Control-Request-Method',
       'Access-Control-Request-Headers',
+      'Idempotency-Key',
+      'If-Match',
+      'X-API-Key',
     ],
+    exposedHeaders: ['Idempotent-Replayed', 'ETag'],
     credentials: true,
     optionsSuccessStatus: 200, // Some legacy browsers choke on 204
   });
@@ -119,6 +126,15 @@ async function bootstrap() {
         },
         'JWT-auth',
       )
+      .addApiKey(
+        {
+          type: 'apiKey',
+          name: 'X-API-Key',
+          description: 'Personal API key, on routes that allow one of its scopes',
+          in: 'header',
+        },
+        'api-key',
+      )
       .addTag('Authentication', 'Authentication endpoints')
       .addTag('Users', 'User management endpoints')
       .addTag('Orders', 'Order management endpoints with Excel import')
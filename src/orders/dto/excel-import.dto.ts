@@ -1,8 +1,23 @@
-import { IsString, IsOptional, ValidateIf } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  ValidateIf,
+  IsBoolean,
+  IsEnum,
+} from 'class-validator';
 import { Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { OrderReimportSummary } from '../interfaces/order-reimport.interface';
+import { ImportIssue } from '../../imports/interfaces/import-issue.interface';
+import { TextImportOptionsDto } from '../../imports/dto/text-import-options.dto';
 
-export class ExcelImportDto {
+export enum OrderImportSplit {
+  NONE = 'none',
+  SHEET = 'sheet',
+  PO_NUMBER = 'po-number',
+}
+
+export class ExcelImportDto extends TextImportOptionsDto {
   @ApiProperty({
     example: 'ORD-2024-001',
     description:
@@ -33,6 +48,40 @@ export class ExcelImportDto {
   })
   // @IsString({ message: 'orderId must be a valid string' })
   orderId?: string;
+
+  @ApiProperty({
+    example: 'uuid-import-profile-id',
+    description:
+      'Import profile mapping the sheet columns (standard column names if not provided)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  importProfileId?: string;
+
+  @ApiProperty({
+    example: 'sheet',
+    description:
+      'Create one order per sheet or per value of the PO Number column instead of a single order',
+    enum: OrderImportSplit,
+    required: false,
+    default: OrderImportSplit.NONE,
+  })
+  @IsOptional()
+  @IsEnum(OrderImportSplit)
+  splitBy?: OrderImportSplit;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'When splitting, create all orders or none. Otherwise each order is created on its own.',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  atomic?: boolean;
 }
 
 export class ExcelImportResponseDto {
@@ -51,12 +100,26 @@ export class ExcelImportResponseDto {
   @ApiProperty({
     example: {
       orderId: 'ORD-2024-001',
-      totalItems: 150,
+      totalItems: 151,
       itemsProcessed: 150,
-      itemsSkipped: 0,
-      errors: [],
+      itemsSkipped: 1,
+      errors: ['Row 5: Model number "12345" must be exactly 13 digits (numbers only)'],
+      issues: [
+        {
+          row: 5,
+          column: 'C',
+          field: 'Model Number',
+          code: 'INVALID_MODEL_NUMBER',
+          value: '12345',
+          severity: 'error',
+          message: 'Model number "12345" must be exactly 13 digits (numbers only)',
+          suggestion:
+            'Enter the 13-digit model number and format the column as text so leading zeros are kept',
+        },
+      ],
     },
-    description: 'Import details',
+    description:
+      'Import details. `issues` holds every row problem, including warnings, with its cell and a suggestion.',
   })
   data: {
     orderId: string;
@@ -64,6 +127,7 @@ export class ExcelImportResponseDto {
     itemsProcessed: number;
     itemsSkipped: number;
     errors: string[];
+    issues: ImportIssue[];
   };
 }
 
@@ -107,6 +171,91 @@ export class ExcelPreviewResponseDto {
     itemsProcessed: number;
     itemsSkipped: number;
     errors: string[];
+    issues: ImportIssue[];
     items: any[];
   };
 }
+
+export class ExcelReimportDto extends TextImportOptionsDto {
+  @ApiProperty({
+    example: false,
+    description:
+      'Remove order lines that are missing from the file. Lines with deliveries are always kept.',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  removeDroppedLines?: boolean;
+
+  @ApiProperty({
+    example: 'uuid-import-profile-id',
+    description:
+      'Import profile mapping the sheet columns (standard column names if not provided)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  importProfileId?: string;
+}
+
+export class ExcelReimportResponseDto {
+  @ApiProperty({
+    example: true,
+    description: 'Success status',
+  })
+  success: boolean;
+
+  @ApiProperty({
+    example: 'Order re-imported successfully',
+    description: 'Response message',
+  })
+  message: string;
+
+  @ApiProperty({
+    example: {
+      orderId: 'ORD-2024-001',
+      totalRows: 3,
+      itemsProcessed: 3,
+      itemsSkipped: 0,
+      errors: [],
+      issues: [],
+      added: [
+        {
+          asin: 'B08N5WRWNW',
+          brandName: 'Example Brand',
+          modelNumber: '1234567890123',
+          title: 'Example Product Title',
+          requestingDate: '2024-01-15',
+          quantityRequested: 10,
+          unitCost: 25.99,
+        },
+      ],
+      updated: [
+        {
+          orderItemId: 'uuid-order-item-id',
+          asin: 'B07XJ8C8F5',
+          modelNumber: '9876543210987',
+          deliveredQuantity: 4,
+          changes: [{ field: 'quantityRequested', from: 10, to: 12 }],
+        },
+      ],
+      unchanged: 1,
+      dropped: [
+        {
+          orderItemId: 'uuid-order-item-id',
+          asin: 'B01N9SPQHQ',
+          modelNumber: '1111111111111',
+          quantityRequested: 5,
+          deliveredQuantity: 0,
+          action: 'keep',
+        },
+      ],
+      conflicts: [],
+    },
+    description:
+      'Merge result: rows matched by ASIN + Model Number are updated, new rows are added and lines missing from the file are flagged',
+  })
+  data: OrderReimportSummary;
+}
@@ -0,0 +1,40 @@
+import { OmitType, ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsEnum } from 'class-validator';
+import { GetOrdersDto } from './get-orders.dto';
+
+export enum OrderExportFormat {
+  XLSX = 'xlsx',
+  CSV = 'csv',
+}
+
+export class OrderExportQueryDto {
+  @ApiProperty({
+    example: 'xlsx',
+    description:
+      'File format. XLSX adds a summary sheet per order; CSV holds the order lines only.',
+    enum: OrderExportFormat,
+    required: false,
+    default: OrderExportFormat.XLSX,
+  })
+  @IsOptional()
+  @IsEnum(OrderExportFormat)
+  format?: OrderExportFormat = OrderExportFormat.XLSX;
+}
+
+/**
+ * Filters of the order list; every matching order is exported, so there is
+ * no pagination
+ */
+export class ExportOrdersDto extends OmitType(GetOrdersDto, ['page', 'limit'] as const) {
+  @ApiProperty({
+    example: 'xlsx',
+    description:
+      'File format. XLSX adds a summary sheet per order; CSV holds the order lines only.',
+    enum: OrderExportFormat,
+    required: false,
+    default: OrderExportFormat.XLSX,
+  })
+  @IsOptional()
+  @IsEnum(OrderExportFormat)
+  format?: OrderExportFormat = OrderExportFormat.XLSX;
+}
@@ -2,6 +2,7 @@ import {
   IsOptional,
   IsString,
   IsEnum,
+  IsIn,
   IsNumber,
   Min,
   Max,
@@ -11,6 +12,23 @@ import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { OrderStatus } from '../entities/order.entity';
 
+/**
+ * Columns orders can be sorted by; the value goes into the ORDER BY clause
+ */
+export const ORDER_SORT_FIELDS = [
+  'orderId',
+  'status',
+  'totalItems',
+  'totalCost',
+  'deliveredQuantity',
+  'remainingQuantity',
+  'fileName',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export type OrderSortField = (typeof ORDER_SORT_FIELDS)[number];
+
 export class GetOrdersDto {
   @ApiProperty({
     example: 1,
@@ -78,11 +96,12 @@ export class GetOrdersDto {
   @ApiProperty({
     example: 'createdAt',
     description: 'Sort field',
+    enum: ORDER_SORT_FIELDS,
     required: false,
   })
   @IsOptional()
-  @IsString()
-  sortBy?: string = 'createdAt';
+  @IsIn(ORDER_SORT_FIELDS)
+  sortBy?: OrderSortField = 'createdAt';
 
   @ApiProperty({
     example: 'DESC',
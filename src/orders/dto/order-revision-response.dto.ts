@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { UserSummaryDto } from '../../deliveries/dto/delivery-response.dto';
+import { OrderRevisionSource } from '../entities/order-revision.entity';
+import { OrderSnapshot } from '../interfaces/order-revision.interface';
+
+export class OrderRevisionResponseDto {
+  @ApiProperty({
+    example: 3,
+    description: 'Revision number, starting at 1 for each order',
+  })
+  @Expose()
+  revisionNumber: number;
+
+  @ApiProperty({
+    enum: OrderRevisionSource,
+    example: OrderRevisionSource.UPDATE,
+    description: 'What produced this revision',
+  })
+  @Expose()
+  source: OrderRevisionSource;
+
+  @ApiProperty({
+    type: UserSummaryDto,
+    description: 'User who made the change (empty for baseline revisions)',
+    nullable: true,
+  })
+  @Expose()
+  @Type(() => UserSummaryDto)
+  createdBy: UserSummaryDto | null;
+
+  @ApiProperty({
+    example: '2024-01-25T10:30:00Z',
+    description: 'When the revision was recorded',
+  })
+  @Expose()
+  createdAt: Date;
+}
+
+export class OrderRevisionDetailResponseDto extends OrderRevisionResponseDto {
+  @ApiProperty({
+    description: 'Order header and items as of this revision',
+  })
+  @Expose()
+  snapshot: OrderSnapshot;
+}
@@ -0,0 +1,16 @@
+import { IsOptional, IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CreateOrderItemDto } from './create-order-item.dto';
+
+export class UpdateOrderItemDto extends CreateOrderItemDto {
+  @ApiProperty({
+    example: 'uuid-order-item-id',
+    description:
+      'Existing order item to amend. When omitted the line is matched by ASIN, or added as a new line',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  id?: string;
+}
@@ -1,4 +1,21 @@
-import { PartialType } from '@nestjs/swagger';
+import { PartialType, OmitType, ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsOptional, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
 import { CreateOrderDto } from './create-order.dto';
+import { UpdateOrderItemDto } from './update-order-item.dto';
 
-export class UpdateOrderDto extends PartialType(CreateOrderDto) {}
+export class UpdateOrderDto extends PartialType(
+  OmitType(CreateOrderDto, ['items'] as const),
+) {
+  @ApiProperty({
+    type: [UpdateOrderItemDto],
+    description:
+      'Complete list of order lines. Existing lines are amended, new lines are added and missing lines are removed (only if nothing was delivered against them)',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UpdateOrderItemDto)
+  items?: UpdateOrderItemDto[];
+}
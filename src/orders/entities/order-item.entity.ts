@@ -4,6 +4,7 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  VersionColumn,
   ManyToOne,
   OneToMany,
   JoinColumn,
@@ -67,6 +68,10 @@ export class OrderItem {
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
 
+  // Bumped whenever the line is written, so amendments can be told apart
+  @VersionColumn({ name: 'version', default: 1 })
+  version: number;
+
   @BeforeInsert()
   setInitialQuantityRemaining() {
     if (this.quantityRemaining === 0) {
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { Order } from './order.entity';
+import { User } from '../../users/entities/user.entity';
+import { OrderSnapshot } from '../interfaces/order-revision.interface';
+
+export enum OrderRevisionSource {
+  BASELINE = 'baseline',
+  CREATE = 'create',
+  IMPORT = 'import',
+  UPDATE = 'update',
+  REIMPORT = 'reimport',
+}
+
+/**
+ * Numbered, immutable snapshot of an order's header and items.
+ * A new revision is written whenever an order is created, edited or re-imported.
+ */
+@Entity('order_revisions')
+@Unique('UNQ_ORDER_REVISION_NUMBER', ['order', 'revisionNumber'])
+export class OrderRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  @Index('IDX_ORDER_REVISION_ORDER_ID')
+  order: Order;
+
+  @Column({ name: 'revision_number', type: 'int' })
+  revisionNumber: number;
+
+  @Column({ name: 'source', type: 'varchar', length: 20 })
+  source: OrderRevisionSource;
+
+  @Column({ name: 'snapshot', type: 'json' })
+  snapshot: OrderSnapshot;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'created_by' })
+  @Index('IDX_ORDER_REVISION_CREATED_BY')
+  createdBy: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
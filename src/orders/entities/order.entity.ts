@@ -4,6 +4,7 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  VersionColumn,
   ManyToOne,
   OneToMany,
   JoinColumn,
@@ -12,6 +13,7 @@ import {
 import { User } from '../../users/entities/user.entity';
 import { OrderItem } from './order-item.entity';
 import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { StoredFile } from '../../storage/entities/stored-file.entity';
 
 export enum OrderStatus {
   PENDING = 'pending',
@@ -53,6 +55,10 @@ export class Order {
   @Column({ name: 'file_name', type: 'varchar', length: 255, nullable: true })
   fileName: string | null;
 
+  @ManyToOne(() => StoredFile, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'file_id' })
+  file: StoredFile | null;
+
   @Column({ name: 'is_deleted', type: 'boolean', default: false })
   @Index('IDX_ORDER_IS_DELETED')
   isDeleted: boolean;
@@ -74,4 +80,8 @@ export class Order {
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  // Bumped on every write to the order or its totals; served as its ETag
+  @VersionColumn({ name: 'version', default: 1 })
+  version: number;
 }
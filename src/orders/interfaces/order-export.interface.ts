@@ -0,0 +1,32 @@
+import { OrderStatus } from '../entities/order.entity';
+
+/**
+ * One order line with what has been delivered against it so far
+ */
+export interface OrderExportLine {
+  orderId: string;
+  orderStatus: OrderStatus;
+  asin: string;
+  brandName: string;
+  modelNumber: string;
+  title: string;
+  /** YYYY-MM-DD */
+  requestingDate: string;
+  quantityRequested: number;
+  quantityDelivered: number;
+  quantityRemaining: number;
+  unitCost: number;
+  totalCost: number;
+  deliveredCost: number;
+  remainingCost: number;
+  /** Non-voided deliveries of the line, oldest first */
+  deliveryIds: string[];
+  /** YYYY-MM-DD, in the same order as `deliveryIds` */
+  deliveryDates: string[];
+}
+
+export interface OrderExportFile {
+  fileName: string;
+  contentType: string;
+  buffer: Buffer;
+}
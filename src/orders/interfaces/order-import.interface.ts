@@ -0,0 +1,30 @@
+import { ImportIssue } from '../../imports/interfaces/import-issue.interface';
+
+export type OrderImportStatus = 'created' | 'skipped' | 'failed';
+
+/**
+ * Outcome for one order of a multi-order workbook import
+ */
+export interface OrderImportResult {
+  /** Sheet name or PO number the order was built from */
+  source: string;
+  orderId: string | null;
+  status: OrderImportStatus;
+  totalItems: number;
+  itemsProcessed: number;
+  itemsSkipped: number;
+  errors: string[];
+  /** Row problems of the order's rows, including warnings */
+  issues: ImportIssue[];
+}
+
+export interface WorkbookImportResult {
+  atomic: boolean;
+  created: number;
+  skipped: number;
+  failed: number;
+  orders: OrderImportResult[];
+  /** Problems that do not belong to a single order, e.g. rows without a PO number */
+  errors: string[];
+  issues: ImportIssue[];
+}
@@ -0,0 +1,36 @@
+import { CreateOrderItemDto } from '../dto/create-order-item.dto';
+import { FieldChange } from './order-revision.interface';
+import { ImportIssue } from '../../imports/interfaces/import-issue.interface';
+
+export type DroppedLineAction = 'keep' | 'remove';
+
+export interface ReimportUpdatedLine {
+  orderItemId: string;
+  asin: string;
+  modelNumber: string;
+  deliveredQuantity: number;
+  changes: FieldChange[];
+}
+
+export interface ReimportDroppedLine {
+  orderItemId: string;
+  asin: string;
+  modelNumber: string;
+  quantityRequested: number;
+  deliveredQuantity: number;
+  action: DroppedLineAction;
+}
+
+export interface OrderReimportSummary {
+  orderId: string;
+  totalRows: number;
+  itemsProcessed: number;
+  itemsSkipped: number;
+  errors: string[];
+  issues: ImportIssue[];
+  added: CreateOrderItemDto[];
+  updated: ReimportUpdatedLine[];
+  unchanged: number;
+  dropped: ReimportDroppedLine[];
+  conflicts: string[];
+}
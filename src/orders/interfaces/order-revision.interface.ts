@@ -0,0 +1,52 @@
+export interface OrderItemSnapshot {
+  id: string;
+  asin: string;
+  brandName: string;
+  modelNumber: string;
+  title: string;
+  requestingDate: string;
+  quantityRequested: number;
+  unitCost: number;
+  totalCost: number;
+}
+
+export interface OrderSnapshot {
+  orderId: string;
+  status: string;
+  fileName: string | null;
+  totalItems: number;
+  totalCost: number;
+  items: OrderItemSnapshot[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface OrderItemChange {
+  orderItemId: string;
+  asin: string;
+  changes: FieldChange[];
+}
+
+export interface OrderRevisionAuthor {
+  revisionNumber: number;
+  source: string;
+  createdBy: { id: string; name: string; email: string } | null;
+  createdAt: Date;
+}
+
+export interface OrderRevisionDiff {
+  orderId: string;
+  fromRevision: number;
+  toRevision: number;
+  header: FieldChange[];
+  items: {
+    added: OrderItemSnapshot[];
+    removed: OrderItemSnapshot[];
+    changed: OrderItemChange[];
+  };
+  revisions: OrderRevisionAuthor[];
+}
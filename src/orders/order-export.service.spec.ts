@@ -0,0 +1,208 @@
+import { Repository } from 'typeorm';
+import * as XLSX from 'xlsx';
+import { OrderExportService } from './order-export.service';
+import { OrdersService } from './orders.service';
+import { Order, OrderStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import { DeliveryItem } from '../deliveries/entities/delivery-item.entity';
+import { DeliveryStatus } from '../deliveries/entities/delivery.entity';
+import { OrderExportFormat } from './dto/export-orders.dto';
+
+describe('OrderExportService', () => {
+  let service: OrderExportService;
+
+  const mockOrderItemRepository = {
+    find: jest.fn(),
+  };
+
+  const mockDeliveryItemRepository = {
+    find: jest.fn(),
+  };
+
+  const mockOrdersService = {
+    findOne: jest.fn(),
+    findAllMatching: jest.fn(),
+  };
+
+  const order = {
+    id: 'order-1',
+    orderId: 'ORD-2025-000001',
+    status: OrderStatus.PROCESSING,
+    createdAt: new Date('2025-01-01T09:30:00Z'),
+  } as Order;
+
+  const items = [
+    {
+      id: 'item-1',
+      asin: 'B000000001',
+      brandName: 'Brand',
+      modelNumber: '1234567890123',
+      title: 'Widget, large',
+      requestingDate: '2025-02-01',
+      quantityRequested: 10,
+      quantityRemaining: 4,
+      unitCost: '2.50',
+      totalCost: '25.00',
+      order,
+    },
+    {
+      id: 'item-2',
+      asin: 'B000000002',
+      brandName: 'Brand',
+      modelNumber: '1234567890124',
+      title: 'Gadget',
+      requestingDate: '2025-02-01',
+      quantityRequested: 5,
+      quantityRemaining: 5,
+      unitCost: '10.00',
+      totalCost: '50.00',
+      order,
+    },
+  ] as unknown as OrderItem[];
+
+  const deliveryItem = (deliveryId: string, deliveryDate: string, status = DeliveryStatus.DELIVERED) =>
+    ({
+      deliveryDate,
+      isVoided: false,
+      orderItem: { id: 'item-1' },
+      delivery: { deliveryId, deliveryDate, status },
+    }) as unknown as DeliveryItem;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrdersService.findOne.mockResolvedValue(order);
+    mockOrdersService.findAllMatching.mockResolvedValue([order]);
+    mockOrderItemRepository.find.mockResolvedValue(items);
+    mockDeliveryItemRepository.find.mockResolvedValue([
+      deliveryItem('DEL-000002', '2025-02-10'),
+      deliveryItem('DEL-000001', '2025-02-03'),
+    ]);
+
+    service = new OrderExportService(
+      mockOrderItemRepository as unknown as Repository<OrderItem>,
+      mockDeliveryItemRepository as unknown as Repository<DeliveryItem>,
+      mockOrdersService as unknown as OrdersService,
+    );
+  });
+
+  describe('exportOrder', () => {
+    it('should export the lines with their delivery progress as CSV', async () => {
+      const file = await service.exportOrder('order-1', OrderExportFormat.CSV);
+
+      expect(file.fileName).toBe('order_ORD-2025-000001_export.csv');
+      expect(file.contentType).toBe('text/csv; charset=utf-8');
+
+      const [header, first, second] = file.buffer.toString('utf-8').replace(/^\uFEFF/, '').split('\r\n');
+      expect(header.split(',')).toEqual([
+        'Order ID',
+        'Order Status',
+        'ASIN',
+        'Brand Name',
+        'Model Number',
+        'Title',
+        'Requesting Date',
+        'Quantity Requested',
+        'Quantity Delivered',
+        'Quantity Remaining',
+        'Unit Cost',
+        'Total Cost',
+        'Delivered Cost',
+        'Remaining Cost',
+        'Delivery IDs',
+        'Delivery Dates',
+      ]);
+      expect(first).toBe(
+        'ORD-2025-000001,processing,B000000001,Brand,1234567890123,"Widget, large",2025-02-01,10,6,4,2.5,25,15,10,"DEL-000001, DEL-000002","2025-02-03, 2025-02-10"',
+      );
+      expect(second).toBe(
+        'ORD-2025-000001,processing,B000000002,Brand,1234567890124,Gadget,2025-02-01,5,0,5,10,50,0,50,,',
+      );
+    });
+
+    it('should keep text cells from turning into formulas', async () => {
+      mockOrderItemRepository.find.mockResolvedValue([
+        {
+          ...items[1],
+          brandName: '@SUM(A1:A9)',
+          modelNumber: '-2+3',
+          title: '=HYPERLINK("http://example.com","Widget")',
+        },
+      ]);
+
+      const file = await service.exportOrder('order-1', OrderExportFormat.CSV);
+      const [, line] = file.buffer.toString('utf-8').replace(/^\uFEFF/, '').split('\r\n');
+
+      expect(line).toBe(
+        'ORD-2025-000001,processing,B000000002,\'@SUM(A1:A9),\'-2+3,"\'=HYPERLINK(""http://example.com"",""Widget"")",2025-02-01,5,0,5,10,50,0,50,,',
+      );
+    });
+
+    it('should leave out voided deliveries', async () => {
+      mockDeliveryItemRepository.find.mockResolvedValue([
+        deliveryItem('DEL-000001', '2025-02-03'),
+        deliveryItem('DEL-000003', '2025-02-05', DeliveryStatus.VOIDED),
+      ]);
+
+      const file = await service.exportOrder('order-1', OrderExportFormat.CSV);
+
+      expect(file.buffer.toString('utf-8')).not.toContain('DEL-000003');
+      expect(mockDeliveryItemRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ isVoided: false }),
+        }),
+      );
+    });
+
+    it('should build a formatted workbook with a summary sheet', async () => {
+      const file = await service.exportOrder('order-1');
+
+      expect(file.fileName).toBe('order_ORD-2025-000001_export.xlsx');
+
+      const workbook = XLSX.read(file.buffer, { type: 'buffer', cellNF: true });
+      expect(workbook.SheetNames).toEqual(['Summary', 'Lines']);
+
+      const summary = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets['Summary']);
+      expect(summary[0]).toMatchObject({
+        'Order ID': 'ORD-2025-000001',
+        Lines: 2,
+        'Quantity Requested': 15,
+        'Quantity Delivered': 6,
+        'Quantity Remaining': 9,
+        Delivered: 0.4,
+        'Total Cost': 75,
+        'Delivered Cost': 15,
+        'Remaining Cost': 60,
+        Deliveries: 2,
+      });
+      expect(summary[1]).toMatchObject({ 'Order ID': 'Total', 'Quantity Requested': 15 });
+
+      const lines = workbook.Sheets['Lines'];
+      expect((lines['K2'] as XLSX.CellObject).z).toBe('#,##0.00');
+      expect((lines['G2'] as XLSX.CellObject).w).toBe('2025-02-01');
+      expect(lines['!autofilter']).toEqual({ ref: 'A1:P3' });
+    });
+  });
+
+  describe('exportOrders', () => {
+    it('should export every order matching the filters', async () => {
+      const file = await service.exportOrders({
+        status: OrderStatus.PROCESSING,
+        format: OrderExportFormat.CSV,
+      });
+
+      expect(mockOrdersService.findAllMatching).toHaveBeenCalledWith(
+        expect.objectContaining({ status: OrderStatus.PROCESSING }),
+      );
+      expect(file.fileName).toMatch(/^orders_export_\d{4}-\d{2}-\d{2}\.csv$/);
+    });
+
+    it('should export only the header when no order matches', async () => {
+      mockOrdersService.findAllMatching.mockResolvedValue([]);
+
+      const file = await service.exportOrders({ format: OrderExportFormat.CSV });
+
+      expect(file.buffer.toString('utf-8').split('\r\n')).toHaveLength(1);
+      expect(mockOrderItemRepository.find).not.toHaveBeenCalled();
+    });
+  });
+});
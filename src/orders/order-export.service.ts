@@ -0,0 +1,348 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import * as XLSX from 'xlsx';
+import { Order } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import { DeliveryItem } from '../deliveries/entities/delivery-item.entity';
+import { DeliveryStatus } from '../deliveries/entities/delivery.entity';
+import { OrdersService } from './orders.service';
+import { ExportOrdersDto, OrderExportFormat } from './dto/export-orders.dto';
+import {
+  OrderExportFile,
+  OrderExportLine,
+} from './interfaces/order-export.interface';
+
+interface ExportColumn<T> {
+  header: string;
+  width: number;
+  value: (row: T) => string | number | Date | null;
+  /** Excel number format */
+  format?: string;
+}
+
+interface OrderExportSummary {
+  orderId: string;
+  status: string;
+  lines: number;
+  quantityRequested: number;
+  quantityDelivered: number;
+  quantityRemaining: number;
+  totalCost: number;
+  deliveredCost: number;
+  remainingCost: number;
+  deliveries: number;
+  lastDeliveryDate: string | null;
+  createdAt: Date | null;
+}
+
+const DATE_FORMAT = 'yyyy-mm-dd';
+const QUANTITY_FORMAT = '#,##0';
+const MONEY_FORMAT = '#,##0.00';
+const PERCENT_FORMAT = '0.0%';
+
+// Item columns use the import column names, so an export can be imported again
+const LINE_COLUMNS: ExportColumn<OrderExportLine>[] = [
+  { header: 'Order ID', width: 18, value: (line) => line.orderId },
+  { header: 'Order Status', width: 14, value: (line) => line.orderStatus },
+  { header: 'ASIN', width: 14, value: (line) => line.asin },
+  { header: 'Brand Name', width: 18, value: (line) => line.brandName },
+  { header: 'Model Number', width: 16, value: (line) => line.modelNumber },
+  { header: 'Title', width: 50, value: (line) => line.title },
+  {
+    header: 'Requesting Date',
+    width: 14,
+    value: (line) => toExcelDate(line.requestingDate),
+    format: DATE_FORMAT,
+  },
+  { header: 'Quantity Requested', width: 12, value: (line) => line.quantityRequested, format: QUANTITY_FORMAT },
+  { header: 'Quantity Delivered', width: 12, value: (line) => line.quantityDelivered, format: QUANTITY_FORMAT },
+  { header: 'Quantity Remaining', width: 12, value: (line) => line.quantityRemaining, format: QUANTITY_FORMAT },
+  { header: 'Unit Cost', width: 12, value: (line) => line.unitCost, format: MONEY_FORMAT },
+  { header: 'Total Cost', width: 14, value: (line) => line.totalCost, format: MONEY_FORMAT },
+  { header: 'Delivered Cost', width: 14, value: (line) => line.deliveredCost, format: MONEY_FORMAT },
+  { header: 'Remaining Cost', width: 14, value: (line) => line.remainingCost, format: MONEY_FORMAT },
+  { header: 'Delivery IDs', width: 30, value: (line) => line.deliveryIds.join(', ') },
+  { header: 'Delivery Dates', width: 30, value: (line) => line.deliveryDates.join(', ') },
+];
+
+const SUMMARY_COLUMNS: ExportColumn<OrderExportSummary>[] = [
+  { header: 'Order ID', width: 18, value: (summary) => summary.orderId },
+  { header: 'Status', width: 14, value: (summary) => summary.status },
+  { header: 'Lines', width: 8, value: (summary) => summary.lines, format: QUANTITY_FORMAT },
+  { header: 'Quantity Requested', width: 12, value: (summary) => summary.quantityRequested, format: QUANTITY_FORMAT },
+  { header: 'Quantity Delivered', width: 12, value: (summary) => summary.quantityDelivered, format: QUANTITY_FORMAT },
+  { header: 'Quantity Remaining', width: 12, value: (summary) => summary.quantityRemaining, format: QUANTITY_FORMAT },
+  {
+    header: 'Delivered',
+    width: 10,
+    value: (summary) =>
+      summary.quantityRequested > 0 ? summary.quantityDelivered / summary.quantityRequested : 0,
+    format: PERCENT_FORMAT,
+  },
+  { header: 'Total Cost', width: 14, value: (summary) => summary.totalCost, format: MONEY_FORMAT },
+  { header: 'Delivered Cost', width: 14, value: (summary) => summary.deliveredCost, format: MONEY_FORMAT },
+  { header: 'Remaining Cost', width: 14, value: (summary) => summary.remainingCost, format: MONEY_FORMAT },
+  { header: 'Deliveries', width: 10, value: (summary) => summary.deliveries, format: QUANTITY_FORMAT },
+  {
+    header: 'Last Delivery Date',
+    width: 14,
+    value: (summary) => toExcelDate(summary.lastDeliveryDate),
+    format: DATE_FORMAT,
+  },
+  { header: 'Created At', width: 18, value: (summary) => summary.createdAt, format: 'yyyy-mm-dd hh:mm' },
+];
+
+@Injectable()
+export class OrderExportService {
+  constructor(
+    @InjectRepository(OrderItem)
+    private orderItemRepository: Repository<OrderItem>,
+    @InjectRepository(DeliveryItem)
+    private deliveryItemRepository: Repository<DeliveryItem>,
+    private ordersService: OrdersService,
+  ) { }
+
+  async exportOrder(
+    id: string,
+    format: OrderExportFormat = OrderExportFormat.XLSX,
+  ): Promise<OrderExportFile> {
+    const order = await this.ordersService.findOne(id);
+
+    return this.buildFile([order], format, `order_${order.orderId}_export`);
+  }
+
+  async exportOrders(query: ExportOrdersDto): Promise<OrderExportFile> {
+    const orders = await this.ordersService.findAllMatching(query);
+    const date = new Date().toISOString().split('T')[0];
+
+    return this.buildFile(
+      orders,
+      query.format ?? OrderExportFormat.XLSX,
+      `orders_export_${date}`,
+    );
+  }
+
+  /**
+   * Lines of the given orders in order, each with its non-voided deliveries
+   */
+  private async buildLines(orders: Order[]): Promise<OrderExportLine[]> {
+    if (orders.length === 0) {
+      return [];
+    }
+
+    const items = await this.orderItemRepository.find({
+      where: { order: { id: In(orders.map((order) => order.id)) } },
+      relations: ['order'],
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    const deliveryItems = items.length
+      ? await this.deliveryItemRepository.find({
+        where: {
+          orderItem: { id: In(items.map((item) => item.id)) },
+          isVoided: false,
+        },
+        relations: ['delivery', 'orderItem'],
+      })
+      : [];
+
+    const deliveriesByItem = new Map<string, DeliveryItem[]>();
+    deliveryItems
+      .filter((deliveryItem) => deliveryItem.delivery.status !== DeliveryStatus.VOIDED)
+      .sort(
+        (a, b) =>
+          this.formatDate(a.deliveryDate ?? a.delivery.deliveryDate).localeCompare(
+            this.formatDate(b.deliveryDate ?? b.delivery.deliveryDate),
+          ) || a.delivery.deliveryId.localeCompare(b.delivery.deliveryId),
+      )
+      .forEach((deliveryItem) => {
+        const list = deliveriesByItem.get(deliveryItem.orderItem.id) ?? [];
+        list.push(deliveryItem);
+        deliveriesByItem.set(deliveryItem.orderItem.id, list);
+      });
+
+    return orders.flatMap((order) =>
+      items
+        .filter((item) => item.order.id === order.id)
+        .map((item) => {
+          const unitCost = Number(item.unitCost);
+          const quantityDelivered = item.quantityRequested - item.quantityRemaining;
+          const deliveries = deliveriesByItem.get(item.id) ?? [];
+
+          return {
+            orderId: order.orderId,
+            orderStatus: order.status,
+            asin: item.asin,
+            brandName: item.brandName,
+            modelNumber: item.modelNumber,
+            title: item.title,
+            requestingDate: this.formatDate(item.requestingDate),
+            quantityRequested: item.quantityRequested,
+            quantityDelivered,
+            quantityRemaining: item.quantityRemaining,
+            unitCost,
+            totalCost: Number(item.totalCost),
+            deliveredCost: roundMoney(quantityDelivered * unitCost),
+            remainingCost: roundMoney(item.quantityRemaining * unitCost),
+            deliveryIds: deliveries.map((deliveryItem) => deliveryItem.delivery.deliveryId),
+            deliveryDates: deliveries.map((deliveryItem) =>
+              this.formatDate(deliveryItem.deliveryDate ?? deliveryItem.delivery.deliveryDate),
+            ),
+          };
+        }),
+    );
+  }
+
+  private async buildFile(
+    orders: Order[],
+    format: OrderExportFormat,
+    baseName: string,
+  ): Promise<OrderExportFile> {
+    const lines = await this.buildLines(orders);
+
+    if (format === OrderExportFormat.CSV) {
+      return {
+        fileName: `${baseName}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        // The byte order mark makes Excel open the file as UTF-8
+        buffer: Buffer.from(`\uFEFF${this.toCsv(LINE_COLUMNS, lines)}`, 'utf-8'),
+      };
+    }
+
+    const summaries = this.summarize(orders, lines);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      this.toWorksheet(SUMMARY_COLUMNS, summaries, {
+        orderId: 'Total',
+        status: '',
+        lines: sum(summaries, (summary) => summary.lines),
+        quantityRequested: sum(summaries, (summary) => summary.quantityRequested),
+        quantityDelivered: sum(summaries, (summary) => summary.quantityDelivered),
+        quantityRemaining: sum(summaries, (summary) => summary.quantityRemaining),
+        totalCost: roundMoney(sum(summaries, (summary) => summary.totalCost)),
+        deliveredCost: roundMoney(sum(summaries, (summary) => summary.deliveredCost)),
+        remainingCost: roundMoney(sum(summaries, (summary) => summary.remainingCost)),
+        deliveries: new Set(lines.flatMap((line) => line.deliveryIds)).size,
+        lastDeliveryDate:
+          summaries
+            .map((summary) => summary.lastDeliveryDate)
+            .filter((date): date is string => date !== null)
+            .sort()
+            .pop() ?? null,
+        createdAt: null,
+      }),
+      'Summary',
+    );
+    XLSX.utils.book_append_sheet(workbook, this.toWorksheet(LINE_COLUMNS, lines), 'Lines');
+
+    return {
+      fileName: `${baseName}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      buffer: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+    };
+  }
+
+  private summarize(orders: Order[], lines: OrderExportLine[]): OrderExportSummary[] {
+    return orders.map((order) => {
+      const orderLines = lines.filter((line) => line.orderId === order.orderId);
+      const deliveryDates = orderLines.flatMap((line) => line.deliveryDates).sort();
+
+      return {
+        orderId: order.orderId,
+        status: order.status,
+        lines: orderLines.length,
+        quantityRequested: sum(orderLines, (line) => line.quantityRequested),
+        quantityDelivered: sum(orderLines, (line) => line.quantityDelivered),
+        quantityRemaining: sum(orderLines, (line) => line.quantityRemaining),
+        totalCost: roundMoney(sum(orderLines, (line) => line.totalCost)),
+        deliveredCost: roundMoney(sum(orderLines, (line) => line.deliveredCost)),
+        remainingCost: roundMoney(sum(orderLines, (line) => line.remainingCost)),
+        deliveries: new Set(orderLines.flatMap((line) => line.deliveryIds)).size,
+        lastDeliveryDate: deliveryDates.pop() ?? null,
+        createdAt: order.createdAt,
+      };
+    });
+  }
+
+  /**
+   * A table with a filterable header row, fixed column widths and number
+   * formats. The optional footer row is left out of the filter range.
+   */
+  private toWorksheet<T>(
+    columns: ExportColumn<T>[],
+    rows: T[],
+    footer?: T,
+  ): XLSX.WorkSheet {
+    const tableRows = footer ? [...rows, footer] : rows;
+    const worksheet = XLSX.utils.aoa_to_sheet(
+      [
+        columns.map((column) => column.header),
+        ...tableRows.map((row) =>
+          columns.map((column) => {
+            const value = column.value(row);
+            // Date serials are written directly; the library would shift dates by the server's time zone
+            return value instanceof Date ? value.getTime() / 86400000 + 25569 : value;
+          }),
+        ),
+      ],
+    );
+
+    columns.forEach((column, columnIndex) => {
+      if (!column.format) {
+        return;
+      }
+      tableRows.forEach((row, rowIndex) => {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex })] as
+          | XLSX.CellObject
+          | undefined;
+        if (cell) {
+          cell.z = column.format;
+        }
+      });
+    });
+
+    worksheet['!cols'] = columns.map((column) => ({ wch: column.width }));
+    worksheet['!autofilter'] = {
+      ref: XLSX.utils.encode_range({
+        s: { r: 0, c: 0 },
+        e: { r: rows.length, c: columns.length - 1 },
+      }),
+    };
+
+    return worksheet;
+  }
+
+  private toCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+    const escape = (value: string | number | Date | null): string => {
+      let text =
+        value === null ? '' : value instanceof Date ? this.formatDate(value) : String(value);
+      // Text from vendor sheets such as "=HYPERLINK(...)" would run as a formula in Excel
+      if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [
+      columns.map((column) => escape(column.header)).join(','),
+      ...rows.map((row) => columns.map((column) => escape(column.value(row))).join(',')),
+    ].join('\r\n');
+  }
+
+  private formatDate(value: Date | string): string {
+    return value instanceof Date ? value.toISOString().split('T')[0] : String(value);
+  }
+}
+
+function toExcelDate(value: string | null): Date | null {
+  return value ? new Date(`${value}T00:00:00Z`) : null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sum<T>(rows: T[], value: (row: T) => number): number {
+  return rows.reduce((total, row) => total + value(row), 0);
+}
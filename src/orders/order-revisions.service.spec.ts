@@ -0,0 +1,244 @@
+import { NotFoundException } from '@nestjs/common';
+import { EntityManager, Repository } from 'typeorm';
+import { OrderRevisionsService } from './order-revisions.service';
+import { Order, OrderStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import {
+  OrderRevision,
+  OrderRevisionSource,
+} from './entities/order-revision.entity';
+import { OrderSnapshot } from './interfaces/order-revision.interface';
+import { User } from '../users/entities/user.entity';
+
+describe('OrderRevisionsService', () => {
+  let service: OrderRevisionsService;
+
+  const mockOrderRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockRevisionRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockManager = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn((entity, data) => data),
+    save: jest.fn((entity, data) => Promise.resolve(data)),
+  };
+  const manager = mockManager as unknown as EntityManager;
+
+  const author = { id: 'user-1', name: 'Test User', email: 'test@example.com' } as User;
+
+  const order = {
+    id: 'order-1',
+    orderId: 'ORD-2025-000001',
+    status: OrderStatus.PENDING,
+    fileName: null,
+    totalItems: 10,
+    totalCost: '100.00',
+  } as unknown as Order;
+
+  const item = {
+    id: 'item-1',
+    asin: 'B000000001',
+    brandName: 'Brand',
+    modelNumber: '1234567890123',
+    title: 'Widget',
+    requestingDate: new Date('2025-01-01T00:00:00Z'),
+    quantityRequested: 10,
+    unitCost: '10.00',
+    totalCost: '100.00',
+  } as unknown as OrderItem;
+
+  const snapshot: OrderSnapshot = {
+    orderId: 'ORD-2025-000001',
+    status: OrderStatus.PENDING,
+    fileName: null,
+    totalItems: 10,
+    totalCost: 100,
+    items: [{
+      id: 'item-1',
+      asin: 'B000000001',
+      brandName: 'Brand',
+      modelNumber: '1234567890123',
+      title: 'Widget',
+      requestingDate: '2025-01-01',
+      quantityRequested: 10,
+      unitCost: 10,
+      totalCost: 100,
+    }],
+  };
+
+  const revision = (revisionNumber: number, revisionSnapshot: OrderSnapshot) =>
+    ({
+      revisionNumber,
+      source: OrderRevisionSource.UPDATE,
+      snapshot: revisionSnapshot,
+      createdBy: author,
+      createdAt: new Date(),
+    }) as OrderRevision;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockManager.create.mockImplementation((entity, data) => data);
+    mockManager.save.mockImplementation((entity, data) => Promise.resolve(data));
+
+    service = new OrderRevisionsService(
+      mockOrderRepository as unknown as Repository<Order>,
+      mockRevisionRepository as unknown as Repository<OrderRevision>,
+    );
+  });
+
+  describe('recordRevision', () => {
+    beforeEach(() => {
+      mockManager.find.mockResolvedValue([item]);
+    });
+
+    it('should store the first revision of an order', async () => {
+      mockManager.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(null);
+
+      const result = await service.recordRevision(
+        manager,
+        'order-1',
+        OrderRevisionSource.CREATE,
+        author,
+      );
+
+      expect(mockManager.findOne).toHaveBeenCalledWith(Order, {
+        where: { id: 'order-1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(result).toEqual(expect.objectContaining({
+        revisionNumber: 1,
+        source: OrderRevisionSource.CREATE,
+        snapshot,
+        createdBy: { id: 'user-1' },
+      }));
+    });
+
+    it('should number revisions consecutively', async () => {
+      const previous = { ...snapshot, totalItems: 5 };
+      mockManager.findOne
+        .mockResolvedValueOnce(order)
+        .mockResolvedValueOnce(revision(4, previous));
+
+      const result = await service.recordRevision(
+        manager,
+        'order-1',
+        OrderRevisionSource.UPDATE,
+        author,
+      );
+
+      expect(result?.revisionNumber).toBe(5);
+    });
+
+    it('should skip orders unchanged since the latest revision', async () => {
+      mockManager.findOne
+        .mockResolvedValueOnce(order)
+        .mockResolvedValueOnce(revision(2, snapshot));
+
+      const result = await service.recordRevision(
+        manager,
+        'order-1',
+        OrderRevisionSource.UPDATE,
+        author,
+      );
+
+      expect(result).toBeNull();
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should skip unchanged orders whose stored snapshot has its keys reordered', async () => {
+      // As MySQL hands back a json column: keys sorted by length, then alphabetically
+      const reorder = <T extends object>(value: T): T =>
+        Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.length - b.length || a.localeCompare(b)),
+        ) as T;
+      const stored = reorder({ ...snapshot, items: snapshot.items.map(reorder) });
+      expect(JSON.stringify(stored)).not.toBe(JSON.stringify(snapshot));
+
+      mockManager.findOne
+        .mockResolvedValueOnce(order)
+        .mockResolvedValueOnce(revision(2, stored));
+
+      const result = await service.recordRevision(
+        manager,
+        'order-1',
+        OrderRevisionSource.UPDATE,
+        author,
+      );
+
+      expect(result).toBeNull();
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing order', async () => {
+      mockManager.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.recordRevision(manager, 'missing', OrderRevisionSource.UPDATE, author),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('ensureBaseline', () => {
+    it('should only record a baseline for orders without revisions', async () => {
+      mockManager.count.mockResolvedValue(3);
+
+      await service.ensureBaseline(manager, 'order-1');
+
+      expect(mockManager.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diff', () => {
+    it('should report header and per-item changes with their authors', async () => {
+      const updated: OrderSnapshot = {
+        ...snapshot,
+        totalItems: 14,
+        totalCost: 180,
+        items: [
+          { ...snapshot.items[0], quantityRequested: 12, totalCost: 120, title: 'Widget v2' },
+          { ...snapshot.items[0], id: 'item-2', asin: 'B000000002', quantityRequested: 2, unitCost: 30, totalCost: 60 },
+        ],
+      };
+      mockOrderRepository.findOne.mockResolvedValue(order);
+      mockRevisionRepository.findOne
+        .mockResolvedValueOnce(revision(1, snapshot))
+        .mockResolvedValueOnce(revision(2, updated));
+      mockRevisionRepository.find.mockResolvedValue([revision(2, updated)]);
+
+      const result = await service.diff('order-1', 1, 2);
+
+      expect(result.header).toEqual([
+        { field: 'totalItems', from: 10, to: 14 },
+        { field: 'totalCost', from: 100, to: 180 },
+      ]);
+      expect(result.items.added.map((added) => added.id)).toEqual(['item-2']);
+      expect(result.items.removed).toEqual([]);
+      expect(result.items.changed).toEqual([{
+        orderItemId: 'item-1',
+        asin: 'B000000001',
+        changes: [
+          { field: 'title', from: 'Widget', to: 'Widget v2' },
+          { field: 'quantityRequested', from: 10, to: 12 },
+          { field: 'totalCost', from: 100, to: 120 },
+        ],
+      }]);
+      expect(result.revisions).toEqual([
+        expect.objectContaining({ revisionNumber: 2, createdBy: author }),
+      ]);
+    });
+
+    it('should throw NotFoundException for an unknown revision', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(order);
+      mockRevisionRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.diff('order-1', 1, 9)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
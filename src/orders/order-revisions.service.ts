@@ -0,0 +1,260 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository, Between } from 'typeorm';
+import { isDeepStrictEqual } from 'util';
+import { Order } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import {
+  OrderRevision,
+  OrderRevisionSource,
+} from './entities/order-revision.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  FieldChange,
+  OrderItemChange,
+  OrderItemSnapshot,
+  OrderRevisionDiff,
+  OrderSnapshot,
+} from './interfaces/order-revision.interface';
+
+const HEADER_FIELDS: (keyof Omit<OrderSnapshot, 'items'>)[] = [
+  'orderId',
+  'status',
+  'fileName',
+  'totalItems',
+  'totalCost',
+];
+
+const ITEM_FIELDS: (keyof Omit<OrderItemSnapshot, 'id'>)[] = [
+  'asin',
+  'brandName',
+  'modelNumber',
+  'title',
+  'requestingDate',
+  'quantityRequested',
+  'unitCost',
+  'totalCost',
+];
+
+@Injectable()
+export class OrderRevisionsService {
+  constructor(
+    @InjectRepository(Order)
+    private orderRepository: Repository<Order>,
+    @InjectRepository(OrderRevision)
+    private revisionRepository: Repository<OrderRevision>,
+  ) { }
+
+  /**
+   * Stores the current state of an order as its next revision. Nothing is
+   * written when the order is unchanged since the latest revision.
+   * Must run inside the transaction that changed the order.
+   */
+  async recordRevision(
+    manager: EntityManager,
+    orderId: string,
+    source: OrderRevisionSource,
+    user: User | null,
+  ): Promise<OrderRevision | null> {
+    // Lock the order row so concurrent edits get consecutive revision numbers
+    const order = await manager.findOne(Order, {
+      where: { id: orderId },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const items = await manager.find(OrderItem, {
+      where: { order: { id: orderId } },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    const snapshot = this.buildSnapshot(order, items);
+
+    const latest = await manager.findOne(OrderRevision, {
+      where: { order: { id: orderId } },
+      order: { revisionNumber: 'DESC' },
+    });
+
+    // Not by JSON text: MySQL reorders the keys of stored JSON objects
+    if (latest && isDeepStrictEqual(latest.snapshot, snapshot)) {
+      return null;
+    }
+
+    const revision = manager.create(OrderRevision, {
+      order: { id: orderId } as Order,
+      revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+      source,
+      snapshot,
+      createdBy: user ? ({ id: user.id } as User) : null,
+    });
+
+    return manager.save(OrderRevision, revision);
+  }
+
+  /**
+   * Records the pre-change state of orders created before revisions existed,
+   * so their first edit still has something to diff against.
+   */
+  async ensureBaseline(manager: EntityManager, orderId: string): Promise<void> {
+    const revisionCount = await manager.count(OrderRevision, {
+      where: { order: { id: orderId } },
+    });
+
+    if (revisionCount === 0) {
+      await this.recordRevision(manager, orderId, OrderRevisionSource.BASELINE, null);
+    }
+  }
+
+  async findAll(orderId: string): Promise<OrderRevision[]> {
+    await this.findOrder(orderId);
+
+    return this.revisionRepository.find({
+      where: { order: { id: orderId } },
+      relations: ['createdBy'],
+      order: { revisionNumber: 'DESC' },
+    });
+  }
+
+  async findOne(orderId: string, revisionNumber: number): Promise<OrderRevision> {
+    await this.findOrder(orderId);
+
+    const revision = await this.revisionRepository.findOne({
+      where: { order: { id: orderId }, revisionNumber },
+      relations: ['createdBy'],
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Revision ${revisionNumber} not found for this order`);
+    }
+
+    return revision;
+  }
+
+  /**
+   * Compares two revisions of an order. The authors of every revision after
+   * the older one, up to and including the newer one, are listed alongside.
+   */
+  async diff(
+    orderId: string,
+    fromRevision: number,
+    toRevision: number,
+  ): Promise<OrderRevisionDiff> {
+    const order = await this.findOrder(orderId);
+    const from = await this.findOne(orderId, fromRevision);
+    const to = await this.findOne(orderId, toRevision);
+
+    const lower = Math.min(fromRevision, toRevision);
+    const upper = Math.max(fromRevision, toRevision);
+    const revisions =
+      upper > lower
+        ? await this.revisionRepository.find({
+          where: {
+            order: { id: orderId },
+            revisionNumber: Between(lower + 1, upper),
+          },
+          relations: ['createdBy'],
+          order: { revisionNumber: 'ASC' },
+        })
+        : [];
+
+    return {
+      orderId: order.orderId,
+      fromRevision,
+      toRevision,
+      header: this.diffFields(from.snapshot, to.snapshot, HEADER_FIELDS),
+      items: this.diffItems(from.snapshot.items, to.snapshot.items),
+      revisions: revisions.map((revision) => ({
+        revisionNumber: revision.revisionNumber,
+        source: revision.source,
+        createdBy: revision.createdBy
+          ? {
+            id: revision.createdBy.id,
+            name: revision.createdBy.name,
+            email: revision.createdBy.email,
+          }
+          : null,
+        createdAt: revision.createdAt,
+      })),
+    };
+  }
+
+  private async findOrder(orderId: string): Promise<Order> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId, isDeleted: false },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  private buildSnapshot(order: Order, items: OrderItem[]): OrderSnapshot {
+    return {
+      orderId: order.orderId,
+      status: order.status,
+      fileName: order.fileName,
+      totalItems: order.totalItems,
+      totalCost: Number(order.totalCost),
+      items: items.map((item) => ({
+        id: item.id,
+        asin: item.asin,
+        brandName: item.brandName,
+        modelNumber: item.modelNumber,
+        title: item.title,
+        requestingDate: this.formatDate(item.requestingDate),
+        quantityRequested: item.quantityRequested,
+        unitCost: Number(item.unitCost),
+        totalCost: Number(item.totalCost),
+      })),
+    };
+  }
+
+  private diffItems(
+    fromItems: OrderItemSnapshot[],
+    toItems: OrderItemSnapshot[],
+  ): OrderRevisionDiff['items'] {
+    const fromById = new Map(fromItems.map((item) => [item.id, item]));
+    const toById = new Map(toItems.map((item) => [item.id, item]));
+
+    const changed: OrderItemChange[] = [];
+    toItems.forEach((toItem) => {
+      const fromItem = fromById.get(toItem.id);
+      if (!fromItem) {
+        return;
+      }
+
+      const changes = this.diffFields(fromItem, toItem, ITEM_FIELDS);
+      if (changes.length > 0) {
+        changed.push({ orderItemId: toItem.id, asin: toItem.asin, changes });
+      }
+    });
+
+    return {
+      added: toItems.filter((item) => !fromById.has(item.id)),
+      removed: fromItems.filter((item) => !toById.has(item.id)),
+      changed,
+    };
+  }
+
+  private diffFields<T extends object>(
+    from: T,
+    to: T,
+    fields: (keyof T)[],
+  ): FieldChange[] {
+    return fields
+      .filter((field) => from[field] !== to[field])
+      .map((field) => ({
+        field: String(field),
+        from: (from[field] ?? null) as FieldChange['from'],
+        to: (to[field] ?? null) as FieldChange['to'],
+      }));
+  }
+
+  private formatDate(value: Date | string): string {
+    return value instanceof Date ? value.toISOString().split('T')[0] : String(value);
+  }
+}
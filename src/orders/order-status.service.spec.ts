@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatusService } from './order-status.service';
+import { Order, OrderStatus } from './entities/order.entity';
+
+describe('OrderStatusService', () => {
+  let service: OrderStatusService;
+
+  beforeEach(() => {
+    service = new OrderStatusService();
+  });
+
+  describe('deriveStatus', () => {
+    it('should keep an order pending until something is delivered', () => {
+      expect(service.deriveStatus(OrderStatus.PENDING, 0, 100)).toBe(OrderStatus.PENDING);
+    });
+
+    it('should move to processing on the first delivery', () => {
+      expect(service.deriveStatus(OrderStatus.PENDING, 25, 75)).toBe(OrderStatus.PROCESSING);
+    });
+
+    it('should complete the order when nothing remains', () => {
+      expect(service.deriveStatus(OrderStatus.PROCESSING, 100, 0)).toBe(OrderStatus.COMPLETED);
+    });
+
+    it('should revert when deliveries are voided', () => {
+      expect(service.deriveStatus(OrderStatus.COMPLETED, 60, 40)).toBe(OrderStatus.PROCESSING);
+      expect(service.deriveStatus(OrderStatus.PROCESSING, 0, 100)).toBe(OrderStatus.PENDING);
+    });
+
+    it('should leave cancelled orders alone', () => {
+      expect(service.deriveStatus(OrderStatus.CANCELLED, 0, 100)).toBe(OrderStatus.CANCELLED);
+    });
+  });
+
+  describe('validateManualTransition', () => {
+    it('should allow cancelling an order without active deliveries', () => {
+      expect(() =>
+        service.validateManualTransition(OrderStatus.PENDING, OrderStatus.CANCELLED, 0),
+      ).not.toThrow();
+    });
+
+    it('should reject cancelling an order with deliveries', () => {
+      expect(() =>
+        service.validateManualTransition(OrderStatus.PENDING, OrderStatus.CANCELLED, 1),
+      ).toThrow('Cannot cancel an order that has deliveries');
+    });
+
+    it('should reject setting derived statuses by hand', () => {
+      expect(() =>
+        service.validateManualTransition(OrderStatus.PENDING, OrderStatus.COMPLETED, 0),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.validateManualTransition(OrderStatus.PROCESSING, OrderStatus.PENDING, 1),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should allow reopening a cancelled order', () => {
+      expect(() =>
+        service.validateManualTransition(OrderStatus.CANCELLED, OrderStatus.PENDING, 0),
+      ).not.toThrow();
+    });
+
+    it('should reject transitions missing from the table', () => {
+      expect(() =>
+        service.validateManualTransition(OrderStatus.COMPLETED, OrderStatus.CANCELLED, 0),
+      ).toThrow('Invalid order status transition from completed to cancelled');
+    });
+  });
+
+  describe('validateItemsEditable', () => {
+    it('should reject item edits on completed and cancelled orders', () => {
+      expect(() => service.validateItemsEditable(OrderStatus.COMPLETED)).toThrow(BadRequestException);
+      expect(() => service.validateItemsEditable(OrderStatus.CANCELLED)).toThrow(BadRequestException);
+      expect(() => service.validateItemsEditable(OrderStatus.PROCESSING)).not.toThrow();
+    });
+  });
+
+  describe('syncStatus', () => {
+    it('should persist the derived status when it changed', async () => {
+      const manager = {
+        findOne: jest.fn().mockResolvedValue({
+          id: 'order-1',
+          status: OrderStatus.PENDING,
+          deliveredQuantity: 100,
+          remainingQuantity: 0,
+        }),
+        update: jest.fn(),
+      };
+
+      await service.syncStatus(manager as any, 'order-1');
+
+      expect(manager.update).toHaveBeenCalledWith(
+        Order,
+        { id: 'order-1' },
+        { status: OrderStatus.COMPLETED },
+      );
+    });
+
+    it('should not write when the status is already correct', async () => {
+      const manager = {
+        findOne: jest.fn().mockResolvedValue({
+          id: 'order-1',
+          status: OrderStatus.PROCESSING,
+          deliveredQuantity: 10,
+          remainingQuantity: 90,
+        }),
+        update: jest.fn(),
+      };
+
+      await service.syncStatus(manager as any, 'order-1');
+
+      expect(manager.update).not.toHaveBeenCalled();
+    });
+  });
+});
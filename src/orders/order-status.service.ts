@@ -0,0 +1,125 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { Order, OrderStatus } from './entities/order.entity';
+
+@Injectable()
+export class OrderStatusService {
+  /**
+   * Allowed order status transitions. PROCESSING and COMPLETED are derived
+   * from delivery progress, so their edges are mostly driven by
+   * deliveries being recorded or voided rather than by users.
+   */
+  private readonly validTransitions: Record<OrderStatus, OrderStatus[]> = {
+    [OrderStatus.PENDING]: [
+      OrderStatus.PROCESSING,
+      OrderStatus.COMPLETED,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.PROCESSING]: [OrderStatus.PENDING, OrderStatus.COMPLETED],
+    [OrderStatus.COMPLETED]: [OrderStatus.PENDING, OrderStatus.PROCESSING],
+    [OrderStatus.CANCELLED]: [OrderStatus.PENDING], // Reopen only
+  };
+
+  /**
+   * Validates a status transition against the transition table
+   * @throws BadRequestException if the transition is not allowed
+   */
+  validateTransition(currentStatus: OrderStatus, newStatus: OrderStatus): void {
+    if (!this.validTransitions[currentStatus].includes(newStatus)) {
+      throw new BadRequestException(
+        `Invalid order status transition from ${currentStatus} to ${newStatus}`,
+      );
+    }
+  }
+
+  /**
+   * Validates a status change requested by a user. Users may only cancel an
+   * order without active deliveries, or reopen a cancelled one; everything
+   * else follows from deliveries.
+   * @param activeDeliveryCount - Number of non-voided deliveries on the order
+   */
+  validateManualTransition(
+    currentStatus: OrderStatus,
+    newStatus: OrderStatus,
+    activeDeliveryCount: number,
+  ): void {
+    if (
+      newStatus === OrderStatus.PROCESSING ||
+      newStatus === OrderStatus.COMPLETED ||
+      (newStatus === OrderStatus.PENDING &&
+        currentStatus !== OrderStatus.CANCELLED)
+    ) {
+      throw new BadRequestException(
+        `Order status ${newStatus} is derived from deliveries and cannot be set manually`,
+      );
+    }
+
+    this.validateTransition(currentStatus, newStatus);
+
+    if (newStatus === OrderStatus.CANCELLED && activeDeliveryCount > 0) {
+      throw new BadRequestException(
+        'Cannot cancel an order that has deliveries. Void its deliveries first.',
+      );
+    }
+  }
+
+  /**
+   * Validates that the order's items may still be edited
+   * @throws BadRequestException for completed or cancelled orders
+   */
+  validateItemsEditable(status: OrderStatus): void {
+    if (status === OrderStatus.COMPLETED || status === OrderStatus.CANCELLED) {
+      throw new BadRequestException(
+        `Items of a ${status} order cannot be changed`,
+      );
+    }
+  }
+
+  /**
+   * Works out the status an order should have from its delivery progress.
+   * Cancelled orders keep their status.
+   */
+  deriveStatus(
+    currentStatus: OrderStatus,
+    deliveredQuantity: number,
+    remainingQuantity: number,
+  ): OrderStatus {
+    if (currentStatus === OrderStatus.CANCELLED) {
+      return currentStatus;
+    }
+
+    if (deliveredQuantity <= 0) {
+      return OrderStatus.PENDING;
+    }
+
+    return remainingQuantity <= 0
+      ? OrderStatus.COMPLETED
+      : OrderStatus.PROCESSING;
+  }
+
+  /**
+   * Re-derives and persists the order status after its quantities changed.
+   * Must run inside the transaction that changed the quantities.
+   */
+  async syncStatus(manager: EntityManager, orderId: string): Promise<void> {
+    const order = await manager.findOne(Order, {
+      where: { id: orderId },
+      select: ['id', 'status', 'deliveredQuantity', 'remainingQuantity'],
+    });
+
+    if (!order) {
+      return;
+    }
+
+    const derivedStatus = this.deriveStatus(
+      order.status,
+      order.deliveredQuantity,
+      order.remainingQuantity,
+    );
+
+    if (derivedStatus !== order.status) {
+      this.validateTransition(order.status, derivedStatus);
+      await manager.update(Order, { id: orderId }, { status: derivedStatus });
+    }
+  }
+}
@@ -13,12 +13,13 @@ import {
   HttpCode,
   HttpStatus,
   Res,
-  NotFoundException,
+  ParseIntPipe,
+  Headers,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
+import { plainToInstance } from 'class-transformer';
 import * as path from 'path';
-import * as fs from 'fs';
 import {
   ApiTags,
   ApiOperation,
@@ -26,19 +27,36 @@ import {
   ApiBearerAuth,
   ApiConsumes,
   ApiBody,
+  ApiHeader,
+  ApiSecurity,
 } from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
+import { OrderRevisionsService } from './order-revisions.service';
+import { OrderExportService } from './order-export.service';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderDto } from './dto/update-order.dto';
 import { GetOrdersDto } from './dto/get-orders.dto';
+import { ExportOrdersDto, OrderExportQueryDto } from './dto/export-orders.dto';
 import {
   ExcelImportDto,
   ExcelImportResponseDto,
   ExcelPreviewResponseDto,
+  ExcelReimportDto,
+  ExcelReimportResponseDto,
+  OrderImportSplit,
 } from './dto/excel-import.dto';
+import {
+  OrderRevisionResponseDto,
+  OrderRevisionDetailResponseDto,
+} from './dto/order-revision-response.dto';
+import { TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES } from '../imports/dto/text-import-options.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { ApiKeyScopes } from '../auth/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../auth/entities/api-key.entity';
+import { Idempotent } from '../idempotency/idempotent.decorator';
+import { parseIfMatch, versionETag } from '../common/optimistic-lock';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { User, UserRole } from '../users/entities/user.entity';
 
@@ -46,11 +64,18 @@ import { User, UserRole } from '../users/entities/user.entity';
 @Controller('orders')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) { }
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly orderRevisionsService: OrderRevisionsService,
+    private readonly orderExportService: OrderExportService,
+  ) { }
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT)
+  @Idempotent()
   @ApiOperation({ summary: 'Create new order' })
   @ApiResponse({
     status: 201,
@@ -78,6 +103,7 @@ export class OrdersController {
 
   @Get()
   @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
   @ApiOperation({ summary: 'Get all orders with filtering and pagination' })
   @ApiResponse({
     status: 200,
@@ -91,8 +117,29 @@ export class OrdersController {
     };
   }
 
+  @Get('export')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
+  @ApiOperation({
+    summary: 'Export the orders matching the list filters',
+    description:
+      'One row per order line with requested, delivered and remaining quantities, costs and the deliveries that fulfilled it',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'XLSX workbook with Summary and Lines sheets, or a CSV file of the lines',
+  })
+  async exportOrders(@Query() query: ExportOrdersDto, @Res() res: Response) {
+    const file = await this.orderExportService.exportOrders(query);
+
+    res.attachment(file.fileName);
+    res.type(file.contentType);
+    res.send(file.buffer);
+  }
+
   @Get(':id')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
   @ApiOperation({ summary: 'Get order by ID with items and deliveries' })
   @ApiResponse({
     status: 200,
@@ -102,8 +149,12 @@ export class OrdersController {
     status: 404,
     description: 'Order not found',
   })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     const order = await this.ordersService.findOne(id);
+    res.setHeader('ETag', versionETag(order));
     return {
       success: true,
       data: order,
@@ -113,10 +164,20 @@ export class OrdersController {
   @Patch(':id')
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Update order (Admin only)' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from the last read of the order; the update is rejected if it changed since',
+  })
   @ApiResponse({
     status: 200,
     description: 'Order updated successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid status transition, or item changes that conflict with delivered quantities',
+  })
   @ApiResponse({
     status: 403,
     description: 'Forbidden - Admin access required',
@@ -127,13 +188,26 @@ export class OrdersController {
   })
   @ApiResponse({
     status: 409,
-    description: 'Order ID already exists',
+    description: 'Order ID already exists, or the order changed while the update was being saved',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match the current version of the order',
   })
   async update(
     @Param('id') id: string,
     @Body() updateOrderDto: UpdateOrderDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('if-match') ifMatch?: string,
   ) {
-    const order = await this.ordersService.update(id, updateOrderDto);
+    const order = await this.ordersService.update(
+      id,
+      updateOrderDto,
+      user,
+      parseIfMatch(ifMatch),
+    );
+    res.setHeader('ETag', versionETag(order));
     return {
       success: true,
       message: 'Order updated successfully',
@@ -181,6 +255,7 @@ export class OrdersController {
 
   @Post('import/preview')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT)
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({
     summary: 'Preview Excel file import without saving to database',
@@ -193,7 +268,7 @@ export class OrdersController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'Excel file (.xlsx)',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
         },
         orderId: {
           type: 'string',
@@ -202,6 +277,14 @@ export class OrdersController {
             'Order ID for the imported items (optional - auto-generated if not provided)',
           example: 'ORD-2024-001',
         },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
       },
       required: ['file'],
     },
@@ -238,8 +321,67 @@ export class OrdersController {
     };
   }
 
+  @Post('import/annotated')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Download the uploaded file with its import issues marked',
+    description:
+      'Cells with a problem get a comment and an "Import Issues" column lists the issues of each row. Always returns an Excel workbook.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
+        },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+      },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Annotated Excel file',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid file',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Uploader access required',
+  })
+  async annotateExcelImport(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() excelImportDto: ExcelImportDto,
+    @Res() res: Response,
+  ) {
+    const buffer = await this.ordersService.annotateExcelImport(
+      file,
+      excelImportDto,
+    );
+
+    res.attachment(`${path.parse(file.originalname).name}-annotated.xlsx`);
+    res.send(buffer);
+  }
+
   @Post('import')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT)
+  @Idempotent()
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({ summary: 'Import orders from Excel file' })
   @ApiConsumes('multipart/form-data')
@@ -250,7 +392,7 @@ export class OrdersController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'Excel file (.xlsx)',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
         },
         orderId: {
           type: 'string',
@@ -259,13 +401,35 @@ export class OrdersController {
             'Order ID for the imported items (optional - auto-generated if not provided)',
           example: 'ORD-2024-001',
         },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+        splitBy: {
+          type: 'string',
+          enum: Object.values(OrderImportSplit),
+          description:
+            'Create one order per sheet or per PO Number value (optional - a single order if not provided)',
+          example: 'sheet',
+        },
+        atomic: {
+          type: 'boolean',
+          description:
+            'When splitting, create all orders or none (optional - each order on its own if not provided)',
+          example: false,
+        },
       },
       required: ['file'],
     },
   })
   @ApiResponse({
     status: 201,
-    description: 'Order imported successfully',
+    description:
+      'Order imported successfully. With splitBy, per-order results are returned instead.',
     type: ExcelImportResponseDto,
   })
   @ApiResponse({
@@ -285,6 +449,19 @@ export class OrdersController {
     @Body() excelImportDto: ExcelImportDto,
     @CurrentUser() user: User,
   ) {
+    if (excelImportDto.splitBy && excelImportDto.splitBy !== OrderImportSplit.NONE) {
+      const workbookResult = await this.ordersService.importWorkbook(
+        file,
+        excelImportDto,
+        user,
+      );
+      return {
+        success: true,
+        message: `Workbook imported: ${workbookResult.created} created, ${workbookResult.skipped} skipped, ${workbookResult.failed} failed`,
+        data: workbookResult,
+      };
+    }
+
     const result = await this.ordersService.importFromExcel(
       file,
       excelImportDto,
@@ -297,8 +474,172 @@ export class OrdersController {
     };
   }
 
+  @Post(':id/reimport/preview')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Preview merging an updated Excel file into an existing order',
+    description:
+      'Rows are matched to order lines by ASIN + Model Number. Nothing is saved.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
+        },
+        removeDroppedLines: {
+          type: 'boolean',
+          description:
+            'Remove order lines missing from the file (lines with deliveries are always kept)',
+          example: false,
+        },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+      },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Re-import preview generated successfully',
+    type: ExcelReimportResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid file or data',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Uploader access required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async previewExcelReimport(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() excelReimportDto: ExcelReimportDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { order, summary: result } = await this.ordersService.previewExcelReimport(
+      id,
+      file,
+      excelReimportDto,
+    );
+    res.setHeader('ETag', versionETag(order));
+    return {
+      success: true,
+      message: 'Re-import preview generated successfully',
+      data: result,
+    };
+  }
+
+  @Post(':id/reimport')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_IMPORT)
+  @Idempotent()
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Merge an updated Excel file into an existing order',
+    description:
+      'Matched lines are updated, new rows are added and lines missing from the file are flagged. Rejected as a whole if any row is invalid or below its delivered quantity.',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from the preview; the re-import is rejected if the order changed since',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel file (.xlsx) or CSV/TSV file',
+        },
+        removeDroppedLines: {
+          type: 'boolean',
+          description:
+            'Remove order lines missing from the file (lines with deliveries are always kept)',
+          example: false,
+        },
+        importProfileId: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Import profile mapping the sheet columns (optional - standard column names if not provided)',
+          example: 'uuid-import-profile-id',
+        },
+        ...TEXT_IMPORT_OPTIONS_SCHEMA_PROPERTIES,
+      },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Order re-imported successfully',
+    type: ExcelReimportResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid file or rows, order not editable, or quantities below what was delivered',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Uploader access required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The order changed while the re-import was being saved',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match the current version of the order',
+  })
+  async reimportFromExcel(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() excelReimportDto: ExcelReimportDto,
+    @CurrentUser() user: User,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    const result = await this.ordersService.reimportFromExcel(
+      id,
+      file,
+      excelReimportDto,
+      user,
+      parseIfMatch(ifMatch),
+    );
+    return {
+      success: true,
+      message: 'Order re-imported successfully',
+      data: result,
+    };
+  }
+
   @Get(':id/download')
   @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
   @ApiOperation({ summary: 'Download Excel file for an order' })
   @ApiResponse({
     status: 200,
@@ -313,29 +654,115 @@ export class OrdersController {
     description: 'Forbidden - Authentication required',
   })
   async downloadOrderFile(@Param('id') id: string, @Res() res: Response) {
-    const order = await this.ordersService.findOne(id);
+    const file = await this.ordersService.getOrderFile(id);
 
-    if (!order.fileName) {
-      throw new NotFoundException('No file associated with this order');
-    }
+    res.attachment(file.fileName);
+    res.type(file.contentType);
+    res.send(file.buffer);
+  }
 
-    const filePath = path.join(
-      __dirname,
-      '..',
-      '..',
-      'src',
-      'orders',
-      order.fileName,
-    );
+  @Get(':id/export')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
+  @ApiOperation({
+    summary: 'Export an order with its delivery progress per line',
+    description:
+      'Unlike the download, the export is generated from the current order and its deliveries',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'XLSX workbook with Summary and Lines sheets, or a CSV file of the lines',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async exportOrder(
+    @Param('id') id: string,
+    @Query() query: OrderExportQueryDto,
+    @Res() res: Response,
+  ) {
+    const file = await this.orderExportService.exportOrder(id, query.format);
 
-    if (!fs.existsSync(filePath)) {
-      throw new NotFoundException('File not found on server');
-    }
+    res.attachment(file.fileName);
+    res.type(file.contentType);
+    res.send(file.buffer);
+  }
+
+  @Get(':id/revisions')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
+  @ApiOperation({ summary: 'List revisions of an order, newest first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order revisions retrieved successfully',
+    type: [OrderRevisionResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async findRevisions(@Param('id') id: string) {
+    const revisions = await this.orderRevisionsService.findAll(id);
+    return {
+      success: true,
+      data: plainToInstance(OrderRevisionResponseDto, revisions, {
+        excludeExtraneousValues: true,
+      }),
+    };
+  }
+
+  @Get(':id/revisions/:from/diff/:to')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
+  @ApiOperation({
+    summary: 'Compare two revisions of an order',
+    description:
+      'Returns header changes, added/removed/changed items and who made the revisions in between',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revision diff retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order or revision not found',
+  })
+  async diffRevisions(
+    @Param('id') id: string,
+    @Param('from', ParseIntPipe) from: number,
+    @Param('to', ParseIntPipe) to: number,
+  ) {
+    const diff = await this.orderRevisionsService.diff(id, from, to);
+    return {
+      success: true,
+      data: diff,
+    };
+  }
 
-    res.download(filePath, order.fileName, (err) => {
-      if (err) {
-        throw new NotFoundException('Error downloading file');
-      }
-    });
+  @Get(':id/revisions/:revision')
+  @Roles(UserRole.ADMIN, UserRole.UPLOADER, UserRole.VIEWER)
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
+  @ApiOperation({ summary: 'Get a single order revision with its snapshot' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order revision retrieved successfully',
+    type: OrderRevisionDetailResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order or revision not found',
+  })
+  async findRevision(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+  ) {
+    const orderRevision = await this.orderRevisionsService.findOne(id, revision);
+    return {
+      success: true,
+      data: plainToInstance(OrderRevisionDetailResponseDto, orderRevision, {
+        excludeExtraneousValues: true,
+      }),
+    };
   }
 }
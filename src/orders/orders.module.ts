@@ -1,15 +1,31 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MulterModule } from '@nestjs/platform-express';
+import * as path from 'path';
 import { OrdersService } from './orders.service';
 import { OrdersController } from './orders.controller';
+import { OrderStatusService } from './order-status.service';
+import { OrderRevisionsService } from './order-revisions.service';
+import { OrderExportService } from './order-export.service';
+import { OrderRevision } from './entities/order-revision.entity';
+import { AuditModule } from '../audit/audit.module';
+import { ImportsModule } from '../imports/imports.module';
+import { StorageModule } from '../storage/storage.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { SequencesModule } from '../sequences/sequences.module';
 import { Order } from './entities/order.entity';
 import { OrderItem } from './entities/order-item.entity';
 import { Delivery } from '../deliveries/entities/delivery.entity';
+import { DeliveryItem } from '../deliveries/entities/delivery-item.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Order, OrderItem, Delivery]),
+    TypeOrmModule.forFeature([Order, OrderItem, OrderRevision, Delivery, DeliveryItem]),
+    AuditModule,
+    ImportsModule,
+    StorageModule,
+    IdempotencyModule,
+    SequencesModule,
     MulterModule.register({
       limits: {
         fileSize: 10 * 1024 * 1024, // 10MB
@@ -17,17 +33,19 @@ import { Delivery } from '../deliveries/entities/delivery.entity';
       fileFilter: (req, file, cb) => {
         if (
           file.mimetype.includes('spreadsheet') ||
-          file.mimetype.includes('excel')
+          file.mimetype.includes('excel') ||
+          ['text/csv', 'application/csv', 'text/tab-separated-values', 'text/plain'].includes(file.mimetype) ||
+          ['.csv', '.tsv', '.tab', '.txt'].includes(path.extname(file.originalname).toLowerCase())
         ) {
           cb(null, true);
         } else {
-          cb(new Error('Only Excel files are allowed'), false);
+          cb(new Error('Only Excel, CSV or TSV files are allowed'), false);
         }
       },
     }),
   ],
   controllers: [OrdersController],
-  providers: [OrdersService],
-  exports: [OrdersService],
+  providers: [OrdersService, OrderStatusService, OrderRevisionsService, OrderExportService],
+  exports: [OrdersService, OrderStatusService, OrderRevisionsService],
 })
 export class OrdersModule { }
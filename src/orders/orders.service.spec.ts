@@ -1,12 +1,35 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { ConflictException, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource } from 'typeorm';
+import {
+  ConflictException,
+  BadRequestException,
+  Logger,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import * as XLSX from 'xlsx';
 import { OrdersService } from './orders.service';
+import { OrderStatusService } from './order-status.service';
+import { OrderRevisionsService } from './order-revisions.service';
+import { ImportProfilesService } from '../imports/import-profiles.service';
+import { ImportProfile } from '../imports/entities/import-profile.entity';
+import {
+  ImportDateFormat,
+  ImportDecimalSeparator,
+} from '../imports/dto/text-import-options.dto';
+import { OrderRevisionSource } from './entities/order-revision.entity';
+import { QuantityAuditService } from '../audit/quantity-audit.service';
+import { QuantityAuditOperation } from '../audit/entities/quantity-audit-log.entity';
 import { Order, OrderStatus } from './entities/order.entity';
+import { OrderImportSplit } from './dto/excel-import.dto';
 import { OrderItem } from './entities/order-item.entity';
 import { User, UserRole, UserStatus } from '../users/entities/user.entity';
 import { Delivery } from '../deliveries/entities/delivery.entity';
+import { FileStorageService } from '../storage/file-storage.service';
+import { StoredFile } from '../storage/entities/stored-file.entity';
+import { SequencesService } from '../sequences/sequences.service';
 
 describe('OrdersService - Order ID Generation', () => {
   let service: OrdersService;
@@ -23,6 +46,7 @@ describe('OrdersService - Order ID Generation', () => {
   };
 
   const mockOrderItemRepository = {
+    find: jest.fn(),
     save: jest.fn(),
     create: jest.fn(),
     delete: jest.fn(),
@@ -34,11 +58,60 @@ describe('OrdersService - Order ID Generation', () => {
     find: jest.fn(),
   };
 
+  const mockManager = {
+    find: jest.fn(),
+    update: jest.fn(),
+    increment: jest.fn().mockResolvedValue({ affected: 1 }),
+    create: jest.fn((entity, data) => data),
+    save: jest.fn(),
+    delete: jest.fn(),
+    query: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn().mockResolvedValue(0),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work) => work(mockManager)),
+  };
+
+  const mockQuantityAuditService = {
+    withContext: jest.fn((manager, context, work) => work()),
+  };
+
+  const mockImportProfileRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockOrderRevisionsService = {
+    recordRevision: jest.fn(),
+    ensureBaseline: jest.fn(),
+  };
+
+  const mockFileStorageService = {
+    store: jest.fn(),
+    read: jest.fn(),
+    remove: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const currentYear = new Date().getFullYear();
+  let nextSequenceValue = 1;
+  const mockSequencesService = {
+    nextMany: jest.fn((name: string, count: number) =>
+      Promise.resolve(
+        Array.from({ length: count }, () =>
+          `ORD-${currentYear}-${(nextSequenceValue++).toString().padStart(6, '0')}`,
+        ),
+      ),
+    ),
+  };
+
   const mockUser: User = {
     id: 'user-1',
     email: 'test@example.com',
     name: 'Test User',
     password: 'hashedpassword',
+    passwordChangedAt: null,
+    mustChangePassword: false,
     role: UserRole.ADMIN,
     status: UserStatus.ACTIVE,
     isDeleted: false,
@@ -53,6 +126,7 @@ describe('OrdersService - Order ID Generation', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         OrdersService,
+        OrderStatusService,
         {
           provide: getRepositoryToken(Order),
           useValue: mockOrderRepository,
@@ -65,6 +139,35 @@ describe('OrdersService - Order ID Generation', () => {
           provide: getRepositoryToken(Delivery),
           useValue: mockDeliveryRepository,
         },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: QuantityAuditService,
+          useValue: mockQuantityAuditService,
+        },
+        {
+          provide: OrderRevisionsService,
+          useValue: mockOrderRevisionsService,
+        },
+        ImportProfilesService,
+        {
+          provide: getRepositoryToken(ImportProfile),
+          useValue: mockImportProfileRepository,
+        },
+        {
+          provide: FileStorageService,
+          useValue: mockFileStorageService,
+        },
+        {
+          provide: SequencesService,
+          useValue: mockSequencesService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue: unknown) => defaultValue) },
+        },
       ],
     }).compile();
 
@@ -76,77 +179,32 @@ describe('OrdersService - Order ID Generation', () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+    nextSequenceValue = 1;
   });
 
   describe('generateUniqueOrderId', () => {
-    it('should generate a unique order ID when no existing orders', async () => {
-      // Mock no existing orders
-      const mockQueryBuilder = {
-        where: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        getOne: jest.fn().mockResolvedValue(null),
-      };
-      mockOrderRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+    it('should take the next order ID from the sequence', async () => {
       mockOrderRepository.findOne.mockResolvedValue(null);
 
       const orderId = await service['generateUniqueOrderId']();
-      const currentYear = new Date().getFullYear();
 
-      expect(orderId).toMatch(new RegExp(`^ORD-${currentYear}-\\d{6}$`));
       expect(orderId).toBe(`ORD-${currentYear}-000001`);
+      expect(mockSequencesService.nextMany).toHaveBeenCalledWith('order', 1);
     });
 
-    it('should generate next sequential order ID when existing orders found', async () => {
-      const currentYear = new Date().getFullYear();
-      const lastOrder = { orderId: `ORD-${currentYear}-000005` };
-
-      const mockQueryBuilder = {
-        where: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        getOne: jest.fn().mockResolvedValue(lastOrder),
-      };
-      mockOrderRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-      mockOrderRepository.findOne.mockResolvedValue(null);
-
-      const orderId = await service['generateUniqueOrderId']();
-
-      expect(orderId).toBe(`ORD-${currentYear}-000006`);
-    });
-
-    it('should retry when collision detected', async () => {
-      const currentYear = new Date().getFullYear();
-      const lastOrder = { orderId: `ORD-${currentYear}-000005` };
-
-      const mockQueryBuilder = {
-        where: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        getOne: jest.fn().mockResolvedValue(lastOrder),
-      };
-      mockOrderRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-
+    it('should skip IDs already given to orders by hand', async () => {
       // First call returns existing order (collision), second call returns null (unique)
       mockOrderRepository.findOne
-        .mockResolvedValueOnce({ orderId: `ORD-${currentYear}-000006` })
+        .mockResolvedValueOnce({ orderId: `ORD-${currentYear}-000001` })
         .mockResolvedValueOnce(null);
 
       const orderId = await service['generateUniqueOrderId']();
 
-      // Should have generated a different ID due to collision
-      expect(orderId).toMatch(new RegExp(`^ORD-${currentYear}-\\d{6}$`));
+      expect(orderId).toBe(`ORD-${currentYear}-000002`);
       expect(mockOrderRepository.findOne).toHaveBeenCalledTimes(2);
     });
 
     it('should throw error after max retries', async () => {
-      const currentYear = new Date().getFullYear();
-      const lastOrder = { orderId: `ORD-${currentYear}-000005` };
-
-      const mockQueryBuilder = {
-        where: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        getOne: jest.fn().mockResolvedValue(lastOrder),
-      };
-      mockOrderRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-
       // Always return existing order (simulate persistent collision)
       mockOrderRepository.findOne.mockResolvedValue({ orderId: 'existing' });
 
@@ -156,6 +214,33 @@ describe('OrdersService - Order ID Generation', () => {
     });
   });
 
+  describe('generateUniqueOrderIds', () => {
+    it('should take consecutive IDs in one draw', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(null);
+
+      const orderIds = await service['generateUniqueOrderIds'](3);
+
+      expect(orderIds).toEqual([
+        `ORD-${currentYear}-000001`,
+        `ORD-${currentYear}-000002`,
+        `ORD-${currentYear}-000003`,
+      ]);
+      expect(mockSequencesService.nextMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should draw again only for the IDs that were taken', async () => {
+      mockOrderRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ orderId: `ORD-${currentYear}-000002` })
+        .mockResolvedValueOnce(null);
+
+      const orderIds = await service['generateUniqueOrderIds'](2);
+
+      expect(orderIds).toEqual([`ORD-${currentYear}-000001`, `ORD-${currentYear}-000003`]);
+      expect(mockSequencesService.nextMany).toHaveBeenNthCalledWith(2, 'order', 1);
+    });
+  });
+
   describe('validateOrderIdUniqueness', () => {
     it('should return true for unique order ID', async () => {
       mockOrderRepository.findOne.mockResolvedValue(null);
@@ -192,6 +277,8 @@ describe('OrdersService - Order ID Generation', () => {
       email: 'test@example.com',
       name: 'Test User',
       password: 'hashed',
+      passwordChangedAt: null,
+      mustChangePassword: false,
       role: UserRole.ADMIN,
       status: UserStatus.ACTIVE,
       isDeleted: false,
@@ -216,12 +303,6 @@ describe('OrdersService - Order ID Generation', () => {
       };
 
       // Mock unique ID generation
-      const mockQueryBuilder = {
-        where: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        getOne: jest.fn().mockResolvedValue(null),
-      };
-      mockOrderRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
       mockOrderRepository.findOne.mockResolvedValue(null);
       mockOrderRepository.create.mockReturnValue({ id: 'order-1', orderId: 'ORD-2025-000001' });
       mockOrderRepository.save.mockResolvedValue({ id: 'order-1', orderId: 'ORD-2025-000001' });
@@ -241,6 +322,12 @@ describe('OrdersService - Order ID Generation', () => {
       const result = await service.create(createOrderDto, mockUser);
 
       expect(result.orderId).toMatch(/^ORD-\d{4}-\d{6}$/);
+      expect(mockOrderRevisionsService.recordRevision).toHaveBeenCalledWith(
+        mockManager,
+        'order-1',
+        OrderRevisionSource.CREATE,
+        mockUser,
+      );
     });
 
     it('should throw ConflictException for duplicate provided order ID', async () => {
@@ -264,6 +351,880 @@ describe('OrdersService - Order ID Generation', () => {
     });
   });
 
+  describe('Order status transitions on update', () => {
+    const mockOrder: Order = {
+      id: 'order-1',
+      orderId: 'ORD-2025-000001',
+      status: OrderStatus.PENDING,
+      totalItems: 100,
+      totalCost: 1000.00,
+      deliveredQuantity: 0,
+      remainingQuantity: 100,
+      fileName: 'test.xlsx',
+      file: null,
+      isDeleted: false,
+      createdBy: mockUser,
+      items: [],
+      deliveries: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 1,
+    };
+
+    it('should cancel an order without active deliveries', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      mockDeliveryRepository.count.mockResolvedValue(0);
+
+      await service.update('order-1', { status: OrderStatus.CANCELLED }, mockUser);
+
+      expect(mockManager.update).toHaveBeenCalledWith(Order, 'order-1', {
+        status: OrderStatus.CANCELLED,
+      });
+    });
+
+    it('should record a revision around the update', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      mockDeliveryRepository.count.mockResolvedValue(0);
+
+      await service.update('order-1', { status: OrderStatus.CANCELLED }, mockUser);
+
+      expect(mockOrderRevisionsService.ensureBaseline).toHaveBeenCalledWith(
+        mockManager,
+        'order-1',
+      );
+      expect(mockOrderRevisionsService.recordRevision).toHaveBeenCalledWith(
+        mockManager,
+        'order-1',
+        OrderRevisionSource.UPDATE,
+        mockUser,
+      );
+      expect(
+        mockOrderRevisionsService.ensureBaseline.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockManager.update.mock.invocationCallOrder[0]);
+    });
+
+    it('should bump the version the update was checked against', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, version: 3 });
+      mockDeliveryRepository.count.mockResolvedValue(0);
+
+      await service.update('order-1', { status: OrderStatus.CANCELLED }, mockUser, 3);
+
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        Order,
+        { id: 'order-1', version: 3 },
+        'version',
+        1,
+      );
+    });
+
+    it('should reject an update made from a stale version', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, version: 4 });
+
+      await expect(
+        service.update('order-1', { status: OrderStatus.CANCELLED }, mockUser, 3),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject an update when the order changed while it was saved', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, version: 3 });
+      mockDeliveryRepository.count.mockResolvedValue(0);
+      mockManager.increment.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(
+        service.update('order-1', { status: OrderStatus.CANCELLED }, mockUser),
+      ).rejects.toThrow(ConflictException);
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject cancelling an order with active deliveries', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      mockDeliveryRepository.count.mockResolvedValue(1);
+
+      await expect(
+        service.update('order-1', { status: OrderStatus.CANCELLED }, mockUser),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject editing items of a completed order', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...mockOrder,
+        status: OrderStatus.COMPLETED,
+      });
+
+      await expect(
+        service.update('order-1', {
+          items: [
+            {
+              asin: 'B08N5WRWNW',
+              brandName: 'Apple',
+              modelNumber: '1234567890123',
+              title: 'iPhone 12 Pro',
+              requestingDate: '2024-01-15',
+              quantityRequested: 10,
+              unitCost: 10,
+            },
+          ],
+        }, mockUser),
+      ).rejects.toThrow('Items of a completed order cannot be changed');
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject creating an order in a derived status', async () => {
+      await expect(
+        service.create({ status: OrderStatus.COMPLETED, items: [] }, mockUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('Order item amendment', () => {
+    const mockOrder: Order = {
+      id: 'order-1',
+      orderId: 'ORD-2025-000001',
+      status: OrderStatus.PROCESSING,
+      totalItems: 10,
+      totalCost: 100.00,
+      deliveredQuantity: 4,
+      remainingQuantity: 6,
+      fileName: 'test.xlsx',
+      file: null,
+      isDeleted: false,
+      createdBy: mockUser,
+      items: [],
+      deliveries: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 1,
+    };
+
+    const deliveredItem = {
+      id: 'item-1',
+      asin: 'B08N5WRWNW',
+      quantityRequested: 10,
+      quantityRemaining: 6,
+      unitCost: 10,
+      totalCost: 100,
+      deliveryItems: [{ id: 'delivery-item-1' }],
+    } as OrderItem;
+
+    const undeliveredItem = {
+      id: 'item-2',
+      asin: 'B07XJ8C8F5',
+      quantityRequested: 5,
+      quantityRemaining: 5,
+      unitCost: 20,
+      totalCost: 100,
+      deliveryItems: [],
+    } as unknown as OrderItem;
+
+    const lineFor = (item: OrderItem, quantityRequested: number, withId = true) => ({
+      id: withId ? item.id : undefined,
+      asin: item.asin,
+      brandName: 'Apple',
+      modelNumber: '1234567890123',
+      title: 'iPhone 12 Pro',
+      requestingDate: '2024-01-15',
+      quantityRequested,
+      unitCost: Number(item.unitCost),
+    });
+
+    beforeEach(() => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      mockManager.find.mockReset();
+      mockManager.find.mockResolvedValueOnce([deliveredItem, undeliveredItem]);
+      mockManager.find.mockResolvedValueOnce([]);
+      mockManager.findOne.mockResolvedValue(null);
+    });
+
+    it('should amend a line without touching its delivered quantity', async () => {
+      await service.update(
+        'order-1',
+        { items: [lineFor(deliveredItem, 8), lineFor(undeliveredItem, 5)] },
+        mockUser,
+      );
+
+      expect(mockManager.update).toHaveBeenCalledWith(
+        OrderItem,
+        'item-1',
+        expect.objectContaining({ quantityRequested: 8, quantityRemaining: 4, totalCost: 80 }),
+      );
+      expect(mockManager.query).toHaveBeenCalledWith('SET @TRIGGER_CONTEXT = ?', ['ORDER_AMENDMENT']);
+      expect(mockManager.query).toHaveBeenLastCalledWith('SET @TRIGGER_CONTEXT = NULL');
+      expect(mockQuantityAuditService.withContext).toHaveBeenCalledWith(
+        mockManager,
+        expect.objectContaining({ userId: 'user-1', operation: QuantityAuditOperation.AMENDMENT }),
+        expect.any(Function),
+      );
+      expect(mockManager.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reject lowering a line below its delivered quantity', async () => {
+      await expect(
+        service.update(
+          'order-1',
+          { items: [lineFor(deliveredItem, 3), lineFor(undeliveredItem, 5)] },
+          mockUser,
+        ),
+      ).rejects.toThrow('is below the 4 already delivered');
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject removing a line that has deliveries', async () => {
+      await expect(
+        service.update('order-1', { items: [lineFor(undeliveredItem, 5)] }, mockUser),
+      ).rejects.toThrow('cannot be removed because it has deliveries');
+      expect(mockManager.delete).not.toHaveBeenCalled();
+    });
+
+    it('should add new lines and remove undelivered ones', async () => {
+      const newLine = lineFor(undeliveredItem, 3, false);
+
+      await service.update(
+        'order-1',
+        { items: [lineFor(deliveredItem, 10), { ...newLine, asin: 'B0NEWASIN1' }] },
+        mockUser,
+      );
+
+      expect(mockManager.save).toHaveBeenCalledWith(OrderItem, [
+        expect.objectContaining({ asin: 'B0NEWASIN1', quantityRemaining: 3, totalCost: 60 }),
+      ]);
+      expect(mockManager.delete).toHaveBeenCalledWith(OrderItem, ['item-2']);
+    });
+
+    it('should match lines without an ID by ASIN', async () => {
+      const lineWithoutId = lineFor(deliveredItem, 12, false);
+
+      await service.update(
+        'order-1',
+        { items: [lineWithoutId, lineFor(undeliveredItem, 5)] },
+        mockUser,
+      );
+
+      expect(mockManager.update).toHaveBeenCalledWith(
+        OrderItem,
+        'item-1',
+        expect.objectContaining({ quantityRequested: 12, quantityRemaining: 8 }),
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should leave an item named by ID to its line when an earlier line has the same ASIN', async () => {
+      const lineWithoutId = lineFor(deliveredItem, 2, false);
+
+      await service.update(
+        'order-1',
+        { items: [lineWithoutId, lineFor(deliveredItem, 10), lineFor(undeliveredItem, 5)] },
+        mockUser,
+      );
+
+      expect(mockManager.update).toHaveBeenCalledWith(
+        OrderItem,
+        'item-1',
+        expect.objectContaining({ quantityRequested: 10, quantityRemaining: 6 }),
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(OrderItem, [
+        expect.objectContaining({ asin: 'B08N5WRWNW', quantityRequested: 2 }),
+      ]);
+    });
+  });
+
+  describe('Order re-import from Excel', () => {
+    const mockOrder: Order = {
+      id: 'order-1',
+      orderId: 'ORD-2025-000001',
+      status: OrderStatus.PROCESSING,
+      totalItems: 15,
+      totalCost: 200.00,
+      deliveredQuantity: 4,
+      remainingQuantity: 11,
+      fileName: 'test.xlsx',
+      file: null,
+      isDeleted: false,
+      createdBy: mockUser,
+      items: [],
+      deliveries: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 1,
+    };
+
+    const deliveredItem = {
+      id: 'item-1',
+      asin: 'B08N5WRWNW',
+      brandName: 'Apple',
+      modelNumber: '1234567890123',
+      title: 'iPhone 12 Pro',
+      requestingDate: '2024-01-15',
+      quantityRequested: 10,
+      quantityRemaining: 6,
+      unitCost: '10.00',
+      totalCost: '100.00',
+      deliveryItems: [{ id: 'delivery-item-1' }],
+    } as unknown as OrderItem;
+
+    const undeliveredItem = {
+      id: 'item-2',
+      asin: 'B07XJ8C8F5',
+      brandName: 'Sony',
+      modelNumber: '9876543210987',
+      title: 'Sony Headphones',
+      requestingDate: '2024-01-15',
+      quantityRequested: 5,
+      quantityRemaining: 5,
+      unitCost: '20.00',
+      totalCost: '100.00',
+      deliveryItems: [],
+    } as unknown as OrderItem;
+
+    const rowFor = (item: OrderItem, quantity: number) => ({
+      ASIN: item.asin,
+      'Brand Name': item.brandName,
+      'Model Number': item.modelNumber,
+      Title: item.title,
+      'Requesting Date': '2024-01-15',
+      'Quantity Requested': quantity,
+      'Unit Cost': Number(item.unitCost),
+    });
+
+    const workbookFile = (rows: Record<string, unknown>[]) => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Order');
+      return {
+        originalname: 'order-v2.xlsx',
+        buffer: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+      } as Express.Multer.File;
+    };
+
+    const newRow = {
+      ...rowFor(undeliveredItem, 3),
+      ASIN: 'B0NEWASIN1',
+      'Model Number': '5555555555555',
+    };
+
+    beforeEach(() => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      mockOrderItemRepository.find.mockResolvedValue([deliveredItem, undeliveredItem]);
+      mockManager.find.mockReset();
+      mockManager.find.mockResolvedValueOnce([deliveredItem, undeliveredItem]);
+      mockManager.find.mockResolvedValueOnce([]);
+      mockManager.findOne.mockResolvedValue(null);
+      mockFileStorageService.store.mockResolvedValue({
+        id: 'file-2',
+        originalName: 'order_v2.xlsx',
+      } as StoredFile);
+    });
+
+    it('should preview updated, added and dropped lines without saving', async () => {
+      const { order, summary: result } = await service.previewExcelReimport(
+        'order-1',
+        workbookFile([rowFor(deliveredItem, 12), newRow]),
+        {},
+      );
+
+      expect(result.updated).toEqual([
+        expect.objectContaining({
+          orderItemId: 'item-1',
+          deliveredQuantity: 4,
+          changes: [{ field: 'quantityRequested', from: 10, to: 12 }],
+        }),
+      ]);
+      expect(result.added).toEqual([expect.objectContaining({ asin: 'B0NEWASIN1' })]);
+      expect(result.dropped).toEqual([
+        expect.objectContaining({ orderItemId: 'item-2', action: 'keep' }),
+      ]);
+      expect(result.conflicts).toEqual([]);
+      expect(order.version).toBe(1);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should flag rows below the delivered quantity as conflicts', async () => {
+      const { summary: result } = await service.previewExcelReimport(
+        'order-1',
+        workbookFile([rowFor(deliveredItem, 3), rowFor(undeliveredItem, 5)]),
+        {},
+      );
+
+      expect(result.unchanged).toBe(1);
+      expect(result.conflicts).toEqual([
+        expect.stringContaining('is below the 4 already delivered'),
+      ]);
+    });
+
+    it('should merge the file and record a re-import revision', async () => {
+      const result = await service.reimportFromExcel(
+        'order-1',
+        workbookFile([rowFor(deliveredItem, 12), newRow]),
+        { removeDroppedLines: true },
+        mockUser,
+      );
+
+      expect(mockManager.update).toHaveBeenCalledWith(Order, 'order-1', {
+        fileName: 'order_v2.xlsx',
+        file: { id: 'file-2' },
+      });
+      expect(mockManager.update).toHaveBeenCalledWith(
+        OrderItem,
+        'item-1',
+        expect.objectContaining({ quantityRequested: 12, quantityRemaining: 8 }),
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(OrderItem, [
+        expect.objectContaining({ asin: 'B0NEWASIN1', quantityRemaining: 3 }),
+      ]);
+      expect(mockManager.delete).toHaveBeenCalledWith(OrderItem, ['item-2']);
+      expect(result.dropped).toEqual([
+        expect.objectContaining({ orderItemId: 'item-2', action: 'remove' }),
+      ]);
+      expect(mockOrderRevisionsService.recordRevision).toHaveBeenCalledWith(
+        mockManager,
+        'order-1',
+        OrderRevisionSource.REIMPORT,
+        mockUser,
+      );
+    });
+
+    it('should reject a re-import when the order changed since the preview', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, version: 2 });
+
+      await expect(
+        service.reimportFromExcel(
+          'order-1',
+          workbookFile([rowFor(deliveredItem, 12), newRow]),
+          {},
+          mockUser,
+          1,
+        ),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a re-import when the order changed while it was saved', async () => {
+      mockManager.increment.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(
+        service.reimportFromExcel(
+          'order-1',
+          workbookFile([rowFor(deliveredItem, 12), newRow]),
+          {},
+          mockUser,
+          1,
+        ),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        Order,
+        { id: 'order-1', version: 1 },
+        'version',
+        1,
+      );
+      expect(mockFileStorageService.store).not.toHaveBeenCalled();
+    });
+
+    it('should remove the replaced spreadsheet once the re-import is saved', async () => {
+      const previousFile = { id: 'file-1', originalName: 'test.xlsx' } as StoredFile;
+      mockManager.findOne.mockResolvedValueOnce({ ...mockOrder, file: previousFile });
+
+      await service.reimportFromExcel(
+        'order-1',
+        workbookFile([rowFor(deliveredItem, 12), newRow]),
+        {},
+        mockUser,
+      );
+
+      expect(mockFileStorageService.remove).toHaveBeenCalledTimes(1);
+      expect(mockFileStorageService.remove).toHaveBeenCalledWith(previousFile);
+      expect(mockFileStorageService.remove.mock.invocationCallOrder[0]).toBeGreaterThan(
+        mockOrderRevisionsService.recordRevision.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should only log when the replaced spreadsheet cannot be removed', async () => {
+      mockManager.findOne.mockResolvedValueOnce({
+        ...mockOrder,
+        file: { id: 'file-1' } as StoredFile,
+      });
+      mockFileStorageService.remove.mockRejectedValueOnce(new Error('Bucket unavailable'));
+      const logError = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+      const result = await service.reimportFromExcel(
+        'order-1',
+        workbookFile([rowFor(deliveredItem, 12), newRow]),
+        {},
+        mockUser,
+      );
+
+      expect(result.updated).toHaveLength(1);
+      expect(logError).toHaveBeenCalledWith(expect.stringContaining('Bucket unavailable'));
+      logError.mockRestore();
+    });
+
+    describe('of an order imported from a workbook', () => {
+      // The orders table, as far as the import and re-import touch it
+      let orders: Order[];
+
+      beforeEach(() => {
+        orders = [];
+        mockManager.save.mockImplementation((entity: unknown, data: Order) => {
+          if (entity !== Order) {
+            return Promise.resolve(data);
+          }
+          const order = { ...data, id: `id-${data.orderId}`, version: 1 } as Order;
+          orders.push(order);
+          return Promise.resolve(order);
+        });
+        mockManager.update.mockImplementation((entity: unknown, id: string, changes: Partial<Order>) => {
+          if (entity === Order) {
+            Object.assign(orders.find((order) => order.id === id)!, changes);
+          }
+          return Promise.resolve({ affected: 1 });
+        });
+        mockManager.count.mockImplementation((entity: unknown, { where }: { where: { file: { id: string } } }) =>
+          Promise.resolve(
+            entity === Order
+              ? orders.filter((order) => order.file?.id === where.file.id).length
+              : 0,
+          ),
+        );
+        jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+      });
+
+      afterEach(() => {
+        mockManager.save.mockReset();
+        mockManager.update.mockReset();
+        mockManager.count.mockReset().mockResolvedValue(0);
+      });
+
+      it('should keep the workbook the other orders were imported from', async () => {
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([rowFor(deliveredItem, 10)]), 'PO A');
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([rowFor(undeliveredItem, 5)]), 'PO B');
+        const workbookStoredFile = { id: 'workbook-1', originalName: 'order_workbook.xlsx' } as StoredFile;
+        mockFileStorageService.store.mockResolvedValueOnce(workbookStoredFile);
+        mockOrderRepository.findOne.mockResolvedValue(null);
+
+        await service.importWorkbook(
+          {
+            originalname: 'purchase-orders.xlsx',
+            buffer: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+          } as Express.Multer.File,
+          { splitBy: OrderImportSplit.SHEET },
+          mockUser,
+        );
+        const [reimported, other] = orders;
+        expect(other.file).toBe(workbookStoredFile);
+
+        mockOrderRepository.findOne.mockResolvedValue(reimported);
+        mockManager.findOne.mockResolvedValueOnce(reimported);
+        await service.reimportFromExcel(
+          reimported.id,
+          workbookFile([rowFor(deliveredItem, 12), newRow]),
+          {},
+          mockUser,
+        );
+
+        expect(reimported.file).toEqual({ id: 'file-2' });
+        expect(other.file).toBe(workbookStoredFile);
+        expect(mockFileStorageService.remove).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should keep dropped lines that have deliveries', async () => {
+      const result = await service.reimportFromExcel(
+        'order-1',
+        workbookFile([rowFor(undeliveredItem, 5)]),
+        { removeDroppedLines: true },
+        mockUser,
+      );
+
+      expect(result.dropped).toEqual([
+        expect.objectContaining({ orderItemId: 'item-1', action: 'keep' }),
+      ]);
+      expect(mockManager.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reject the whole file when a row conflicts with deliveries', async () => {
+      await expect(
+        service.reimportFromExcel(
+          'order-1',
+          workbookFile([rowFor(deliveredItem, 3), newRow]),
+          {},
+          mockUser,
+        ),
+      ).rejects.toThrow('Order could not be re-imported');
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(mockOrderRevisionsService.recordRevision).not.toHaveBeenCalled();
+    });
+
+    it('should reject files with invalid rows', async () => {
+      await expect(
+        service.reimportFromExcel(
+          'order-1',
+          workbookFile([rowFor(deliveredItem, 12), { ...newRow, 'Model Number': '123' }]),
+          {},
+          mockUser,
+        ),
+      ).rejects.toThrow('Excel file has invalid rows');
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should remove the stored upload when the re-import is rolled back', async () => {
+      mockOrderRevisionsService.recordRevision.mockRejectedValueOnce(new Error('Deadlock'));
+
+      await expect(
+        service.reimportFromExcel(
+          'order-1',
+          workbookFile([rowFor(deliveredItem, 12), newRow]),
+          {},
+          mockUser,
+        ),
+      ).rejects.toThrow('Failed to process Excel file: Deadlock');
+      expect(mockFileStorageService.remove).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'file-2' }),
+      );
+    });
+  });
+
+  describe('Workbook import', () => {
+    const headers = [
+      'ASIN',
+      'Brand Name',
+      'Model Number',
+      'Title',
+      'Requesting Date',
+      'Quantity Requested',
+      'Unit Cost',
+    ];
+    const itemRow = (asin: string, quantity: number | string) => [
+      asin, 'Apple', '1234567890123', 'iPhone 12 Pro', '2024-01-15', quantity, 10,
+    ];
+
+    const workbookFile = (sheets: Record<string, unknown[][]>) => {
+      const workbook = XLSX.utils.book_new();
+      Object.entries(sheets).forEach(([name, rows]) =>
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name),
+      );
+      return {
+        originalname: 'purchase-orders.xlsx',
+        buffer: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+      } as Express.Multer.File;
+    };
+
+    beforeEach(() => {
+      mockOrderRepository.findOne.mockResolvedValue(null);
+      nextSequenceValue = 42;
+      mockManager.save.mockImplementation((entity, data) =>
+        Promise.resolve(entity === Order ? { ...data, id: `id-${data.orderId}` } : data),
+      );
+      mockFileStorageService.store.mockResolvedValue({
+        id: 'file-1',
+        originalName: 'order_workbook.xlsx',
+      } as StoredFile);
+      jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      mockManager.save.mockReset();
+    });
+
+    it('should create one order per sheet and skip sheets without order columns', async () => {
+      const file = workbookFile({
+        Cover: [['Purchase orders for January']],
+        'PO A': [headers, itemRow('B000000001', 5), itemRow('B000000002', 'x')],
+        'PO B': [headers, itemRow('B000000003', 2)],
+        'PO C': [headers, itemRow('B000000004', 0)],
+      });
+
+      const result = await service.importWorkbook(
+        file,
+        { splitBy: OrderImportSplit.SHEET },
+        mockUser,
+      );
+
+      expect(result.orders.map((order) => [order.source, order.status, order.orderId])).toEqual([
+        ['Cover', 'skipped', null],
+        ['PO A', 'created', `ORD-${currentYear}-000042`],
+        ['PO B', 'created', `ORD-${currentYear}-000043`],
+        ['PO C', 'failed', null],
+      ]);
+      expect(result.orders[1]).toEqual(expect.objectContaining({
+        itemsProcessed: 1,
+        itemsSkipped: 1,
+        errors: ['Row 3: Quantity requested must be a positive integer'],
+      }));
+      expect(result).toEqual(expect.objectContaining({ created: 2, skipped: 1, failed: 1 }));
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(2);
+      expect(mockOrderRevisionsService.recordRevision).toHaveBeenCalledWith(
+        mockManager,
+        `id-ORD-${currentYear}-000042`,
+        OrderRevisionSource.IMPORT,
+        mockUser,
+      );
+    });
+
+    it('should group rows by PO number and use it as the order ID', async () => {
+      const file = workbookFile({
+        Orders: [
+          [...headers, 'PO Number'],
+          [...itemRow('B000000001', 5), 'PO-1'],
+          [...itemRow('B000000002', 3), 'PO-2'],
+          [...itemRow('B000000003', 1), 'PO-1'],
+          [...itemRow('B000000004', 1), ''],
+        ],
+      });
+
+      const result = await service.importWorkbook(
+        file,
+        { splitBy: OrderImportSplit.PO_NUMBER },
+        mockUser,
+      );
+
+      expect(result.orders.map((order) => [order.orderId, order.status, order.itemsProcessed])).toEqual([
+        ['PO-1', 'created', 2],
+        ['PO-2', 'created', 1],
+      ]);
+      expect(result.errors).toEqual(['Row 5: Missing required field: PO Number']);
+      expect(mockManager.save).toHaveBeenCalledWith(
+        Order,
+        expect.objectContaining({ orderId: 'PO-1', totalItems: 6, totalCost: 60 }),
+      );
+    });
+
+    it('should skip PO numbers that already exist', async () => {
+      mockOrderRepository.findOne.mockImplementation(({ where }) =>
+        Promise.resolve(where.orderId === 'PO-1' ? { id: 'existing' } : null),
+      );
+      const file = workbookFile({
+        Orders: [
+          [...headers, 'PO Number'],
+          [...itemRow('B000000001', 5), 'PO-1'],
+          [...itemRow('B000000002', 3), 'PO-2'],
+        ],
+      });
+
+      const result = await service.importWorkbook(
+        file,
+        { splitBy: OrderImportSplit.PO_NUMBER },
+        mockUser,
+      );
+
+      expect(result.orders[0]).toEqual(expect.objectContaining({
+        orderId: 'PO-1',
+        status: 'skipped',
+        errors: ['Order with this ID already exists'],
+      }));
+      expect(result.created).toBe(1);
+    });
+
+    it('should write nothing in atomic mode when an order fails', async () => {
+      const file = workbookFile({
+        'PO A': [headers, itemRow('B000000001', 5)],
+        'PO B': [headers, itemRow('B000000002', -1)],
+      });
+
+      await expect(
+        service.importWorkbook(
+          file,
+          { splitBy: OrderImportSplit.SHEET, atomic: true },
+          mockUser,
+        ),
+      ).rejects.toThrow('Workbook import rolled back: PO B: No valid items found');
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should create all orders in one transaction in atomic mode', async () => {
+      const file = workbookFile({
+        'PO A': [headers, itemRow('B000000001', 5)],
+        'PO B': [headers, itemRow('B000000002', 1)],
+      });
+
+      const result = await service.importWorkbook(
+        file,
+        { splitBy: OrderImportSplit.SHEET, atomic: true },
+        mockUser,
+      );
+
+      expect(result.created).toBe(2);
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('CSV import', () => {
+    it('should validate CSV rows with locale options and report their source lines', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(null);
+      const content = [
+        'ASIN;Brand Name;Model Number;Title;Requesting Date;Quantity Requested;Unit Cost',
+        'B08N5WRWNW;Apple;1234567890123;iPhone 12 Pro;15.01.2024;1.200;1.099,50',
+        'B07XJ8C8F5;Apple;12345;iPhone 12;16.01.2024;5;10',
+        'B01N9SPQHQ;Apple;9876543210987;iPad;31.02.2024;5;10',
+      ].join('\n');
+      const file = {
+        originalname: 'order.csv',
+        mimetype: 'text/csv',
+        buffer: Buffer.from(content),
+      } as Express.Multer.File;
+
+      const result = await service.previewExcelImport(file, {
+        orderId: 'ORD-CSV-1',
+        decimalSeparator: ImportDecimalSeparator.COMMA,
+        dateFormat: ImportDateFormat.DAY_MONTH_YEAR_DOTS,
+      });
+
+      expect(result.items).toEqual([
+        {
+          asin: 'B08N5WRWNW',
+          brandName: 'Apple',
+          modelNumber: '1234567890123',
+          title: 'iPhone 12 Pro',
+          requestingDate: '2024-01-15',
+          quantityRequested: 1200,
+          unitCost: 1099.5,
+        },
+      ]);
+      expect(result.errors).toEqual([
+        'Row 3: Model number "12345" must be exactly 13 digits (numbers only)',
+        'Row 4: Invalid requesting date format: 31.02.2024',
+      ]);
+      expect(result.issues.map(({ row, column, field, code, value }) => ({ row, column, field, code, value }))).toEqual([
+        { row: 3, column: 'C', field: 'Model Number', code: 'INVALID_MODEL_NUMBER', value: '12345' },
+        { row: 4, column: 'E', field: 'Requesting Date', code: 'INVALID_DATE', value: '31.02.2024' },
+      ]);
+    });
+  });
+
+  describe('getOrderFile', () => {
+    it('should read the upload from file storage', async () => {
+      const storedFile = { id: 'file-1', originalName: 'order_ORD-1.xlsx' } as StoredFile;
+      const content = {
+        fileName: 'order_ORD-1.xlsx',
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        buffer: Buffer.from('xlsx'),
+      };
+      mockOrderRepository.findOne.mockResolvedValue({ id: 'order-1', fileName: 'order_ORD-1.xlsx', file: storedFile });
+      mockFileStorageService.read.mockResolvedValue(content);
+
+      await expect(service.getOrderFile('order-1')).resolves.toBe(content);
+      expect(mockFileStorageService.read).toHaveBeenCalledWith(storedFile);
+    });
+
+    it('should report files that are neither stored nor in the legacy directory', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        id: 'order-1',
+        fileName: 'order_ORD-1_1700000000000.xlsx',
+        file: null,
+      });
+
+      await expect(service.getOrderFile('order-1')).rejects.toThrow('File not found on server');
+      expect(mockFileStorageService.read).not.toHaveBeenCalled();
+    });
+
+    it('should report orders without a file', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ id: 'order-1', fileName: null, file: null });
+
+      await expect(service.getOrderFile('order-1')).rejects.toThrow(
+        'No file associated with this order',
+      );
+    });
+  });
+
   describe('Order Deletion with Delivery Validation', () => {
     const mockOrder: Order = {
       id: 'order-1',
@@ -274,12 +1235,14 @@ describe('OrdersService - Order ID Generation', () => {
       deliveredQuantity: 0,
       remainingQuantity: 100,
       fileName: 'test.xlsx',
+      file: null,
       isDeleted: false,
       createdBy: mockUser,
       items: [],
       deliveries: [],
       createdAt: new Date(),
       updatedAt: new Date(),
+      version: 1,
     };
 
     beforeEach(() => {
@@ -1,22 +1,71 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   ConflictException,
   BadRequestException,
+  PreconditionFailedException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, SelectQueryBuilder } from 'typeorm';
-import * as XLSX from 'xlsx';
+import { ConfigService } from '@nestjs/config';
+import {
+  Repository,
+  SelectQueryBuilder,
+  Not,
+  DataSource,
+  EntityManager,
+} from 'typeorm';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Order, OrderStatus } from './entities/order.entity';
 import { OrderItem } from './entities/order-item.entity';
 import { User } from '../users/entities/user.entity';
-import { Delivery } from '../deliveries/entities/delivery.entity';
+import { Delivery, DeliveryStatus } from '../deliveries/entities/delivery.entity';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderDto } from './dto/update-order.dto';
+import { UpdateOrderItemDto } from './dto/update-order-item.dto';
 import { GetOrdersDto } from './dto/get-orders.dto';
-import { ExcelImportDto } from './dto/excel-import.dto';
+import { CreateOrderItemDto } from './dto/create-order-item.dto';
+import {
+  ExcelImportDto,
+  ExcelReimportDto,
+  OrderImportSplit,
+} from './dto/excel-import.dto';
+import { OrderStatusService } from './order-status.service';
+import { assertVersion, claimVersion } from '../common/optimistic-lock';
+import { OrderRevisionsService } from './order-revisions.service';
+import { OrderRevisionSource } from './entities/order-revision.entity';
+import { QuantityAuditService } from '../audit/quantity-audit.service';
+import { ImportProfilesService } from '../imports/import-profiles.service';
+import { ImportProfileTarget } from '../imports/entities/import-profile.entity';
+import { QuantityAuditOperation } from '../audit/entities/quantity-audit-log.entity';
+import { FieldChange } from './interfaces/order-revision.interface';
+import {
+  OrderReimportSummary,
+  ReimportUpdatedLine,
+} from './interfaces/order-reimport.interface';
+import {
+  OrderImportResult,
+  WorkbookImportResult,
+} from './interfaces/order-import.interface';
+import {
+  MappedSheet,
+  TextImportOptions,
+} from '../imports/interfaces/import-profile.interface';
+import { ImportIssue } from '../imports/interfaces/import-issue.interface';
+import { ImportProgressListener } from '../imports/interfaces/import-progress.interface';
+import {
+  ImportRowError,
+  createImportIssue,
+  formatImportIssue,
+  importIssueFromError,
+} from '../imports/import-issues';
+import { FileStorageService } from '../storage/file-storage.service';
+import { SequencesService } from '../sequences/sequences.service';
+import { StoredFile, StoredFileCategory } from '../storage/entities/stored-file.entity';
+import { Attachment } from '../attachments/entities/attachment.entity';
+import { StoredFileContent } from '../storage/interfaces/stored-file.interface';
+import { sniffMimeType } from '../storage/mime-sniffer';
 
 export interface PaginatedResponse<T> {
   data: T[];
@@ -26,8 +75,43 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+interface ParsedOrderExcel {
+  totalRows: number;
+  items: CreateOrderItemDto[];
+  errors: string[];
+  issues: ImportIssue[];
+}
+
+/**
+ * Rows of a workbook that become one order. Groups with a skip reason are
+ * reported but not imported.
+ */
+interface OrderImportGroup {
+  source: string;
+  orderId: string | null;
+  sheet: MappedSheet | null;
+  skipReason?: string;
+}
+
+interface OrderItemChangeSet {
+  amendments: Array<{ existing: OrderItem; dto: CreateOrderItemDto }>;
+  additions: CreateOrderItemDto[];
+  removals: OrderItem[];
+}
+
+// Fields a re-import may change on a matched line; ASIN and Model Number are the match key
+const REIMPORT_FIELDS = [
+  'brandName',
+  'title',
+  'requestingDate',
+  'quantityRequested',
+  'unitCost',
+] as const;
+
 @Injectable()
 export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+
   constructor(
     @InjectRepository(Order)
     private orderRepository: Repository<Order>,
@@ -35,9 +119,26 @@ export class OrdersService {
     private orderItemRepository: Repository<OrderItem>,
     @InjectRepository(Delivery)
     private deliveryRepository: Repository<Delivery>,
+    private orderStatusService: OrderStatusService,
+    private orderRevisionsService: OrderRevisionsService,
+    private quantityAuditService: QuantityAuditService,
+    private importProfilesService: ImportProfilesService,
+    private fileStorageService: FileStorageService,
+    private sequencesService: SequencesService,
+    private configService: ConfigService,
+    private dataSource: DataSource,
   ) { }
 
-  async create(createOrderDto: CreateOrderDto, user: User): Promise<Order> {
+  async create(
+    createOrderDto: CreateOrderDto,
+    user: User,
+    revisionSource: OrderRevisionSource = OrderRevisionSource.CREATE,
+    file: StoredFile | null = null,
+  ): Promise<Order> {
+    if (createOrderDto.status && createOrderDto.status !== OrderStatus.PENDING) {
+      throw new BadRequestException('New orders must start in pending status');
+    }
+
     // Generate order ID if not provided
     let orderId = createOrderDto.orderId;
     if (!orderId) {
@@ -67,7 +168,8 @@ export class OrdersService {
       totalItems,
       totalCost,
       remainingQuantity: totalItems,
-      fileName: createOrderDto.fileName,
+      fileName: file?.originalName ?? createOrderDto.fileName,
+      file,
       createdBy: user,
     });
 
@@ -87,6 +189,16 @@ export class OrdersService {
 
     await this.orderItemRepository.save(orderItems);
 
+    // First revision of the order
+    await this.dataSource.transaction((manager) =>
+      this.orderRevisionsService.recordRevision(
+        manager,
+        savedOrder.id,
+        revisionSource,
+        user,
+      ),
+    );
+
     return this.findOne(savedOrder.id);
   }
 
@@ -116,6 +228,18 @@ export class OrdersService {
     };
   }
 
+  /**
+   * Every order matching the list filters, in list order
+   */
+  async findAllMatching(query: Omit<GetOrdersDto, 'page' | 'limit'>): Promise<Order[]> {
+    const queryBuilder = this.createQueryBuilder();
+
+    this.applyFilters(queryBuilder, query);
+    queryBuilder.orderBy(`order.${query.sortBy}`, query.sortOrder);
+
+    return queryBuilder.getMany();
+  }
+
   async findOne(id: string): Promise<Order> {
     const order = await this.orderRepository.findOne({
       where: { id, isDeleted: false },
@@ -129,9 +253,54 @@ export class OrdersService {
     return order;
   }
 
-  async update(id: string, updateOrderDto: UpdateOrderDto): Promise<Order> {
+  /**
+   * The spreadsheet an order was imported from. Orders imported before file
+   * storage existed are read from the directory uploads used to be written to.
+   */
+  async getOrderFile(id: string): Promise<StoredFileContent> {
+    const order = await this.orderRepository.findOne({
+      where: { id, isDeleted: false },
+      relations: ['file'],
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.file) {
+      return this.fileStorageService.read(order.file);
+    }
+
+    if (!order.fileName) {
+      throw new NotFoundException('No file associated with this order');
+    }
+
+    const legacyPath = path.resolve(
+      this.configService.get<string>('storage.legacyOrdersDir', 'src/orders'),
+      path.basename(order.fileName),
+    );
+    if (!fs.existsSync(legacyPath)) {
+      throw new NotFoundException('File not found on server');
+    }
+
+    const buffer = await fs.promises.readFile(legacyPath);
+    return {
+      fileName: order.fileName,
+      contentType: sniffMimeType(buffer, order.fileName),
+      buffer,
+    };
+  }
+
+  async update(
+    id: string,
+    updateOrderDto: UpdateOrderDto,
+    user: User,
+    expectedVersion?: number,
+  ): Promise<Order> {
     const order = await this.findOne(id);
 
+    assertVersion(order, expectedVersion, 'Order');
+
     // If orderId is being updated, validate uniqueness (including soft-deleted orders)
     if (updateOrderDto.orderId && updateOrderDto.orderId !== order.orderId) {
       const isUnique = await this.validateOrderIdUniqueness(updateOrderDto.orderId);
@@ -140,44 +309,57 @@ export class OrdersService {
       }
     }
 
-    // Update order
-    await this.orderRepository.update(id, updateOrderDto);
-
-    // If items are being updated, handle them
-    if (updateOrderDto.items) {
-      // Remove existing items
-      await this.orderItemRepository.delete({ order: { id } });
-
-      // Add new items
-      const orderItems = updateOrderDto.items.map((itemDto) => {
-        const totalItemCost = itemDto.quantityRequested * itemDto.unitCost;
-        return this.orderItemRepository.create({
-          ...itemDto,
-          totalCost: totalItemCost,
-          quantityRemaining: itemDto.quantityRequested,
-          order,
-        });
+    // Validate status transition if status is being updated
+    if (updateOrderDto.status && updateOrderDto.status !== order.status) {
+      const activeDeliveryCount = await this.deliveryRepository.count({
+        where: { order: { id }, status: Not(DeliveryStatus.VOIDED) },
       });
 
-      await this.orderItemRepository.save(orderItems);
-
-      // Recalculate order totals
-      const totalItems = updateOrderDto.items.reduce(
-        (sum, item) => sum + item.quantityRequested,
-        0,
-      );
-      const totalCost = updateOrderDto.items.reduce(
-        (sum, item) => sum + item.quantityRequested * item.unitCost,
-        0,
+      this.orderStatusService.validateManualTransition(
+        order.status,
+        updateOrderDto.status,
+        activeDeliveryCount,
       );
+    }
 
-      await this.orderRepository.update(id, {
-        totalItems,
-        totalCost,
-        remainingQuantity: totalItems,
-      });
+    if (updateOrderDto.items) {
+      this.orderStatusService.validateItemsEditable(order.status);
     }
 
+    const { items, ...orderFields } = updateOrderDto;
+
+    await this.dataSource.transaction(async (manager) =>
+      this.quantityAuditService.withContext(
+        manager,
+        {
+          userId: user.id,
+          operation: QuantityAuditOperation.AMENDMENT,
+          reason: `Order ${order.orderId} amended`,
+        },
+        async () => {
+          await claimVersion(manager, Order, order, expectedVersion, 'Order');
+          await this.orderRevisionsService.ensureBaseline(manager, id);
+
+          // Update order
+          if (Object.keys(orderFields).length > 0) {
+            await manager.update(Order, id, orderFields);
+          }
+
+          // If items are being updated, amend them line by line
+          if (items) {
+            await this.amendOrderItems(manager, order, items);
+          }
+
+          await this.orderRevisionsService.recordRevision(
+            manager,
+            id,
+            OrderRevisionSource.UPDATE,
+            user,
+          );
+        },
+      ),
+    );
+
     return this.findOne(id);
   }
 
@@ -199,6 +381,180 @@ export class OrdersService {
     await this.orderRepository.update(id, { isDeleted: true });
   }
 
+  /**
+   * Applies an item list to an order in place: lines matched by ID (or by a
+   * unique ASIN) are amended, unmatched lines are added and lines missing from
+   * the list are removed. Delivered quantities are never touched, so a line
+   * cannot go below what was delivered or be removed once it has deliveries.
+   */
+  private async amendOrderItems(
+    manager: EntityManager,
+    order: Order,
+    items: UpdateOrderItemDto[],
+  ): Promise<void> {
+    const existingItems = await manager.find(OrderItem, {
+      where: { order: { id: order.id } },
+      relations: ['deliveryItems'],
+    });
+    const existingById = new Map(existingItems.map((item) => [item.id, item]));
+    const claimedIds = new Set<string>();
+    const errors: string[] = [];
+
+    const amendments: OrderItemChangeSet['amendments'] = [];
+    const additions: CreateOrderItemDto[] = [];
+
+    // Lines that name their item by ID claim it first, so the ASIN fallback
+    // below cannot take an item that a later line names
+    const matches = new Map<number, OrderItem>();
+    items.forEach((itemDto, index) => {
+      if (!itemDto.id) {
+        return;
+      }
+
+      const existing = existingById.get(itemDto.id);
+      if (!existing) {
+        errors.push(`Line ${index + 1}: order item ${itemDto.id} does not belong to this order`);
+        return;
+      }
+
+      if (claimedIds.has(existing.id)) {
+        errors.push(`Line ${index + 1}: order item ${existing.id} is listed more than once`);
+        return;
+      }
+      claimedIds.add(existing.id);
+      matches.set(index, existing);
+    });
+
+    // Fall back to ASIN so clients that never saw item IDs keep working
+    items.forEach((itemDto, index) => {
+      if (itemDto.id) {
+        return;
+      }
+
+      const candidates = existingItems.filter(
+        (item) => item.asin === itemDto.asin && !claimedIds.has(item.id),
+      );
+      if (candidates.length === 1) {
+        claimedIds.add(candidates[0].id);
+        matches.set(index, candidates[0]);
+      }
+    });
+
+    items.forEach((itemDto, index) => {
+      const existing = matches.get(index);
+
+      if (!existing) {
+        // Lines with an unknown ID were reported above
+        if (!itemDto.id) {
+          additions.push(itemDto);
+        }
+        return;
+      }
+
+      const deliveredQuantity = existing.quantityRequested - existing.quantityRemaining;
+
+      if (itemDto.quantityRequested < deliveredQuantity) {
+        errors.push(
+          `Line ${index + 1}: requested quantity (${itemDto.quantityRequested}) for ASIN ${existing.asin} is below the ${deliveredQuantity} already delivered`,
+        );
+      }
+
+      if (itemDto.asin !== existing.asin && existing.deliveryItems.length > 0) {
+        errors.push(
+          `Line ${index + 1}: ASIN of ${existing.asin} cannot be changed because it has deliveries`,
+        );
+      }
+
+      amendments.push({ existing, dto: itemDto });
+    });
+
+    const removals = existingItems.filter((item) => !claimedIds.has(item.id));
+
+    removals
+      .filter((item) => item.deliveryItems.length > 0)
+      .forEach((item) => {
+        errors.push(
+          `Order item for ASIN ${item.asin} cannot be removed because it has deliveries`,
+        );
+      });
+
+    if (errors.length > 0) {
+      throw new BadRequestException(`Order items could not be amended: ${errors.join('; ')}`);
+    }
+
+    await this.applyItemChanges(manager, order.id, { amendments, additions, removals });
+  }
+
+  /**
+   * Writes a validated set of item changes and refreshes the order totals
+   * and status. Callers are responsible for checking delivered quantities.
+   */
+  private async applyItemChanges(
+    manager: EntityManager,
+    orderId: string,
+    { amendments, additions, removals }: OrderItemChangeSet,
+  ): Promise<void> {
+    // Amend existing lines, keeping the delivered part of each line intact
+    await manager.query('SET @TRIGGER_CONTEXT = ?', ['ORDER_AMENDMENT']);
+    try {
+      for (const { existing, dto } of amendments) {
+        const deliveredQuantity = existing.quantityRequested - existing.quantityRemaining;
+
+        await manager.update(OrderItem, existing.id, {
+          asin: dto.asin,
+          brandName: dto.brandName,
+          modelNumber: dto.modelNumber,
+          title: dto.title,
+          requestingDate: new Date(dto.requestingDate),
+          quantityRequested: dto.quantityRequested,
+          quantityRemaining: dto.quantityRequested - deliveredQuantity,
+          unitCost: dto.unitCost,
+          totalCost: dto.quantityRequested * dto.unitCost,
+        });
+      }
+    } finally {
+      await manager.query('SET @TRIGGER_CONTEXT = NULL');
+    }
+
+    // Add new lines
+    if (additions.length > 0) {
+      const newItems = additions.map((itemDto) =>
+        manager.create(OrderItem, {
+          asin: itemDto.asin,
+          brandName: itemDto.brandName,
+          modelNumber: itemDto.modelNumber,
+          title: itemDto.title,
+          requestingDate: new Date(itemDto.requestingDate),
+          quantityRequested: itemDto.quantityRequested,
+          unitCost: itemDto.unitCost,
+          totalCost: itemDto.quantityRequested * itemDto.unitCost,
+          quantityRemaining: itemDto.quantityRequested,
+          order: { id: orderId } as Order,
+        }),
+      );
+      await manager.save(OrderItem, newItems);
+    }
+
+    // Remove undelivered lines that are no longer listed
+    if (removals.length > 0) {
+      await manager.delete(OrderItem, removals.map((item) => item.id));
+    }
+
+    // Recalculate order totals from the amended lines
+    const orderItems = await manager.find(OrderItem, {
+      where: { order: { id: orderId } },
+    });
+
+    await manager.update(Order, orderId, {
+      totalItems: orderItems.reduce((sum, item) => sum + item.quantityRequested, 0),
+      totalCost: orderItems.reduce((sum, item) => sum + Number(item.totalCost), 0),
+      remainingQuantity: orderItems.reduce((sum, item) => sum + item.quantityRemaining, 0),
+    });
+
+    // Lowering a line to its delivered quantity can complete the order
+    await this.orderStatusService.syncStatus(manager, orderId);
+  }
+
   private createQueryBuilder(): SelectQueryBuilder<Order> {
     return this.orderRepository
       .createQueryBuilder('order')
@@ -243,34 +599,11 @@ export class OrdersService {
     }
 
     try {
-      // Parse Excel file
-      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(worksheet);
-
-      // Validate required columns are present
-      this.validateOrderExcelColumns(data);
-
-      const errors: string[] = [];
-      const validItems: any[] = [];
-
-      // Process each row
-      data.forEach((row: any, index: number) => {
-        try {
-          const item = this.validateExcelRow(row, index + 2); // +2 for header and 0-based index
-          validItems.push(item);
-        } catch (error) {
-          const rowNumber = index + 2; // +2 for header and 0-based index
-          errors.push(`Row ${rowNumber}: ${error.message}`);
-          console.error(
-            `Excel validation error at row ${rowNumber}:`,
-            error.message,
-            'Row data:',
-            row,
-          );
-        }
-      });
+      const { totalRows, items: validItems, errors, issues } = await this.parseOrderExcel(
+        file,
+        excelImportDto.importProfileId,
+        excelImportDto,
+      );
 
       if (validItems.length === 0) {
         throw new BadRequestException('No valid items found in Excel file');
@@ -278,10 +611,11 @@ export class OrdersService {
 
       return {
         orderId,
-        totalItems: data.length,
+        totalItems: totalRows,
         itemsProcessed: validItems.length,
-        itemsSkipped: data.length - validItems.length,
+        itemsSkipped: totalRows - validItems.length,
         errors,
+        issues,
         items: validItems,
       };
     } catch (error) {
@@ -295,10 +629,39 @@ export class OrdersService {
     }
   }
 
+  /**
+   * Validates an order upload like the preview does and returns a copy of the
+   * file with every row issue marked, for the uploader to fix and re-submit
+   * @throws BadRequestException if the sheet is missing, empty or lacks required columns
+   */
+  async annotateExcelImport(
+    file: Express.Multer.File,
+    excelImportDto: ExcelImportDto,
+  ): Promise<Buffer> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const { issues } = await this.parseOrderExcel(
+      file,
+      excelImportDto.importProfileId,
+      excelImportDto,
+    );
+
+    return this.importProfilesService.annotateUpload(
+      file,
+      ImportProfileTarget.ORDER,
+      issues,
+      excelImportDto.importProfileId,
+      { text: excelImportDto },
+    );
+  }
+
   async importFromExcel(
     file: Express.Multer.File,
     excelImportDto: ExcelImportDto,
     user: User,
+    onProgress?: ImportProgressListener,
   ): Promise<any> {
     if (!file) {
       throw new BadRequestException('No file uploaded');
@@ -317,58 +680,46 @@ export class OrdersService {
     }
 
     try {
-      // Parse Excel file
-      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(worksheet);
-
-      // Validate required columns are present
-      this.validateOrderExcelColumns(data);
-
-      const errors: string[] = [];
-      const validItems: any[] = [];
-
-      // Process each row
-      data.forEach((row: any, index: number) => {
-        try {
-          const item = this.validateExcelRow(row, index + 2); // +2 for header and 0-based index
-          validItems.push(item);
-        } catch (error) {
-          const rowNumber = index + 2; // +2 for header and 0-based index
-          errors.push(`Row ${rowNumber}: ${error.message}`);
-          console.error(
-            `Excel validation error at row ${rowNumber}:`,
-            error.message,
-            'Row data:',
-            row,
-          );
-        }
-      });
+      const { totalRows, items: validItems, errors, issues } = await this.parseOrderExcel(
+        file,
+        excelImportDto.importProfileId,
+        excelImportDto,
+        onProgress,
+      );
 
       if (validItems.length === 0) {
         throw new BadRequestException('No valid items found in Excel file');
       }
 
-      // Save Excel file
-      const fileName = await this.saveExcelFile(file, orderId);
+      onProgress?.('saving', totalRows, totalRows);
 
-      // Create order with valid items and file name
+      // Keep the upload so it can be downloaded from the order
+      const storedFile = await this.storeOrderFile(file, orderId, user);
+
+      // Create order with valid items and its file
       const createOrderDto: CreateOrderDto = {
         orderId,
         status: OrderStatus.PENDING,
-        fileName,
         items: validItems,
       };
 
-      const order = await this.create(createOrderDto, user);
+      const order = await this.create(
+        createOrderDto,
+        user,
+        OrderRevisionSource.IMPORT,
+        storedFile,
+      ).catch(async (error) => {
+        await this.fileStorageService.remove(storedFile);
+        throw error;
+      });
 
       return {
         orderId: order.orderId,
-        totalItems: data.length,
+        totalItems: totalRows,
         itemsProcessed: validItems.length,
-        itemsSkipped: data.length - validItems.length,
+        itemsSkipped: totalRows - validItems.length,
         errors,
+        issues,
       };
     } catch (error) {
       if (
@@ -384,57 +735,628 @@ export class OrdersService {
   }
 
   /**
-   * Validates that all required columns are present in the Excel file for order import
-   * @param data - The parsed Excel data (array of row objects)
-   * @throws BadRequestException if required columns are missing
+   * Creates several orders from one workbook, one per sheet or per PO number.
+   * In atomic mode nothing is written unless every order can be created;
+   * otherwise each order is created in its own transaction.
    */
-  private validateOrderExcelColumns(data: any[]): void {
-    if (!data || data.length === 0) {
-      throw new BadRequestException('Excel file is empty');
+  async importWorkbook(
+    file: Express.Multer.File,
+    excelImportDto: ExcelImportDto,
+    user: User,
+    onProgress?: ImportProgressListener,
+  ): Promise<WorkbookImportResult> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
     }
 
-    const requiredColumns = [
-      'ASIN',
-      'Brand Name',
-      'Model Number',
-      'Title',
-      'Requesting Date',
-      'Quantity Requested',
-      'Unit Cost'
-    ];
-
-    // Get the first row to check column headers
-    const firstRow = data[0];
-    const availableColumns = Object.keys(firstRow);
+    if (excelImportDto.orderId) {
+      throw new BadRequestException(
+        'orderId cannot be combined with splitBy - orders are named after their PO number or generated',
+      );
+    }
 
-    // Normalize column names for case-insensitive comparison
-    const normalizedAvailableColumns = availableColumns.map(col => col.toLowerCase().trim());
-    const normalizedRequiredColumns = requiredColumns.map(col => col.toLowerCase().trim());
+    const atomic = excelImportDto.atomic ?? false;
+    onProgress?.('parsing', 0, 0);
+    const { groups, issues } =
+      excelImportDto.splitBy === OrderImportSplit.SHEET
+        ? await this.groupRowsBySheet(file, excelImportDto.importProfileId, excelImportDto)
+        : await this.groupRowsByPoNumber(file, excelImportDto.importProfileId, excelImportDto);
+
+    // Validate every order before anything is written
+    const results: OrderImportResult[] = [];
+    const pending: Array<{ result: OrderImportResult; items: CreateOrderItemDto[] }> = [];
+    const totalRows = groups.reduce((sum, group) => sum + (group.sheet?.rows.length ?? 0), 0);
+    let validatedRows = 0;
+
+    for (const group of groups) {
+      const parsed = group.sheet
+        ? this.validateOrderRows(group.sheet, (stage, processedRows) =>
+          onProgress?.(stage, validatedRows + processedRows, totalRows),
+        )
+        : { totalRows: 0, items: [], errors: [], issues: [] };
+      validatedRows += parsed.totalRows;
+      const result: OrderImportResult = {
+        source: group.source,
+        orderId: group.orderId,
+        status: 'skipped',
+        totalItems: parsed.totalRows,
+        itemsProcessed: parsed.items.length,
+        itemsSkipped: parsed.totalRows - parsed.items.length,
+        errors: parsed.errors,
+        issues: parsed.issues,
+      };
+      results.push(result);
+
+      if (group.skipReason) {
+        result.errors = [group.skipReason];
+      } else if (group.orderId && !(await this.validateOrderIdUniqueness(group.orderId))) {
+        result.errors = ['Order with this ID already exists', ...result.errors];
+      } else if (parsed.items.length === 0) {
+        result.status = 'failed';
+        result.errors = ['No valid items found', ...result.errors];
+      } else {
+        pending.push({ result, items: parsed.items });
+      }
+    }
 
-    // Find missing columns
-    const missingColumns: string[] = [];
+    const failed = results.filter((result) => result.status === 'failed');
+    if (atomic && failed.length > 0) {
+      throw new BadRequestException(
+        `Workbook import rolled back: ${failed
+          .map((result) => `${result.source}: ${result.errors.join(', ')}`)
+          .join('; ')}`,
+      );
+    }
 
-    requiredColumns.forEach((requiredCol, index) => {
-      const normalizedRequired = normalizedRequiredColumns[index];
-      const isPresent = normalizedAvailableColumns.some(availableCol =>
-        availableCol === normalizedRequired
+    if (pending.length > 0) {
+      onProgress?.('saving', 0, pending.length);
+      const storedFile = await this.storeOrderFile(file, 'workbook', user);
+      const generatedIds = await this.generateUniqueOrderIds(
+        pending.filter(({ result }) => !result.orderId).length,
       );
+      pending.forEach(({ result }) => {
+        result.orderId = result.orderId ?? generatedIds.shift() ?? null;
+      });
+
+      if (atomic) {
+        try {
+          await this.dataSource.transaction(async (manager) => {
+            for (const { result, items } of pending) {
+              await this.insertImportedOrder(manager, result.orderId!, items, storedFile, user);
+            }
+          });
+        } catch (error) {
+          await this.fileStorageService.remove(storedFile);
+          throw new BadRequestException(`Workbook import rolled back: ${error.message}`);
+        }
+        pending.forEach(({ result }) => (result.status = 'created'));
+      } else {
+        for (const [index, { result, items }] of pending.entries()) {
+          try {
+            await this.dataSource.transaction((manager) =>
+              this.insertImportedOrder(manager, result.orderId!, items, storedFile, user),
+            );
+            result.status = 'created';
+          } catch (error) {
+            result.status = 'failed';
+            result.errors = [error.message, ...result.errors];
+          }
+          onProgress?.('saving', index + 1, pending.length);
+        }
+
+        if (pending.every(({ result }) => result.status === 'failed')) {
+          await this.fileStorageService.remove(storedFile);
+        }
+      }
+    }
+
+    return {
+      atomic,
+      created: results.filter((result) => result.status === 'created').length,
+      skipped: results.filter((result) => result.status === 'skipped').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      orders: results,
+      errors: issues.map((issue) => formatImportIssue(issue)),
+      issues,
+    };
+  }
+
+  /**
+   * One group per sheet. Sheets without the order columns, such as a cover
+   * or header sheet, are skipped.
+   */
+  private async groupRowsBySheet(
+    file: Express.Multer.File,
+    importProfileId?: string,
+    text?: TextImportOptions,
+  ): Promise<{ groups: OrderImportGroup[]; issues: ImportIssue[] }> {
+    const sheets = await this.importProfilesService.readAllSheets(
+      file,
+      ImportProfileTarget.ORDER,
+      importProfileId,
+      { text },
+    );
+
+    return {
+      groups: sheets.map(({ sheetName, sheet, error }) => ({
+        source: sheetName,
+        orderId: null,
+        sheet,
+        skipReason: error ?? undefined,
+      })),
+      issues: [],
+    };
+  }
 
-      if (!isPresent) {
-        missingColumns.push(requiredCol);
+  /**
+   * One group per PO number, in order of first appearance. The PO number
+   * becomes the order ID; rows without one are reported and left out.
+   */
+  private async groupRowsByPoNumber(
+    file: Express.Multer.File,
+    importProfileId?: string,
+    text?: TextImportOptions,
+  ): Promise<{ groups: OrderImportGroup[]; issues: ImportIssue[] }> {
+    const sheet = await this.importProfilesService.readSheet(
+      file,
+      ImportProfileTarget.ORDER,
+      importProfileId,
+      { requiredColumns: ['PO Number'], text },
+    );
+    const { rows, rowNumbers, columnLetters } = sheet;
+
+    const groups = new Map<string, OrderImportGroup & { sheet: MappedSheet }>();
+    const issues: ImportIssue[] = [];
+
+    rows.forEach((row, index) => {
+      const poNumber = String((row['PO Number'] as string | number | undefined) ?? '').trim();
+      if (!poNumber) {
+        issues.push(
+          createImportIssue(sheet, rowNumbers[index], 'Missing required field: PO Number', {
+            code: 'MISSING_VALUE',
+            field: 'PO Number',
+            suggestion: 'Enter the PO number of the order the row belongs to',
+          }),
+        );
+        return;
+      }
+
+      if (!groups.has(poNumber)) {
+        groups.set(poNumber, {
+          source: poNumber,
+          orderId: poNumber,
+          sheet: { rows: [], rowNumbers: [], columnLetters },
+        });
       }
+      const group = groups.get(poNumber)!;
+      group.sheet.rows.push(row);
+      group.sheet.rowNumbers.push(rowNumbers[index]);
     });
 
-    // If there are missing columns, throw a detailed error
-    if (missingColumns.length > 0) {
-      const missingColumnsText = missingColumns.map(col => `'${col}'`).join(', ');
-      const allRequiredColumnsText = requiredColumns.join(', ');
+    return { groups: [...groups.values()], issues };
+  }
+
+  /**
+   * Writes one imported order with its items and first revision using the
+   * given transaction
+   */
+  private async insertImportedOrder(
+    manager: EntityManager,
+    orderId: string,
+    items: CreateOrderItemDto[],
+    file: StoredFile,
+    user: User,
+  ): Promise<Order> {
+    const totalItems = items.reduce((sum, item) => sum + item.quantityRequested, 0);
+    const totalCost = items.reduce(
+      (sum, item) => sum + item.quantityRequested * item.unitCost,
+      0,
+    );
+
+    const order = await manager.save(
+      Order,
+      manager.create(Order, {
+        orderId,
+        status: OrderStatus.PENDING,
+        totalItems,
+        totalCost,
+        remainingQuantity: totalItems,
+        fileName: file.originalName,
+        file,
+        createdBy: user,
+      }),
+    );
+
+    await manager.save(
+      OrderItem,
+      items.map((item) =>
+        manager.create(OrderItem, {
+          ...item,
+          requestingDate: new Date(item.requestingDate),
+          totalCost: item.quantityRequested * item.unitCost,
+          quantityRemaining: item.quantityRequested,
+          order,
+        }),
+      ),
+    );
+
+    await this.orderRevisionsService.recordRevision(
+      manager,
+      order.id,
+      OrderRevisionSource.IMPORT,
+      user,
+    );
+
+    return order;
+  }
+
+  /**
+   * Shows how an updated spreadsheet would merge into an existing order
+   * without saving anything
+   * @returns the merge, with the order whose version it was worked out against
+   */
+  async previewExcelReimport(
+    id: string,
+    file: Express.Multer.File,
+    excelReimportDto: ExcelReimportDto,
+  ): Promise<{ order: Order; summary: OrderReimportSummary }> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const order = await this.findOne(id);
+
+    try {
+      const parsed = await this.parseOrderExcel(
+        file,
+        excelReimportDto.importProfileId,
+        excelReimportDto,
+      );
+      const existingItems = await this.orderItemRepository.find({
+        where: { order: { id } },
+        relations: ['deliveryItems'],
+        order: { createdAt: 'ASC' },
+      });
+
+      const { summary } = this.planReimport(
+        order,
+        existingItems,
+        parsed,
+        excelReimportDto.removeDroppedLines ?? false,
+      );
+      return { order, summary };
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException('Failed to process Excel file');
+    }
+  }
+
+  /**
+   * Merges an updated spreadsheet into an existing order. Rows are matched to
+   * order lines by ASIN + Model Number: matches are updated, new rows are
+   * added and lines missing from the file are kept unless removal is requested.
+   * Nothing is written if any row is invalid or conflicts with deliveries.
+   * The spreadsheet it replaces is removed once the new one is saved, unless
+   * other records still link to it.
+   */
+  async reimportFromExcel(
+    id: string,
+    file: Express.Multer.File,
+    excelReimportDto: ExcelReimportDto,
+    user: User,
+    expectedVersion?: number,
+  ): Promise<OrderReimportSummary> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const order = await this.findOne(id);
+    assertVersion(order, expectedVersion, 'Order');
+    this.orderStatusService.validateItemsEditable(order.status);
 
+    let storedFile: StoredFile | null = null;
+    let merged: { summary: OrderReimportSummary; previousFile: StoredFile | null };
+    try {
+      const parsed = await this.parseOrderExcel(
+        file,
+        excelReimportDto.importProfileId,
+        excelReimportDto,
+      );
+
+      // A skipped row would look like a dropped line, so every row must be valid
+      if (parsed.errors.length > 0) {
+        throw new BadRequestException(
+          `Excel file has invalid rows: ${parsed.errors.join('; ')}`,
+        );
+      }
+
+      merged = await this.dataSource.transaction(async (manager) =>
+        this.quantityAuditService.withContext(
+          manager,
+          {
+            userId: user.id,
+            operation: QuantityAuditOperation.AMENDMENT,
+            reason: `Order ${order.orderId} re-imported from ${file.originalname}`,
+          },
+          async () => {
+            await claimVersion(manager, Order, order, expectedVersion, 'Order');
+            await this.orderRevisionsService.ensureBaseline(manager, id);
+
+            const current = await manager.findOne(Order, {
+              where: { id },
+              relations: ['file'],
+            });
+
+            const existingItems = await manager.find(OrderItem, {
+              where: { order: { id } },
+              relations: ['deliveryItems'],
+              order: { createdAt: 'ASC' },
+            });
+            const { summary, changeSet } = this.planReimport(
+              order,
+              existingItems,
+              parsed,
+              excelReimportDto.removeDroppedLines ?? false,
+            );
+
+            if (summary.conflicts.length > 0) {
+              throw new BadRequestException(
+                `Order could not be re-imported: ${summary.conflicts.join('; ')}`,
+              );
+            }
+
+            storedFile = await this.storeOrderFile(file, order.orderId, user);
+            await manager.update(Order, id, {
+              fileName: storedFile.originalName,
+              file: { id: storedFile.id },
+            });
+            await this.applyItemChanges(manager, id, changeSet);
+
+            // A workbook import links one file to every order it created
+            const previousFile =
+              current?.file && !(await this.isFileReferenced(manager, current.file.id))
+                ? current.file
+                : null;
+
+            await this.orderRevisionsService.recordRevision(
+              manager,
+              id,
+              OrderRevisionSource.REIMPORT,
+              user,
+            );
+
+            return { summary, previousFile };
+          },
+        ),
+      );
+    } catch (error) {
+      // The upload was stored outside the rolled back transaction
+      if (storedFile) {
+        await this.fileStorageService.remove(storedFile);
+      }
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ConflictException ||
+        error instanceof PreconditionFailedException
+      ) {
+        throw error;
+      }
       throw new BadRequestException(
-        `Missing required columns in Excel file: ${missingColumnsText}. ` +
-        `Please ensure your Excel file contains all required columns: ${allRequiredColumnsText}.`
+        'Failed to process Excel file: ' + error.message,
+      );
+    }
+
+    // The replaced spreadsheet goes once the new one is committed, so a
+    // failed re-import keeps it. The re-import is saved either way, so a
+    // storage error only leaves the file for the retention purge.
+    if (merged.previousFile) {
+      await this.fileStorageService.remove(merged.previousFile).catch((error) =>
+        this.logger.error(
+          `Removing the replaced file of order ${order.orderId} failed: ${error.message}`,
+        ),
       );
     }
+
+    return merged.summary;
+  }
+
+  /**
+   * Whether an order, delivery or attachment still links to a stored file
+   */
+  private async isFileReferenced(manager: EntityManager, fileId: string): Promise<boolean> {
+    const where = { file: { id: fileId } };
+    const count =
+      (await manager.count(Order, { where })) +
+      (await manager.count(Delivery, { where })) +
+      (await manager.count(Attachment, { where }));
+
+    return count > 0;
+  }
+
+  /**
+   * Works out how parsed spreadsheet rows merge into an order's lines.
+   * Each row claims the first unclaimed line with the same ASIN + Model
+   * Number, so repeated rows add further lines instead of overwriting one.
+   */
+  private planReimport(
+    order: Order,
+    existingItems: OrderItem[],
+    parsed: ParsedOrderExcel,
+    removeDroppedLines: boolean,
+  ): { summary: OrderReimportSummary; changeSet: OrderItemChangeSet } {
+    const lineKey = (item: { asin: string; modelNumber: string }) =>
+      `${item.asin}|${item.modelNumber}`;
+    const claimedIds = new Set<string>();
+
+    const changeSet: OrderItemChangeSet = { amendments: [], additions: [], removals: [] };
+    const updated: ReimportUpdatedLine[] = [];
+    const conflicts: string[] = [];
+    let unchanged = 0;
+
+    parsed.items.forEach((row) => {
+      const existing = existingItems.find(
+        (item) => lineKey(item) === lineKey(row) && !claimedIds.has(item.id),
+      );
+
+      if (!existing) {
+        changeSet.additions.push(row);
+        return;
+      }
+      claimedIds.add(existing.id);
+
+      const deliveredQuantity = existing.quantityRequested - existing.quantityRemaining;
+      if (row.quantityRequested < deliveredQuantity) {
+        conflicts.push(
+          `ASIN ${row.asin} (model ${row.modelNumber}): requested quantity (${row.quantityRequested}) is below the ${deliveredQuantity} already delivered`,
+        );
+      }
+
+      const changes = this.diffReimportedLine(existing, row);
+      if (changes.length === 0) {
+        unchanged++;
+        return;
+      }
+
+      changeSet.amendments.push({ existing, dto: row });
+      updated.push({
+        orderItemId: existing.id,
+        asin: existing.asin,
+        modelNumber: existing.modelNumber,
+        deliveredQuantity,
+        changes,
+      });
+    });
+
+    const dropped = existingItems
+      .filter((item) => !claimedIds.has(item.id))
+      .map((item) => {
+        // Lines with deliveries stay on the order even when removal is requested
+        const removable = removeDroppedLines && item.deliveryItems.length === 0;
+        if (removable) {
+          changeSet.removals.push(item);
+        }
+
+        return {
+          orderItemId: item.id,
+          asin: item.asin,
+          modelNumber: item.modelNumber,
+          quantityRequested: item.quantityRequested,
+          deliveredQuantity: item.quantityRequested - item.quantityRemaining,
+          action: removable ? ('remove' as const) : ('keep' as const),
+        };
+      });
+
+    return {
+      summary: {
+        orderId: order.orderId,
+        totalRows: parsed.totalRows,
+        itemsProcessed: parsed.items.length,
+        itemsSkipped: parsed.totalRows - parsed.items.length,
+        errors: parsed.errors,
+        issues: parsed.issues,
+        added: changeSet.additions,
+        updated,
+        unchanged,
+        dropped,
+        conflicts,
+      },
+      changeSet,
+    };
+  }
+
+  private diffReimportedLine(existing: OrderItem, row: CreateOrderItemDto): FieldChange[] {
+    const current: Record<(typeof REIMPORT_FIELDS)[number], string | number> = {
+      brandName: existing.brandName,
+      title: existing.title,
+      requestingDate:
+        existing.requestingDate instanceof Date
+          ? existing.requestingDate.toISOString().split('T')[0]
+          : String(existing.requestingDate),
+      quantityRequested: existing.quantityRequested,
+      unitCost: Number(existing.unitCost),
+    };
+
+    return REIMPORT_FIELDS
+      .filter((field) => current[field] !== row[field])
+      .map((field) => ({ field, from: current[field], to: row[field] }));
+  }
+
+  /**
+   * Reads an order workbook or CSV file through the given import profile and
+   * validates every row. Invalid rows are collected in `errors` instead of failing the file.
+   * @throws BadRequestException if the sheet is missing, empty or lacks required columns
+   */
+  private async parseOrderExcel(
+    file: Express.Multer.File,
+    importProfileId?: string,
+    text?: TextImportOptions,
+    onProgress?: ImportProgressListener,
+  ): Promise<ParsedOrderExcel> {
+    onProgress?.('parsing', 0, 0);
+    const sheet = await this.importProfilesService.readSheet(
+      file,
+      ImportProfileTarget.ORDER,
+      importProfileId,
+      { text },
+    );
+
+    return this.validateOrderRows(sheet, onProgress);
+  }
+
+  private validateOrderRows(
+    sheet: MappedSheet,
+    onProgress?: ImportProgressListener,
+  ): ParsedOrderExcel {
+    const { rows, rowNumbers } = sheet;
+    const issues: ImportIssue[] = [];
+    const items: CreateOrderItemDto[] = [];
+
+    // Process each row
+    rows.forEach((row, index) => {
+      const rowNumber = rowNumbers[index];
+      try {
+        const item = this.validateExcelRow(row, rowNumber);
+        items.push(item);
+
+        const title = String(row['Title']).trim();
+        if (title.length > 255) {
+          issues.push(
+            createImportIssue(
+              sheet,
+              rowNumber,
+              'Title is longer than 255 characters and was shortened',
+              {
+                code: 'VALUE_TOO_LONG',
+                field: 'Title',
+                value: title,
+                suggestion: 'Shorten the title to at most 255 characters',
+              },
+              'warning',
+            ),
+          );
+        }
+      } catch (error) {
+        issues.push(importIssueFromError(sheet, rowNumber, error));
+        console.error(
+          `Excel validation error at row ${rowNumber}:`,
+          error.message,
+          'Row data:',
+          row,
+        );
+      }
+      onProgress?.('validating', index + 1, rows.length);
+    });
+
+    return {
+      totalRows: rows.length,
+      items,
+      errors: issues
+        .filter((issue) => issue.severity === 'error')
+        .map((issue) => formatImportIssue(issue)),
+      issues,
+    };
   }
 
   private validateExcelRow(row: any, rowNumber: number): any {
@@ -454,7 +1376,11 @@ export class OrdersService {
         console.log(`Missing required field: ${field}`);
       }
       if (!row[field] && row[field] !== 0) {
-        throw new Error(`Missing required field: ${field}`);
+        throw new ImportRowError(`Missing required field: ${field}`, {
+          code: 'MISSING_VALUE',
+          field,
+          suggestion: `Enter a value for ${field}`,
+        });
       }
     }
 
@@ -462,8 +1388,14 @@ export class OrdersService {
     const modelNumber = String(row['Model Number']).trim();
     if (!/^\d{13}$/.test(modelNumber)) {
       console.log(`Invalid model number: ${modelNumber}`);
-      throw new Error(
+      throw new ImportRowError(
         `Model number "${modelNumber}" must be exactly 13 digits (numbers only)`,
+        {
+          code: 'INVALID_MODEL_NUMBER',
+          field: 'Model Number',
+          value: row['Model Number'],
+          suggestion: 'Enter the 13-digit model number and format the column as text so leading zeros are kept',
+        },
       );
     }
 
@@ -471,14 +1403,24 @@ export class OrdersService {
     const quantity = Number(row['Quantity Requested']);
     if (!Number.isInteger(quantity) || quantity <= 0) {
       console.log(`Invalid quantity: ${quantity}`);
-      throw new Error('Quantity requested must be a positive integer');
+      throw new ImportRowError('Quantity requested must be a positive integer', {
+        code: 'INVALID_QUANTITY',
+        field: 'Quantity Requested',
+        value: row['Quantity Requested'],
+        suggestion: 'Enter a whole number greater than zero',
+      });
     }
 
     // Validate unit cost
     const unitCost = Number(row['Unit Cost']);
     if (isNaN(unitCost) || unitCost < 0) {
       console.log(`Invalid unit cost: ${unitCost}`);
-      throw new Error('Unit cost must be a valid positive number');
+      throw new ImportRowError('Unit cost must be a valid positive number', {
+        code: 'INVALID_PRICE',
+        field: 'Unit Cost',
+        value: row['Unit Cost'],
+        suggestion: 'Enter a number of zero or more without a currency symbol',
+      });
     }
 
     // Validate and parse date
@@ -510,7 +1452,12 @@ export class OrdersService {
 
     } catch (error) {
       console.log(`Invalid date: ${rawDate}, Error: ${error.message}`);
-      throw new Error(`Invalid requesting date format: ${rawDate}`);
+      throw new ImportRowError(`Invalid requesting date format: ${rawDate}`, {
+        code: 'INVALID_DATE',
+        field: 'Requesting Date',
+        value: rawDate,
+        suggestion: 'Enter a date between 1900 and 2100 as YYYY-MM-DD',
+      });
     }
 
     return {
@@ -552,66 +1499,37 @@ export class OrdersService {
   }
 
   /**
-   * Generate a unique order ID in the format ORD-YYYY-NNNNNN
-   * where YYYY is the current year and NNNNNN is a sequential number
-   * Includes retry mechanism and comprehensive uniqueness validation
+   * Takes the next order ID from the order sequence
    */
   private async generateUniqueOrderId(): Promise<string> {
-    const maxRetries = 10;
-    const currentYear = new Date().getFullYear();
-    const prefix = `ORD-${currentYear}-`;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // Find the highest existing order ID for the current year (including soft-deleted orders for safety)
-        const lastOrder = await this.orderRepository
-          .createQueryBuilder('order')
-          .where('order.orderId LIKE :prefix', { prefix: `${prefix}%` })
-          .orderBy('order.orderId', 'DESC')
-          .getOne();
-
-        let nextNumber = 1;
-        if (lastOrder) {
-          // Extract the number part from the last order ID
-          const lastOrderNumber = lastOrder.orderId.split('-')[2];
-          if (lastOrderNumber && !isNaN(parseInt(lastOrderNumber))) {
-            nextNumber = parseInt(lastOrderNumber) + 1;
-          }
-        }
-
-        // Add some randomness to reduce collision probability in high-concurrency scenarios
-        if (attempt > 1) {
-          nextNumber += Math.floor(Math.random() * 100) + attempt;
-        }
-
-        // Format the number with leading zeros (6 digits)
-        const formattedNumber = nextNumber.toString().padStart(6, '0');
-        const candidateOrderId = `${prefix}${formattedNumber}`;
-
-        // Comprehensive uniqueness check using database query
-        const isUnique = await this.validateOrderIdUniqueness(candidateOrderId);
-
-        if (isUnique) {
-          return candidateOrderId;
-        }
+    const [orderId] = await this.generateUniqueOrderIds(1);
+    return orderId;
+  }
 
-        // Log collision for monitoring (this helps track if we need to adjust the algorithm)
-        console.warn(`Order ID collision detected: ${candidateOrderId} (attempt ${attempt}/${maxRetries})`);
+  /**
+   * Takes consecutive order IDs for orders that are created together,
+   * skipping any already used by orders that were given their ID by hand
+   */
+  private async generateUniqueOrderIds(count: number): Promise<string[]> {
+    const maxRetries = 10;
+    const orderIds: string[] = [];
 
-      } catch (error) {
-        console.error(`Error generating order ID on attempt ${attempt}:`, error);
+    for (let attempt = 1; orderIds.length < count; attempt++) {
+      if (attempt > maxRetries) {
+        throw new ConflictException(`Failed to generate unique order ID after ${maxRetries} attempts`);
+      }
 
-        // If it's the last attempt, throw the error
-        if (attempt === maxRetries) {
-          throw new ConflictException(`Failed to generate unique order ID after ${maxRetries} attempts: ${error.message}`);
+      const candidates = await this.sequencesService.nextMany('order', count - orderIds.length);
+      for (const candidateOrderId of candidates) {
+        if (await this.validateOrderIdUniqueness(candidateOrderId)) {
+          orderIds.push(candidateOrderId);
+        } else {
+          console.warn(`Order ID ${candidateOrderId} is already taken, skipping it`);
         }
       }
-
-      // Wait a small random amount before retrying to reduce collision probability
-      await this.sleep(Math.random() * 100 + 50); // 50-150ms
     }
 
-    throw new Error(`Failed to generate unique order ID after ${maxRetries} attempts`);
+    return orderIds;
   }
 
   /**
@@ -673,25 +1591,19 @@ export class OrdersService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private async saveExcelFile(
+  /**
+   * Keeps an order upload in file storage under the name it is downloaded with
+   */
+  private storeOrderFile(
     file: Express.Multer.File,
     orderId: string,
-  ): Promise<string> {
-    // Create orders directory if it doesn't exist
-    const ordersDir = path.join(__dirname, '..', '..', 'src', 'orders');
-    if (!fs.existsSync(ordersDir)) {
-      fs.mkdirSync(ordersDir, { recursive: true });
-    }
-
-    // Generate unique filename with order ID and timestamp
-    const timestamp = Date.now();
-    const fileExtension = path.extname(file.originalname);
-    const fileName = `order_${orderId}_${timestamp}${fileExtension}`;
-    const filePath = path.join(ordersDir, fileName);
-
-    // Save file
-    fs.writeFileSync(filePath, file.buffer);
-
-    return fileName;
+    user: User,
+  ): Promise<StoredFile> {
+    return this.fileStorageService.store({
+      buffer: file.buffer,
+      fileName: `order_${orderId}_${Date.now()}${path.extname(file.originalname)}`,
+      category: StoredFileCategory.ORDER_UPLOAD,
+      createdBy: user,
+    });
   }
 }
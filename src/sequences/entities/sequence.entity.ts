@@ -0,0 +1,29 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/**
+ * The last number handed out for a kind of ID, counted per tenant and, when
+ * the sequence resets yearly, per year
+ */
+@Entity('sequences')
+export class Sequence {
+  @PrimaryColumn({ name: 'name', type: 'varchar', length: 50 })
+  name: string;
+
+  @PrimaryColumn({ name: 'tenant', type: 'varchar', length: 50, default: '' })
+  tenant: string;
+
+  @PrimaryColumn({
+    name: 'period',
+    type: 'varchar',
+    length: 4,
+    default: '',
+    comment: 'Year the counter belongs to, empty when it never resets',
+  })
+  period: string;
+
+  @Column({ name: 'last_value', type: 'int', unsigned: true, default: 0 })
+  lastValue: number;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
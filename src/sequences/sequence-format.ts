@@ -0,0 +1,57 @@
+export interface SequenceFormatContext {
+  date: Date;
+  tenant: string;
+}
+
+const TOKEN_PATTERN = /\{([^}]*)\}/g;
+const SEQ_TOKEN_PATTERN = /^seq(?::(\d{1,2}))?$/;
+
+/**
+ * Checks an ID format such as `ORD-{YYYY}-{seq:6}` before it is used
+ * @throws Error if the format has unknown tokens or not exactly one {seq}
+ */
+export function assertSequenceFormat(format: string): void {
+  const tokens = Array.from(format.matchAll(TOKEN_PATTERN), (match) => match[1]);
+  const unknown = tokens.filter(
+    (token) => !['YYYY', 'YY', 'tenant'].includes(token) && !SEQ_TOKEN_PATTERN.test(token),
+  );
+
+  if (unknown.length > 0) {
+    throw new Error(`ID format "${format}" has unknown token(s): ${unknown.map((token) => `{${token}}`).join(', ')}`);
+  }
+
+  if (tokens.filter((token) => SEQ_TOKEN_PATTERN.test(token)).length !== 1) {
+    throw new Error(`ID format "${format}" must contain {seq} or {seq:N} exactly once`);
+  }
+}
+
+/**
+ * Renders an ID from its format. {seq:N} pads the number to N digits but
+ * never cuts it, so IDs keep growing once the padding runs out.
+ */
+export function formatSequenceId(
+  format: string,
+  value: number,
+  context: SequenceFormatContext,
+): string {
+  const year = context.date.getFullYear().toString();
+
+  return format.replace(TOKEN_PATTERN, (token: string, name: string) => {
+    if (name === 'YYYY') {
+      return year;
+    }
+    if (name === 'YY') {
+      return year.slice(-2);
+    }
+    if (name === 'tenant') {
+      return context.tenant;
+    }
+
+    const seq = SEQ_TOKEN_PATTERN.exec(name);
+    if (seq) {
+      return value.toString().padStart(seq[1] ? parseInt(seq[1], 10) : 0, '0');
+    }
+
+    return token;
+  });
+}
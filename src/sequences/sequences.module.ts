@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SequencesService } from './sequences.service';
+import { Sequence } from './entities/sequence.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Sequence])],
+  providers: [SequencesService],
+  exports: [SequencesService],
+})
+export class SequencesModule { }
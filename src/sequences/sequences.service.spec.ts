@@ -0,0 +1,133 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { SequencesService } from './sequences.service';
+import { Sequence } from './entities/sequence.entity';
+import { assertSequenceFormat, formatSequenceId } from './sequence-format';
+
+describe('SequencesService', () => {
+  let service: SequencesService;
+  let config: Record<string, unknown>;
+  let lastValue: number;
+
+  const insertQueryBuilder = {
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    values: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockManager = {
+    createQueryBuilder: jest.fn(() => insertQueryBuilder),
+    findOneOrFail: jest.fn(() => Promise.resolve({ lastValue })),
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work) => work(mockManager)),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => config[key] ?? defaultValue),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config = {};
+    lastValue = 0;
+    service = new SequencesService(
+      mockDataSource as unknown as DataSource,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  it('should hand out the next order ID of the year', async () => {
+    lastValue = 41;
+
+    const orderId = await service.next('order', new Date('2025-06-01T00:00:00Z'));
+
+    expect(orderId).toBe('ORD-2025-000042');
+    expect(insertQueryBuilder.values).toHaveBeenCalledWith({
+      name: 'order',
+      tenant: '',
+      period: '2025',
+      lastValue: 0,
+    });
+    expect(mockManager.findOneOrFail).toHaveBeenCalledWith(Sequence, {
+      where: { name: 'order', tenant: '', period: '2025' },
+      lock: { mode: 'pessimistic_write' },
+    });
+    expect(mockManager.update).toHaveBeenCalledWith(
+      Sequence,
+      { name: 'order', tenant: '', period: '2025' },
+      { lastValue: 42 },
+    );
+  });
+
+  it('should count deliveries across years unless told to reset', async () => {
+    lastValue = 7;
+
+    const deliveryId = await service.next('delivery', new Date('2025-06-01T00:00:00Z'));
+
+    expect(deliveryId).toBe('DEL-000008');
+    expect(mockManager.update).toHaveBeenCalledWith(
+      Sequence,
+      { name: 'delivery', tenant: '', period: '' },
+      { lastValue: 8 },
+    );
+  });
+
+  it('should take several IDs with one update', async () => {
+    lastValue = 9;
+
+    const deliveryIds = await service.nextMany('delivery', 3);
+
+    expect(deliveryIds).toEqual(['DEL-000010', 'DEL-000011', 'DEL-000012']);
+    expect(mockManager.update).toHaveBeenCalledTimes(1);
+    expect(mockManager.update).toHaveBeenCalledWith(Sequence, expect.anything(), { lastValue: 12 });
+  });
+
+  it('should count and prefix IDs per tenant', async () => {
+    config = {
+      'sequences.tenant': 'ACME',
+      'sequences.order': { format: '{tenant}-{YY}-{seq:4}', resetYearly: true },
+    };
+
+    const orderId = await service.next('order', new Date('2025-06-01T00:00:00Z'));
+
+    expect(orderId).toBe('ACME-25-0001');
+    expect(mockManager.findOneOrFail).toHaveBeenCalledWith(Sequence, {
+      where: { name: 'order', tenant: 'ACME', period: '2025' },
+      lock: { mode: 'pessimistic_write' },
+    });
+  });
+
+  it('should not touch the database when no IDs are needed', async () => {
+    await expect(service.nextMany('order', 0)).resolves.toEqual([]);
+    expect(mockDataSource.transaction).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to start with an invalid format', () => {
+    config = { 'sequences.delivery': { format: 'DEL-{id}', resetYearly: false } };
+
+    expect(() => service.onModuleInit()).toThrow('unknown token(s): {id}');
+  });
+});
+
+describe('sequence formats', () => {
+  const context = { date: new Date('2025-06-01T00:00:00Z'), tenant: '' };
+
+  it('should keep growing once the padding runs out', () => {
+    expect(formatSequenceId('DEL-{seq:3}', 1234, context)).toBe('DEL-1234');
+  });
+
+  it('should leave the number unpadded without a width', () => {
+    expect(formatSequenceId('INV{seq}', 7, context)).toBe('INV7');
+  });
+
+  it('should require exactly one sequence number', () => {
+    expect(() => assertSequenceFormat('ORD-{YYYY}')).toThrow('exactly once');
+    expect(() => assertSequenceFormat('{seq}-{seq:2}')).toThrow('exactly once');
+    expect(() => assertSequenceFormat('ORD-{YYYY}-{seq:6}')).not.toThrow();
+  });
+});
@@ -0,0 +1,83 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { Sequence } from './entities/sequence.entity';
+import { assertSequenceFormat, formatSequenceId } from './sequence-format';
+
+export type SequenceName = 'order' | 'delivery';
+
+interface SequenceConfig {
+  format: string;
+  resetYearly: boolean;
+}
+
+const DEFAULT_SEQUENCES: Record<SequenceName, SequenceConfig> = {
+  order: { format: 'ORD-{YYYY}-{seq:6}', resetYearly: true },
+  delivery: { format: 'DEL-{seq:6}', resetYearly: false },
+};
+
+/**
+ * Hands out human-readable order and delivery IDs from counters in the
+ * database, so every worker of a cluster draws from the same sequence
+ */
+@Injectable()
+export class SequencesService implements OnModuleInit {
+  constructor(
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) { }
+
+  onModuleInit(): void {
+    (Object.keys(DEFAULT_SEQUENCES) as SequenceName[]).forEach((name) =>
+      assertSequenceFormat(this.getConfig(name).format),
+    );
+  }
+
+  async next(name: SequenceName, date: Date = new Date()): Promise<string> {
+    const [id] = await this.nextMany(name, 1, date);
+    return id;
+  }
+
+  /**
+   * Takes `count` consecutive IDs at once. The counter row stays locked only
+   * for this short transaction, so numbers drawn for a save that later fails
+   * are skipped rather than handed out again.
+   */
+  async nextMany(name: SequenceName, count: number, date: Date = new Date()): Promise<string[]> {
+    if (count <= 0) {
+      return [];
+    }
+
+    const { format, resetYearly } = this.getConfig(name);
+    const tenant = this.configService.get<string>('sequences.tenant', '');
+    const key = { name, tenant, period: resetYearly ? date.getFullYear().toString() : '' };
+
+    const lastValue = await this.dataSource.transaction(async (manager) => {
+      // The first draw of a period creates its counter; concurrent ones wait on the lock below
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(Sequence)
+        .values({ ...key, lastValue: 0 })
+        .orIgnore()
+        .execute();
+
+      const sequence = await manager.findOneOrFail(Sequence, {
+        where: key,
+        lock: { mode: 'pessimistic_write' },
+      });
+      const newLastValue = sequence.lastValue + count;
+      await manager.update(Sequence, key, { lastValue: newLastValue });
+
+      return newLastValue;
+    });
+
+    return Array.from({ length: count }, (_, index) =>
+      formatSequenceId(format, lastValue - count + 1 + index, { date, tenant }),
+    );
+  }
+
+  private getConfig(name: SequenceName): SequenceConfig {
+    return this.configService.get<SequenceConfig>(`sequences.${name}`, DEFAULT_SEQUENCES[name]);
+  }
+}
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { StorageDriver } from '../interfaces/storage-driver.interface';
+import { StorageDriverName } from '../entities/stored-file.entity';
+
+/**
+ * Keeps files in a directory on disk. Resolved against the working directory
+ * rather than the compiled sources, so `src/` and `dist/` builds share it.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = StorageDriverName.LOCAL;
+
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so readers never see a partly written file
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempPath, body);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Storage key "${key}" is outside the storage directory`);
+    }
+    return filePath;
+  }
+}
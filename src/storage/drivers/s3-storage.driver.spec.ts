@@ -0,0 +1,108 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { S3StorageDriver } from './s3-storage.driver';
+
+/**
+ * Just enough of the S3 REST API with path-style addressing, the way MinIO
+ * is usually run, to exercise the driver without a real service
+ */
+function startObjectStore(): Promise<{
+  server: http.Server;
+  endpoint: string;
+  objects: Map<string, { body: Buffer; contentType?: string }>;
+}> {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+
+  const server = http.createServer((req, res) => {
+    const key = decodeURIComponent(new URL(req.url!, 'http://localhost').pathname);
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      if (req.method === 'PUT') {
+        objects.set(key, {
+          body: Buffer.concat(chunks),
+          contentType: req.headers['content-type'],
+        });
+        res.writeHead(200, { ETag: '"etag"' }).end();
+      } else if (req.method === 'GET') {
+        const object = objects.get(key);
+        if (!object) {
+          res
+            .writeHead(404, { 'Content-Type': 'application/xml' })
+            .end('<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>');
+          return;
+        }
+        res
+          .writeHead(200, {
+            'Content-Type': object.contentType ?? 'application/octet-stream',
+            'Content-Length': object.body.length,
+          })
+          .end(object.body);
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects });
+    });
+  });
+}
+
+describe('S3StorageDriver', () => {
+  let store: Awaited<ReturnType<typeof startObjectStore>>;
+  let driver: S3StorageDriver;
+
+  beforeAll(async () => {
+    store = await startObjectStore();
+    driver = new S3StorageDriver({
+      bucket: 'order-tracker',
+      region: 'us-east-1',
+      endpoint: store.endpoint,
+      accessKeyId: 'minioadmin',
+      secretAccessKey: 'minioadmin',
+      forcePathStyle: true,
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => store.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    store.objects.clear();
+  });
+
+  it('should put objects into the bucket with their content type', async () => {
+    await driver.put('order-upload/2025/01/file.csv', Buffer.from('a,b\n'), 'text/csv');
+
+    expect(store.objects.get('/order-tracker/order-upload/2025/01/file.csv')).toEqual({
+      body: Buffer.from('a,b\n'),
+      contentType: 'text/csv',
+    });
+  });
+
+  it('should read objects back', async () => {
+    await driver.put('order-upload/2025/01/file.csv', Buffer.from('a,b\n'), 'text/csv');
+
+    await expect(driver.get('order-upload/2025/01/file.csv')).resolves.toEqual(Buffer.from('a,b\n'));
+  });
+
+  it('should return null for missing objects', async () => {
+    await expect(driver.get('order-upload/2025/01/missing.csv')).resolves.toBeNull();
+  });
+
+  it('should delete objects', async () => {
+    await driver.put('order-upload/2025/01/file.csv', Buffer.from('a,b\n'), 'text/csv');
+
+    await driver.delete('order-upload/2025/01/file.csv');
+
+    expect(store.objects.size).toBe(0);
+  });
+});
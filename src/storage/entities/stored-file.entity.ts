@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum StoredFileCategory {
+  ORDER_UPLOAD = 'order-upload',
+  DELIVERY_UPLOAD = 'delivery-upload',
+  ATTACHMENT = 'attachment',
+}
+
+export enum StorageDriverName {
+  LOCAL = 'local',
+  S3 = 's3',
+}
+
+/**
+ * A file kept by the storage service. The content lives in the configured
+ * backend under `storageKey`; this row holds what is known about it.
+ */
+@Entity('stored_files')
+export class StoredFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'storage_key', type: 'varchar', length: 500, unique: true })
+  storageKey: string;
+
+  @Column({ name: 'driver', type: 'enum', enum: StorageDriverName })
+  driver: StorageDriverName;
+
+  @Column({ name: 'category', type: 'enum', enum: StoredFileCategory })
+  @Index('IDX_STORED_FILE_CATEGORY')
+  category: StoredFileCategory;
+
+  @Column({ name: 'original_name', type: 'varchar', length: 255 })
+  originalName: string;
+
+  @Column({
+    name: 'content_type',
+    type: 'varchar',
+    length: 100,
+    comment: 'Sniffed from the content, not taken from the upload',
+  })
+  contentType: string;
+
+  @Column({ name: 'size', type: 'int' })
+  size: number;
+
+  @Column({ name: 'sha256', type: 'char', length: 64 })
+  @Index('IDX_STORED_FILE_SHA256')
+  sha256: string;
+
+  /** Uploaded for a preview and not yet claimed by the save that follows */
+  @Column({ name: 'is_pending', type: 'boolean', default: false })
+  isPending: boolean;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  @Index('IDX_STORED_FILE_EXPIRES_AT')
+  expiresAt: Date | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'created_by' })
+  @Index('IDX_STORED_FILE_CREATED_BY')
+  createdBy: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,263 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { FileStorageService } from './file-storage.service';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import {
+  StoredFile,
+  StoredFileCategory,
+  StorageDriverName,
+} from './entities/stored-file.entity';
+import { sniffMimeType } from './mime-sniffer';
+import { User } from '../users/entities/user.entity';
+
+describe('FileStorageService', () => {
+  let service: FileStorageService;
+  let root: string;
+
+  const retentionDays: Record<string, number> = {
+    'storage.retentionDays.order-upload': 0,
+    'storage.retentionDays.delivery-upload': 30,
+  };
+
+  const mockStoredFileRepository = {
+    create: jest.fn((data: Partial<StoredFile>) => data),
+    save: jest.fn((data: Partial<StoredFile>) => Promise.resolve({ ...data, createdAt: new Date() })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue: unknown) => retentionDays[key] ?? defaultValue),
+  };
+
+  const workbook = () => {
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([['ASIN'], ['B000000001']]), 'Sheet1');
+    return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'file-storage-'));
+    service = new FileStorageService(
+      mockStoredFileRepository as unknown as Repository<StoredFile>,
+      new LocalStorageDriver(root),
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  describe('store', () => {
+    it('should keep the content with its hash and sniffed content type', async () => {
+      const buffer = workbook();
+
+      const file = await service.store({
+        buffer,
+        fileName: 'order_ORD-1.xlsx',
+        category: StoredFileCategory.ORDER_UPLOAD,
+        createdBy: { id: 'user-1' } as User,
+      });
+
+      expect(file).toEqual(expect.objectContaining({
+        driver: StorageDriverName.LOCAL,
+        category: StoredFileCategory.ORDER_UPLOAD,
+        originalName: 'order_ORD-1.xlsx',
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        size: buffer.length,
+        sha256: createHash('sha256').update(buffer).digest('hex'),
+        expiresAt: null,
+        createdBy: { id: 'user-1' },
+      }));
+      expect(file.storageKey).toMatch(/^order-upload\/\d{4}\/\d{2}\/[0-9a-f-]{36}\.xlsx$/);
+      expect(await fs.promises.readFile(path.join(root, file.storageKey))).toEqual(buffer);
+    });
+
+    it('should set the expiry from the retention of the category', async () => {
+      const file = await service.store({
+        buffer: Buffer.from('ASIN,Delivered Quantity\nB000000001,2\n'),
+        fileName: 'delivery.csv',
+        category: StoredFileCategory.DELIVERY_UPLOAD,
+      });
+
+      expect(file.contentType).toBe('text/csv');
+      expect(file.expiresAt!.getTime() - Date.now()).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+      expect(file.createdBy).toBeNull();
+    });
+
+    it('should remove the content again when the record cannot be saved', async () => {
+      mockStoredFileRepository.save.mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(
+        service.store({
+          buffer: Buffer.from('a,b\n'),
+          fileName: 'order.csv',
+          category: StoredFileCategory.ORDER_UPLOAD,
+        }),
+      ).rejects.toThrow('Connection lost');
+
+      const [category] = await fs.promises.readdir(root);
+      const remaining = await fs.promises.readdir(path.join(root, category), { recursive: true });
+      expect(remaining.filter((entry) => String(entry).endsWith('.csv'))).toEqual([]);
+    });
+
+    it('should keep pending uploads only for the pending retention', async () => {
+      const file = await service.store({
+        buffer: Buffer.from('a,b\n'),
+        fileName: 'delivery.csv',
+        category: StoredFileCategory.DELIVERY_UPLOAD,
+        createdBy: { id: 'user-1' } as User,
+        pending: true,
+      });
+
+      expect(file.isPending).toBe(true);
+      expect(file.expiresAt!.getTime() - Date.now()).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+      expect(file.expiresAt!.getTime() - Date.now()).toBeGreaterThan(23 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('claim', () => {
+    const user = { id: 'user-1' } as User;
+    const pendingFile = (expiresAt: Date) =>
+      ({
+        id: 'file-1',
+        category: StoredFileCategory.DELIVERY_UPLOAD,
+        isPending: true,
+        expiresAt,
+      }) as StoredFile;
+
+    it('should keep a pending upload like any other file of its category', async () => {
+      mockStoredFileRepository.findOne.mockResolvedValue(pendingFile(new Date(Date.now() + 60000)));
+      mockStoredFileRepository.update.mockResolvedValue({ affected: 1 });
+
+      const file = await service.claim('file-1', StoredFileCategory.DELIVERY_UPLOAD, user);
+
+      expect(mockStoredFileRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          id: 'file-1',
+          category: StoredFileCategory.DELIVERY_UPLOAD,
+          isPending: true,
+          createdBy: { id: 'user-1' },
+        },
+      });
+      expect(mockStoredFileRepository.update).toHaveBeenCalledWith(
+        { id: 'file-1', isPending: true },
+        { isPending: false, expiresAt: file.expiresAt },
+      );
+      expect(file.isPending).toBe(false);
+      expect(file.expiresAt!.getTime() - Date.now()).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should refuse uploads that are unknown or belong to another user', async () => {
+      mockStoredFileRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.claim('file-1', StoredFileCategory.DELIVERY_UPLOAD, user),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockStoredFileRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expired uploads', async () => {
+      mockStoredFileRepository.findOne.mockResolvedValue(pendingFile(new Date(Date.now() - 60000)));
+
+      await expect(
+        service.claim('file-1', StoredFileCategory.DELIVERY_UPLOAD, user),
+      ).rejects.toThrow('Uploaded file not found or expired, please upload it again');
+      expect(mockStoredFileRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse uploads claimed in the meantime', async () => {
+      mockStoredFileRepository.findOne.mockResolvedValue(pendingFile(new Date(Date.now() + 60000)));
+      mockStoredFileRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.claim('file-1', StoredFileCategory.DELIVERY_UPLOAD, user),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('read', () => {
+    const storeCsv = () =>
+      service.store({
+        buffer: Buffer.from('a,b\n1,2\n'),
+        fileName: 'order.csv',
+        category: StoredFileCategory.ORDER_UPLOAD,
+      });
+
+    it('should return the content under the original name', async () => {
+      const file = await storeCsv();
+
+      await expect(service.read(file)).resolves.toEqual({
+        fileName: 'order.csv',
+        contentType: 'text/csv',
+        buffer: Buffer.from('a,b\n1,2\n'),
+      });
+    });
+
+    it('should reject content that no longer matches its hash', async () => {
+      const file = await storeCsv();
+      await fs.promises.writeFile(path.join(root, file.storageKey), 'a,b\n9,9\n');
+
+      await expect(service.read(file)).rejects.toThrow(InternalServerErrorException);
+    });
+
+    it('should report content missing from the backend', async () => {
+      const file = await storeCsv();
+      await fs.promises.rm(path.join(root, file.storageKey));
+
+      await expect(service.read(file)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should refuse files kept by another driver', async () => {
+      const file = await storeCsv();
+
+      await expect(service.read({ ...file, driver: StorageDriverName.S3 })).rejects.toThrow(
+        'File was stored with the s3 storage driver, but local is configured',
+      );
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should remove expired files and their records', async () => {
+      const file = await service.store({
+        buffer: Buffer.from('a,b\n'),
+        fileName: 'delivery.csv',
+        category: StoredFileCategory.DELIVERY_UPLOAD,
+      });
+      mockStoredFileRepository.find.mockResolvedValue([file]);
+
+      await expect(service.purgeExpired()).resolves.toBe(1);
+
+      expect(fs.existsSync(path.join(root, file.storageKey))).toBe(false);
+      expect(mockStoredFileRepository.delete).toHaveBeenCalledWith(file.id);
+    });
+  });
+});
+
+describe('sniffMimeType', () => {
+  it.each([
+    ['application/pdf', 'note.pdf', Buffer.from('%PDF-1.7\n')],
+    ['image/png', 'photo.jpg', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])],
+    ['image/jpeg', 'photo.jpg', Buffer.from([0xff, 0xd8, 0xff, 0xe0])],
+    ['application/vnd.ms-excel', 'order.xls', Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00])],
+    ['text/tab-separated-values', 'order.tsv', Buffer.from('ASIN\tQuantity\n')],
+    ['text/plain', 'order.xlsx', Buffer.from('ASIN,Quantity\n')],
+    ['application/octet-stream', 'order.csv', Buffer.from([0x00, 0x01, 0x02, 0x03])],
+  ])('should detect %s in %s', (contentType, fileName, buffer) => {
+    expect(sniffMimeType(buffer, fileName)).toBe(contentType);
+  });
+});
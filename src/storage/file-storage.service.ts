@@ -0,0 +1,190 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  InternalServerErrorException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import * as path from 'path';
+import { StoredFile, StoredFileCategory } from './entities/stored-file.entity';
+import { STORAGE_DRIVER, StorageDriver } from './interfaces/storage-driver.interface';
+import { StoreFileInput, StoredFileContent } from './interfaces/stored-file.interface';
+import { sniffMimeType } from './mime-sniffer';
+import { User } from '../users/entities/user.entity';
+
+// Expired files removed per purge run, so one run never holds the table long
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Keeps uploaded files in the configured backend and records their content
+ * hash, sniffed content type and retention in `stored_files`
+ */
+@Injectable()
+export class FileStorageService
+implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(FileStorageService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(StoredFile)
+    private storedFileRepository: Repository<StoredFile>,
+    @Inject(STORAGE_DRIVER)
+    private driver: StorageDriver,
+    private configService: ConfigService,
+  ) { }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () => void this.purgeExpired().catch((error) =>
+        this.logger.error(`Purging expired files failed: ${error.message}`),
+      ),
+      this.configService.get<number>('storage.purgeInterval', 3600000),
+    );
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async store(input: StoreFileInput): Promise<StoredFile> {
+    const id = randomUUID();
+    const now = new Date();
+    const storageKey = [
+      input.category,
+      String(now.getUTCFullYear()),
+      String(now.getUTCMonth() + 1).padStart(2, '0'),
+      `${id}${path.extname(input.fileName).toLowerCase()}`,
+    ].join('/');
+    const contentType = sniffMimeType(input.buffer, input.fileName);
+
+    await this.driver.put(storageKey, input.buffer, contentType);
+
+    try {
+      return await this.storedFileRepository.save(
+        this.storedFileRepository.create({
+          id,
+          storageKey,
+          driver: this.driver.name,
+          category: input.category,
+          originalName: input.fileName,
+          contentType,
+          size: input.buffer.length,
+          sha256: createHash('sha256').update(input.buffer).digest('hex'),
+          isPending: input.pending ?? false,
+          expiresAt: input.pending
+            ? new Date(
+              now.getTime() +
+                this.configService.get<number>('storage.pendingRetentionHours', 24) * 60 * 60 * 1000,
+            )
+            : this.expiryFor(input.category, now),
+          createdBy: input.createdBy ? { id: input.createdBy.id } : null,
+        }),
+      );
+    } catch (error) {
+      await this.driver.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Takes over a pending upload of the same user, so it is kept like any
+   * other file of its category
+   * @throws BadRequestException if no such upload is waiting to be claimed
+   */
+  async claim(
+    id: string,
+    category: StoredFileCategory,
+    user: User,
+  ): Promise<StoredFile> {
+    const file = await this.storedFileRepository.findOne({
+      where: { id, category, isPending: true, createdBy: { id: user.id } },
+    });
+
+    const now = new Date();
+    const expiresAt = this.expiryFor(category, now);
+    // Conditional so two saves racing for one upload cannot both claim it
+    const claimed =
+      file && file.expiresAt && file.expiresAt > now
+        ? await this.storedFileRepository.update(
+          { id, isPending: true },
+          { isPending: false, expiresAt },
+        )
+        : null;
+
+    if (!file || !claimed?.affected) {
+      throw new BadRequestException('Uploaded file not found or expired, please upload it again');
+    }
+
+    return { ...file, isPending: false, expiresAt };
+  }
+
+  /**
+   * Reads a stored file back and checks it against its recorded hash
+   * @throws NotFoundException if the content is no longer in the backend
+   */
+  async read(file: StoredFile): Promise<StoredFileContent> {
+    if (file.driver !== this.driver.name) {
+      throw new InternalServerErrorException(
+        `File was stored with the ${file.driver} storage driver, but ${this.driver.name} is configured`,
+      );
+    }
+
+    const buffer = await this.driver.get(file.storageKey);
+    if (!buffer) {
+      throw new NotFoundException('File not found in storage');
+    }
+
+    if (createHash('sha256').update(buffer).digest('hex') !== file.sha256) {
+      throw new InternalServerErrorException('Stored file does not match its content hash');
+    }
+
+    return {
+      fileName: file.originalName,
+      contentType: file.contentType,
+      buffer,
+    };
+  }
+
+  async remove(file: StoredFile): Promise<void> {
+    await this.driver.delete(file.storageKey);
+    await this.storedFileRepository.delete(file.id);
+  }
+
+  /**
+   * Removes files past their retention. Records pointing at them keep their
+   * file name but lose the link, so downloads report the file as gone.
+   * @returns number of files removed
+   */
+  async purgeExpired(now = new Date()): Promise<number> {
+    const expired = await this.storedFileRepository.find({
+      where: { expiresAt: LessThan(now) },
+      order: { expiresAt: 'ASC' },
+      take: PURGE_BATCH_SIZE,
+    });
+
+    for (const file of expired) {
+      await this.remove(file);
+    }
+
+    if (expired.length > 0) {
+      this.logger.log(`Purged ${expired.length} expired file(s)`);
+    }
+
+    return expired.length;
+  }
+
+  private expiryFor(category: StoredFileCategory, from: Date): Date | null {
+    const days = this.configService.get<number>(`storage.retentionDays.${category}`, 0);
+    return days > 0 ? new Date(from.getTime() + days * 24 * 60 * 60 * 1000) : null;
+  }
+}
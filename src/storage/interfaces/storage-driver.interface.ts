@@ -0,0 +1,22 @@
+import { StorageDriverName } from '../entities/stored-file.entity';
+
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * Backend that holds file content by key
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Returns null when nothing is stored under the key
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Succeeds when nothing is stored under the key
+   */
+  delete(key: string): Promise<void>;
+}
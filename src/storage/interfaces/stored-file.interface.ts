@@ -0,0 +1,21 @@
+import { StoredFileCategory } from '../entities/stored-file.entity';
+import { User } from '../../users/entities/user.entity';
+
+export interface StoreFileInput {
+  buffer: Buffer;
+  /** Name the file is downloaded under */
+  fileName: string;
+  category: StoredFileCategory;
+  createdBy?: User;
+  /**
+   * Kept only for a short while unless claimed, for uploads that are
+   * previewed before anything refers to them
+   */
+  pending?: boolean;
+}
+
+export interface StoredFileContent {
+  fileName: string;
+  contentType: string;
+  buffer: Buffer;
+}
@@ -0,0 +1,63 @@
+import * as path from 'path';
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+interface Signature {
+  bytes: number[];
+  offset?: number;
+  contentType: string;
+}
+
+const SIGNATURES: Signature[] = [
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], contentType: 'application/vnd.ms-excel' },
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], contentType: 'application/pdf' },
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], contentType: 'image/png' },
+  { bytes: [0xff, 0xd8, 0xff], contentType: 'image/jpeg' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], contentType: 'image/gif' },
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, contentType: 'image/webp' },
+];
+
+const TEXT_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.tab': 'text/tab-separated-values',
+};
+
+/**
+ * Works out the content type from the leading bytes, so a renamed file is
+ * stored as what it really is. The file name only decides between the text
+ * formats, which have no signature.
+ */
+export function sniffMimeType(buffer: Buffer, fileName: string): string {
+  const signature = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, index) => buffer[offset + index] === byte),
+  );
+  if (signature) {
+    return signature.contentType;
+  }
+
+  // Zip container; workbooks keep their parts under xl/
+  if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    return buffer.includes('xl/') ? XLSX_TYPE : 'application/zip';
+  }
+
+  if (isText(buffer)) {
+    return TEXT_TYPES[path.extname(fileName).toLowerCase()] ?? 'text/plain';
+  }
+
+  return 'application/octet-stream';
+}
+
+function isText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return false;
+  }
+  try {
+    // Streaming mode tolerates a multi-byte character cut off by the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
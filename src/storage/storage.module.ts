@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { FileStorageService } from './file-storage.service';
+import { StoredFile, StorageDriverName } from './entities/stored-file.entity';
+import { STORAGE_DRIVER, StorageDriver } from './interfaces/storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver, S3StorageOptions } from './drivers/s3-storage.driver';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([StoredFile])],
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): StorageDriver => {
+        const driver = configService.get<StorageDriverName>('storage.driver', StorageDriverName.LOCAL);
+
+        if (driver === StorageDriverName.S3) {
+          return new S3StorageDriver(configService.getOrThrow<S3StorageOptions>('storage.s3'));
+        }
+
+        return new LocalStorageDriver(
+          configService.get<string>('storage.localDir', 'uploads/files'),
+        );
+      },
+    },
+    FileStorageService,
+  ],
+  exports: [FileStorageService],
+})
+export class StorageModule { }
@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class ChangePasswordDto {
@@ -11,12 +11,10 @@ export class ChangePasswordDto {
   currentPassword: string;
 
   @ApiProperty({
-    example: 'newPassword123',
-    description: 'New password',
-    minLength: 6,
+    example: 'NewPassword123!',
+    description: 'New password, checked against the password policy',
   })
   @IsString()
   @IsNotEmpty()
-  @MinLength(6)
   newPassword: string;
 }
@@ -2,7 +2,6 @@ import {
   IsEmail,
   IsNotEmpty,
   IsString,
-  MinLength,
   IsEnum,
   IsOptional,
 } from 'class-validator';
@@ -27,13 +26,11 @@ export class CreateUserDto {
   name: string;
 
   @ApiProperty({
-    example: 'password123',
-    description: 'User password',
-    minLength: 6,
+    example: 'Password123!',
+    description: 'User password, checked against the password policy',
   })
   @IsString()
   @IsNotEmpty()
-  @MinLength(6)
   password: string;
 
   @ApiProperty({
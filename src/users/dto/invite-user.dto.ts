@@ -0,0 +1,5 @@
+import { OmitType } from '@nestjs/swagger';
+import { CreateUserDto } from './create-user.dto';
+
+// The invited user chooses the password through the link in the mail
+export class InviteUserDto extends OmitType(CreateUserDto, ['password'] as const) { }
@@ -1,5 +1,5 @@
 import { PartialType } from '@nestjs/swagger';
-import { IsOptional, IsEnum } from 'class-validator';
+import { IsOptional, IsEnum, IsBoolean } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { CreateUserDto } from './create-user.dto';
 import { UserStatus } from '../entities/user.entity';
@@ -14,4 +14,13 @@ export class UpdateUserDto extends PartialType(CreateUserDto) {
   @IsOptional()
   @IsEnum(UserStatus)
   status?: UserStatus;
+
+  @ApiProperty({
+    example: true,
+    description: 'Have the user change their password at the next login',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  mustChangePassword?: boolean;
 }
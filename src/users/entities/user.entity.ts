@@ -19,6 +19,7 @@ export enum UserRole {
 export enum UserStatus {
   ACTIVE = 'active',
   INACTIVE = 'inactive',
+  INVITED = 'invited', // Has not set a password through the invitation yet
 }
 
 @Entity('users')
@@ -36,6 +37,13 @@ export class User {
   @Column()
   password: string;
 
+  @Column({ name: 'password_changed_at', type: 'timestamp', nullable: true })
+  passwordChangedAt: Date | null;
+
+  // Set by an admin to have the password changed at the next login
+  @Column({ name: 'must_change_password', type: 'boolean', default: false })
+  mustChangePassword: boolean;
+
   @Column({
     type: 'enum',
     enum: UserRole,
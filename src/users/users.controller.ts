@@ -17,13 +17,21 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { SessionsService } from '../auth/sessions.service';
+import { LoginAttemptsService } from '../auth/login-attempts.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { ApiKeysService } from '../auth/api-keys.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
+import { InviteUserDto } from './dto/invite-user.dto';
+import { CreateApiKeyDto } from '../auth/dto/create-api-key.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AllowExpiredPassword } from '../auth/decorators/allow-expired-password.decorator';
+import { AllowPendingTwoFactor } from '../auth/decorators/allow-pending-two-factor.decorator';
 import { User, UserRole } from './entities/user.entity';
 
 @ApiTags('Users')
@@ -31,7 +39,13 @@ import { User, UserRole } from './entities/user.entity';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
 
   @Post()
   @Roles(UserRole.ADMIN)
@@ -40,6 +54,10 @@ export class UsersController {
     status: 201,
     description: 'User created successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Password breaks the password policy',
+  })
   @ApiResponse({
     status: 403,
     description: 'Forbidden - Admin access required',
@@ -57,6 +75,54 @@ export class UsersController {
     };
   }
 
+  @Post('invitations')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Invite a user to choose their own password (Admin only)' })
+  @ApiResponse({
+    status: 201,
+    description: 'User created and invitation mailed',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'User with this email already exists',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'The invitation mail could not be sent, the user was created and it can be sent again',
+  })
+  async invite(@Body() inviteUserDto: InviteUserDto, @CurrentUser() admin: User) {
+    const user = await this.usersService.invite(inviteUserDto, admin);
+    return {
+      success: true,
+      message: 'Invitation sent successfully',
+      data: user,
+    };
+  }
+
+  @Post(':id/invitations')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a new invitation, the previous link stops working (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitation mailed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'User has already accepted the invitation',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async resendInvitation(@Param('id') id: string, @CurrentUser() admin: User) {
+    await this.usersService.resendInvitation(id, admin);
+    return {
+      success: true,
+      message: 'Invitation sent successfully',
+    };
+  }
+
   @Get()
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Get all users (Admin only)' })
@@ -102,6 +168,10 @@ export class UsersController {
     status: 404,
     description: 'User not found',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Password breaks the password policy or was used recently',
+  })
   @ApiResponse({
     status: 409,
     description: 'Email already exists',
@@ -131,8 +201,189 @@ export class UsersController {
     await this.usersService.remove(id);
   }
 
+  @Get(':id/sessions')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List the sessions of a user (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async findSessions(@Param('id') id: string) {
+    await this.usersService.findOne(id);
+    const sessions = await this.sessionsService.findAll(id);
+    return {
+      success: true,
+      data: sessions,
+    };
+  }
+
+  @Delete(':id/sessions')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'End all sessions of a user (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions ended',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async revokeSessions(@Param('id') id: string) {
+    await this.usersService.findOne(id);
+    await this.sessionsService.revokeAll(id);
+    return {
+      success: true,
+      message: 'Sessions ended',
+    };
+  }
+
+  @Delete(':id/sessions/:sessionId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'End one session of a user (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session ended',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User or session not found',
+  })
+  async revokeSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+  ) {
+    await this.usersService.findOne(id);
+    await this.sessionsService.revoke(id, sessionId);
+    return {
+      success: true,
+      message: 'Session ended',
+    };
+  }
+
+  @Get(':id/api-keys')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List the API keys of a user (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async findApiKeys(@Param('id') id: string) {
+    await this.usersService.findOne(id);
+    const apiKeys = await this.apiKeysService.findAll(id);
+    return {
+      success: true,
+      data: apiKeys,
+    };
+  }
+
+  @Post(':id/api-keys')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create an API key for a user, e.g. a service account (Admin only)' })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created, the key itself is only shown now',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Too many API keys, or the expiry or rate limit is out of range',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async createApiKey(
+    @Param('id') id: string,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @CurrentUser() admin: User,
+  ) {
+    const user = await this.usersService.findOne(id);
+    const apiKey = await this.apiKeysService.create(user, createApiKeyDto, admin);
+    return {
+      success: true,
+      message: 'API key created, store it now as it cannot be shown again',
+      data: apiKey,
+    };
+  }
+
+  @Delete(':id/api-keys/:apiKeyId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Revoke an API key of a user (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key revoked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User or API key not found',
+  })
+  async revokeApiKey(
+    @Param('id') id: string,
+    @Param('apiKeyId') apiKeyId: string,
+    @CurrentUser() admin: User,
+  ) {
+    const user = await this.usersService.findOne(id);
+    await this.apiKeysService.revoke(user, apiKeyId, admin);
+    return {
+      success: true,
+      message: 'API key revoked',
+    };
+  }
+
+  @Post(':id/unlock')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Lift a lockout after failed logins (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Failed logins of the user cleared',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async unlock(@Param('id') id: string, @CurrentUser() admin: User) {
+    const user = await this.usersService.findOne(id);
+    const wasLocked = await this.loginAttemptsService.unlock(user, admin);
+    return {
+      success: true,
+      message: wasLocked ? 'User unlocked successfully' : 'User was not locked',
+    };
+  }
+
+  @Delete(':id/two-factor')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Turn off two-factor authentication for a user who lost their authenticator (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication and recovery codes of the user removed',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async resetTwoFactor(@Param('id') id: string, @CurrentUser() admin: User) {
+    const user = await this.usersService.findOne(id);
+    const wasEnabled = await this.twoFactorService.reset(user, admin);
+    return {
+      success: true,
+      message: wasEnabled
+        ? 'Two-factor authentication reset successfully'
+        : 'Two-factor authentication was not enabled',
+    };
+  }
+
   @Post('change-password')
   @HttpCode(HttpStatus.OK)
+  @AllowExpiredPassword()
+  @AllowPendingTwoFactor()
   @ApiOperation({ summary: 'Change current user password' })
   @ApiResponse({
     status: 200,
@@ -140,7 +391,7 @@ export class UsersController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Current password is incorrect',
+    description: 'Current password is incorrect, or the new one breaks the password policy or was used recently',
   })
   async changePassword(
     @CurrentUser() user: User,
@@ -0,0 +1,119 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ThrottlerStorage } from '@nestjs/throttler';
+import { Repository } from 'typeorm';
+import { UsersService } from './users.service';
+import { User, UserRole, UserStatus } from './entities/user.entity';
+import { ApiKeysService } from '../auth/api-keys.service';
+import { ApiKey, ApiKeyScope } from '../auth/entities/api-key.entity';
+import { SessionsService } from '../auth/sessions.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
+import { AccountTokensService } from '../auth/account-tokens.service';
+import { SecurityEventsService } from '../audit/security-events.service';
+
+describe('UsersService', () => {
+  let service: UsersService;
+  let apiKeysService: ApiKeysService;
+  let user: User;
+  let apiKey: ApiKey;
+
+  const mockUserRepository = {
+    findOne: jest.fn(() => Promise.resolve({ ...user })),
+    update: jest.fn((id: string, changes: Partial<User>) => {
+      Object.assign(user, changes);
+      return Promise.resolve({ affected: 1 });
+    }),
+  };
+
+  const revokeQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockApiKeyRepository = {
+    findOne: jest.fn(() => Promise.resolve({ ...apiKey, user: { ...user } })),
+    update: jest.fn(),
+    createQueryBuilder: jest.fn(() => revokeQueryBuilder),
+  };
+
+  const mockSessionsService = {
+    revokeAll: jest.fn(),
+  };
+
+  const mockPasswordPolicyService = {
+    assertAcceptable: jest.fn(),
+    hash: jest.fn((password: string) => Promise.resolve(`hashed:${password}`)),
+    remember: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    user = {
+      id: 'user-1',
+      email: 'jane@example.com',
+      name: 'Jane',
+      role: UserRole.UPLOADER,
+      status: UserStatus.ACTIVE,
+      isDeleted: false,
+    } as User;
+    apiKey = {
+      id: 'key-1',
+      scopes: [ApiKeyScope.ORDERS_READ],
+      rateLimit: null,
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+    } as ApiKey;
+    // Applies ApiKeysService.revokeAll to the one stored key
+    revokeQueryBuilder.execute.mockImplementation(() => {
+      const [[changes]] = revokeQueryBuilder.set.mock.calls as [[Partial<ApiKey>]];
+      const affected = apiKey.revokedAt ? 0 : 1;
+      Object.assign(apiKey, changes);
+      return Promise.resolve({ affected });
+    });
+
+    apiKeysService = new ApiKeysService(
+      mockApiKeyRepository as unknown as Repository<ApiKey>,
+      {} as ThrottlerStorage,
+      {} as SecurityEventsService,
+      { get: jest.fn((key: string, defaultValue: unknown) => defaultValue) } as unknown as ConfigService,
+    );
+    service = new UsersService(
+      mockUserRepository as unknown as Repository<User>,
+      mockSessionsService as unknown as SessionsService,
+      mockPasswordPolicyService as unknown as PasswordPolicyService,
+      {} as AccountTokensService,
+      apiKeysService,
+    );
+  });
+
+  describe('remove', () => {
+    it('should end the sessions and revoke the API keys of the user', async () => {
+      await service.remove('user-1');
+
+      expect(user.isDeleted).toBe(true);
+      expect(mockSessionsService.revokeAll).toHaveBeenCalledWith('user-1');
+      expect(revokeQueryBuilder.where).toHaveBeenCalledWith('user_id = :userId', { userId: 'user-1' });
+      expect(apiKey.revokedAt).toEqual(expect.any(Date));
+    });
+
+    it('should not bring the API keys back when the account is restored', async () => {
+      await expect(apiKeysService.authenticate('otk_secret', null)).resolves.toBeDefined();
+
+      await service.remove('user-1');
+      // Creating a user with the email of a deleted one restores that account
+      await service.create({
+        email: 'jane@example.com',
+        name: 'Jane Again',
+        password: 'NewPassword123!',
+        role: UserRole.UPLOADER,
+      });
+
+      expect(user.isDeleted).toBe(false);
+      await expect(apiKeysService.authenticate('otk_secret', null)).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -6,17 +6,26 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import * as bcrypt from 'bcrypt';
-import { User } from './entities/user.entity';
+import { randomBytes } from 'crypto';
+import { User, UserStatus } from './entities/user.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
+import { InviteUserDto } from './dto/invite-user.dto';
+import { SessionsService } from '../auth/sessions.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
+import { AccountTokensService } from '../auth/account-tokens.service';
+import { ApiKeysService } from '../auth/api-keys.service';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    private sessionsService: SessionsService,
+    private passwordPolicyService: PasswordPolicyService,
+    private accountTokensService: AccountTokensService,
+    private apiKeysService: ApiKeysService,
   ) {}
 
   async create(createUserDto: CreateUserDto): Promise<User> {
@@ -29,33 +38,87 @@ export class UsersService {
       throw new ConflictException('User with this email already exists');
     }
 
+    await this.passwordPolicyService.assertAcceptable(createUserDto.password);
+    const hashedPassword = await this.passwordPolicyService.hash(createUserDto.password);
+
     // If user exists but is soft-deleted, restore them with new data
     if (existingUser && existingUser.isDeleted) {
-      const hashedPassword = await bcrypt.hash(createUserDto.password, 10);
       await this.userRepository.update(existingUser.id, {
         ...createUserDto,
         password: hashedPassword,
+        passwordChangedAt: new Date(),
+        mustChangePassword: false,
         isDeleted: false,
       });
+      await this.passwordPolicyService.remember(existingUser.id, hashedPassword);
       return this.findOne(existingUser.id);
     }
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(createUserDto.password, 10);
-
     // Create user
     const user = this.userRepository.create({
       ...createUserDto,
       password: hashedPassword,
+      passwordChangedAt: new Date(),
     });
 
     const savedUser = await this.userRepository.save(user);
+    await this.passwordPolicyService.remember(savedUser.id, hashedPassword);
 
     // Remove password from response
     const { password, ...result } = savedUser;
     return result as User;
   }
 
+  /**
+   * Creates a user without a password and mails them a link to choose one
+   * @throws ServiceUnavailableException if the mail could not be sent; the
+   * invitation can then be sent again
+   */
+  async invite(inviteUserDto: InviteUserDto, admin: User): Promise<User> {
+    const existingUser = await this.userRepository.findOne({
+      where: { email: inviteUserDto.email },
+    });
+
+    if (existingUser && !existingUser.isDeleted) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    // Nobody knows this password, so the account cannot be used before the invitation is accepted
+    const unusablePassword = await this.passwordPolicyService.hash(randomBytes(32).toString('hex'));
+    const invited = {
+      ...inviteUserDto,
+      password: unusablePassword,
+      status: UserStatus.INVITED,
+      passwordChangedAt: null,
+      mustChangePassword: false,
+    };
+
+    let userId: string;
+    if (existingUser) {
+      await this.userRepository.update(existingUser.id, { ...invited, isDeleted: false });
+      userId = existingUser.id;
+    } else {
+      userId = (await this.userRepository.save(this.userRepository.create(invited))).id;
+    }
+
+    const user = await this.findOne(userId);
+    await this.accountTokensService.sendInvitation(user, admin);
+    return user;
+  }
+
+  /**
+   * @throws BadRequestException if the user has already accepted the invitation
+   */
+  async resendInvitation(id: string, admin: User): Promise<void> {
+    const user = await this.findOne(id);
+
+    if (user.status !== UserStatus.INVITED) {
+      throw new BadRequestException('User has already accepted the invitation');
+    }
+
+    await this.accountTokensService.sendInvitation(user, admin);
+  }
+
   async findAll(): Promise<User[]> {
     const users = await this.userRepository.find({
       where: { isDeleted: false }, // Only return non-deleted users
@@ -110,12 +173,28 @@ export class UsersService {
       }
     }
 
-    // If password is being updated, hash it
+    const changes: Partial<User> = { ...updateUserDto };
+    let hashedPassword: string | null = null;
+
+    // If password is being updated, check and hash it
     if (updateUserDto.password) {
-      updateUserDto.password = await bcrypt.hash(updateUserDto.password, 10);
+      await this.passwordPolicyService.assertAcceptable(updateUserDto.password, id);
+      hashedPassword = await this.passwordPolicyService.hash(updateUserDto.password);
+      changes.password = hashedPassword;
+      changes.passwordChangedAt = new Date();
+    }
+
+    await this.userRepository.update(id, changes);
+
+    if (hashedPassword) {
+      await this.passwordPolicyService.remember(id, hashedPassword);
+    }
+
+    // A deactivated user is logged out everywhere at once
+    if (updateUserDto.status === UserStatus.INACTIVE) {
+      await this.sessionsService.revokeAll(id);
     }
 
-    await this.userRepository.update(id, updateUserDto);
     return this.findOne(id);
   }
 
@@ -123,6 +202,9 @@ export class UsersService {
     const user = await this.findOne(id);
     // Soft delete: set isDeleted to true instead of removing from database
     await this.userRepository.update(id, { isDeleted: true });
+    await this.sessionsService.revokeAll(id);
+    // Creating a user with the same email restores the account, which must not bring its keys back
+    await this.apiKeysService.revokeAll(id);
   }
 
   async changePassword(
@@ -138,7 +220,7 @@ export class UsersService {
     }
 
     // Verify current password
-    const isCurrentPasswordValid = await bcrypt.compare(
+    const isCurrentPasswordValid = await this.passwordPolicyService.verify(
       changePasswordDto.currentPassword,
       user.password,
     );
@@ -147,15 +229,22 @@ export class UsersService {
       throw new BadRequestException('Current password is incorrect');
     }
 
+    await this.passwordPolicyService.assertAcceptable(
+      changePasswordDto.newPassword,
+      userId,
+    );
+
     // Hash new password
-    const hashedNewPassword = await bcrypt.hash(
+    const hashedNewPassword = await this.passwordPolicyService.hash(
       changePasswordDto.newPassword,
-      10,
     );
 
-    // Update password
+    // Update password, which also lifts an expiry
     await this.userRepository.update(userId, {
       password: hashedNewPassword,
+      passwordChangedAt: new Date(),
+      mustChangePassword: false,
     });
+    await this.passwordPolicyService.remember(userId, hashedNewPassword);
   }
 }